@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createApiContext } from '../../test/api-context';
+import { createSupabaseMock } from '../../test/supabase-mock';
+import { createSupabaseServerInstance } from '../db/supabase.client';
+import { POST as login } from '../pages/api/auth/login';
+import { accountArchiveSchema } from '../lib/schemas/account.schema';
+import {
+  DEFAULT_DELETION_GRACE_DAYS,
+  findArchiveReferenceErrors,
+  parseDeletionGraceDays,
+} from '../lib/services/account.service';
+import type { AccountArchiveDto } from '../types';
+
+vi.mock('../db/supabase.client', () => ({ createSupabaseServerInstance: vi.fn() }));
+
+const TIMESTAMP = '2025-05-20T10:00:00.123456+00:00';
+
+function createArchive(): AccountArchiveDto {
+  return {
+    format: '10xcard-account',
+    version: 1,
+    exported_at: '2025-05-27T00:00:00.000Z',
+    decks: [
+      { id: 3, name: 'Biologia', description: null, created_at: TIMESTAMP, updated_at: TIMESTAMP },
+    ],
+    tags: [{ id: 7, name: 'genetyka', created_at: TIMESTAMP, updated_at: TIMESTAMP }],
+    generations: [
+      {
+        id: 1,
+        model: 'openai/gpt-4o-mini',
+        source_text_hash: 'hash',
+        source_text_length: 5000,
+        generated_count: 2,
+        accepted_count: 1,
+        duration: 3500,
+        status: 'completed',
+        card_count: 5,
+        difficulty: null,
+        language: null,
+        focus: null,
+        prompt_tokens: 1200,
+        completion_tokens: 450,
+        cost: 0.0003,
+        request_hash: null,
+        reused: false,
+        created_at: TIMESTAMP,
+        updated_at: TIMESTAMP,
+      },
+    ],
+    flashcards: [
+      {
+        id: 12,
+        generation_id: 1,
+        deck_id: 3,
+        front: 'Co to jest DNA?',
+        back: 'Kwas deoksyrybonukleinowy',
+        source: 'ai-full',
+        created_at: TIMESTAMP,
+        updated_at: TIMESTAMP,
+        tags: [{ id: 7, name: 'genetyka' }],
+        review: {
+          ease_factor: 2.5,
+          interval: 6,
+          repetitions: 2,
+          lapses: 0,
+          due_at: TIMESTAMP,
+          last_reviewed_at: TIMESTAMP,
+        },
+      },
+    ],
+    generation_proposals: [
+      {
+        id: 4,
+        generation_id: 1,
+        position: 0,
+        original_front: 'Co to jest DNA?',
+        original_back: 'Kwas deoksyrybonukleinowy',
+        final_front: null,
+        final_back: null,
+        suggested_tags: ['genetyka'],
+        decision: 'accepted',
+        flashcard_id: 12,
+        created_at: TIMESTAMP,
+        decided_at: TIMESTAMP,
+      },
+    ],
+    generation_error_logs: [
+      {
+        id: 2,
+        generation_id: null,
+        model: 'openai/gpt-4o-mini',
+        error_code: 'timeout',
+        error_message: 'Request timed out',
+        http_status: null,
+        attempt_count: 3,
+        source_text_hash: 'hash',
+        source_text_length: 5000,
+        timestamp: TIMESTAMP,
+      },
+    ],
+  };
+}
+
+describe('accountArchiveSchema', () => {
+  it('should accept an exported archive', () => {
+    // Act
+    const result = accountArchiveSchema.safeParse(createArchive());
+
+    // Assert
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject archives of another format or version', () => {
+    expect(accountArchiveSchema.safeParse({ ...createArchive(), version: 2 }).success).toBe(false);
+    expect(accountArchiveSchema.safeParse({ ...createArchive(), format: 'anki' }).success).toBe(
+      false
+    );
+  });
+});
+
+describe('findArchiveReferenceErrors', () => {
+  it('should accept an archive with consistent links', () => {
+    expect(findArchiveReferenceErrors(accountArchiveSchema.parse(createArchive()))).toEqual([]);
+  });
+
+  it('should report links to records missing from the archive', () => {
+    // Arrange
+    const archive = createArchive();
+    archive.generations = [];
+    archive.tags = [];
+
+    // Act
+    const errors = findArchiveReferenceErrors(accountArchiveSchema.parse(archive));
+
+    // Assert
+    expect(errors).toEqual([
+      'flashcards[0]: unknown generation 1',
+      'flashcards[0]: unknown tag 7',
+      'generation_proposals[0]: unknown generation 1',
+    ]);
+  });
+
+  it('should report duplicate IDs and names', () => {
+    // Arrange
+    const archive = createArchive();
+    archive.decks.push({ ...archive.decks[0], name: ' Biologia ' });
+    archive.tags.push({ ...archive.tags[0], id: 8, name: 'Genetyka' });
+
+    // Act
+    const errors = findArchiveReferenceErrors(accountArchiveSchema.parse(archive));
+
+    // Assert
+    expect(errors).toEqual([
+      'decks: duplicate IDs',
+      'decks: duplicate names',
+      'tags: duplicate names',
+    ]);
+  });
+
+  it('should accept decks whose names differ only in case', () => {
+    // Arrange
+    const archive = createArchive();
+    archive.decks.push({ ...archive.decks[0], id: 4, name: 'biologia' });
+
+    // Act
+    const errors = findArchiveReferenceErrors(accountArchiveSchema.parse(archive));
+
+    // Assert
+    expect(errors).toEqual([]);
+  });
+});
+
+describe('parseDeletionGraceDays', () => {
+  it('should use the configured number of days', () => {
+    expect(parseDeletionGraceDays('30')).toBe(30);
+    expect(parseDeletionGraceDays('0')).toBe(0);
+  });
+
+  it('should fall back to the default for missing or invalid values', () => {
+    expect(parseDeletionGraceDays(undefined)).toBe(DEFAULT_DELETION_GRACE_DAYS);
+    expect(parseDeletionGraceDays('two weeks')).toBe(DEFAULT_DELETION_GRACE_DAYS);
+    expect(parseDeletionGraceDays('-1')).toBe(DEFAULT_DELETION_GRACE_DAYS);
+    expect(parseDeletionGraceDays('1.5')).toBe(DEFAULT_DELETION_GRACE_DAYS);
+  });
+});
+
+describe('POST /api/auth/login', () => {
+  const user = { id: 'user-1', email: 'user-1@example.com' };
+
+  const signIn = (respond: Parameters<typeof createSupabaseMock>[0]) => {
+    const supabase = createSupabaseMock(respond);
+    supabase.auth.signInWithPassword.mockResolvedValue({
+      data: { user, session: { access_token: 'token' } },
+      error: null,
+    });
+    vi.mocked(createSupabaseServerInstance).mockReturnValue(supabase.client);
+    return supabase;
+  };
+
+  const context = () =>
+    createApiContext({
+      method: 'POST',
+      body: { email: user.email, password: 'secret' },
+    });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  it('should cancel a pending account deletion', async () => {
+    // Arrange
+    const supabase = signIn(() => ({
+      data: { id: 1, status: 'cancelled', scheduled_for: '2025-06-10T00:00:00Z' },
+    }));
+
+    // Act
+    const response = await login(context());
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ deletion_cancelled: true });
+    const [cancellation] = supabase.queries;
+    expect(cancellation.table).toBe('account_deletions');
+    expect(cancellation.args('update')?.[0]).toMatchObject({ status: 'cancelled' });
+    expect(cancellation.has('eq', 'user_id', user.id)).toBe(true);
+    expect(cancellation.has('eq', 'status', 'pending')).toBe(true);
+  });
+
+  it('should report when there was no deletion to cancel', async () => {
+    // Arrange
+    signIn(() => ({ data: null }));
+
+    // Act
+    const response = await login(context());
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ deletion_cancelled: false });
+  });
+
+  it('should still log the user in when cancelling the deletion fails', async () => {
+    // Arrange
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    signIn(() => ({ error: { message: 'permission denied', code: '42501' } }));
+
+    // Act
+    const response = await login(context());
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ user, deletion_cancelled: false });
+    expect(consoleError).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { zipSync } from 'fflate';
+import { buildApkg, type AnkiExportCard } from '../lib/anki/apkg';
+import { MAX_COLLECTION_SIZE, readApkg, type AnkiPackage } from '../lib/anki/apkg-reader';
+import { ankiHtmlToText } from '../lib/anki/html';
+import { prepareAnkiImport } from '../lib/services/anki-import.service';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+
+const exportedCards: AnkiExportCard[] = [
+  {
+    id: 1,
+    front: 'Co to jest DNA?',
+    back: 'Kwas\ndeoksyrybonukleinowy',
+    tags: ['genetyka'],
+    deck: 'Biologia',
+    created_at: '2025-05-20T10:00:00Z',
+    review: {
+      ease_factor: 2.36,
+      interval: 6,
+      repetitions: 2,
+      lapses: 1,
+      due_at: '2025-06-04T00:00:00.000Z',
+      last_reviewed_at: '2025-05-29T10:00:00.000Z',
+    },
+  },
+];
+
+function packageWithNote(fields: string[]): AnkiPackage {
+  return {
+    crt: 0,
+    noteTypes: [{ id: '1', name: 'Basic', fields: ['Front', 'Back'] }],
+    notes: [{ id: 1, noteTypeId: '1', fields, tags: [], deck: 'Default', card: null }],
+  };
+}
+
+describe('ankiHtmlToText', () => {
+  it('should convert line breaks and strip tags', () => {
+    expect(ankiHtmlToText('<div>Line <b>one</b></div><div>two<br>three</div>')).toBe(
+      'Line one\ntwo\nthree'
+    );
+  });
+
+  it('should decode entities, drop sounds and resolve cloze deletions', () => {
+    expect(
+      ankiHtmlToText('A&nbsp;&lt;b&gt; &amp; &#261; {{c1::Warszawa::stolica}} [sound:a.mp3]')
+    ).toBe('A <b> & ą Warszawa');
+  });
+});
+
+describe('prepareAnkiImport', () => {
+  it('should read back a package exported by 10xCard with review history', async () => {
+    // Arrange
+    const pkg = await readApkg(await buildApkg(exportedCards, NOW));
+
+    // Act
+    const { report, schedules } = prepareAnkiImport(
+      pkg,
+      { overflow: 'truncate', include_scheduling: true },
+      NOW
+    );
+
+    // Assert
+    expect(report.note_types).toEqual([
+      { id: expect.any(String), name: '10xCard Basic', fields: ['Front', 'Back'], note_count: 1 },
+    ]);
+    expect(report.notes[0]).toMatchObject({
+      front: 'Co to jest DNA?',
+      back: 'Kwas\ndeoksyrybonukleinowy',
+      tags: ['genetyka'],
+      deck: 'Biologia',
+      errors: [],
+    });
+    expect(schedules[0]).toEqual({
+      ease_factor: 2.36,
+      interval: 6,
+      repetitions: 2,
+      lapses: 1,
+      due_at: '2025-06-04T00:00:00.000Z',
+      last_reviewed_at: '2025-05-29T00:00:00.000Z',
+    });
+  });
+
+  it('should skip the review history when not requested', async () => {
+    const pkg = await readApkg(await buildApkg(exportedCards, NOW));
+
+    const { schedules } = prepareAnkiImport(pkg, {
+      overflow: 'truncate',
+      include_scheduling: false,
+    });
+
+    expect(schedules).toEqual([null]);
+  });
+
+  it('should truncate content over the limits and flag it', () => {
+    // Act
+    const { report } = prepareAnkiImport(packageWithNote(['a'.repeat(250), 'b'.repeat(700)]), {
+      overflow: 'truncate',
+      include_scheduling: false,
+    });
+
+    // Assert
+    const [note] = report.notes;
+    expect(note.front).toHaveLength(200);
+    expect(note.back).toHaveLength(600);
+    expect(note.errors).toEqual([]);
+    expect(note.warnings).toEqual([
+      'Front truncated to 200 characters',
+      'Back truncated to 600 characters',
+    ]);
+  });
+
+  it('should report content over the limits when skipping', () => {
+    const { report } = prepareAnkiImport(packageWithNote(['a'.repeat(250), 'ok']), {
+      overflow: 'skip',
+      include_scheduling: false,
+    });
+
+    expect(report.notes[0].errors).toEqual(['Front content cannot exceed 200 characters']);
+  });
+
+  it('should use the given field mapping', () => {
+    const { report } = prepareAnkiImport(packageWithNote(['Question', 'Answer']), {
+      mapping: { '1': { front: 1, back: 0 } },
+      overflow: 'truncate',
+      include_scheduling: false,
+    });
+
+    expect(report.notes[0]).toMatchObject({ front: 'Answer', back: 'Question', deck: null });
+  });
+});
+
+describe('readApkg', () => {
+  it('should reject files that are not Anki packages', async () => {
+    await expect(readApkg(new Uint8Array([1, 2, 3]))).rejects.toThrow('Invalid Anki package');
+  });
+
+  it('should reject a collection that is too large when extracted', async () => {
+    // Arrange: a small archive declaring a collection larger than the limit
+    const bytes = zipSync({ 'collection.anki2': new Uint8Array(1024) });
+    const view = new DataView(bytes.buffer);
+    for (let offset = 0; offset < bytes.length - 4; offset++) {
+      // Uncompressed size of the local file header and of the central directory entry
+      if (view.getUint32(offset, true) === 0x04034b50) {
+        view.setUint32(offset + 22, MAX_COLLECTION_SIZE + 1, true);
+      } else if (view.getUint32(offset, true) === 0x02014b50) {
+        view.setUint32(offset + 24, MAX_COLLECTION_SIZE + 1, true);
+      }
+    }
+
+    // Act & Assert
+    await expect(readApkg(bytes)).rejects.toThrow(
+      'Invalid Anki package: the collection exceeds 200 MB when extracted'
+    );
+  });
+});
@@ -0,0 +1,120 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import initSqlJs, { type Database } from 'sql.js';
+import { strFromU8, unzipSync } from 'fflate';
+import { buildApkg, ROOT_DECK_NAME, type AnkiExportCard } from '../lib/anki/apkg';
+
+const NOW = new Date('2025-06-01T12:00:00Z');
+const DAY_IN_SECONDS = 24 * 60 * 60;
+
+const cards: AnkiExportCard[] = [
+  {
+    id: 1,
+    front: 'Co to jest <DNA>?',
+    back: 'Kwas\ndeoksyrybonukleinowy',
+    tags: ['genetyka', 'cell biology'],
+    deck: 'Biologia',
+    created_at: '2025-05-20T10:00:00Z',
+    review: {
+      ease_factor: 2.36,
+      interval: 6,
+      repetitions: 2,
+      lapses: 1,
+      due_at: '2025-06-04T10:00:00Z',
+      last_reviewed_at: '2025-05-29T10:00:00Z',
+    },
+  },
+  {
+    id: 2,
+    front: 'Stolica Polski',
+    back: 'Warszawa',
+    tags: [],
+    deck: null,
+    created_at: '2025-05-20T10:00:00Z',
+    review: {
+      ease_factor: 2.5,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      due_at: '2025-05-20T10:00:00Z',
+      last_reviewed_at: null,
+    },
+  },
+];
+
+async function openCollection(apkg: Uint8Array): Promise<{ db: Database; files: string[] }> {
+  const files = unzipSync(apkg);
+  const SQL = await initSqlJs();
+  return { db: new SQL.Database(files['collection.anki2']), files: Object.keys(files) };
+}
+
+function selectAll(db: Database, sql: string) {
+  const [result] = db.exec(sql);
+  return result.values.map((row) =>
+    Object.fromEntries(result.columns.map((column, index) => [column, row[index]]))
+  );
+}
+
+describe('buildApkg', () => {
+  it('should produce a zip with the collection and an empty media map', async () => {
+    // Act
+    const apkg = await buildApkg(cards, NOW);
+
+    // Assert
+    const files = unzipSync(apkg);
+    expect(Object.keys(files).sort()).toEqual(['collection.anki2', 'media']);
+    expect(strFromU8(files.media)).toBe('{}');
+  });
+
+  it('should write notes with fields and tags', async () => {
+    // Arrange
+    const { db } = await openCollection(await buildApkg(cards, NOW));
+
+    // Act
+    const notes = selectAll(db, 'select guid, flds, sfld, tags from notes order by guid');
+
+    // Assert
+    expect(notes).toEqual([
+      {
+        guid: '10xcard-1',
+        flds: 'Co to jest &lt;DNA&gt;?\x1fKwas<br>deoksyrybonukleinowy',
+        sfld: 'Co to jest <DNA>?',
+        tags: ' genetyka cell_biology ',
+      },
+      { guid: '10xcard-2', flds: 'Stolica Polski\x1fWarszawa', sfld: 'Stolica Polski', tags: '' },
+    ]);
+    db.close();
+  });
+
+  it('should place cards in decks and keep review scheduling', async () => {
+    // Arrange
+    const { db } = await openCollection(await buildApkg(cards, NOW));
+    const [col] = selectAll(db, 'select crt, decks from col');
+    const decks = JSON.parse(col.decks as string) as Record<string, { name: string }>;
+    const deckNames = Object.fromEntries(Object.values(decks).map((d) => [d.name, d]));
+
+    // Act
+    const reviewed = selectAll(
+      db,
+      "select c.* from cards c join notes n on n.id = c.nid where n.guid = '10xcard-1'"
+    )[0];
+    const fresh = selectAll(
+      db,
+      "select c.* from cards c join notes n on n.id = c.nid where n.guid = '10xcard-2'"
+    )[0];
+
+    // Assert
+    expect(Object.keys(deckNames)).toEqual(
+      expect.arrayContaining([ROOT_DECK_NAME, `${ROOT_DECK_NAME}::Biologia`])
+    );
+    expect(decks[String(reviewed.did)].name).toBe(`${ROOT_DECK_NAME}::Biologia`);
+    expect(reviewed).toMatchObject({ type: 2, queue: 2, ivl: 6, factor: 2360, reps: 2, lapses: 1 });
+    expect((col.crt as number) + (reviewed.due as number) * DAY_IN_SECONDS).toBe(
+      Date.parse('2025-06-04T00:00:00Z') / 1000
+    );
+
+    expect(decks[String(fresh.did)].name).toBe(ROOT_DECK_NAME);
+    expect(fresh).toMatchObject({ type: 0, queue: 0, ivl: 0, reps: 0 });
+    db.close();
+  });
+});
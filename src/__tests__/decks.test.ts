@@ -0,0 +1,205 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createApiContext, TEST_USER_ID } from '../../test/api-context';
+import { createSupabaseMock } from '../../test/supabase-mock';
+import { flashcardsQuerySchema } from '../lib/schemas/flashcards.schema';
+import { DecksService } from '../lib/services/decks.service';
+import { POST as createDeck } from '../pages/api/decks';
+import { DELETE as deleteDeck, GET as getDeck, PUT as updateDeck } from '../pages/api/decks/[id]';
+import { GET as getFlashcards } from '../pages/api/flashcards';
+
+const deckRow = {
+  id: 3,
+  name: 'Biologia',
+  description: null,
+  created_at: '2025-05-24T10:00:00Z',
+  updated_at: '2025-05-24T10:00:00Z',
+  flashcards: [{ count: 12 }],
+};
+
+const conflict = { error: { message: 'duplicate key value', code: '23505' } };
+const notFound = {
+  error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' },
+};
+
+describe('DecksService', () => {
+  it('should create a deck of the user with its flashcard count', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => ({
+      data: { ...deckRow, flashcards: [{ count: 0 }] },
+    }));
+
+    // Act
+    const deck = await new DecksService(supabase.client).createDeck(TEST_USER_ID, {
+      name: 'Biologia',
+    });
+
+    // Assert
+    expect(supabase.queries[0].args('insert')?.[0]).toEqual({
+      name: 'Biologia',
+      user_id: TEST_USER_ID,
+    });
+    expect(deck).toMatchObject({ id: 3, name: 'Biologia', flashcard_count: 0 });
+    expect(deck).not.toHaveProperty('flashcards');
+  });
+
+  it.each([
+    ['creating', (service: DecksService) => service.createDeck(TEST_USER_ID, { name: 'Biologia' })],
+    [
+      'renaming',
+      (service: DecksService) => service.updateDeck(3, TEST_USER_ID, { name: 'Biologia' }),
+    ],
+  ])('should report a name conflict when %s a deck', async (_, act) => {
+    // Arrange
+    const supabase = createSupabaseMock(() => conflict);
+
+    // Act & Assert
+    await expect(act(new DecksService(supabase.client))).rejects.toThrow(
+      'Deck name already exists'
+    );
+  });
+
+  it('should delete only the deck and leave its flashcards to the database', async () => {
+    // Arrange
+    // flashcards.deck_id references decks with `on delete set null`: the flashcards stay unassigned
+    const supabase = createSupabaseMock(() => ({ data: [{ id: 3 }] }));
+
+    // Act
+    const deleted = await new DecksService(supabase.client).deleteDeck(3, TEST_USER_ID);
+
+    // Assert
+    expect(deleted).toBe(true);
+    expect(supabase.queries.map((query) => query.table)).toEqual(['decks']);
+    expect(supabase.queries[0].has('eq', 'user_id', TEST_USER_ID)).toBe(true);
+  });
+
+  it('should find deck references that are not decks of the user', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => ({ data: [{ id: 3 }] }));
+
+    // Act
+    const missing = await new DecksService(supabase.client).findMissingDeckIds(
+      [3, 8, 3],
+      TEST_USER_ID
+    );
+
+    // Assert
+    expect(missing).toEqual([8]);
+    expect(supabase.queries[0].has('in', 'id', [3, 8])).toBe(true);
+  });
+});
+
+describe('/api/decks', () => {
+  it('should answer a duplicate name with 409 on create', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => conflict);
+
+    // Act
+    const response = await createDeck(
+      createApiContext({ supabase: supabase.client, method: 'POST', body: { name: 'Biologia' } })
+    );
+
+    // Assert
+    expect(response.status).toBe(409);
+  });
+
+  it('should answer a duplicate name with 409 on rename', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => conflict);
+
+    // Act
+    const response = await updateDeck(
+      createApiContext({
+        supabase: supabase.client,
+        method: 'PUT',
+        params: { id: '3' },
+        body: { name: 'Biologia' },
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(409);
+  });
+
+  it('should answer 404 for a deck of another user', async () => {
+    // Arrange - the user filter (and row level security) finds no such deck
+    const supabase = createSupabaseMock((query) => {
+      if (query.has('delete')) return { data: [] };
+      if (query.has('update')) return { data: null };
+      return notFound;
+    });
+    const context = () => createApiContext({ supabase: supabase.client, params: { id: '3' } });
+
+    // Act
+    const responses = [
+      await getDeck(context()),
+      await updateDeck(
+        createApiContext({
+          supabase: supabase.client,
+          method: 'PUT',
+          params: { id: '3' },
+          body: { name: 'Zmienione' },
+        })
+      ),
+      await deleteDeck(context()),
+    ];
+
+    // Assert
+    expect(responses.map((response) => response.status)).toEqual([404, 404, 404]);
+    expect(supabase.queries.every((query) => query.has('eq', 'user_id', TEST_USER_ID))).toBe(true);
+  });
+
+  it('should answer 204 when a deck is deleted', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => ({ data: [{ id: 3 }] }));
+
+    // Act
+    const response = await deleteDeck(
+      createApiContext({ supabase: supabase.client, method: 'DELETE', params: { id: '3' } })
+    );
+
+    // Assert
+    expect(response.status).toBe(204);
+  });
+});
+
+describe('deck filter of GET /api/flashcards', () => {
+  it('should parse the deck ID', () => {
+    expect(flashcardsQuerySchema.parse({ deck_id: '3' }).deck_id).toBe(3);
+    expect(flashcardsQuerySchema.parse({}).deck_id).toBeUndefined();
+    expect(flashcardsQuerySchema.safeParse({ deck_id: '0' }).success).toBe(false);
+    expect(flashcardsQuerySchema.safeParse({ deck_id: 'abc' }).success).toBe(false);
+  });
+
+  it('should list only the flashcards of the deck', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => ({ data: [], count: 0 }));
+    supabase.auth.getSession.mockResolvedValue({
+      data: { session: { user: { id: TEST_USER_ID } } },
+    });
+
+    // Act
+    const response = await getFlashcards(
+      createApiContext({
+        supabase: supabase.client,
+        url: 'http://localhost/api/flashcards?deck_id=3',
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    const [query] = supabase.queries;
+    expect(query.has('eq', 'deck_id', 3)).toBe(true);
+    expect(query.has('eq', 'user_id', TEST_USER_ID)).toBe(true);
+  });
+
+  it('should reject an invalid deck ID', async () => {
+    // Act
+    const response = await getFlashcards(
+      createApiContext({ url: 'http://localhost/api/flashcards?deck_id=abc' })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+});
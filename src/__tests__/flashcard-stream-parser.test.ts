@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { FlashcardStreamParser } from '../lib/flashcard-stream-parser';
+
+const RESPONSE = JSON.stringify({
+  flashcards: [
+    { front: 'Co to jest DNA?', back: 'Kwas {deoksyrybonukleinowy}', tags: ['genetyka'] },
+    { front: 'Cytat "w cudzysłowie"', back: 'Odpowiedź\\nz [nawiasem]' },
+  ],
+});
+
+describe('FlashcardStreamParser', () => {
+  it('should emit each flashcard as soon as its object is complete', () => {
+    // Arrange
+    const parser = new FlashcardStreamParser();
+    const secondStart = RESPONSE.indexOf('{"front":"Cytat');
+
+    // Act
+    const first = parser.push(RESPONSE.slice(0, secondStart));
+    const second = parser.push(RESPONSE.slice(secondStart));
+
+    // Assert
+    expect(first).toEqual([
+      { front: 'Co to jest DNA?', back: 'Kwas {deoksyrybonukleinowy}', tags: ['genetyka'] },
+    ]);
+    expect(second).toEqual([
+      { front: 'Cytat "w cudzysłowie"', back: 'Odpowiedź\\nz [nawiasem]', tags: [] },
+    ]);
+  });
+
+  it('should handle fragments split at any character', () => {
+    // Arrange
+    const parser = new FlashcardStreamParser();
+
+    // Act
+    const flashcards = [...RESPONSE].flatMap((char) => parser.push(char));
+
+    // Assert
+    expect(flashcards.map((card) => card.front)).toEqual([
+      'Co to jest DNA?',
+      'Cytat "w cudzysłowie"',
+    ]);
+    expect(parser.text).toBe(RESPONSE);
+  });
+
+  it('should accept a code fence and a bare array', () => {
+    // Arrange
+    const parser = new FlashcardStreamParser();
+
+    // Act
+    const flashcards = parser.push('```json\n[{"front": "P", "back": "O"}]\n```');
+
+    // Assert
+    expect(flashcards).toEqual([{ front: 'P', back: 'O', tags: [] }]);
+  });
+
+  it('should skip items without a front and back and ignore text after the JSON', () => {
+    // Arrange
+    const parser = new FlashcardStreamParser();
+
+    // Act
+    const flashcards = parser.push(
+      '{"flashcards": [{"front": "P"}, {"front": "P2", "back": "O2"}]} {"front": "X", "back": "Y"}'
+    );
+
+    // Assert
+    expect(flashcards).toEqual([{ front: 'P2', back: 'O2', tags: [] }]);
+  });
+});
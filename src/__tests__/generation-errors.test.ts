@@ -0,0 +1,144 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApiContext } from '../../test/api-context';
+import { createSupabaseMock, type RecordedQuery } from '../../test/supabase-mock';
+import { resetCircuitBreakers } from '../lib/services/openrouter';
+import { GenerationService } from '../lib/services/generation.service';
+import { GenerationQuotaExceededError } from '../lib/services/quota.service';
+import { GET } from '../pages/api/generation-errors';
+
+const userId = 'user-1';
+const command = { source_text: 'a'.repeat(1500), force_refresh: true };
+
+const errorLogInsert = (queries: RecordedQuery[]) =>
+  queries
+    .find((query) => query.table === 'generation_error_logs' && query.has('insert'))
+    ?.args('insert')?.[0];
+
+describe('GenerationService error log', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'key');
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should log a failure before the generation exists without a generation link', async () => {
+    // Arrange
+    const supabase = createSupabaseMock((query) =>
+      query.table === 'create_generation' ? { error: { message: 'connection refused' } } : undefined
+    );
+
+    // Act
+    await expect(
+      new GenerationService(supabase.client).generateFlashcards(userId, command)
+    ).rejects.toThrow('Failed to create generation');
+
+    // Assert
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(errorLogInsert(supabase.queries)).toMatchObject({
+      user_id: userId,
+      generation_id: null,
+      error_code: 'unknown_error',
+      error_message: 'Failed to create generation: connection refused',
+      http_status: null,
+      attempt_count: 1,
+      model: 'openai/gpt-4.1-nano',
+      source_text_length: 1500,
+    });
+  });
+
+  it('should not log a generation refused by the daily quota', async () => {
+    // Arrange
+    const supabase = createSupabaseMock((query) =>
+      query.table === 'create_generation'
+        ? { error: { message: 'Daily generation quota exceeded', code: 'PT429' } }
+        : undefined
+    );
+
+    // Act
+    await expect(
+      new GenerationService(supabase.client).generateFlashcards(userId, command)
+    ).rejects.toBeInstanceOf(GenerationQuotaExceededError);
+
+    // Assert
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(errorLogInsert(supabase.queries)).toBeUndefined();
+    expect(supabase.queries.some((query) => query.table === 'end_generation')).toBe(false);
+  });
+
+  it('should log an OpenRouter failure with its code, status, attempts and model', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    fetchMock.mockImplementation(
+      async () => new Response(JSON.stringify({ error: { message: 'slow down' } }), { status: 429 })
+    );
+    const supabase = createSupabaseMock((query) =>
+      query.table === 'create_generation' ? { data: 42 } : undefined
+    );
+
+    // Act
+    const result = new GenerationService(supabase.client).generateFlashcards(userId, command);
+    result.catch(() => undefined);
+    await vi.advanceTimersByTimeAsync(60000);
+
+    // Assert
+    await expect(result).rejects.toMatchObject({ name: 'RateLimitError' });
+    expect(errorLogInsert(supabase.queries)).toMatchObject({
+      generation_id: 42,
+      error_code: 'rate_limit_error',
+      http_status: 429,
+      attempt_count: 4,
+      model: 'openai/gpt-4.1-nano',
+    });
+    const statusUpdate = supabase.queries.find((query) => query.table === 'end_generation');
+    expect(statusUpdate?.args('rpc')?.[0]).toEqual({ p_generation_id: 42, p_status: 'failed' });
+  });
+});
+
+describe('GET /api/generation-errors', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should reject an anonymous request', async () => {
+    // Act
+    const response = await GET(createApiContext({ userId: null }));
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+
+  it('should list the errors of the user', async () => {
+    // Arrange
+    vi.stubEnv('OPENROUTER_API_KEY', 'key');
+    const log = { id: 1, user_id: userId, error_code: 'rate_limit_error', http_status: 429 };
+    const supabase = createSupabaseMock(() => ({ data: [log], count: 21 }));
+
+    // Act
+    const response = await GET(
+      createApiContext({
+        supabase: supabase.client,
+        url: 'http://localhost/api/generation-errors?page=2&limit=10',
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      data: [log],
+      pagination: { total: 21, page: 2, limit: 10, pages: 3 },
+    });
+    expect(supabase.queries[0].has('eq', 'user_id', userId)).toBe(true);
+    expect(supabase.queries[0].has('range', 10, 19)).toBe(true);
+  });
+});
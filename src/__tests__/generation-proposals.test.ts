@@ -0,0 +1,116 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { createSupabaseMock } from '../../test/supabase-mock';
+import { resetCircuitBreakers } from '../lib/services/openrouter';
+import { GenerationService } from '../lib/services/generation.service';
+import type { GenerationStreamEventDto } from '../types';
+
+const userId = 'user-1';
+const command = { source_text: 'a'.repeat(1500), force_refresh: true };
+
+const flashcards = [
+  { front: 'Co to jest fotosynteza?', back: 'Wytwarzanie glukozy z udziałem światła.', tags: [] },
+  { front: 'x'.repeat(201), back: 'Za długi przód', tags: [] },
+  { front: 'Za długi tył', back: 'y'.repeat(601), tags: [] },
+  { front: '', back: 'Pusty przód', tags: [] },
+  { front: 'Gdzie zachodzi fotosynteza?', back: 'W chloroplastach.', tags: [] },
+];
+
+const chatCompletion = () =>
+  new Response(
+    JSON.stringify({
+      id: 'gen-1',
+      model: 'openai/gpt-4.1-nano',
+      choices: [{ message: { content: JSON.stringify({ flashcards }) } }],
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+
+/** The same flashcards written in small pieces, as the model streams them */
+const streamedCompletion = () => {
+  const content = JSON.stringify({ flashcards });
+  const chunks = content.match(/[\s\S]{1,40}/g) ?? [];
+  const events = chunks.map(
+    (chunk) => `data: ${JSON.stringify({ choices: [{ delta: { content: chunk } }] })}\n\n`
+  );
+  return new Response(`${events.join('')}data: [DONE]\n\n`, { status: 200 });
+};
+
+const storedProposals = (supabase: ReturnType<typeof createSupabaseMock>) =>
+  supabase.queries
+    .find((query) => query.table === 'generation_proposals' && query.has('insert'))
+    ?.args('insert')?.[0];
+
+describe('GenerationService proposal validation', () => {
+  const fetchMock = vi.fn();
+  let consoleWarn: MockInstance<typeof console.warn>;
+  const createSupabase = () =>
+    createSupabaseMock((query) => {
+      if (query.table === 'create_generation') return { data: 42 };
+      if (query.table === 'complete_generation') return { data: true };
+      return undefined;
+    });
+
+  beforeEach(() => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'key');
+    vi.stubGlobal('fetch', fetchMock);
+    consoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should drop streamed proposals that exceed the flashcard limits', async () => {
+    // Arrange
+    fetchMock.mockImplementation(async () => streamedCompletion());
+    const supabase = createSupabase();
+
+    // Act
+    const events: GenerationStreamEventDto[] = [];
+    for await (const event of new GenerationService(supabase.client).streamFlashcards(
+      userId,
+      command
+    )) {
+      events.push(event);
+    }
+
+    // Assert
+    expect(events.filter((event) => event.type === 'proposal')).toEqual([
+      {
+        type: 'proposal',
+        position: 0,
+        proposal: expect.objectContaining({ front: flashcards[0].front }),
+      },
+      {
+        type: 'proposal',
+        position: 1,
+        proposal: expect.objectContaining({ front: flashcards[4].front }),
+      },
+    ]);
+    expect(events.at(-1)).toEqual({ type: 'done', generation_id: 42, generated_count: 2 });
+    expect(storedProposals(supabase)).toHaveLength(2);
+    expect(consoleWarn).toHaveBeenCalledWith(
+      'Dropping an invalid flashcard proposal:',
+      'Front content cannot exceed 200 characters'
+    );
+  });
+
+  it('should drop the same proposals from a blocking request', async () => {
+    // Arrange
+    fetchMock.mockImplementation(async () => chatCompletion());
+    const supabase = createSupabase();
+
+    // Act
+    const result = await new GenerationService(supabase.client).generateFlashcards(userId, command);
+
+    // Assert
+    expect(result.flashcards_proposal.map((proposal) => proposal.front)).toEqual([
+      flashcards[0].front,
+      flashcards[4].front,
+    ]);
+    expect(storedProposals(supabase)).toHaveLength(2);
+  });
+});
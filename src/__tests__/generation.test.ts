@@ -0,0 +1,135 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { generateFlashcardsSchema } from '../lib/schemas/generation.schema';
+import {
+  buildGenerationPrompt,
+  calculateRequestHash,
+  parseReuseScope,
+  resolveGenerationParameters,
+} from '../lib/services/generation.service';
+
+const sourceText = 'a'.repeat(3500);
+
+describe('resolveGenerationParameters', () => {
+  it('should derive the card count from the text length when omitted', () => {
+    expect(resolveGenerationParameters({ source_text: 'a'.repeat(1000) }).card_count).toBe(5);
+    expect(resolveGenerationParameters({ source_text: 'a'.repeat(7200) }).card_count).toBe(7);
+    expect(resolveGenerationParameters({ source_text: 'a'.repeat(10000) }).card_count).toBe(10);
+  });
+
+  it('should keep the requested parameters', () => {
+    expect(
+      resolveGenerationParameters({
+        source_text: sourceText,
+        card_count: 18,
+        difficulty: 'hard',
+        language: 'de',
+        focus: '  dates and battles ',
+        model: 'openai/gpt-4.1-mini',
+      })
+    ).toEqual({
+      model: 'openai/gpt-4.1-mini',
+      card_count: 18,
+      difficulty: 'hard',
+      language: 'de',
+      focus: 'dates and battles',
+    });
+  });
+
+  it('should store missing parameters as null', () => {
+    expect(
+      resolveGenerationParameters({ source_text: sourceText, focus: '   ' }, 'openai/gpt-4.1-nano')
+    ).toEqual({
+      model: 'openai/gpt-4.1-nano',
+      card_count: 5,
+      difficulty: null,
+      language: null,
+      focus: null,
+    });
+  });
+});
+
+describe('buildGenerationPrompt', () => {
+  it('should keep the language of the text by default', () => {
+    // Act
+    const prompt = buildGenerationPrompt(
+      sourceText,
+      resolveGenerationParameters({ source_text: sourceText })
+    );
+
+    // Assert
+    expect(prompt).toContain('Generate 5 educational flashcards');
+    expect(prompt).toContain('in the language of the text');
+    expect(prompt).not.toContain('Concentrate on');
+    expect(prompt.endsWith(sourceText)).toBe(true);
+  });
+
+  it('should include the difficulty, language and focus', () => {
+    // Act
+    const prompt = buildGenerationPrompt(sourceText, {
+      model: 'openai/gpt-4.1-nano',
+      card_count: 12,
+      difficulty: 'easy',
+      language: 'en',
+      focus: 'definitions',
+    });
+
+    // Assert
+    expect(prompt).toContain('Generate 12 educational flashcards');
+    expect(prompt).toContain('Keep the flashcards easy');
+    expect(prompt).toContain('in English');
+    expect(prompt).toContain('Concentrate on the following aspect of the text: definitions');
+  });
+});
+
+describe('calculateRequestHash', () => {
+  const params = resolveGenerationParameters({ source_text: sourceText }, 'openai/gpt-4.1-nano');
+
+  it('should identify the same request', () => {
+    expect(calculateRequestHash('hash', params)).toBe(calculateRequestHash('hash', { ...params }));
+    expect(calculateRequestHash('hash', params)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it.each([
+    { model: 'openai/gpt-4.1-mini' },
+    { card_count: 6 },
+    { difficulty: 'easy' as const },
+    { language: 'pl' as const },
+    { focus: 'dates' },
+  ])('should tell apart requests with different %o', (change) => {
+    expect(calculateRequestHash('hash', { ...params, ...change })).not.toBe(
+      calculateRequestHash('hash', params)
+    );
+  });
+
+  it('should tell apart different source texts', () => {
+    expect(calculateRequestHash('other', params)).not.toBe(calculateRequestHash('hash', params));
+  });
+});
+
+describe('parseReuseScope', () => {
+  it('should reuse only the own generations unless all are allowed', () => {
+    expect(parseReuseScope(undefined)).toBe('user');
+    expect(parseReuseScope('anything')).toBe('user');
+    expect(parseReuseScope(' all ')).toBe('all');
+  });
+});
+
+describe('generateFlashcardsSchema', () => {
+  it('should accept a command without parameters', () => {
+    expect(generateFlashcardsSchema.safeParse({ source_text: sourceText }).success).toBe(true);
+  });
+
+  it.each([
+    { card_count: 0 },
+    { card_count: 21 },
+    { card_count: 2.5 },
+    { difficulty: 'extreme' },
+    { language: 'xx' },
+    { focus: 'a'.repeat(501) },
+  ])('should reject invalid parameters %o', (parameters) => {
+    expect(
+      generateFlashcardsSchema.safeParse({ source_text: sourceText, ...parameters }).success
+    ).toBe(false);
+  });
+});
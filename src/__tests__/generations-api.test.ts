@@ -0,0 +1,296 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApiContext, TEST_USER_ID } from '../../test/api-context';
+import { createSupabaseMock, type RecordedQuery } from '../../test/supabase-mock';
+import { generationsQuerySchema } from '../lib/schemas/generation.schema';
+import { resetCircuitBreakers } from '../lib/services/openrouter';
+import { GET as listGenerations, POST as createGeneration } from '../pages/api/generations';
+import { GET as getGeneration } from '../pages/api/generations/[id]';
+
+const generation = {
+  id: 42,
+  user_id: TEST_USER_ID,
+  model: 'openai/gpt-4.1-nano',
+  generated_count: 3,
+  accepted_count: 2,
+  status: 'completed',
+  difficulty: null,
+  language: null,
+};
+
+const signedIn = (supabase: ReturnType<typeof createSupabaseMock>) => {
+  supabase.auth.getSession.mockResolvedValue({
+    data: { session: { user: { id: TEST_USER_ID } } },
+  });
+  return supabase;
+};
+
+beforeEach(() => {
+  vi.stubEnv('OPENROUTER_API_KEY', 'key');
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('GET /api/generations', () => {
+  it('should apply the default pagination and sorting', () => {
+    expect(generationsQuerySchema.parse({})).toEqual({
+      page: 1,
+      limit: 20,
+      sort: 'created_at',
+      order: 'desc',
+    });
+  });
+
+  it.each([['page=0'], ['limit=101'], ['sort=model'], ['order=up'], ['page=abc']])(
+    'should reject the invalid query %s',
+    async (queryString) => {
+      // Arrange
+      const supabase = signedIn(createSupabaseMock());
+
+      // Act
+      const response = await listGenerations(
+        createApiContext({
+          supabase: supabase.client,
+          url: `http://localhost/api/generations?${queryString}`,
+        })
+      );
+
+      // Assert
+      expect(response.status).toBe(400);
+      expect(supabase.queries).toHaveLength(0);
+    }
+  );
+
+  it('should return a page of the generations of the user with pagination metadata', async () => {
+    // Arrange
+    const supabase = signedIn(createSupabaseMock(() => ({ data: [generation], count: 45 })));
+
+    // Act
+    const response = await listGenerations(
+      createApiContext({
+        supabase: supabase.client,
+        url: 'http://localhost/api/generations?page=3&limit=10&order=asc',
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      data: [generation],
+      pagination: { total: 45, page: 3, limit: 10, pages: 5 },
+    });
+    const [query] = supabase.queries;
+    expect(query.has('eq', 'user_id', TEST_USER_ID)).toBe(true);
+    expect(query.has('order', 'created_at', { ascending: true })).toBe(true);
+    expect(query.has('range', 20, 29)).toBe(true);
+  });
+
+  it('should report no pages for a user without generations', async () => {
+    // Arrange
+    const supabase = signedIn(createSupabaseMock(() => ({ data: [], count: 0 })));
+
+    // Act
+    const response = await listGenerations(
+      createApiContext({ supabase: supabase.client, url: 'http://localhost/api/generations' })
+    );
+
+    // Assert
+    expect((await response.json()).pagination).toEqual({ total: 0, page: 1, limit: 20, pages: 0 });
+  });
+});
+
+describe('GET /api/generations/:id', () => {
+  it('should return the generation with its flashcards and proposals', async () => {
+    // Arrange
+    const flashcard = { id: 7, generation_id: 42, front: 'Q1', back: 'A1', source: 'ai-full' };
+    const proposal = { id: 1, position: 0, decision: 'accepted', flashcard_id: 7 };
+    const supabase = createSupabaseMock(() => ({
+      data: { ...generation, flashcards: [flashcard], generation_proposals: [proposal] },
+    }));
+
+    // Act
+    const response = await getGeneration(
+      createApiContext({ supabase: supabase.client, params: { id: '42' } })
+    );
+
+    // Assert
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ id: 42, flashcards: [flashcard], proposals: [proposal] });
+    expect(body).not.toHaveProperty('generation_proposals');
+    expect(supabase.queries[0].has('eq', 'user_id', TEST_USER_ID)).toBe(true);
+  });
+
+  it('should return 404 for a missing generation or one of another user', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => ({
+      error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' },
+    }));
+
+    // Act
+    const response = await getGeneration(
+      createApiContext({ supabase: supabase.client, params: { id: '42' } })
+    );
+
+    // Assert
+    expect(response.status).toBe(404);
+  });
+
+  it('should reject an invalid ID', async () => {
+    // Act
+    const response = await getGeneration(
+      createApiContext({ supabase: createSupabaseMock().client, params: { id: 'abc' } })
+    );
+
+    // Assert
+    expect(response.status).toBe(400);
+  });
+
+  it('should reject an anonymous request', async () => {
+    // Act
+    const response = await getGeneration(createApiContext({ userId: null, params: { id: '42' } }));
+
+    // Assert
+    expect(response.status).toBe(401);
+  });
+});
+
+describe('POST /api/generations quota', () => {
+  const fetchMock = vi.fn();
+  const command = { source_text: 'a'.repeat(1500) };
+
+  /** Answers the quota, reuse lookup and generation queries; today's count changes on every check */
+  const respondTo =
+    ({
+      startedToday,
+      reusable = null,
+      created = { data: 42 },
+    }: {
+      startedToday: number[];
+      reusable?: unknown;
+      created?: { data?: unknown; error?: { message: string; code?: string } };
+    }) =>
+    (query: RecordedQuery) => {
+      if (query.table === 'create_generation') return created;
+      if (query.table === 'complete_generation') return { data: true };
+      if (query.table !== 'generations') return undefined;
+      if (query.has('select', 'id', { count: 'exact', head: true })) {
+        return { count: startedToday.shift() };
+      }
+      if (query.has('range')) return { data: [] };
+      if (query.has('eq', 'status', 'completed')) return { data: reusable };
+      if (query.has('insert')) return { data: { id: 43 } };
+      return undefined;
+    };
+
+  const post = (supabase: ReturnType<typeof createSupabaseMock>, headers = {}) =>
+    createGeneration(
+      createApiContext({
+        supabase: supabase.client,
+        url: 'http://localhost/api/generations',
+        method: 'POST',
+        body: command,
+        headers,
+      })
+    );
+
+  beforeEach(() => {
+    vi.stubEnv('GENERATION_DAILY_LIMIT', '20');
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should create the generation with the daily limit checked in the same transaction', async () => {
+    // Arrange
+    fetchMock.mockImplementation(
+      async () =>
+        new Response(
+          JSON.stringify({
+            model: 'openai/gpt-4.1-nano',
+            choices: [
+              {
+                message: {
+                  content: JSON.stringify({ flashcards: [{ front: 'Q', back: 'A', tags: [] }] }),
+                },
+              },
+            ],
+          })
+        )
+    );
+    const supabase = signedIn(createSupabaseMock(respondTo({ startedToday: [3] })));
+
+    // Act
+    const response = await post(supabase);
+
+    // Assert
+    expect(response.status).toBe(201);
+    expect(response.headers.get('X-Quota-Generations-Remaining')).toBe('16');
+    const created = supabase.queries.find((query) => query.table === 'create_generation');
+    expect(created?.args('rpc')?.[0]).toMatchObject({ p_user_id: TEST_USER_ID, p_daily_limit: 20 });
+  });
+
+  it.each([
+    ['JSON', {}],
+    ['event stream', { Accept: 'text/event-stream' }],
+  ])(
+    'should answer 429 when concurrent requests used up the quota after the check (%s)',
+    async (_, headers) => {
+      // Arrange
+      const supabase = signedIn(
+        createSupabaseMock(
+          respondTo({
+            startedToday: [19, 20],
+            created: { error: { message: 'Daily generation quota exceeded', code: 'PT429' } },
+          })
+        )
+      );
+
+      // Act
+      const response = await post(supabase, headers);
+
+      // Assert
+      expect(response.status).toBe(429);
+      expect(response.headers.get('Content-Type')).toBe('application/json');
+      expect(response.headers.get('Retry-After')).not.toBeNull();
+      expect(response.headers.get('X-Quota-Generations-Remaining')).toBe('0');
+      expect((await response.json()).quota.daily_generations).toMatchObject({
+        used: 20,
+        remaining: 0,
+      });
+      expect(fetchMock).not.toHaveBeenCalled();
+    }
+  );
+
+  it.each([
+    ['JSON', {}, 201],
+    ['event stream', { Accept: 'text/event-stream' }, 200],
+  ])(
+    'should not count a reused generation in the quota headers (%s)',
+    async (_, headers, status) => {
+      // Arrange
+      const reusable = {
+        created_at: '2025-06-01T08:00:00Z',
+        generation_proposals: [
+          { position: 0, original_front: 'Q', original_back: 'A', suggested_tags: [] },
+        ],
+      };
+      const supabase = signedIn(createSupabaseMock(respondTo({ startedToday: [3], reusable })));
+
+      // Act
+      const response = await post(supabase, headers);
+
+      // Assert
+      expect(response.status).toBe(status);
+      expect(response.headers.get('X-Quota-Generations-Remaining')).toBe('17');
+      expect(supabase.queries.some((query) => query.table === 'create_generation')).toBe(false);
+      expect(await response.text()).toContain('2025-06-01T08:00:00Z');
+    }
+  );
+});
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseDelimited } from '../lib/csv';
+import { MAX_IMPORT_ROWS, parseImportFile } from '../lib/services/import.service';
+
+describe('parseDelimited', () => {
+  it('should split rows and fields', () => {
+    expect(parseDelimited('a,b\r\nc,d\n', ',')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+    ]);
+  });
+
+  it('should handle quoted fields with delimiters, line breaks and escaped quotes', () => {
+    expect(parseDelimited('"x, y","line 1\nline 2","say ""hi"""', ',')).toEqual([
+      ['x, y', 'line 1\nline 2', 'say "hi"'],
+    ]);
+  });
+
+  it('should support tabs, skip blank lines and strip the BOM', () => {
+    expect(parseDelimited('﻿front\tback\n\n1\t2', '\t')).toEqual([
+      ['front', 'back'],
+      ['1', '2'],
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('should detect the column mapping from the header', () => {
+    // Arrange
+    const content =
+      'Talia;Przód;Tył;Tagi\nBiologia;Co to jest DNA?;Kwas deoksyrybonukleinowy;Genetyka, DNA';
+
+    // Act
+    const result = parseImportFile({ content, delimiter: ';', has_header: true });
+
+    // Assert
+    expect(result.mapping).toEqual({ front: 1, back: 2, tags: 3, deck: 0 });
+    expect(result.rows).toEqual([
+      {
+        row: 2,
+        front: 'Co to jest DNA?',
+        back: 'Kwas deoksyrybonukleinowy',
+        tags: ['genetyka', 'dna'],
+        deck: 'Biologia',
+        errors: [],
+      },
+    ]);
+  });
+
+  it('should report rows breaking the flashcard limits', () => {
+    // Arrange
+    const content = `,answer\n${'a'.repeat(201)},${'b'.repeat(601)}`;
+
+    // Act
+    const result = parseImportFile({ content, delimiter: ',', has_header: false });
+
+    // Assert
+    expect(result.rows[0].errors).toEqual(['Front content is required']);
+    expect(result.rows[1].errors).toEqual([
+      'Front content cannot exceed 200 characters',
+      'Back content cannot exceed 600 characters',
+    ]);
+  });
+
+  it('should use the given mapping', () => {
+    const result = parseImportFile({
+      content: 'back,front\nB,F',
+      delimiter: ',',
+      has_header: true,
+      mapping: { front: 1, back: 0 },
+    });
+
+    expect(result.rows[0]).toMatchObject({ front: 'F', back: 'B', tags: [], deck: null });
+  });
+
+  it('should reject files with too many rows', () => {
+    const content = 'q,a\n'.repeat(MAX_IMPORT_ROWS + 1);
+
+    expect(() => parseImportFile({ content, delimiter: ',', has_header: false })).toThrow(
+      'Import cannot exceed'
+    );
+  });
+});
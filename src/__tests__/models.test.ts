@@ -0,0 +1,107 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  calculateCost,
+  DEFAULT_GENERATION_MODEL,
+  parseAllowedModels,
+  parseFallbackModels,
+  toGenerationModels,
+  toModelPricing,
+} from '../lib/services/models.service';
+import type { ModelInfo } from '../lib/services/openrouter';
+
+describe('parseAllowedModels', () => {
+  it('should fall back to the default model', () => {
+    expect(parseAllowedModels(undefined)).toEqual([DEFAULT_GENERATION_MODEL]);
+    expect(parseAllowedModels(' , ')).toEqual([DEFAULT_GENERATION_MODEL]);
+  });
+
+  it('should trim the IDs and drop duplicates', () => {
+    expect(
+      parseAllowedModels(' openai/gpt-4.1-mini,openai/gpt-4.1-nano , openai/gpt-4.1-mini')
+    ).toEqual(['openai/gpt-4.1-mini', 'openai/gpt-4.1-nano']);
+  });
+});
+
+describe('parseFallbackModels', () => {
+  const allowedModels = ['openai/gpt-4.1-nano', 'openai/gpt-4.1-mini'];
+
+  it('should have no fallback without the variable', () => {
+    expect(parseFallbackModels(undefined, allowedModels)).toEqual([]);
+  });
+
+  it('should keep only allowed models, in order and without duplicates', () => {
+    expect(
+      parseFallbackModels(
+        ' openai/gpt-4.1-mini, anthropic/claude-3-opus,openai/gpt-4.1-nano,openai/gpt-4.1-mini',
+        allowedModels
+      )
+    ).toEqual(['openai/gpt-4.1-mini', 'openai/gpt-4.1-nano']);
+  });
+});
+
+describe('toGenerationModels', () => {
+  // OpenRouter returns prices as strings even though ModelInfo declares numbers
+  const available = [
+    {
+      id: 'openai/gpt-4.1-nano',
+      name: 'OpenAI: GPT-4.1 Nano',
+      context_length: 1047576,
+      pricing: { prompt: '0.0000001', completion: '0.0000004' },
+    },
+    { id: 'anthropic/claude-3.5-haiku', name: 'Claude 3.5 Haiku', context_length: 200000 },
+    { id: 'mistralai/mistral-small', name: '', context_length: 32000 },
+  ] as unknown as ModelInfo[];
+
+  it('should keep only allowed models in the allow-list order', () => {
+    // Act
+    const models = toGenerationModels(available, [
+      'mistralai/mistral-small',
+      'openai/gpt-4.1-nano',
+      'google/not-offered',
+    ]);
+
+    // Assert
+    expect(models.map((model) => model.id)).toEqual([
+      'mistralai/mistral-small',
+      'openai/gpt-4.1-nano',
+    ]);
+  });
+
+  it('should convert the pricing to numbers', () => {
+    const [model] = toGenerationModels(available, ['openai/gpt-4.1-nano']);
+
+    expect(model).toEqual({
+      id: 'openai/gpt-4.1-nano',
+      name: 'OpenAI: GPT-4.1 Nano',
+      context_length: 1047576,
+      pricing: { prompt: 0.0000001, completion: 0.0000004 },
+    });
+  });
+
+  it('should use the ID as the name and null pricing when missing', () => {
+    const [model] = toGenerationModels(available, ['mistralai/mistral-small']);
+
+    expect(model.name).toBe('mistralai/mistral-small');
+    expect(model.pricing).toBeNull();
+  });
+});
+
+describe('calculateCost', () => {
+  it('should price prompt and completion tokens separately', () => {
+    const usage = { prompt_tokens: 1500, completion_tokens: 800, total_tokens: 2300 };
+
+    expect(calculateCost(usage, { prompt: 0.0000001, completion: 0.0000004 })).toBe(0.00047);
+  });
+
+  it('should ignore negative prices of routers', () => {
+    const router = {
+      id: 'openrouter/auto',
+      name: 'Auto Router',
+      context_length: 2000000,
+      pricing: { prompt: '-1', completion: '-1' },
+    } as unknown as ModelInfo;
+
+    expect(toModelPricing(router)).toBeNull();
+  });
+});
@@ -0,0 +1,155 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  createMemoryResponseCache,
+  createOpenRouterService,
+  getCacheMetrics,
+  resetCacheMetrics,
+} from '../lib/services/openrouter';
+import type { ChatResponse, ResponseCache } from '../lib/services/openrouter';
+
+const chatCompletion = (content: string) =>
+  new Response(
+    JSON.stringify({
+      id: 'gen-1',
+      model: 'openai/gpt-4.1-nano',
+      choices: [{ message: { content } }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+
+const response = (content: string): ChatResponse => ({
+  content,
+  model: 'openai/gpt-4.1-nano',
+  usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+  id: 'gen-1',
+  metadata: {},
+});
+
+describe('createMemoryResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should expire entries after their ttl', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    const cache = createMemoryResponseCache(10);
+    await cache.set('short', response('a'), 1000);
+    await cache.set('long', response('b'), 5000);
+
+    // Act
+    vi.advanceTimersByTime(2000);
+
+    // Assert
+    expect(await cache.get('short')).toBeUndefined();
+    expect((await cache.get('long'))?.content).toBe('b');
+  });
+
+  it('should evict the oldest entry when full', async () => {
+    // Arrange
+    const cache = createMemoryResponseCache(2);
+
+    // Act
+    await cache.set('first', response('1'), 1000);
+    await cache.set('second', response('2'), 1000);
+    await cache.set('third', response('3'), 1000);
+
+    // Assert
+    expect(await cache.get('first')).toBeUndefined();
+    expect(await cache.get('second')).toBeDefined();
+    expect(await cache.get('third')).toBeDefined();
+  });
+});
+
+describe('OpenRouterService response cache', () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    resetCacheMetrics();
+    fetchMock.mockReset();
+    fetchMock.mockImplementation(async () => chatCompletion('answer'));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should share the in-memory cache between service instances', async () => {
+    // Arrange
+    const options = { userMessage: 'shared cache question' };
+
+    // Act
+    const first = await createOpenRouterService({ apiKey: 'key' }).chat(options);
+    const second = await createOpenRouterService({ apiKey: 'key' }).chat(options);
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(first.cached).toBeUndefined();
+    expect(second).toMatchObject({ content: 'answer', cached: true });
+    expect(getCacheMetrics()).toEqual({ hits: 1, misses: 1, errors: 0, hitRate: 0.5 });
+  });
+
+  it('should skip the cache when a request opts out', async () => {
+    // Arrange
+    const store: ResponseCache = { get: vi.fn(), set: vi.fn() };
+    const service = createOpenRouterService({
+      apiKey: 'key',
+      cacheOptions: { enabled: true, ttl: 1000, maxSize: 10, store },
+    });
+
+    // Act
+    await service.chat({ userMessage: 'fresh question', cache: false });
+
+    // Assert
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(store.get).not.toHaveBeenCalled();
+    expect(store.set).not.toHaveBeenCalled();
+    expect(getCacheMetrics().misses).toBe(0);
+  });
+
+  it('should store responses in the configured store with its ttl', async () => {
+    // Arrange
+    const store: ResponseCache = { get: vi.fn(async () => undefined), set: vi.fn() };
+    const service = createOpenRouterService({
+      apiKey: 'key',
+      cacheOptions: { enabled: true, ttl: 60000, maxSize: 10, store },
+    });
+
+    // Act
+    await service.chat({ userMessage: 'stored question' });
+
+    // Assert
+    expect(store.set).toHaveBeenCalledWith(
+      expect.stringContaining('stored question'),
+      expect.objectContaining({ content: 'answer' }),
+      60000
+    );
+  });
+
+  it('should call the API when the store fails', async () => {
+    // Arrange
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const store: ResponseCache = {
+      get: vi.fn(async () => {
+        throw new Error('database unavailable');
+      }),
+      set: vi.fn(async () => {
+        throw new Error('database unavailable');
+      }),
+    };
+    const service = createOpenRouterService({
+      apiKey: 'key',
+      cacheOptions: { enabled: true, ttl: 1000, maxSize: 10, store },
+    });
+
+    // Act
+    const result = await service.chat({ userMessage: 'question with a broken cache' });
+
+    // Assert
+    expect(result.content).toBe('answer');
+    expect(getCacheMetrics()).toEqual({ hits: 0, misses: 1, errors: 2, hitRate: 0 });
+  });
+});
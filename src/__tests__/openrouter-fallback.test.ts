@@ -0,0 +1,152 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AuthenticationError,
+  createOpenRouterService,
+  isCircuitOpen,
+  ModelError,
+  resetCircuitBreakers,
+} from '../lib/services/openrouter';
+
+const PRIMARY = 'openai/gpt-4.1-nano';
+const FALLBACK = 'openai/gpt-4.1-mini';
+const circuitBreaker = { failureThreshold: 2, coolDown: 60000 };
+
+const chatCompletion = (model: string) =>
+  new Response(
+    JSON.stringify({
+      id: 'gen-1',
+      model,
+      choices: [{ message: { content: 'answer' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 },
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+
+const errorResponse = (status: number) =>
+  new Response(JSON.stringify({ error: { message: 'failed' } }), { status });
+
+const requestedModel = (call: unknown[]) =>
+  JSON.parse((call[1] as RequestInit).body as string).model;
+
+describe('OpenRouterService model fallback', () => {
+  const fetchMock = vi.fn();
+  const createService = () =>
+    createOpenRouterService({
+      apiKey: 'key',
+      defaultModel: PRIMARY,
+      fallbackModels: [FALLBACK],
+      circuitBreaker,
+      cacheOptions: { enabled: false, ttl: 0, maxSize: 0 },
+      retryOptions: { maxRetries: 0, initialDelay: 0, maxDelay: 0, backoffFactor: 1 },
+    });
+
+  beforeEach(() => {
+    resetCircuitBreakers();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.useRealTimers();
+  });
+
+  it('should try the fallback model when the requested one fails', async () => {
+    // Arrange
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(503))
+      .mockResolvedValueOnce(chatCompletion(FALLBACK));
+
+    // Act
+    const response = await createService().chat({ userMessage: 'question' });
+
+    // Assert
+    expect(fetchMock.mock.calls.map(requestedModel)).toEqual([PRIMARY, FALLBACK]);
+    expect(response.model).toBe(FALLBACK);
+  });
+
+  it('should not fall back on errors of the request itself', async () => {
+    // Arrange
+    fetchMock.mockResolvedValue(errorResponse(401));
+
+    // Act & Assert
+    await expect(createService().chat({ userMessage: 'question' })).rejects.toBeInstanceOf(
+      AuthenticationError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw the error of the last model when every model fails', async () => {
+    // Arrange
+    fetchMock.mockResolvedValueOnce(errorResponse(503)).mockResolvedValueOnce(errorResponse(404));
+
+    // Act & Assert
+    await expect(createService().chat({ userMessage: 'question' })).rejects.toBeInstanceOf(
+      ModelError
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should skip a model with an open circuit until the cool-down passes', async () => {
+    // Arrange
+    vi.useFakeTimers();
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) =>
+      JSON.parse(init.body as string).model === PRIMARY
+        ? errorResponse(500)
+        : chatCompletion(FALLBACK)
+    );
+    const service = createService();
+    await service.chat({ userMessage: 'first' });
+    await service.chat({ userMessage: 'second' });
+    fetchMock.mockClear();
+
+    // Act
+    await service.chat({ userMessage: 'third' });
+    const skipped = fetchMock.mock.calls.map(requestedModel);
+    vi.advanceTimersByTime(circuitBreaker.coolDown);
+    fetchMock.mockClear();
+    await service.chat({ userMessage: 'fourth' });
+
+    // Assert
+    expect(skipped).toEqual([FALLBACK]);
+    expect(fetchMock.mock.calls.map(requestedModel)).toEqual([PRIMARY, FALLBACK]);
+    expect(isCircuitOpen(PRIMARY, circuitBreaker)).toBe(true);
+  });
+
+  it('should close the circuit after a successful request', async () => {
+    // Arrange
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(500))
+      .mockResolvedValueOnce(chatCompletion(FALLBACK))
+      .mockResolvedValueOnce(chatCompletion(PRIMARY))
+      .mockResolvedValueOnce(errorResponse(500))
+      .mockResolvedValueOnce(chatCompletion(FALLBACK));
+    const service = createService();
+
+    // Act
+    await service.chat({ userMessage: 'first' });
+    await service.chat({ userMessage: 'second' });
+    await service.chat({ userMessage: 'third' });
+
+    // Assert
+    expect(isCircuitOpen(PRIMARY, circuitBreaker)).toBe(false);
+  });
+
+  it('should stream from the fallback model and report it', async () => {
+    // Arrange
+    fetchMock.mockResolvedValueOnce(errorResponse(404)).mockResolvedValueOnce(
+      new Response('data: {"choices":[{"delta":{"content":"answer"}}]}\n\ndata: [DONE]\n\n', {
+        status: 200,
+      })
+    );
+
+    // Act
+    const reader = (await createService().stream({ userMessage: 'question' })).getReader();
+    const { value } = await reader.read();
+
+    // Assert
+    expect(value).toMatchObject({ content: 'answer', model: FALLBACK });
+  });
+});
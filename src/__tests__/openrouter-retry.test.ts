@@ -0,0 +1,253 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  AuthenticationError,
+  createOpenRouterService,
+  InternalServiceError,
+  NetworkError,
+  QuotaExceededError,
+  RateLimitError,
+  RequestCancelledError,
+  TimeoutError,
+  ValidationError,
+} from '../lib/services/openrouter';
+import { parseRetryAfter, withRetry } from '../lib/services/openrouter/utils';
+
+const retryOptions = { maxRetries: 3, initialDelay: 1000, maxDelay: 4000, backoffFactor: 2 };
+
+const chatCompletion = () =>
+  new Response(
+    JSON.stringify({
+      id: 'gen-1',
+      model: 'openai/gpt-4.1-nano',
+      choices: [{ message: { content: 'answer' } }],
+    }),
+    { status: 200, headers: { 'Content-Type': 'application/json' } }
+  );
+
+const errorResponse = (status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ error: { message: 'failed' } }), { status, headers });
+
+describe('parseRetryAfter', () => {
+  it('should read a number of seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('should read an HTTP date', () => {
+    const now = Date.parse('2026-10-19T12:00:00Z');
+    expect(parseRetryAfter('Mon, 19 Oct 2026 12:00:30 GMT', now)).toBe(30000);
+    expect(parseRetryAfter('Mon, 19 Oct 2026 11:00:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore a missing or invalid header', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('-1')).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it.each([
+    ['RateLimitError', () => new RateLimitError('limited')],
+    ['InternalServiceError', () => new InternalServiceError('down')],
+    ['NetworkError', () => new NetworkError('offline')],
+    ['TimeoutError', () => new TimeoutError('slow')],
+  ])('should retry a %s', async (_name, createError) => {
+    // Arrange
+    const fn = vi.fn().mockRejectedValueOnce(createError()).mockResolvedValueOnce('result');
+
+    // Act
+    const result = withRetry(fn, retryOptions);
+    await vi.advanceTimersByTimeAsync(1000);
+
+    // Assert
+    await expect(result).resolves.toBe('result');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    ['AuthenticationError', () => new AuthenticationError('invalid key')],
+    ['ValidationError', () => new ValidationError('bad request')],
+    ['QuotaExceededError', () => new QuotaExceededError('no credits')],
+    ['plain Error', () => new Error('unknown')],
+  ])('should not retry a %s', async (_name, createError) => {
+    // Arrange
+    const error = createError();
+    const fn = vi.fn().mockRejectedValue(error);
+
+    // Act & Assert
+    await expect(withRetry(fn, retryOptions)).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should grow the delay exponentially and record the attempts', async () => {
+    // Arrange
+    const fn = vi.fn().mockRejectedValue(new InternalServiceError('down'));
+
+    // Act
+    const result = withRetry(fn, retryOptions);
+    result.catch(() => undefined);
+    await vi.advanceTimersByTimeAsync(999);
+    const callsBeforeFirstDelay = fn.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(1 + 2000 + 4000);
+
+    // Assert
+    expect(callsBeforeFirstDelay).toBe(1);
+    await expect(result).rejects.toMatchObject({ attempts: 4 });
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('should randomize part of the delay', async () => {
+    // Arrange
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const fn = vi.fn().mockRejectedValueOnce(new NetworkError('offline')).mockResolvedValue('ok');
+
+    // Act
+    const result = withRetry(fn, { ...retryOptions, jitter: 0.5 });
+    await vi.advanceTimersByTimeAsync(750);
+
+    // Assert
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('should wait as long as the server asks', async () => {
+    // Arrange
+    const error = new RateLimitError('limited');
+    error.retryAfter = 5000;
+    const fn = vi.fn().mockRejectedValueOnce(error).mockResolvedValueOnce('ok');
+
+    // Act
+    const result = withRetry(fn, retryOptions);
+    await vi.advanceTimersByTimeAsync(4999);
+    const callsBeforeRetryAfter = fn.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(1);
+
+    // Assert
+    expect(callsBeforeRetryAfter).toBe(1);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('should give up when the next attempt would start after the deadline', async () => {
+    // Arrange
+    const error = new RateLimitError('limited');
+    error.retryAfter = 60000;
+    const fn = vi.fn().mockRejectedValue(error);
+
+    // Act & Assert
+    await expect(withRetry(fn, { ...retryOptions, deadline: 30000 })).rejects.toMatchObject({
+      attempts: 1,
+    });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting when the signal is aborted', async () => {
+    // Arrange
+    const controller = new AbortController();
+    const fn = vi.fn().mockRejectedValue(new InternalServiceError('down'));
+
+    // Act
+    const result = withRetry(fn, retryOptions, controller.signal);
+    result.catch(() => undefined);
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+
+    // Assert
+    await expect(result).rejects.toBeInstanceOf(RequestCancelledError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('OpenRouterService retries', () => {
+  const fetchMock = vi.fn();
+  const createService = () =>
+    createOpenRouterService({
+      apiKey: 'key',
+      cacheOptions: { enabled: false, ttl: 0, maxSize: 0 },
+      retryOptions: { ...retryOptions, jitter: 0 },
+    });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('should retry a rate limited request after the Retry-After delay', async () => {
+    // Arrange
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(429, { 'Retry-After': '3' }))
+      .mockResolvedValueOnce(chatCompletion());
+
+    // Act
+    const result = createService().chat({ userMessage: 'question' });
+    await vi.advanceTimersByTimeAsync(2999);
+    const callsBeforeRetryAfter = fetchMock.mock.calls.length;
+    await vi.advanceTimersByTimeAsync(1);
+
+    // Assert
+    expect(callsBeforeRetryAfter).toBe(1);
+    await expect(result).resolves.toMatchObject({ content: 'answer' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should retry server and network errors', async () => {
+    // Arrange
+    fetchMock
+      .mockResolvedValueOnce(errorResponse(502))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(chatCompletion());
+
+    // Act
+    const result = createService().chat({ userMessage: 'question' });
+    await vi.advanceTimersByTimeAsync(1000 + 2000);
+
+    // Assert
+    await expect(result).resolves.toMatchObject({ content: 'answer' });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should retry an unknown server error', async () => {
+    // Arrange
+    fetchMock.mockResolvedValueOnce(errorResponse(520)).mockResolvedValueOnce(chatCompletion());
+
+    // Act
+    const result = createService().chat({ userMessage: 'question' });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    // Assert
+    await expect(result).resolves.toMatchObject({ content: 'answer' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it.each([
+    [400, ValidationError],
+    [401, AuthenticationError],
+    [402, QuotaExceededError],
+    [413, ValidationError],
+    [422, ValidationError],
+  ])('should not retry a %i response', async (status, errorClass) => {
+    // Arrange
+    fetchMock.mockResolvedValue(errorResponse(status));
+
+    // Act & Assert
+    await expect(createService().chat({ userMessage: 'question' })).rejects.toBeInstanceOf(
+      errorClass
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  getQuotaHeaders,
+  getRetryAfterSeconds,
+  isQuotaExceeded,
+  parseQuotaLimit,
+  toQuotaLimit,
+  withStartedGeneration,
+} from '../lib/services/quota.service';
+import type { GenerationQuotaDto } from '../types';
+
+const now = new Date('2025-05-31T22:00:00Z');
+
+const quota = (generations: number, tokens: number): GenerationQuotaDto => ({
+  daily_generations: toQuotaLimit(generations, 20, '2025-06-01T00:00:00.000Z'),
+  monthly_tokens: toQuotaLimit(tokens, 100000, '2025-06-01T00:00:00.000Z'),
+});
+
+describe('parseQuotaLimit', () => {
+  it('should fall back to the default for missing or invalid values', () => {
+    expect(parseQuotaLimit(undefined, 20)).toBe(20);
+    expect(parseQuotaLimit('', 20)).toBe(20);
+    expect(parseQuotaLimit('-5', 20)).toBe(20);
+    expect(parseQuotaLimit('2.5', 20)).toBe(20);
+    expect(parseQuotaLimit('many', 20)).toBe(20);
+  });
+
+  it('should disable the limit with 0', () => {
+    expect(parseQuotaLimit('0', 20)).toBeNull();
+    expect(parseQuotaLimit('50', 20)).toBe(50);
+  });
+});
+
+describe('toQuotaLimit', () => {
+  it('should never report a negative remaining quota', () => {
+    // A generation may use more tokens than were left
+    expect(toQuotaLimit(100400, 100000, now.toISOString()).remaining).toBe(0);
+  });
+
+  it('should report nothing remaining for a disabled limit', () => {
+    expect(toQuotaLimit(7, null, now.toISOString())).toEqual({
+      limit: null,
+      used: 7,
+      remaining: null,
+      resets_at: now.toISOString(),
+    });
+  });
+});
+
+describe('isQuotaExceeded', () => {
+  it('should allow generating while both limits have something left', () => {
+    expect(isQuotaExceeded(quota(19, 99999))).toBe(false);
+  });
+
+  it.each([
+    ['daily generations', quota(20, 0)],
+    ['monthly tokens', quota(0, 100000)],
+  ])('should reject generating when %s are used up', (_, exceeded) => {
+    expect(isQuotaExceeded(exceeded)).toBe(true);
+  });
+
+  it('should never be exceeded without limits', () => {
+    const unlimited: GenerationQuotaDto = {
+      daily_generations: toQuotaLimit(500, null, now.toISOString()),
+      monthly_tokens: toQuotaLimit(10_000_000, null, now.toISOString()),
+    };
+
+    expect(isQuotaExceeded(unlimited)).toBe(false);
+    expect(getQuotaHeaders(unlimited)).toEqual({});
+  });
+});
+
+describe('getRetryAfterSeconds', () => {
+  it('should wait until the exhausted limit is reset', () => {
+    expect(getRetryAfterSeconds(quota(20, 0), now)).toBe(2 * 60 * 60);
+  });
+
+  it('should wait for the latest reset when several limits are exhausted', () => {
+    // Arrange
+    const exceeded: GenerationQuotaDto = {
+      daily_generations: toQuotaLimit(20, 20, '2025-05-15T00:00:00.000Z'),
+      monthly_tokens: toQuotaLimit(100000, 100000, '2025-06-01T00:00:00.000Z'),
+    };
+
+    // Act & Assert
+    expect(getRetryAfterSeconds(exceeded, new Date('2025-05-14T23:00:00Z'))).toBe(
+      17 * 24 * 60 * 60 + 60 * 60
+    );
+  });
+});
+
+describe('getQuotaHeaders', () => {
+  it('should report the quota remaining after the started generation', () => {
+    expect(getQuotaHeaders(withStartedGeneration(quota(3, 25000)))).toEqual({
+      'X-Quota-Generations-Remaining': '16',
+      'X-Quota-Tokens-Remaining': '75000',
+    });
+  });
+});
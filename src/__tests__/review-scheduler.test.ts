@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { createInitialSchedulingState, scheduleReview } from '../lib/services/review-scheduler';
+
+const NOW = new Date('2025-05-20T12:00:00.000Z');
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+describe('scheduleReview', () => {
+  it('should schedule a new card for the next day when graded good', () => {
+    const next = scheduleReview(createInitialSchedulingState(NOW), 'good', NOW);
+
+    expect(next.interval).toBe(1);
+    expect(next.repetitions).toBe(1);
+    expect(next.ease_factor).toBe(2.5);
+    expect(next.due_at).toBe(new Date(NOW.getTime() + DAY_IN_MS).toISOString());
+    expect(next.last_reviewed_at).toBe(NOW.toISOString());
+  });
+
+  it('should grow the interval with the ease factor on consecutive successes', () => {
+    let state = createInitialSchedulingState(NOW);
+    state = scheduleReview(state, 'good', NOW);
+    state = scheduleReview(state, 'good', NOW);
+    expect(state.interval).toBe(6);
+
+    state = scheduleReview(state, 'good', NOW);
+    expect(state.interval).toBe(15);
+    expect(state.repetitions).toBe(3);
+  });
+
+  it('should reset repetitions and count a lapse when graded again', () => {
+    let state = createInitialSchedulingState(NOW);
+    state = scheduleReview(state, 'good', NOW);
+    state = scheduleReview(state, 'good', NOW);
+
+    const next = scheduleReview(state, 'again', NOW);
+
+    expect(next.repetitions).toBe(0);
+    expect(next.interval).toBe(0);
+    expect(next.lapses).toBe(1);
+    expect(next.ease_factor).toBeLessThan(state.ease_factor);
+    expect(new Date(next.due_at).getTime()).toBeLessThan(NOW.getTime() + DAY_IN_MS);
+  });
+
+  it('should never drop the ease factor below 1.3', () => {
+    let state = createInitialSchedulingState(NOW);
+    for (let i = 0; i < 10; i++) {
+      state = scheduleReview(state, 'again', NOW);
+    }
+
+    expect(state.ease_factor).toBe(1.3);
+  });
+
+  it('should schedule easy cards further out than good cards', () => {
+    const initial = createInitialSchedulingState(NOW);
+
+    const good = scheduleReview(initial, 'good', NOW);
+    const easy = scheduleReview(initial, 'easy', NOW);
+
+    expect(easy.interval).toBeGreaterThan(good.interval);
+    expect(easy.ease_factor).toBeGreaterThan(good.ease_factor);
+  });
+});
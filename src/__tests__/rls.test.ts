@@ -0,0 +1,359 @@
+// @vitest-environment node
+/**
+ * Row level security suite. Runs against a local Supabase (`supabase start`) and is skipped
+ * unless SUPABASE_TEST_URL, SUPABASE_TEST_ANON_KEY and SUPABASE_TEST_SERVICE_ROLE_KEY are set
+ * (see `npm run test:rls`). Two users are created for the run and deleted afterwards.
+ *
+ * Services are called with the attacker's client but the owner's user ID, which is what a
+ * route forgetting its `.eq('user_id', ...)` filter would do; only the policies protect the data.
+ */
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../db/database.types';
+import { AccountService } from '../lib/services/account.service';
+import { AnkiExportService } from '../lib/services/anki-export.service';
+import { DecksService } from '../lib/services/decks.service';
+import { FlashcardsService } from '../lib/services/flashcards.service';
+import { GenerationService } from '../lib/services/generation.service';
+import { ReviewsService } from '../lib/services/reviews.service';
+import { TagsService } from '../lib/services/tags.service';
+
+const SUPABASE_URL = process.env.SUPABASE_TEST_URL;
+const ANON_KEY = process.env.SUPABASE_TEST_ANON_KEY;
+const SERVICE_ROLE_KEY = process.env.SUPABASE_TEST_SERVICE_ROLE_KEY;
+
+const USER_TABLES = [
+  'decks',
+  'tags',
+  'generations',
+  'flashcards',
+  'flashcard_tags',
+  'review_states',
+  'generation_proposals',
+  'generation_error_logs',
+  'account_deletions',
+] as const;
+
+interface TestUser {
+  id: string;
+  client: SupabaseClient<Database>;
+}
+
+interface OwnerRecords {
+  deckId: number;
+  tagId: number;
+  generationId: number;
+  flashcardId: number;
+}
+
+const clientOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+
+describe.skipIf(!SUPABASE_URL || !ANON_KEY || !SERVICE_ROLE_KEY)('row level security', () => {
+  let admin: SupabaseClient<Database>;
+  let owner: TestUser;
+  let attacker: TestUser;
+  let records: OwnerRecords;
+
+  async function createUser(label: string): Promise<TestUser> {
+    const email = `rls-${label}-${crypto.randomUUID()}@example.com`;
+    const password = `Test-${crypto.randomUUID()}`;
+
+    const { data, error } = await admin.auth.admin.createUser({
+      email,
+      password,
+      email_confirm: true,
+    });
+    if (error) throw error;
+
+    const client = createClient<Database>(SUPABASE_URL ?? '', ANON_KEY ?? '', clientOptions);
+    const { error: signInError } = await client.auth.signInWithPassword({ email, password });
+    if (signInError) throw signInError;
+
+    return { id: data.user.id, client };
+  }
+
+  /** Counts the owner's rows with the service role, which bypasses the policies */
+  async function countOwnerRows(table: (typeof USER_TABLES)[number]): Promise<number> {
+    const { count, error } = await admin
+      .from(table)
+      .select('*', { count: 'exact', head: true })
+      .eq('user_id', owner.id);
+    if (error) throw error;
+    return count ?? 0;
+  }
+
+  beforeAll(async () => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'rls-test-key');
+    admin = createClient<Database>(SUPABASE_URL ?? '', SERVICE_ROLE_KEY ?? '', clientOptions);
+    owner = await createUser('owner');
+    attacker = await createUser('attacker');
+
+    // The owner creates one record of every kind through their own client
+    const deck = await new DecksService(owner.client).createDeck(owner.id, { name: 'Biologia' });
+
+    const { data: generation, error: generationError } = await owner.client
+      .from('generations')
+      .insert({
+        user_id: owner.id,
+        model: 'openai/gpt-4.1-nano',
+        source_text_hash: 'a'.repeat(64),
+        source_text_length: 1500,
+        generated_count: 1,
+      })
+      .select('id')
+      .single();
+    if (generationError) throw generationError;
+
+    const { data: flashcard, error: flashcardError } = await owner.client
+      .from('flashcards')
+      .insert({
+        user_id: owner.id,
+        front: 'Co to jest DNA?',
+        back: 'Kwas deoksyrybonukleinowy',
+        source: 'ai-full',
+        generation_id: generation.id,
+        deck_id: deck.id,
+      })
+      .select('id')
+      .single();
+    if (flashcardError) throw flashcardError;
+
+    const tagsService = new TagsService(owner.client);
+    await tagsService.setFlashcardTags(flashcard.id, owner.id, ['genetyka']);
+    const [tag] = await tagsService.getTags(owner.id);
+
+    const { error: proposalError } = await owner.client.from('generation_proposals').insert({
+      user_id: owner.id,
+      generation_id: generation.id,
+      position: 0,
+      original_front: 'Co to jest DNA?',
+      original_back: 'Kwas deoksyrybonukleinowy',
+      flashcard_id: flashcard.id,
+    });
+    if (proposalError) throw proposalError;
+
+    const { error: errorLogError } = await owner.client.from('generation_error_logs').insert({
+      user_id: owner.id,
+      generation_id: generation.id,
+      model: 'openai/gpt-4.1-nano',
+      error_code: 'timeout',
+      error_message: 'Request timed out',
+      source_text_hash: 'a'.repeat(64),
+      source_text_length: 1500,
+    });
+    if (errorLogError) throw errorLogError;
+
+    const { error: deletionError } = await owner.client.from('account_deletions').insert({
+      user_id: owner.id,
+      scheduled_for: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    });
+    if (deletionError) throw deletionError;
+
+    records = {
+      deckId: deck.id,
+      tagId: tag.id,
+      generationId: generation.id,
+      flashcardId: flashcard.id,
+    };
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    // Deleting the users removes their data through `on delete cascade`
+    for (const user of [owner, attacker]) {
+      if (user) await admin.auth.admin.deleteUser(user.id);
+    }
+    if (owner) await admin.from('account_deletions').delete().eq('user_id', owner.id);
+  });
+
+  describe('direct table access', () => {
+    it.each(USER_TABLES)('should seed %s rows for the owner', async (table) => {
+      expect(await countOwnerRows(table)).toBeGreaterThan(0);
+    });
+
+    it.each(USER_TABLES)('should not let another user read %s rows', async (table) => {
+      // Act
+      const unfiltered = await attacker.client.from(table).select('*');
+      const filtered = await attacker.client.from(table).select('*').eq('user_id', owner.id);
+
+      // Assert
+      expect(unfiltered.error).toBeNull();
+      expect(unfiltered.data).toEqual([]);
+      expect(filtered.data).toEqual([]);
+    });
+
+    it.each(USER_TABLES)('should not let another user update or delete %s rows', async (table) => {
+      // Arrange
+      const before = await countOwnerRows(table);
+
+      // Act
+      const updated = await attacker.client
+        .from(table)
+        .update({ user_id: attacker.id })
+        .eq('user_id', owner.id)
+        .select();
+      const deleted = await attacker.client.from(table).delete().eq('user_id', owner.id).select();
+
+      // Assert
+      expect(updated.data ?? []).toEqual([]);
+      expect(deleted.data ?? []).toEqual([]);
+      expect(await countOwnerRows(table)).toBe(before);
+    });
+
+    it('should not let a user rewrite or delete the usage of their own generations', async () => {
+      // Act
+      const reused = await owner.client
+        .from('generations')
+        .update({ reused: true, prompt_tokens: null, status: 'failed' })
+        .eq('id', records.generationId);
+      const deleted = await owner.client
+        .from('generations')
+        .delete()
+        .eq('id', records.generationId);
+      const accepted = await owner.client
+        .from('generations')
+        .update({ accepted_count: 1 })
+        .eq('id', records.generationId);
+      const complete = (promptTokens: number) =>
+        owner.client.rpc('complete_generation', {
+          p_generation_id: records.generationId,
+          p_generated_count: 1,
+          p_model: 'openai/gpt-4.1-nano',
+          p_duration: 0,
+          p_prompt_tokens: promptTokens,
+          p_completion_tokens: 0,
+          p_cost: null,
+        });
+      const completed = await complete(100);
+      const rewritten = await complete(0);
+
+      // Assert
+      expect(reused.error?.code).toBe('42501');
+      expect(deleted.error?.code).toBe('42501');
+      expect(accepted.error).toBeNull();
+      // A pending generation is completed once; its usage cannot be replaced afterwards
+      expect(completed.data).toBe(true);
+      expect(rewritten.data).toBe(false);
+      expect(await countOwnerRows('generations')).toBe(1);
+    });
+
+    it('should not let a user create rows for another user', async () => {
+      const { error } = await attacker.client
+        .from('decks')
+        .insert({ user_id: owner.id, name: 'Przejęta talia' });
+
+      expect(error?.code).toBe('42501');
+    });
+
+    it('should not let a user link their rows to records of another user', async () => {
+      // Act
+      const flashcardInDeck = await attacker.client.from('flashcards').insert({
+        user_id: attacker.id,
+        front: 'Pytanie',
+        back: 'Odpowiedź',
+        source: 'manual',
+        deck_id: records.deckId,
+      });
+      const proposalForGeneration = await attacker.client.from('generation_proposals').insert({
+        user_id: attacker.id,
+        generation_id: records.generationId,
+        position: 1,
+        original_front: 'Pytanie',
+        original_back: 'Odpowiedź',
+      });
+      const tagOnFlashcard = await attacker.client.from('flashcard_tags').insert({
+        user_id: attacker.id,
+        flashcard_id: records.flashcardId,
+        tag_id: records.tagId,
+      });
+
+      // Assert
+      expect(flashcardInDeck.error?.code).toBe('42501');
+      expect(proposalForGeneration.error?.code).toBe('42501');
+      expect(tagOnFlashcard.error?.code).toBe('42501');
+    });
+  });
+
+  describe('endpoints called with the user ID of another user', () => {
+    it('should hide flashcards (GET/PUT/DELETE /api/flashcards)', async () => {
+      const service = new FlashcardsService(attacker.client);
+
+      const list = await service.getFlashcards(
+        { page: 1, limit: 20, sort: 'created_at', order: 'desc' },
+        owner.id
+      );
+      expect(list.pagination.total).toBe(0);
+      expect(await service.getFlashcardById(records.flashcardId, owner.id)).toBeNull();
+      await expect(
+        service.updateFlashcard(records.flashcardId, owner.id, { front: 'Zmienione' })
+      ).resolves.toBeNull();
+      await expect(service.deleteFlashcard(records.flashcardId, owner.id)).resolves.toBe(false);
+      expect(await countOwnerRows('flashcards')).toBe(1);
+    });
+
+    it('should hide decks (GET/PUT/DELETE /api/decks)', async () => {
+      const service = new DecksService(attacker.client);
+
+      expect(await service.getDecks(owner.id)).toEqual([]);
+      expect(await service.getDeckById(records.deckId, owner.id)).toBeNull();
+      expect(await service.updateDeck(records.deckId, owner.id, { name: 'Zmienione' })).toBeNull();
+      expect(await service.deleteDeck(records.deckId, owner.id)).toBe(false);
+    });
+
+    it('should hide tags (GET/PUT/DELETE /api/tags)', async () => {
+      const service = new TagsService(attacker.client);
+
+      expect(await service.getTags(owner.id)).toEqual([]);
+      expect(await service.renameTag(records.tagId, owner.id, { name: 'zmienione' })).toBeNull();
+      expect(await service.deleteTag(records.tagId, owner.id)).toBe(false);
+      expect(await countOwnerRows('flashcard_tags')).toBe(1);
+    });
+
+    it('should hide generations, proposals and error logs (/api/generations)', async () => {
+      const service = new GenerationService(attacker.client);
+
+      const list = await service.getGenerations(
+        { page: 1, limit: 20, sort: 'created_at', order: 'desc' },
+        owner.id
+      );
+      const errors = await service.getGenerationErrors(
+        { page: 1, limit: 20, order: 'desc' },
+        owner.id
+      );
+
+      expect(list.pagination.total).toBe(0);
+      expect(errors.pagination.total).toBe(0);
+      expect(await service.getGenerationById(records.generationId, owner.id)).toBeNull();
+      expect(
+        await service.recordProposalDecisions(records.generationId, owner.id, {
+          decisions: [{ position: 0, decision: 'rejected' }],
+        })
+      ).toBeNull();
+    });
+
+    it('should hide review state (/api/reviews)', async () => {
+      const service = new ReviewsService(attacker.client);
+
+      const due = await service.getDueFlashcards({ limit: 20 }, owner.id);
+      expect(due.total_due).toBe(0);
+      expect(await service.getReviewState(records.flashcardId, owner.id)).toBeNull();
+      expect(
+        await service.submitReview(owner.id, { flashcard_id: records.flashcardId, grade: 'good' })
+      ).toBeNull();
+    });
+
+    it('should export nothing of another user (/api/flashcards/export, /api/account)', async () => {
+      const ankiExportService = new AnkiExportService(attacker.client);
+      const accountService = new AccountService(attacker.client);
+
+      expect(await ankiExportService.getExportCards(owner.id)).toEqual([]);
+      expect(await accountService.getDeletion(owner.id)).toBeNull();
+      expect(await accountService.cancelDeletion(owner.id)).toBeNull();
+
+      const archive = JSON.parse(await new Response(accountService.exportArchive(owner.id)).text());
+      expect(archive.flashcards).toEqual([]);
+      expect(archive.generations).toEqual([]);
+      expect(archive.generation_error_logs).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { buildPrefixTsQuery, splitByMatches, tokenizeSearchQuery } from '../lib/search';
+
+describe('tokenizeSearchQuery', () => {
+  it('should lowercase words and drop punctuation and duplicates', () => {
+    expect(tokenizeSearchQuery("  Mitochondria's  (DNA) & dna:* ")).toEqual([
+      'mitochondria',
+      's',
+      'dna',
+    ]);
+  });
+
+  it('should keep Polish letters', () => {
+    expect(tokenizeSearchQuery('Żółw błotny')).toEqual(['żółw', 'błotny']);
+  });
+});
+
+describe('buildPrefixTsQuery', () => {
+  it('should require every word as a prefix', () => {
+    expect(buildPrefixTsQuery('cell biol')).toBe('cell:* & biol:*');
+  });
+
+  it('should return null when the query has no words', () => {
+    expect(buildPrefixTsQuery(' !? ')).toBeNull();
+  });
+});
+
+describe('splitByMatches', () => {
+  it('should mark word prefixes matching the query', () => {
+    expect(splitByMatches('Cell biology of cells', 'cell')).toEqual([
+      { text: 'Cell', match: true },
+      { text: ' biology of ', match: false },
+      { text: 'cell', match: true },
+      { text: 's', match: false },
+    ]);
+  });
+
+  it('should not match inside words', () => {
+    expect(splitByMatches('Excellent', 'cell')).toEqual([{ text: 'Excellent', match: false }]);
+  });
+
+  it('should ignore Polish diacritics', () => {
+    expect(splitByMatches('Żółw błotny', 'zolw blot')).toEqual([
+      { text: 'Żółw', match: true },
+      { text: ' ', match: false },
+      { text: 'błot', match: true },
+      { text: 'ny', match: false },
+    ]);
+  });
+});
@@ -0,0 +1,73 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import {
+  createEventStream,
+  formatServerSentEvent,
+  readServerSentEvents,
+  type ServerSentEvent,
+} from '../lib/sse';
+
+type TestEvent = { type: 'item'; value: number } | { type: 'error'; message: string };
+
+function bodyOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+}
+
+async function readAll(body: ReadableStream<Uint8Array>): Promise<ServerSentEvent[]> {
+  const events: ServerSentEvent[] = [];
+  for await (const event of readServerSentEvents(body)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe('formatServerSentEvent', () => {
+  it('should send the type as event name and the object as data', () => {
+    expect(formatServerSentEvent({ type: 'item' })).toBe('event: item\ndata: {"type":"item"}\n\n');
+  });
+});
+
+describe('readServerSentEvents', () => {
+  it('should join events split across chunks and skip comments', async () => {
+    // Act
+    const events = await readAll(
+      bodyOf([': keep-alive\n\nevent: it', 'em\ndata: {"a":', '1}\n\ndata: plain\r\n\r\n'])
+    );
+
+    // Assert
+    expect(events).toEqual([
+      { event: 'item', data: '{"a":1}' },
+      { event: 'message', data: 'plain' },
+    ]);
+  });
+});
+
+describe('createEventStream', () => {
+  it('should send every generated event and finish with an error event on failure', async () => {
+    // Arrange
+    async function* events(): AsyncGenerator<TestEvent> {
+      yield { type: 'item', value: 1 };
+      throw new Error('Boom');
+    }
+
+    // Act
+    const received = await readAll(
+      createEventStream<TestEvent>(events(), (error) => ({
+        type: 'error',
+        message: (error as Error).message,
+      }))
+    );
+
+    // Assert
+    expect(received.map((event) => JSON.parse(event.data))).toEqual([
+      { type: 'item', value: 1 },
+      { type: 'error', message: 'Boom' },
+    ]);
+  });
+});
@@ -0,0 +1,217 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest';
+import { createApiContext } from '../../test/api-context';
+import { createSupabaseMock } from '../../test/supabase-mock';
+import { flashcardsQuerySchema } from '../lib/schemas/flashcards.schema';
+import { flashcardTagsSchema, renameTagSchema } from '../lib/schemas/tags.schema';
+import { FlashcardsService } from '../lib/services/flashcards.service';
+import { normalizeTagNames, TagsService } from '../lib/services/tags.service';
+import { PUT as renameTag } from '../pages/api/tags/[id]';
+
+describe('normalizeTagNames', () => {
+  it('should trim, lowercase and collapse whitespace', () => {
+    expect(normalizeTagNames(['  Cell   Biology ', 'DNA'])).toEqual(['cell biology', 'dna']);
+  });
+
+  it('should drop empty names and duplicates', () => {
+    expect(normalizeTagNames(['biology', '', '   ', 'Biology', 'BIOLOGY '])).toEqual(['biology']);
+  });
+
+  it('should truncate names to 50 characters', () => {
+    const [name] = normalizeTagNames(['a'.repeat(80)]);
+
+    expect(name).toHaveLength(50);
+  });
+});
+
+describe('tag name schemas', () => {
+  it('should normalize names like normalizeTagNames', () => {
+    expect(renameTagSchema.parse({ name: '  Cell \t  Biology ' })).toEqual({
+      name: 'cell biology',
+    });
+    expect(flashcardTagsSchema.parse(['Cell  Biology'])).toEqual(
+      normalizeTagNames(['Cell  Biology'])
+    );
+  });
+
+  it('should check the length of the collapsed name', () => {
+    expect(
+      renameTagSchema.safeParse({ name: `${'a'.repeat(25)}     ${'b'.repeat(24)}` }).success
+    ).toBe(true);
+    expect(renameTagSchema.safeParse({ name: '   ' }).success).toBe(false);
+  });
+});
+
+describe('TagsService', () => {
+  const userId = 'user-1';
+  const tagRow = (id: number, name: string, count: number) => ({
+    id,
+    name,
+    created_at: '2025-05-25T10:00:00Z',
+    updated_at: '2025-05-25T10:00:00Z',
+    flashcard_tags: [{ count }],
+  });
+
+  describe('mergeTags', () => {
+    it('should move the flashcards of the source tags and delete the source tags', async () => {
+      // Arrange
+      const supabase = createSupabaseMock((query) => {
+        if (query.table === 'tags' && query.has('select', 'id')) {
+          return { data: [{ id: 1 }, { id: 2 }, { id: 3 }] };
+        }
+        if (query.table === 'flashcard_tags' && query.has('select')) {
+          return { data: [{ flashcard_id: 10 }, { flashcard_id: 11 }, { flashcard_id: 10 }] };
+        }
+        if (query.table === 'tags' && query.has('single')) {
+          return { data: tagRow(1, 'biology', 2) };
+        }
+      });
+
+      // Act
+      const tag = await new TagsService(supabase.client).mergeTags(userId, {
+        target_tag_id: 1,
+        source_tag_ids: [2, 3, 2],
+      });
+
+      // Assert
+      const upsert = supabase.queries.find((query) => query.has('upsert'));
+      expect(upsert?.args('upsert')?.[0]).toEqual([
+        { flashcard_id: 10, tag_id: 1, user_id: userId },
+        { flashcard_id: 11, tag_id: 1, user_id: userId },
+      ]);
+      const deletion = supabase.queries.find((query) => query.has('delete'));
+      expect(deletion?.has('in', 'id', [2, 3])).toBe(true);
+      expect(deletion?.has('eq', 'user_id', userId)).toBe(true);
+      expect(tag).toMatchObject({ id: 1, name: 'biology', flashcard_count: 2 });
+    });
+
+    it('should return null and change nothing when a tag belongs to another user', async () => {
+      // Arrange
+      const supabase = createSupabaseMock((query) =>
+        query.table === 'tags' ? { data: [{ id: 1 }] } : undefined
+      );
+
+      // Act
+      const tag = await new TagsService(supabase.client).mergeTags(userId, {
+        target_tag_id: 1,
+        source_tag_ids: [2],
+      });
+
+      // Assert
+      expect(tag).toBeNull();
+      expect(supabase.queries).toHaveLength(1);
+    });
+  });
+
+  describe('renameTag', () => {
+    it('should report a name conflict', async () => {
+      // Arrange
+      const supabase = createSupabaseMock(() => ({
+        error: { message: 'duplicate key value', code: '23505' },
+      }));
+
+      // Act & Assert
+      await expect(
+        new TagsService(supabase.client).renameTag(1, userId, { name: 'biology' })
+      ).rejects.toThrow('Tag name already exists');
+    });
+
+    it('should return null for a missing tag', async () => {
+      // Arrange
+      const supabase = createSupabaseMock();
+
+      // Act & Assert
+      expect(
+        await new TagsService(supabase.client).renameTag(1, userId, { name: 'biology' })
+      ).toBeNull();
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('should delete only a tag of the user', async () => {
+      // Arrange
+      const supabase = createSupabaseMock(() => ({ data: [{ id: 1 }] }));
+
+      // Act
+      const deleted = await new TagsService(supabase.client).deleteTag(1, userId);
+
+      // Assert
+      expect(deleted).toBe(true);
+      expect(supabase.queries[0].has('eq', 'user_id', userId)).toBe(true);
+    });
+
+    it('should report a missing tag', async () => {
+      // Arrange
+      const supabase = createSupabaseMock(() => ({ data: [] }));
+
+      // Act & Assert
+      expect(await new TagsService(supabase.client).deleteTag(1, userId)).toBe(false);
+    });
+  });
+});
+
+describe('PUT /api/tags/:id', () => {
+  it('should answer a name conflict with 409', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => ({
+      error: { message: 'duplicate key value', code: '23505' },
+    }));
+
+    // Act
+    const response = await renameTag(
+      createApiContext({
+        supabase: supabase.client,
+        method: 'PUT',
+        params: { id: '1' },
+        body: { name: 'biology' },
+      })
+    );
+
+    // Assert
+    expect(response.status).toBe(409);
+    expect(await response.json()).toMatchObject({ error: 'Tag name already exists' });
+  });
+});
+
+describe('FlashcardsService tag filter', () => {
+  const params = { page: 1, limit: 20, sort: 'created_at', order: 'desc' } as const;
+
+  it('should match flashcards having all the tags in the database', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => ({ data: [], count: 0 }));
+
+    // Act
+    await new FlashcardsService(supabase.client).getFlashcards(
+      { ...params, tag_ids: [4, 7] },
+      'user-1'
+    );
+
+    // Assert
+    expect(supabase.queries).toHaveLength(1);
+    const [query] = supabase.queries;
+    expect(query.table).toBe('flashcards_with_all_tags');
+    expect(query.args('rpc')).toEqual([{ p_tag_ids: [4, 7] }, { count: 'exact' }]);
+    expect(query.has('eq', 'user_id', 'user-1')).toBe(true);
+    expect(query.has('in')).toBe(false);
+  });
+
+  it('should read the flashcards table without a tag filter', async () => {
+    // Arrange
+    const supabase = createSupabaseMock(() => ({ data: [], count: 0 }));
+
+    // Act
+    await new FlashcardsService(supabase.client).getFlashcards(
+      { ...params, tag_ids: [] },
+      'user-1'
+    );
+
+    // Assert
+    expect(supabase.queries.map((query) => query.table)).toEqual(['flashcards']);
+  });
+
+  it('should parse the comma-separated tag filter', () => {
+    const result = flashcardsQuerySchema.parse({ tag_ids: '4,7,' });
+
+    expect(result.tag_ids).toEqual([4, 7]);
+  });
+});
@@ -0,0 +1,167 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { createSupabaseMock } from '../../test/supabase-mock';
+import { GenerationService } from '../lib/services/generation.service';
+import { resetCircuitBreakers } from '../lib/services/openrouter';
+import {
+  getMonthRange,
+  summarizeUsage,
+  toUsageMonth,
+  type UsageRow,
+} from '../lib/services/usage.service';
+
+describe('getMonthRange', () => {
+  it('should cover the whole month in UTC', () => {
+    expect(getMonthRange('2025-05')).toEqual({
+      from: '2025-05-01T00:00:00.000Z',
+      to: '2025-06-01T00:00:00.000Z',
+    });
+  });
+
+  it('should roll over to the next year in December', () => {
+    expect(getMonthRange('2025-12').to).toBe('2026-01-01T00:00:00.000Z');
+  });
+
+  it('should format the month of a date', () => {
+    expect(toUsageMonth(new Date('2025-05-31T23:59:59Z'))).toBe('2025-05');
+  });
+});
+
+describe('summarizeUsage', () => {
+  const row = (model: string, cost: number | null, tokens = 1000): UsageRow => ({
+    model,
+    prompt_tokens: tokens,
+    completion_tokens: tokens / 2,
+    cost,
+  });
+
+  it('should return zeros for a month without generations', () => {
+    expect(summarizeUsage('2025-05', [])).toEqual({
+      month: '2025-05',
+      generations: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      cost: 0,
+      unpriced_generations: 0,
+      by_model: [],
+    });
+  });
+
+  it('should add up the usage per model, the most expensive model first', () => {
+    // Arrange
+    const rows = [
+      row('openai/gpt-4.1-nano', 0.0001),
+      row('openai/gpt-4.1-mini', 0.0007),
+      row('openai/gpt-4.1-nano', 0.0002),
+    ];
+
+    // Act
+    const summary = summarizeUsage('2025-05', rows);
+
+    // Assert
+    expect(summary.generations).toBe(3);
+    expect(summary.prompt_tokens).toBe(3000);
+    expect(summary.completion_tokens).toBe(1500);
+    expect(summary.cost).toBe(0.001);
+    expect(summary.by_model).toEqual([
+      {
+        model: 'openai/gpt-4.1-mini',
+        generations: 1,
+        prompt_tokens: 1000,
+        completion_tokens: 500,
+        cost: 0.0007,
+      },
+      {
+        model: 'openai/gpt-4.1-nano',
+        generations: 2,
+        prompt_tokens: 2000,
+        completion_tokens: 1000,
+        cost: 0.0003,
+      },
+    ]);
+  });
+
+  it('should count generations without a cost or usage as unpriced', () => {
+    // Arrange
+    const rows = [
+      row('openai/gpt-4.1-nano', 0.0001),
+      row('openai/gpt-4.1-nano', null),
+      { model: 'openai/gpt-4.1-nano', prompt_tokens: null, completion_tokens: null, cost: null },
+    ];
+
+    // Act
+    const summary = summarizeUsage('2025-05', rows);
+
+    // Assert
+    expect(summary.generations).toBe(3);
+    expect(summary.prompt_tokens).toBe(2000);
+    expect(summary.cost).toBe(0.0001);
+    expect(summary.unpriced_generations).toBe(2);
+  });
+});
+
+describe('GenerationService cost', () => {
+  const fetchMock = vi.fn();
+
+  const chatCompletion = () =>
+    new Response(
+      JSON.stringify({
+        id: 'gen-1',
+        model: 'openai/gpt-4.1-nano',
+        choices: [
+          {
+            message: {
+              content: JSON.stringify({
+                flashcards: [{ front: 'Co to jest ATP?', back: 'Nośnik energii.', tags: [] }],
+              }),
+            },
+          },
+        ],
+        usage: { prompt_tokens: 1000, completion_tokens: 500, total_tokens: 1500 },
+      }),
+      { status: 200, headers: { 'Content-Type': 'application/json' } }
+    );
+
+  beforeEach(() => {
+    vi.stubEnv('OPENROUTER_API_KEY', 'key');
+    vi.stubGlobal('fetch', fetchMock);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    resetCircuitBreakers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it('should store the results without the cost when the model prices are slow', async () => {
+    // Arrange
+    fetchMock.mockImplementation(async (url: string) =>
+      url.endsWith('/models') ? new Promise<Response>(() => undefined) : chatCompletion()
+    );
+    const supabase = createSupabaseMock((query) => {
+      if (query.table === 'create_generation') return { data: 42 };
+      if (query.table === 'complete_generation') return { data: true };
+      return undefined;
+    });
+
+    // Act
+    const generation = new GenerationService(supabase.client).generateFlashcards('user-1', {
+      source_text: 'a'.repeat(1500),
+      force_refresh: true,
+    });
+    await vi.advanceTimersByTimeAsync(2000);
+    const result = await generation;
+
+    // Assert
+    const completed = supabase.queries.find((query) => query.table === 'complete_generation');
+    expect(result.flashcards_proposal).toHaveLength(1);
+    expect(completed?.args('rpc')?.[0]).toMatchObject({
+      p_prompt_tokens: 1000,
+      p_completion_tokens: 500,
+      p_cost: null,
+    });
+  });
+});
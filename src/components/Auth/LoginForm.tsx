@@ -56,7 +56,9 @@ export const LoginForm: React.FC<LoginFormProps> = () => {
             }
 
             // Przekierowanie po udanym logowaniu
-            window.location.href = '/flashcards/generate';
+            window.location.href = result.deletion_cancelled
+              ? '/account?deletion_cancelled=1'
+              : '/flashcards/generate';
           } catch (err) {
             setError(err instanceof Error ? err.message : 'Błąd logowania');
           } finally {
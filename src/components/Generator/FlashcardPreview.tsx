@@ -18,7 +18,7 @@ export const FlashcardPreview: React.FC<FlashcardPreviewProps> = ({
   onAccept,
   onReject,
 }) => {
-  const { front, back, status, errors } = flashcard;
+  const { front, back, status, tags = [], errors } = flashcard;
 
   const isEditable = status === 'pending' || status === 'edited';
   const isRejected = status === 'rejected';
@@ -79,6 +79,17 @@ export const FlashcardPreview: React.FC<FlashcardPreviewProps> = ({
           error={errors.back}
           rows={4}
         />
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1">
+            <span className="text-sm text-gray-500 mr-1">Tagi:</span>
+            {tags.map((tag) => (
+              <span key={tag} className="bg-gray-100 text-gray-700 text-xs px-2 py-1 rounded">
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
       </CardContent>
 
       {isEditable && (
@@ -2,6 +2,8 @@ import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter } from '@/components/ui/card';
 import { Check, X, Save, RotateCcw } from 'lucide-react';
+import { DeckSelect } from '@/components/decks/DeckSelect';
+import type { DeckDto } from '@/types';
 
 interface FlashcardsSummaryProps {
   totalCount: number;
@@ -11,6 +13,10 @@ interface FlashcardsSummaryProps {
   onReset: () => void;
   isLoading: boolean;
   isComplete: boolean;
+  isStreaming?: boolean;
+  decks?: DeckDto[];
+  deckId?: number | null;
+  onDeckChange?: (deckId: number | null) => void;
 }
 
 export const FlashcardsSummary: React.FC<FlashcardsSummaryProps> = ({
@@ -21,6 +27,10 @@ export const FlashcardsSummary: React.FC<FlashcardsSummaryProps> = ({
   onReset,
   isLoading,
   isComplete,
+  isStreaming = false,
+  decks = [],
+  deckId,
+  onDeckChange,
 }) => {
   const pendingCount = totalCount - acceptedCount - rejectedCount;
   const hasAccepted = acceptedCount > 0;
@@ -57,6 +67,20 @@ export const FlashcardsSummary: React.FC<FlashcardsSummaryProps> = ({
             <div className="text-xl font-semibold text-amber-600">{pendingCount}</div>
           </div>
         </div>
+
+        {onDeckChange && !isComplete && (
+          <div className="mt-4 space-y-2">
+            <div className="text-sm text-gray-500">Zapisz do talii</div>
+            <DeckSelect
+              decks={decks}
+              value={deckId}
+              onChange={onDeckChange}
+              emptyLabel="Bez talii"
+              disabled={isLoading}
+              className="w-full bg-white"
+            />
+          </div>
+        )}
       </CardContent>
 
       <CardFooter className="p-4 pt-0 flex justify-end gap-3">
@@ -67,7 +91,7 @@ export const FlashcardsSummary: React.FC<FlashcardsSummaryProps> = ({
           </Button>
         ) : (
           <>
-            {!isLoading && (
+            {!isLoading && !isStreaming && (
               <Button variant="outline" onClick={onReset} className="gap-2">
                 <RotateCcw className="h-4 w-4" />
                 Anuluj
@@ -76,7 +100,7 @@ export const FlashcardsSummary: React.FC<FlashcardsSummaryProps> = ({
 
             <Button
               onClick={onSave}
-              disabled={!hasAccepted || isLoading || pendingCount > 0}
+              disabled={!hasAccepted || isLoading || isStreaming || pendingCount > 0}
               className="gap-2"
             >
               <Save className="h-4 w-4" />
@@ -23,6 +23,10 @@ describe('GenerationForm', () => {
   const defaultProps = {
     sourceText: '',
     onSourceTextChange: vi.fn(),
+    options: {},
+    onOptionsChange: vi.fn(),
+    models: [],
+    defaultModel: null,
     isGenerating: false,
     isValid: false,
     onGenerate: vi.fn(),
@@ -127,4 +131,144 @@ describe('GenerationForm', () => {
     // Assert
     expect(screen.getByText(/Tekst powinien mieć od 1000 do 10000 znaków/)).toBeInTheDocument();
   });
+
+  it('should offer cancelling only while generating', () => {
+    // Arrange
+    const mockOnCancel = vi.fn();
+    const { rerender } = render(<GenerationForm {...defaultProps} onCancel={mockOnCancel} />);
+
+    // Assert
+    expect(screen.queryByText('Anuluj')).not.toBeInTheDocument();
+
+    // Act
+    rerender(
+      <GenerationForm
+        {...defaultProps}
+        isValid={true}
+        isGenerating={true}
+        onCancel={mockOnCancel}
+      />
+    );
+    fireEvent.click(screen.getByText('Anuluj'));
+
+    // Assert
+    expect(mockOnCancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass the focus to onOptionsChange', () => {
+    // Arrange
+    const mockOnOptionsChange = vi.fn();
+    render(
+      <GenerationForm
+        {...defaultProps}
+        options={{ difficulty: 'easy' }}
+        onOptionsChange={mockOnOptionsChange}
+      />
+    );
+
+    // Act
+    fireEvent.change(screen.getByLabelText('Na czym skupić fiszki (opcjonalnie)'), {
+      target: { value: 'daty bitew' },
+    });
+
+    // Assert
+    expect(mockOnOptionsChange).toHaveBeenCalledWith({ difficulty: 'easy', focus: 'daty bitew' });
+  });
+
+  it('should disable generation settings while generating', () => {
+    // Arrange & Act
+    render(<GenerationForm {...defaultProps} isGenerating={true} />);
+
+    // Assert
+    expect(screen.getByLabelText('Na czym skupić fiszki (opcjonalnie)')).toBeDisabled();
+    expect(screen.getByLabelText('Liczba fiszek')).toBeDisabled();
+  });
+
+  it('should show the model picker with pricing when several models are allowed', () => {
+    // Arrange
+    const models = [
+      {
+        id: 'openai/gpt-4.1-nano',
+        name: 'GPT-4.1 Nano',
+        context_length: 1047576,
+        pricing: { prompt: 0.0000001, completion: 0.0000004 },
+      },
+      { id: 'openai/gpt-4.1-mini', name: 'GPT-4.1 Mini', context_length: 128000, pricing: null },
+    ];
+
+    // Act
+    const { rerender } = render(
+      <GenerationForm {...defaultProps} models={models.slice(0, 1)} defaultModel={models[0].id} />
+    );
+
+    // Assert - a single model leaves nothing to choose
+    expect(screen.queryByLabelText('Model AI')).not.toBeInTheDocument();
+
+    // Act
+    rerender(
+      <GenerationForm
+        {...defaultProps}
+        models={models}
+        defaultModel={models[0].id}
+        options={{ model: 'openai/gpt-4.1-mini' }}
+      />
+    );
+
+    // Assert
+    expect(screen.getByLabelText('Model AI')).toBeInTheDocument();
+    expect(screen.getByTestId('model-details')).toHaveTextContent('kontekst 128k tokenów');
+
+    // Act
+    rerender(<GenerationForm {...defaultProps} models={models} defaultModel={models[0].id} />);
+
+    // Assert
+    expect(screen.getByTestId('model-details')).toHaveTextContent(
+      '$0.10 / $0.40 za 1M tokenów (wejście / wyjście)'
+    );
+  });
+
+  it('should show the remaining quota', () => {
+    // Arrange
+    const quota = {
+      daily_generations: { limit: 20, used: 3, remaining: 17, resets_at: '2025-06-02T00:00:00Z' },
+      monthly_tokens: {
+        limit: null,
+        used: 12000,
+        remaining: null,
+        resets_at: '2025-07-01T00:00:00Z',
+      },
+    };
+
+    // Act
+    render(<GenerationForm {...defaultProps} isValid={true} quota={quota} />);
+
+    // Assert
+    expect(screen.getByTestId('quota-indicator')).toHaveTextContent(
+      'Pozostałe generowania dzisiaj: 17 z 20'
+    );
+    expect(screen.getByTestId('quota-indicator')).not.toHaveTextContent('tokeny');
+    expect(screen.getByText('Generuj fiszki')).not.toBeDisabled();
+  });
+
+  it('should disable generate button when the quota is exhausted', () => {
+    // Arrange
+    const quota = {
+      daily_generations: { limit: 20, used: 5, remaining: 15, resets_at: '2025-06-02T00:00:00Z' },
+      monthly_tokens: {
+        limit: 100000,
+        used: 100400,
+        remaining: 0,
+        resets_at: '2025-07-01T00:00:00Z',
+      },
+    };
+
+    // Act
+    render(<GenerationForm {...defaultProps} isValid={true} quota={quota} />);
+
+    // Assert
+    expect(screen.getByTestId('quota-indicator')).toHaveTextContent(
+      'Wykorzystano limit generowania'
+    );
+    expect(screen.getByText('Generuj fiszki')).toBeDisabled();
+  });
 });
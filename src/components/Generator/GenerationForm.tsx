@@ -1,23 +1,43 @@
 import React from 'react';
 import { TextInput } from './TextInput';
+import { GenerationSettings } from './GenerationSettings';
+import { isQuotaExhausted, QuotaIndicator } from './QuotaIndicator';
+import type { GenerationOptions } from './types';
+import type { GenerationModelDto, GenerationQuotaDto } from '../../types';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { X } from 'lucide-react';
 
 interface GenerationFormProps {
   sourceText: string;
   onSourceTextChange: (text: string) => void;
+  options: GenerationOptions;
+  onOptionsChange: (options: GenerationOptions) => void;
+  models: GenerationModelDto[];
+  defaultModel: string | null;
+  // Pozostały limit generowania; null, dopóki nie zostanie pobrany
+  quota?: GenerationQuotaDto | null;
   isGenerating: boolean;
   isValid: boolean;
   onGenerate: () => Promise<void>;
+  onCancel?: () => void;
 }
 
 export const GenerationForm: React.FC<GenerationFormProps> = ({
   sourceText,
   onSourceTextChange,
+  options,
+  onOptionsChange,
+  models,
+  defaultModel,
+  quota = null,
   isGenerating,
   isValid,
   onGenerate,
+  onCancel,
 }) => {
+  const quotaExhausted = isQuotaExhausted(quota);
+
   return (
     <div className="space-y-6">
       <CardHeader className="px-0 pt-0">
@@ -28,7 +48,7 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
         </p>
       </CardHeader>
 
-      <CardContent className="px-0 pb-0">
+      <CardContent className="px-0 pb-0 space-y-6">
         <TextInput
           value={sourceText}
           onChange={onSourceTextChange}
@@ -42,10 +62,28 @@ export const GenerationForm: React.FC<GenerationFormProps> = ({
               : undefined
           }
         />
+        <GenerationSettings
+          options={options}
+          onChange={onOptionsChange}
+          models={models}
+          defaultModel={defaultModel}
+          disabled={isGenerating}
+        />
+        {quota && <QuotaIndicator quota={quota} />}
       </CardContent>
 
-      <CardFooter className="px-0 pt-4 flex justify-end">
-        <Button onClick={onGenerate} disabled={!isValid || isGenerating} className="min-w-[150px]">
+      <CardFooter className="px-0 pt-4 flex justify-end gap-3">
+        {isGenerating && onCancel && (
+          <Button variant="outline" onClick={onCancel} className="gap-2">
+            <X className="h-4 w-4" />
+            Anuluj
+          </Button>
+        )}
+        <Button
+          onClick={onGenerate}
+          disabled={!isValid || isGenerating || quotaExhausted}
+          className="min-w-[150px]"
+        >
           {isGenerating ? 'Generowanie...' : 'Generuj fiszki'}
         </Button>
       </CardFooter>
@@ -111,6 +111,20 @@ describe('GenerationResults', () => {
     expect(screen.getByTestId('flashcards-summary')).toBeInTheDocument();
   });
 
+  it('should show a progress indicator while proposals are streamed', () => {
+    // Arrange & Act
+    const { rerender } = render(<GenerationResults {...defaultProps} isStreaming={true} />);
+
+    // Assert
+    expect(screen.getByTestId('streaming-indicator')).toBeInTheDocument();
+
+    // Act - stream finished
+    rerender(<GenerationResults {...defaultProps} />);
+
+    // Assert
+    expect(screen.queryByTestId('streaming-indicator')).not.toBeInTheDocument();
+  });
+
   it('should render success message when complete', () => {
     // Arrange & Act
     render(<GenerationResults {...defaultProps} isComplete={true} />);
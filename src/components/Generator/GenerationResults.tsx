@@ -2,8 +2,10 @@ import React, { useMemo } from 'react';
 import { FlashcardsList } from './FlashcardsList';
 import { FlashcardsSummary } from './FlashcardsSummary';
 import type { FlashcardProposalViewModel, FlashcardUpdateData } from './types';
+import type { DeckDto } from '@/types';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-import { AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
 
 interface GenerationResultsProps {
   generationId: number | null;
@@ -15,6 +17,11 @@ interface GenerationResultsProps {
   onReset: () => void;
   isLoading: boolean;
   isComplete: boolean;
+  isStreaming?: boolean;
+  onCancelGeneration?: () => void;
+  decks?: DeckDto[];
+  deckId?: number | null;
+  onDeckChange?: (deckId: number | null) => void;
 }
 
 export const GenerationResults: React.FC<GenerationResultsProps> = ({
@@ -27,6 +34,11 @@ export const GenerationResults: React.FC<GenerationResultsProps> = ({
   onReset,
   isLoading,
   isComplete,
+  isStreaming = false,
+  onCancelGeneration,
+  decks,
+  deckId,
+  onDeckChange,
 }) => {
   const { totalCount, acceptedCount, rejectedCount } = useMemo(() => {
     return {
@@ -67,6 +79,20 @@ export const GenerationResults: React.FC<GenerationResultsProps> = ({
               onRejectFlashcard={onRejectFlashcard}
             />
           )}
+          {isStreaming && (
+            <div
+              className="mt-4 flex items-center gap-2 text-gray-500"
+              data-testid="streaming-indicator"
+            >
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Generowanie kolejnych fiszek...
+              {onCancelGeneration && (
+                <Button variant="ghost" size="sm" onClick={onCancelGeneration}>
+                  Przerwij
+                </Button>
+              )}
+            </div>
+          )}
         </div>
 
         <div className="order-1 md:order-2">
@@ -79,6 +105,10 @@ export const GenerationResults: React.FC<GenerationResultsProps> = ({
               onReset={onReset}
               isLoading={isLoading}
               isComplete={isComplete}
+              isStreaming={isStreaming}
+              decks={decks}
+              deckId={deckId}
+              onDeckChange={onDeckChange}
             />
           </div>
         </div>
@@ -0,0 +1,182 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { GenerationDifficulty, GenerationLanguage, GenerationModelDto } from '../../types';
+import type { GenerationOptions } from './types';
+
+// Wartość opcji oznaczającej ustawienie domyślne (Select nie obsługuje pustej wartości)
+const EMPTY_VALUE = 'none';
+const MAX_FOCUS_LENGTH = 500;
+
+const CARD_COUNTS = [3, 5, 8, 10, 15, 20];
+
+const DIFFICULTY_LABELS: Record<GenerationDifficulty, string> = {
+  easy: 'Łatwy',
+  medium: 'Średni',
+  hard: 'Trudny',
+};
+
+const LANGUAGE_LABELS: Record<GenerationLanguage, string> = {
+  pl: 'Polski',
+  en: 'Angielski',
+  de: 'Niemiecki',
+  es: 'Hiszpański',
+  fr: 'Francuski',
+  it: 'Włoski',
+};
+
+// Cena za milion tokenów (OpenRouter podaje cenę za jeden token)
+const formatPrice = (pricePerToken: number) => `$${(pricePerToken * 1_000_000).toFixed(2)}`;
+
+const describeModel = (model: GenerationModelDto) => {
+  const context = `kontekst ${Math.round(model.context_length / 1000)}k tokenów`;
+  if (!model.pricing) return context;
+
+  return `${context} · ${formatPrice(model.pricing.prompt)} / ${formatPrice(model.pricing.completion)} za 1M tokenów (wejście / wyjście)`;
+};
+
+interface GenerationSettingsProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+  // Modele dozwolone przez administratora; wybór jest ukryty, gdy jest tylko jeden
+  models: GenerationModelDto[];
+  defaultModel: string | null;
+  disabled?: boolean;
+}
+
+export const GenerationSettings: React.FC<GenerationSettingsProps> = ({
+  options,
+  onChange,
+  models,
+  defaultModel,
+  disabled,
+}) => {
+  const update = (changes: Partial<GenerationOptions>) => onChange({ ...options, ...changes });
+  const selectedModelId = options.model ?? defaultModel ?? models[0]?.id;
+  const selectedModel = models.find((model) => model.id === selectedModelId);
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-3" data-testid="generation-settings">
+      {models.length > 1 && (
+        <div className="space-y-2 sm:col-span-3">
+          <Label htmlFor="generation-model">Model AI</Label>
+          <Select
+            value={selectedModelId}
+            onValueChange={(value: string) =>
+              update({ model: value === defaultModel ? undefined : value })
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger id="generation-model" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {models.map((model) => (
+                <SelectItem key={model.id} value={model.id}>
+                  {model.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {selectedModel && (
+            <p className="text-sm text-gray-500" data-testid="model-details">
+              {describeModel(selectedModel)}
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="generation-card-count">Liczba fiszek</Label>
+        <Select
+          value={options.card_count ? String(options.card_count) : EMPTY_VALUE}
+          onValueChange={(value: string) =>
+            update({ card_count: value === EMPTY_VALUE ? undefined : Number(value) })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id="generation-card-count" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={EMPTY_VALUE}>Automatycznie</SelectItem>
+            {CARD_COUNTS.map((count) => (
+              <SelectItem key={count} value={String(count)}>
+                {count}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="generation-difficulty">Poziom trudności</Label>
+        <Select
+          value={options.difficulty ?? EMPTY_VALUE}
+          onValueChange={(value: string) =>
+            update({
+              difficulty: value === EMPTY_VALUE ? undefined : (value as GenerationDifficulty),
+            })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id="generation-difficulty" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={EMPTY_VALUE}>Dowolny</SelectItem>
+            {Object.entries(DIFFICULTY_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="generation-language">Język fiszek</Label>
+        <Select
+          value={options.language ?? EMPTY_VALUE}
+          onValueChange={(value: string) =>
+            update({
+              language: value === EMPTY_VALUE ? undefined : (value as GenerationLanguage),
+            })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id="generation-language" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={EMPTY_VALUE}>Język tekstu</SelectItem>
+            {Object.entries(LANGUAGE_LABELS).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2 sm:col-span-3">
+        <Label htmlFor="generation-focus">Na czym skupić fiszki (opcjonalnie)</Label>
+        <Input
+          id="generation-focus"
+          value={options.focus ?? ''}
+          onChange={(event) => update({ focus: event.target.value || undefined })}
+          maxLength={MAX_FOCUS_LENGTH}
+          placeholder="np. daty i postacie historyczne"
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
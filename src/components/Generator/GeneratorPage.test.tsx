@@ -9,6 +9,21 @@ vi.mock('./useGeneratorState', () => ({
   useGeneratorState: vi.fn(),
 }));
 
+// Mock the useDecks hook
+vi.mock('@/hooks/useDecks', () => ({
+  useDecks: () => ({ decks: [] }),
+}));
+
+// Mock the useModels hook
+vi.mock('@/hooks/useModels', () => ({
+  useModels: () => ({ models: [], defaultModel: null }),
+}));
+
+// Mock the useQuota hook
+vi.mock('@/hooks/useQuota', () => ({
+  useQuota: () => ({ quota: null, fetchQuota: vi.fn() }),
+}));
+
 // Mock the child components
 vi.mock('./GenerationForm', () => ({
   GenerationForm: ({ onGenerate, onSourceTextChange }: any) => (
@@ -58,6 +73,8 @@ describe('GeneratorPage', () => {
     state: 'input',
     sourceText: '',
     setSourceText: vi.fn(),
+    options: {},
+    setOptions: vi.fn(),
     flashcards: [],
     generationId: null,
     isGenerating: false,
@@ -101,6 +118,25 @@ describe('GeneratorPage', () => {
     expect(screen.queryByTestId('generation-results')).not.toBeInTheDocument();
   });
 
+  it('should show proposals while they are still being generated', () => {
+    // Arrange
+    (useGeneratorState as any).mockReturnValue({
+      ...mockGeneratorState,
+      state: 'generating',
+      isGenerating: true,
+      flashcards: [
+        { id: 1, front: 'Q1', back: 'A1', source: 'ai-full', status: 'pending', errors: {} },
+      ],
+    });
+
+    // Act
+    render(<GeneratorPage />);
+
+    // Assert
+    expect(screen.queryByTestId('generation-form')).not.toBeInTheDocument();
+    expect(screen.getByTestId('generation-results')).toBeInTheDocument();
+  });
+
   it('should render in review state', () => {
     // Arrange
     (useGeneratorState as any).mockReturnValue({
@@ -284,4 +320,23 @@ describe('GeneratorPage', () => {
     // Assert
     expect(mockReset).toHaveBeenCalledTimes(1);
   });
+
+  it('should offer a fresh generation when the proposals were reused', () => {
+    // Arrange
+    const mockRegenerate = vi.fn();
+    (useGeneratorState as any).mockReturnValue({
+      ...mockGeneratorState,
+      state: 'review',
+      reusedAt: '2025-05-30T10:00:00.000Z',
+      regenerateFlashcards: mockRegenerate,
+    });
+
+    // Act
+    render(<GeneratorPage />);
+    fireEvent.click(screen.getByText('Wygeneruj od nowa'));
+
+    // Assert
+    expect(screen.getByTestId('reused-results')).toBeInTheDocument();
+    expect(mockRegenerate).toHaveBeenCalledTimes(1);
+  });
 });
@@ -1,24 +1,41 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useGeneratorState } from './useGeneratorState';
+import { useDecks } from '@/hooks/useDecks';
+import { useModels } from '@/hooks/useModels';
+import { useQuota } from '@/hooks/useQuota';
 import { GenerationForm } from './GenerationForm';
 import { GenerationResults } from './GenerationResults';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { AlertCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { AlertCircle, History, RefreshCw } from 'lucide-react';
+
+const formatGeneratedAt = (value: string) =>
+  new Date(value).toLocaleString('pl-PL', { dateStyle: 'long', timeStyle: 'short' });
 
 export const GeneratorPage: React.FC = () => {
   const generatorState = useGeneratorState();
+  const { decks } = useDecks();
+  const { models, defaultModel } = useModels();
+  const { quota, fetchQuota } = useQuota();
   const {
     state,
     sourceText,
     setSourceText,
+    options,
+    setOptions,
     flashcards,
     generationId,
+    reusedAt,
+    deckId,
+    setDeckId,
     isGenerating,
     isSaving,
     error,
     isTextValid,
     generateFlashcards,
+    regenerateFlashcards,
+    cancelGeneration,
     updateFlashcard,
     acceptFlashcard,
     rejectFlashcard,
@@ -26,6 +43,18 @@ export const GeneratorPage: React.FC = () => {
     reset,
   } = generatorState;
 
+  // Limit jest odświeżany po każdym zakończonym generowaniu
+  const wasGenerating = useRef(false);
+  useEffect(() => {
+    if (wasGenerating.current && !isGenerating) {
+      fetchQuota();
+    }
+    wasGenerating.current = isGenerating;
+  }, [isGenerating, fetchQuota]);
+
+  // Propozycje są pokazywane, gdy tylko pierwsza z nich dotrze ze strumienia
+  const isStreaming = state === 'generating' && flashcards.length > 0;
+
   return (
     <div className="w-full">
       {error && (
@@ -35,18 +64,40 @@ export const GeneratorPage: React.FC = () => {
         </Alert>
       )}
 
+      {reusedAt && state === 'review' && (
+        <Alert className="mb-6" data-testid="reused-results">
+          <History className="h-4 w-4" />
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+            <span>
+              Ten tekst został już przetworzony z tymi samymi ustawieniami. Pokazujemy propozycje
+              wygenerowane {formatGeneratedAt(reusedAt)}.
+            </span>
+            <Button variant="outline" size="sm" onClick={regenerateFlashcards} className="gap-2">
+              <RefreshCw className="h-4 w-4" />
+              Wygeneruj od nowa
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Card className="mb-8 p-6">
-        {(state === 'input' || state === 'generating') && (
+        {(state === 'input' || (state === 'generating' && !isStreaming)) && (
           <GenerationForm
             sourceText={sourceText}
             onSourceTextChange={setSourceText}
+            options={options}
+            onOptionsChange={setOptions}
+            models={models}
+            defaultModel={defaultModel}
+            quota={quota}
             isGenerating={isGenerating}
             isValid={isTextValid}
             onGenerate={generateFlashcards}
+            onCancel={cancelGeneration}
           />
         )}
 
-        {(state === 'review' || state === 'saving' || state === 'complete') && (
+        {(isStreaming || state === 'review' || state === 'saving' || state === 'complete') && (
           <GenerationResults
             generationId={generationId}
             flashcards={flashcards}
@@ -55,8 +106,13 @@ export const GeneratorPage: React.FC = () => {
             onRejectFlashcard={rejectFlashcard}
             onSaveAccepted={saveAcceptedFlashcards}
             isLoading={isSaving}
+            isStreaming={isStreaming}
+            onCancelGeneration={cancelGeneration}
             isComplete={state === 'complete'}
             onReset={reset}
+            decks={decks}
+            deckId={deckId}
+            onDeckChange={setDeckId}
           />
         )}
       </Card>
@@ -0,0 +1,57 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import type { GenerationQuotaDto, QuotaLimitDto } from '../../types';
+
+const formatNumber = (value: number) => value.toLocaleString('pl-PL');
+
+const formatResetTime = (value: string) =>
+  new Date(value).toLocaleString('pl-PL', { dateStyle: 'medium', timeStyle: 'short' });
+
+// Limity, które nie pozwalają na kolejne generowanie
+const getExhaustedLimits = (quota: GenerationQuotaDto): QuotaLimitDto[] =>
+  [quota.daily_generations, quota.monthly_tokens].filter((limit) => limit.remaining === 0);
+
+export const isQuotaExhausted = (quota: GenerationQuotaDto | null): boolean =>
+  quota !== null && getExhaustedLimits(quota).length > 0;
+
+interface QuotaIndicatorProps {
+  quota: GenerationQuotaDto;
+}
+
+export const QuotaIndicator: React.FC<QuotaIndicatorProps> = ({ quota }) => {
+  const { daily_generations: daily, monthly_tokens: tokens } = quota;
+  const exhausted = getExhaustedLimits(quota);
+
+  // Bez żadnego limitu nie ma czego pokazywać
+  if (daily.limit === null && tokens.limit === null) return null;
+
+  if (exhausted.length > 0) {
+    const resetsAt = exhausted.map((limit) => limit.resets_at).sort()[exhausted.length - 1];
+
+    return (
+      <p className="flex items-center gap-2 text-sm text-red-600" data-testid="quota-indicator">
+        <Gauge className="h-4 w-4" />
+        <span>
+          Wykorzystano limit generowania. Kolejne generowanie będzie możliwe{' '}
+          {formatResetTime(resetsAt)}.
+        </span>
+      </p>
+    );
+  }
+
+  return (
+    <p className="flex items-center gap-2 text-sm text-gray-500" data-testid="quota-indicator">
+      <Gauge className="h-4 w-4" />
+      <span>
+        {[
+          daily.limit !== null &&
+            `Pozostałe generowania dzisiaj: ${formatNumber(daily.remaining ?? 0)} z ${formatNumber(daily.limit)}`,
+          tokens.limit !== null &&
+            `Pozostałe tokeny w tym miesiącu: ${formatNumber(tokens.remaining ?? 0)} z ${formatNumber(tokens.limit)}`,
+        ]
+          .filter(Boolean)
+          .join(' · ')}
+      </span>
+    </p>
+  );
+};
@@ -1,4 +1,9 @@
-import type { FlashcardSource, CreateFlashcardInputDto, FlashcardProposalDto } from '../../types';
+import type {
+  FlashcardSource,
+  CreateFlashcardInputDto,
+  FlashcardProposalDto,
+  GenerateFlashcardsCommand,
+} from '../../types';
 
 export interface GeneratorViewModel {
   state: GenerationState;
@@ -18,6 +23,8 @@ export interface FlashcardProposalViewModel {
   back: string;
   source: FlashcardSource;
   status: FlashcardStatus;
+  tags?: string[]; // Tagi zaproponowane przez AI
+  decidedAt?: string; // Czas ostatniej decyzji użytkownika (ISO)
   errors: {
     front?: string;
     back?: string;
@@ -31,6 +38,9 @@ export interface FlashcardUpdateData {
   back?: string;
 }
 
+// Parametry generowania wybrane przez użytkownika; brak wartości oznacza ustawienie domyślne
+export type GenerationOptions = Omit<GenerateFlashcardsCommand, 'source_text'>;
+
 export interface GenerationFormState {
   text: string;
   isValid: boolean;
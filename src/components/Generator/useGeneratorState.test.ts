@@ -1,11 +1,12 @@
 import { renderHook, act } from '@testing-library/react';
 import { useGeneratorState } from './useGeneratorState';
-import { vi, describe, it, expect, beforeEach } from 'vitest';
-import { showError, showLoading, showSuccess } from '../../lib/toast';
+import { vi, describe, it, expect, beforeEach, type MockInstance } from 'vitest';
+import { showError, showInfo, showLoading, showSuccess } from '../../lib/toast';
 
 // Mock the toast functions
 vi.mock('../../lib/toast', () => ({
   showError: vi.fn(),
+  showInfo: vi.fn(),
   showLoading: vi.fn(),
   showSuccess: vi.fn(),
 }));
@@ -13,11 +14,22 @@ vi.mock('../../lib/toast', () => ({
 // Mock fetch API
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
+const jsonHeaders = new Headers({ 'Content-Type': 'application/json' });
+
+// Builds a streaming response (server-sent events) from the given events
+const eventStreamResponse = (events: object[]) =>
+  new Response(events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join(''), {
+    headers: { 'Content-Type': 'text/event-stream' },
+  });
 
 describe('useGeneratorState', () => {
+  let consoleError: MockInstance<typeof console.error>;
+
   beforeEach(() => {
     vi.clearAllMocks();
     mockFetch.mockReset();
+    // Failures the hook only logs (e.g. recording decisions) must not go unnoticed
+    consoleError = vi.spyOn(console, 'error');
   });
 
   it('should initialize with default values', () => {
@@ -77,6 +89,7 @@ describe('useGeneratorState', () => {
 
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => mockResponse,
     });
 
@@ -102,11 +115,90 @@ describe('useGeneratorState', () => {
     expect(showLoading).toHaveBeenCalled();
   });
 
+  it('should send the selected generation options', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => ({ generation_id: 1, flashcards_proposal: [] }),
+    });
+
+    const { result } = renderHook(() => useGeneratorState());
+
+    act(() => {
+      result.current.setSourceText('a'.repeat(1000));
+      result.current.setOptions({ card_count: 15, difficulty: 'hard', language: 'en' });
+    });
+
+    // Act
+    await act(async () => {
+      await result.current.generateFlashcards();
+    });
+
+    // Assert
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).toEqual({
+      source_text: 'a'.repeat(1000),
+      card_count: 15,
+      difficulty: 'hard',
+      language: 'en',
+    });
+  });
+
+  it('should report reused proposals and force a fresh generation', async () => {
+    // Arrange
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: jsonHeaders,
+        json: async () => ({
+          generation_id: 2,
+          flashcards_proposal: [{ front: 'Q', back: 'A', source: 'ai-full', tags: [] }],
+          reused_at: '2025-05-30T10:00:00.000Z',
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        headers: jsonHeaders,
+        json: async () => ({
+          generation_id: 3,
+          flashcards_proposal: [{ front: 'Q2', back: 'A2', source: 'ai-full', tags: [] }],
+          reused_at: null,
+        }),
+      });
+
+    const { result } = renderHook(() => useGeneratorState());
+
+    act(() => {
+      result.current.setSourceText('a'.repeat(1000));
+    });
+
+    // Act
+    await act(async () => {
+      await result.current.generateFlashcards();
+    });
+
+    // Assert
+    expect(result.current.reusedAt).toBe('2025-05-30T10:00:00.000Z');
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body)).not.toHaveProperty('force_refresh');
+
+    // Act
+    await act(async () => {
+      await result.current.regenerateFlashcards();
+    });
+
+    // Assert
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).force_refresh).toBe(true);
+    expect(result.current.reusedAt).toBeNull();
+    expect(result.current.generationId).toBe(3);
+    expect(result.current.flashcards[0].front).toBe('Q2');
+  });
+
   it('should handle generation error', async () => {
     // Arrange
     const errorMessage = 'API Error';
     mockFetch.mockResolvedValueOnce({
       ok: false,
+      headers: jsonHeaders,
       json: async () => ({ message: errorMessage }),
     });
 
@@ -128,6 +220,142 @@ describe('useGeneratorState', () => {
     expect(showError).toHaveBeenCalledWith(errorMessage);
   });
 
+  it('should explain that the generation quota is exhausted', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce({
+      ok: false,
+      status: 429,
+      headers: jsonHeaders,
+      json: async () => ({ message: 'Generation quota exceeded' }),
+    });
+
+    const { result } = renderHook(() => useGeneratorState());
+
+    act(() => {
+      result.current.setSourceText('a'.repeat(1000));
+    });
+
+    // Act
+    await act(async () => {
+      await result.current.generateFlashcards();
+    });
+
+    // Assert
+    expect(result.current.state).toBe('input');
+    expect(result.current.error).toBe(
+      'Wykorzystano limit generowania fiszek. Spróbuj ponownie później.'
+    );
+  });
+
+  it('should show streamed proposals as they arrive', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce(
+      eventStreamResponse([
+        { type: 'generation', generation_id: 321 },
+        {
+          type: 'proposal',
+          position: 0,
+          proposal: { front: 'Q1', back: 'A1', source: 'ai-full', tags: ['bio'] },
+        },
+        {
+          type: 'proposal',
+          position: 1,
+          proposal: { front: 'Q2', back: 'A2', source: 'ai-full', tags: [] },
+        },
+        { type: 'done', generation_id: 321, generated_count: 2 },
+      ])
+    );
+
+    const { result } = renderHook(() => useGeneratorState());
+
+    act(() => {
+      result.current.setSourceText('a'.repeat(1000));
+    });
+
+    // Act
+    await act(async () => {
+      await result.current.generateFlashcards();
+    });
+
+    // Assert
+    expect(mockFetch.mock.calls[0][1].headers.Accept).toContain('text/event-stream');
+    expect(result.current.state).toBe('review');
+    expect(result.current.generationId).toBe(321);
+    expect(result.current.flashcards.map((card) => [card.id, card.front, card.tags])).toEqual([
+      [1, 'Q1', ['bio']],
+      [2, 'Q2', []],
+    ]);
+  });
+
+  it('should discard streamed proposals when generation fails midway', async () => {
+    // Arrange
+    mockFetch.mockResolvedValueOnce(
+      eventStreamResponse([
+        { type: 'generation', generation_id: 321 },
+        {
+          type: 'proposal',
+          position: 0,
+          proposal: { front: 'Q1', back: 'A1', source: 'ai-full', tags: [] },
+        },
+        { type: 'error', message: 'AI generation timed out after 40 seconds' },
+      ])
+    );
+
+    const { result } = renderHook(() => useGeneratorState());
+
+    act(() => {
+      result.current.setSourceText('a'.repeat(1000));
+    });
+
+    // Act
+    await act(async () => {
+      await result.current.generateFlashcards();
+    });
+
+    // Assert
+    expect(result.current.state).toBe('input');
+    expect(result.current.flashcards).toEqual([]);
+    expect(result.current.error).toBe('AI generation timed out after 40 seconds');
+  });
+
+  it('should abort the request when generation is cancelled', async () => {
+    // Arrange - the request only ends when it is aborted
+    mockFetch.mockImplementationOnce(
+      (_url: string, init: RequestInit) =>
+        new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted.', 'AbortError'))
+          );
+        })
+    );
+
+    const { result } = renderHook(() => useGeneratorState());
+
+    act(() => {
+      result.current.setSourceText('a'.repeat(1000));
+    });
+
+    let generation: Promise<void> | undefined;
+    act(() => {
+      generation = result.current.generateFlashcards();
+    });
+    expect(result.current.state).toBe('generating');
+
+    // Act
+    await act(async () => {
+      result.current.cancelGeneration();
+      await generation;
+    });
+
+    // Assert
+    expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+    expect(result.current.state).toBe('input');
+    expect(result.current.isGenerating).toBe(false);
+    expect(result.current.error).toBeNull();
+    expect(showError).not.toHaveBeenCalled();
+    expect(showInfo).toHaveBeenCalledWith('Generowanie zostało anulowane');
+  });
+
   it('should update flashcard correctly', async () => {
     // Arrange
     const mockResponse = {
@@ -137,6 +365,7 @@ describe('useGeneratorState', () => {
 
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => mockResponse,
     });
 
@@ -175,6 +404,7 @@ describe('useGeneratorState', () => {
 
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => mockResponse,
     });
 
@@ -220,13 +450,22 @@ describe('useGeneratorState', () => {
 
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => mockGenerateResponse,
     });
 
-    // Mock save response
+    // Mock save response with created flashcards
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => ({ flashcards: [{ id: 501 }, { id: 502 }] }),
+    });
+
+    // Mock decisions response
     mockFetch.mockResolvedValueOnce({
       ok: true,
-      json: async () => ({ success: true }),
+      headers: jsonHeaders,
+      json: async () => ({ id: 123, accepted_count: 2 }),
     });
 
     const { result } = renderHook(() => useGeneratorState());
@@ -259,6 +498,141 @@ describe('useGeneratorState', () => {
     // Check that only accepted and edited flashcards were sent
     const requestBody = JSON.parse(mockFetch.mock.calls[1][1].body);
     expect(requestBody.flashcards.length).toBeGreaterThan(0);
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      '/api/generations/123/decisions',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(consoleError).not.toHaveBeenCalled();
+  });
+
+  it('should record a decision for every proposal after saving', async () => {
+    // Arrange - generate flashcards
+    const mockGenerateResponse = {
+      generation_id: 123,
+      flashcards_proposal: [
+        { front: 'Q1', back: 'A1', source: 'ai-full' },
+        { front: 'Q2', back: 'A2', source: 'ai-full' },
+        { front: 'Q3', back: 'A3', source: 'ai-full' },
+      ],
+    };
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => mockGenerateResponse,
+    });
+
+    // Mock save response with created flashcards
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => ({ flashcards: [{ id: 501 }, { id: 502 }] }),
+    });
+
+    // Mock decisions response
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => ({ id: 123, accepted_count: 2 }),
+    });
+
+    const { result } = renderHook(() => useGeneratorState());
+
+    act(() => {
+      result.current.setSourceText('a'.repeat(1000));
+    });
+
+    await act(async () => {
+      await result.current.generateFlashcards();
+    });
+
+    act(() => {
+      result.current.acceptFlashcard(1);
+      result.current.rejectFlashcard(2);
+      result.current.updateFlashcard(3, { front: 'Updated Q3' });
+    });
+
+    // Act
+    await act(async () => {
+      await result.current.saveAcceptedFlashcards();
+    });
+
+    // Assert
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      '/api/generations/123/decisions',
+      expect.any(Object)
+    );
+    const { decisions } = JSON.parse(mockFetch.mock.calls[2][1].body);
+    expect(decisions).toEqual([
+      expect.objectContaining({ position: 0, decision: 'accepted', flashcard_id: 501 }),
+      expect.objectContaining({ position: 1, decision: 'rejected', flashcard_id: null }),
+      expect.objectContaining({
+        position: 2,
+        decision: 'edited',
+        flashcard_id: 502,
+        final_front: 'Updated Q3',
+        final_back: 'A3',
+      }),
+    ]);
+  });
+
+  it('should save accepted flashcards to the selected deck', async () => {
+    // Arrange - generate flashcards
+    const mockGenerateResponse = {
+      generation_id: 123,
+      flashcards_proposal: [{ front: 'Q1', back: 'A1', source: 'ai-full' }],
+    };
+
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => mockGenerateResponse,
+    });
+
+    // Mock save response with created flashcards
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => ({ flashcards: [{ id: 501 }, { id: 502 }] }),
+    });
+
+    // Mock decisions response
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      headers: jsonHeaders,
+      json: async () => ({ id: 123, accepted_count: 2 }),
+    });
+
+    const { result } = renderHook(() => useGeneratorState());
+
+    act(() => {
+      result.current.setSourceText('a'.repeat(1000));
+    });
+
+    await act(async () => {
+      await result.current.generateFlashcards();
+    });
+
+    act(() => {
+      result.current.acceptFlashcard(1);
+      result.current.setDeckId(7);
+    });
+
+    // Act
+    await act(async () => {
+      await result.current.saveAcceptedFlashcards();
+    });
+
+    // Assert
+    const requestBody = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(requestBody.flashcards).toEqual([
+      expect.objectContaining({ front: 'Q1', generation_id: 123, deck_id: 7 }),
+    ]);
+    expect(mockFetch).toHaveBeenLastCalledWith(
+      '/api/generations/123/decisions',
+      expect.objectContaining({ method: 'POST' })
+    );
+    expect(consoleError).not.toHaveBeenCalled();
   });
 
   it('should handle save error when there are no accepted flashcards', async () => {
@@ -270,6 +644,7 @@ describe('useGeneratorState', () => {
 
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => mockGenerateResponse,
     });
 
@@ -310,6 +685,7 @@ describe('useGeneratorState', () => {
 
     mockFetch.mockResolvedValueOnce({
       ok: true,
+      headers: jsonHeaders,
       json: async () => mockResponse,
     });
 
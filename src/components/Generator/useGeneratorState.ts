@@ -1,79 +1,161 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import type {
   GenerationState,
   FlashcardProposalViewModel,
   FlashcardUpdateData,
   FlashcardStatus,
+  GenerationOptions,
   SaveFlashcardsPayload,
 } from './types';
-import type { FlashcardSource } from '../../types';
-import { showError, showLoading, showSuccess } from '../../lib/toast';
+import type {
+  FlashcardProposalDto,
+  FlashcardSource,
+  GenerateFlashcardsResponseDto,
+  GenerationStreamEventDto,
+  ProposalDecisionInputDto,
+} from '../../types';
+import { EVENT_STREAM_CONTENT_TYPE, isEventStream, readServerSentEvents } from '../../lib/sse';
+import { showError, showInfo, showLoading, showSuccess } from '../../lib/toast';
+
+// Przekształcenie propozycji na model widoku (id = pozycja + 1)
+const toViewModel = (card: FlashcardProposalDto, position: number): FlashcardProposalViewModel => ({
+  id: position + 1,
+  front: card.front,
+  back: card.back,
+  source: card.source,
+  tags: card.tags ?? [],
+  status: 'pending' as FlashcardStatus,
+  errors: {},
+});
 
 export const useGeneratorState = () => {
   const [state, setState] = useState<GenerationState>('input');
   const [sourceText, setSourceText] = useState<string>('');
+  // Parametry generowania zostają zachowane po zresetowaniu formularza
+  const [options, setOptions] = useState<GenerationOptions>({});
   const [generationId, setGenerationId] = useState<number | null>(null);
+  // Data wcześniejszego generowania, którego propozycje zostały użyte ponownie
+  const [reusedAt, setReusedAt] = useState<string | null>(null);
+  const [deckId, setDeckId] = useState<number | null>(null);
   const [flashcards, setFlashcards] = useState<FlashcardProposalViewModel[]>([]);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [isSaving, setIsSaving] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  // Przerywa trwające generowanie (żądanie do API i strumień)
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Walidacja tekstu źródłowego
   const isTextValid = useMemo(() => {
     return sourceText.length >= 1000 && sourceText.length <= 10000;
   }, [sourceText]);
 
-  // Generowanie fiszek
-  const generateFlashcards = async () => {
+  // Generowanie fiszek; forceRefresh wymusza zapytanie do AI zamiast użycia wcześniejszych wyników
+  const runGeneration = async (forceRefresh: boolean) => {
     if (!isTextValid) return;
 
     setIsGenerating(true);
     setState('generating');
     setError(null);
+    setGenerationId(null);
+    setReusedAt(null);
+    setFlashcards([]);
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
-      // Wywołanie API z użyciem toast.promise
+      // Wywołanie API z użyciem toast.promise; propozycje przychodzą strumieniowo (SSE)
       const promise = fetch('/api/generations', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ source_text: sourceText }),
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: `${EVENT_STREAM_CONTENT_TYPE}, application/json`,
+        },
+        body: JSON.stringify({
+          source_text: sourceText,
+          ...options,
+          ...(forceRefresh && { force_refresh: true }),
+        }),
+        signal: abortController.signal,
       }).then(async (response) => {
+        if (response.status === 429) {
+          throw new Error('Wykorzystano limit generowania fiszek. Spróbuj ponownie później.');
+        }
         if (!response.ok) {
           const errorData = await response.json();
           throw new Error(errorData.message || 'Błąd generowania fiszek');
         }
-        return response.json();
+
+        if (isEventStream(response) && response.body) {
+          return readGenerationStream(response.body);
+        }
+
+        const result: GenerateFlashcardsResponseDto = await response.json();
+        setGenerationId(result.generation_id);
+        setReusedAt(result.reused_at ?? null);
+        setFlashcards(result.flashcards_proposal.map(toViewModel));
       });
 
-      const result = await promise;
+      await promise;
       showLoading('Generowanie fiszek', promise, {
         success: 'Fiszki zostały wygenerowane',
         error: 'Nie udało się wygenerować fiszek',
       });
 
-      setGenerationId(result.generation_id);
-
-      // Przekształcenie propozycji na model widoku
-      const viewModels = result.flashcards_proposal.map((card: any, index: number) => ({
-        id: index + 1,
-        front: card.front,
-        back: card.back,
-        source: card.source,
-        status: 'pending' as FlashcardStatus,
-        errors: {},
-      }));
-
-      setFlashcards(viewModels);
       setState('review');
     } catch (err) {
+      setFlashcards([]);
+      setState('input');
+
+      if (abortController.signal.aborted) {
+        showInfo('Generowanie zostało anulowane');
+        return;
+      }
+
       showError(err instanceof Error ? err.message : 'Nieznany błąd');
       setError(err instanceof Error ? err.message : 'Nieznany błąd');
-      setState('input');
     } finally {
+      abortControllerRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const generateFlashcards = () => runGeneration(false);
+
+  // Ponowne generowanie tego samego tekstu z pominięciem wcześniejszych wyników
+  const regenerateFlashcards = () => runGeneration(true);
+
+  // Anulowanie generowania - serwer przerywa zapytanie do AI i oznacza generowanie jako anulowane
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Odczyt strumienia zdarzeń - każda propozycja pojawia się na liście od razu
+  const readGenerationStream = async (body: ReadableStream<Uint8Array>) => {
+    for await (const { data } of readServerSentEvents(body)) {
+      const event: GenerationStreamEventDto = JSON.parse(data);
+
+      switch (event.type) {
+        case 'generation':
+          setGenerationId(event.generation_id);
+          setReusedAt(event.reused_at ?? null);
+          break;
+        case 'proposal':
+          setFlashcards((currentCards) => [
+            ...currentCards,
+            toViewModel(event.proposal, event.position),
+          ]);
+          break;
+        case 'done':
+          return;
+        case 'error':
+          throw new Error(event.message || 'Błąd generowania fiszek');
+      }
+    }
+
+    throw new Error('Połączenie zostało przerwane przed końcem generowania');
+  };
+
   // Aktualizacja stanu fiszki
   const updateFlashcard = (id: number, data: FlashcardUpdateData) => {
     setFlashcards((currentCards) =>
@@ -84,6 +166,7 @@ export const useGeneratorState = () => {
               ...data,
               status: card.status === 'pending' ? 'edited' : card.status,
               source: 'ai-edited' as FlashcardSource,
+              decidedAt: new Date().toISOString(),
               errors: validateFlashcard(data.front || card.front, data.back || card.back),
             }
           : card
@@ -107,14 +190,18 @@ export const useGeneratorState = () => {
   // Akceptacja fiszki
   const acceptFlashcard = (id: number) => {
     setFlashcards((currentCards) =>
-      currentCards.map((card) => (card.id === id ? { ...card, status: 'accepted' } : card))
+      currentCards.map((card) =>
+        card.id === id ? { ...card, status: 'accepted', decidedAt: new Date().toISOString() } : card
+      )
     );
   };
 
   // Odrzucenie fiszki
   const rejectFlashcard = (id: number) => {
     setFlashcards((currentCards) =>
-      currentCards.map((card) => (card.id === id ? { ...card, status: 'rejected' } : card))
+      currentCards.map((card) =>
+        card.id === id ? { ...card, status: 'rejected', decidedAt: new Date().toISOString() } : card
+      )
     );
   };
 
@@ -148,8 +235,10 @@ export const useGeneratorState = () => {
         flashcards: acceptedCards.map((card) => ({
           front: card.front,
           back: card.back,
-          source: card.status === 'edited' ? 'ai-edited' : 'ai-full',
+          source: card.status === 'edited' || card.source === 'ai-edited' ? 'ai-edited' : 'ai-full',
           generation_id: generationId,
+          deck_id: deckId,
+          tags: card.tags ?? [],
         })),
       };
 
@@ -166,12 +255,14 @@ export const useGeneratorState = () => {
         return response.json();
       });
 
-      await promise;
+      const saved = await promise;
       showLoading('Zapisywanie fiszek', promise, {
         success: `Zapisano ${acceptedCards.length} fiszek pomyślnie`,
         error: 'Nie udało się zapisać fiszek',
       });
 
+      await recordDecisions(acceptedCards, saved?.flashcards ?? []);
+
       setState('complete');
     } catch (err) {
       showError(err instanceof Error ? err.message : 'Nieznany błąd');
@@ -182,11 +273,53 @@ export const useGeneratorState = () => {
     }
   };
 
+  // Zapisanie decyzji dla wszystkich propozycji (statystyki generowania)
+  const recordDecisions = async (
+    acceptedCards: FlashcardProposalViewModel[],
+    savedFlashcards: { id: number }[]
+  ) => {
+    if (generationId === null) return;
+
+    // Pozycja propozycji odpowiada kolejności w odpowiedzi API (id = pozycja + 1)
+    const savedIds = new Map(
+      acceptedCards.map((card, index) => [card.id, savedFlashcards[index]?.id ?? null])
+    );
+
+    const decisions: ProposalDecisionInputDto[] = flashcards.map((card) => {
+      const isAccepted = savedIds.has(card.id);
+      const isEdited = isAccepted && (card.status === 'edited' || card.source === 'ai-edited');
+
+      return {
+        position: card.id - 1,
+        decision: isEdited ? 'edited' : isAccepted ? 'accepted' : 'rejected',
+        flashcard_id: savedIds.get(card.id) ?? null,
+        ...(isEdited && { final_front: card.front, final_back: card.back }),
+        ...(card.decidedAt && { decided_at: card.decidedAt }),
+      };
+    });
+
+    try {
+      const response = await fetch(`/api/generations/${generationId}/decisions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decisions }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Błąd zapisywania decyzji');
+      }
+    } catch (err) {
+      // Fiszki są już zapisane - brak statystyk nie blokuje użytkownika
+      console.error('Nie udało się zapisać decyzji dla propozycji:', err);
+    }
+  };
+
   // Resetowanie stanu
   const reset = () => {
     setState('input');
     setSourceText('');
     setGenerationId(null);
+    setReusedAt(null);
     setFlashcards([]);
     setError(null);
   };
@@ -195,13 +328,20 @@ export const useGeneratorState = () => {
     state,
     sourceText,
     setSourceText,
+    options,
+    setOptions,
     generationId,
+    reusedAt,
+    deckId,
+    setDeckId,
     flashcards,
     isGenerating,
     isSaving,
     error,
     isTextValid,
     generateFlashcards,
+    regenerateFlashcards,
+    cancelGeneration,
     updateFlashcard,
     acceptFlashcard,
     rejectFlashcard,
@@ -31,6 +31,21 @@ export function Navigation() {
                     Generuj nowe
                   </a>
                 </NavigationMenuItem>
+                <NavigationMenuItem>
+                  <a href="/flashcards/study" className={navigationMenuTriggerStyle()}>
+                    Nauka
+                  </a>
+                </NavigationMenuItem>
+                <NavigationMenuItem>
+                  <a href="/generations" className={navigationMenuTriggerStyle()}>
+                    Historia
+                  </a>
+                </NavigationMenuItem>
+                <NavigationMenuItem>
+                  <a href="/account" className={navigationMenuTriggerStyle()}>
+                    Konto
+                  </a>
+                </NavigationMenuItem>
               </NavigationMenuList>
             </NavigationMenu>
           </div>
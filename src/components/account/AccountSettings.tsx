@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, CheckCircle2, Download, Loader2, Trash2 } from 'lucide-react';
+import { useAccountArchive } from '@/hooks/useAccountArchive';
+import { useAccountDeletion } from '@/hooks/useAccountDeletion';
+import { DeleteAccountDialog } from './DeleteAccountDialog';
+
+interface AccountSettingsProps {
+  /** The user has just logged in and thereby cancelled a pending account deletion */
+  deletionCancelled?: boolean;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleString('pl-PL', { dateStyle: 'long', timeStyle: 'short' });
+
+export function AccountSettings({ deletionCancelled = false }: AccountSettingsProps) {
+  const { summary, isLoading, error, importArchive } = useAccountArchive();
+  const deletionState = useAccountDeletion();
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    await importArchive(file);
+    e.target.value = '';
+  };
+
+  const handleDeleteConfirm = async (confirmEmail: string) => {
+    if (await deletionState.requestDeletion({ confirm_email: confirmEmail })) {
+      // The session has been ended on the server
+      window.location.href = '/auth/login';
+    }
+  };
+
+  const pendingDeletion =
+    deletionState.deletion?.status === 'pending' ? deletionState.deletion : null;
+
+  return (
+    <div className="space-y-6">
+      {deletionCancelled && (
+        <Alert>
+          <CheckCircle2 className="h-4 w-4" />
+          <AlertDescription>
+            Zalogowanie się anulowało zaplanowane usunięcie konta. Twoje dane pozostają bez zmian.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Eksport danych</CardTitle>
+          <CardDescription>
+            Pobierz archiwum JSON ze wszystkimi danymi konta: fiszkami z historią powtórek, taliami,
+            tagami, historią generowania i logami błędów.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button asChild variant="outline">
+            <a href="/api/account/export" download>
+              <Download className="mr-2 h-4 w-4" />
+              Pobierz archiwum
+            </a>
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Przywracanie danych</CardTitle>
+          <CardDescription>
+            Wczytaj archiwum pobrane z 10xCard. Przywracanie jest możliwe tylko na koncie, które nie
+            zawiera jeszcze żadnych danych.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="account-import-file">Plik archiwum (.json)</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                id="account-import-file"
+                type="file"
+                accept=".json,application/json"
+                onChange={handleFileChange}
+                disabled={isLoading}
+              />
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin" />}
+            </div>
+          </div>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {summary && (
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>
+                Przywrócono {summary.flashcards} fiszek, {summary.decks} talii, {summary.tags} tagów
+                i {summary.generations} sesji generowania.
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Usuwanie konta</CardTitle>
+          <CardDescription>
+            Usunięcie konta jest wykonywane po okresie karencji, w którym można je anulować, logując
+            się ponownie. Przed usunięciem warto pobrać archiwum danych.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {pendingDeletion ? (
+            <>
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  Konto zostanie usunięte {formatDate(pendingDeletion.scheduled_for)}.
+                </AlertDescription>
+              </Alert>
+              <Button
+                variant="outline"
+                onClick={deletionState.cancelDeletion}
+                disabled={deletionState.isLoading}
+              >
+                Anuluj usunięcie konta
+              </Button>
+            </>
+          ) : (
+            <Button
+              variant="destructive"
+              onClick={() => setIsDeleteDialogOpen(true)}
+              disabled={deletionState.isLoading}
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              Usuń konto
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <DeleteAccountDialog
+        isOpen={isDeleteDialogOpen}
+        onClose={() => setIsDeleteDialogOpen(false)}
+        onConfirm={handleDeleteConfirm}
+        isLoading={deletionState.isLoading}
+        error={deletionState.error}
+      />
+    </div>
+  );
+}
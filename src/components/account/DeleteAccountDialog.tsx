@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle } from 'lucide-react';
+
+interface DeleteAccountDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called with the email typed by the user as confirmation */
+  onConfirm: (confirmEmail: string) => Promise<void>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function DeleteAccountDialog({
+  isOpen,
+  onClose,
+  onConfirm,
+  isLoading,
+  error,
+}: DeleteAccountDialogProps) {
+  const [confirmEmail, setConfirmEmail] = useState('');
+
+  const handleClose = () => {
+    setConfirmEmail('');
+    onClose();
+  };
+
+  const handleConfirm = async (e: React.MouseEvent) => {
+    // Keep the dialog open until the request finishes
+    e.preventDefault();
+    await onConfirm(confirmEmail.trim());
+  };
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open: boolean) => !open && handleClose()}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Usuń konto</AlertDialogTitle>
+          <AlertDialogDescription>
+            Zostaniesz wylogowany, a po okresie karencji konto zostanie trwale usunięte razem ze
+            wszystkimi fiszkami, historią generowania i logami błędów. Zalogowanie się przed upływem
+            tego czasu anuluje usunięcie.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        <div className="space-y-2">
+          <Label htmlFor="delete-account-email">Wpisz adres email konta, aby potwierdzić</Label>
+          <Input
+            id="delete-account-email"
+            type="email"
+            value={confirmEmail}
+            onChange={(e) => setConfirmEmail(e.target.value)}
+            disabled={isLoading}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isLoading}>Anuluj</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={handleConfirm}
+            disabled={isLoading || !confirmEmail.trim()}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            {isLoading ? 'Usuwanie...' : 'Usuń konto'}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,51 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { DeckDto } from '@/types';
+
+const EMPTY_VALUE = 'none';
+
+interface DeckSelectProps {
+  decks: DeckDto[];
+  value?: number | null;
+  onChange: (deckId: number | null) => void;
+  /** Label of the option that maps to `null` (e.g. "all decks" or "no deck") */
+  emptyLabel: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function DeckSelect({
+  decks,
+  value,
+  onChange,
+  emptyLabel,
+  disabled,
+  className = 'w-[180px]',
+}: DeckSelectProps) {
+  return (
+    <Select
+      value={value ? String(value) : EMPTY_VALUE}
+      onValueChange={(selected: string) =>
+        onChange(selected === EMPTY_VALUE ? null : Number(selected))
+      }
+      disabled={disabled}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Wybierz talię" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={EMPTY_VALUE}>{emptyLabel}</SelectItem>
+        {decks.map((deck) => (
+          <SelectItem key={deck.id} value={String(deck.id)}>
+            {deck.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
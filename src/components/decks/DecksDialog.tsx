@@ -0,0 +1,176 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Check, Edit, Plus, Trash2, X } from 'lucide-react';
+import type { CreateDeckCommand, DeckDto, UpdateDeckCommand } from '@/types';
+
+interface DecksDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  decks: DeckDto[];
+  onCreate: (data: CreateDeckCommand) => Promise<boolean>;
+  onUpdate: (id: number, data: UpdateDeckCommand) => Promise<boolean>;
+  onDelete: (id: number) => Promise<boolean>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function DecksDialog({
+  isOpen,
+  onClose,
+  decks,
+  onCreate,
+  onUpdate,
+  onDelete,
+  isLoading,
+  error,
+}: DecksDialogProps) {
+  const [newDeckName, setNewDeckName] = useState('');
+  const [editedDeckId, setEditedDeckId] = useState<number | null>(null);
+  const [editedName, setEditedName] = useState('');
+  const [deckToDelete, setDeckToDelete] = useState<number | null>(null);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = newDeckName.trim();
+    if (!name) return;
+
+    if (await onCreate({ name })) {
+      setNewDeckName('');
+    }
+  };
+
+  const startEditing = (deck: DeckDto) => {
+    setDeckToDelete(null);
+    setEditedDeckId(deck.id);
+    setEditedName(deck.name);
+  };
+
+  const handleRename = async (id: number) => {
+    const name = editedName.trim();
+    if (!name) return;
+
+    if (await onUpdate(id, { name })) {
+      setEditedDeckId(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    await onDelete(id);
+    setDeckToDelete(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[500px] bg-white">
+        <DialogHeader>
+          <DialogTitle>Talie</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleCreate} className="flex gap-2">
+          <Input
+            placeholder="Nazwa nowej talii"
+            value={newDeckName}
+            maxLength={100}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewDeckName(e.target.value)}
+          />
+          <Button type="submit" disabled={isLoading || !newDeckName.trim()} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Dodaj
+          </Button>
+        </form>
+
+        {decks.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nie masz jeszcze żadnej talii.</p>
+        ) : (
+          <ul className="divide-y rounded-md border">
+            {decks.map((deck) => (
+              <li key={deck.id} className="flex items-center gap-2 p-2">
+                {editedDeckId === deck.id ? (
+                  <>
+                    <Input
+                      value={editedName}
+                      maxLength={100}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                        setEditedName(e.target.value)
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Zapisz nazwę"
+                      onClick={() => handleRename(deck.id)}
+                      disabled={isLoading || !editedName.trim()}
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Anuluj"
+                      onClick={() => setEditedDeckId(null)}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : deckToDelete === deck.id ? (
+                  <>
+                    <span className="flex-1 text-sm">
+                      Usunąć talię „{deck.name}”? Fiszki pozostaną bez talii.
+                    </span>
+                    <Button
+                      variant="destructive"
+                      size="sm"
+                      onClick={() => handleDelete(deck.id)}
+                      disabled={isLoading}
+                    >
+                      Usuń
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setDeckToDelete(null)}>
+                      Anuluj
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="flex-1 truncate">{deck.name}</span>
+                    <span className="text-sm text-muted-foreground">
+                      {deck.flashcard_count} fiszek
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Zmień nazwę"
+                      onClick={() => startEditing(deck)}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Usuń talię"
+                      onClick={() => {
+                        setEditedDeckId(null);
+                        setDeckToDelete(deck.id);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,52 @@
 import { Button } from '@/components/ui/button';
-import { PlusCircle } from 'lucide-react';
+import { Download, Layers, PlusCircle, Tags, Upload } from 'lucide-react';
 
 interface ActionBarProps {
   openCreateForm: () => void;
+  openDecksDialog: () => void;
+  openTagsDialog: () => void;
+  openImportDialog: () => void;
+  openAnkiImportDialog: () => void;
+  /** Deck exported to Anki; all flashcards when not set */
+  exportDeckId?: number;
 }
 
-export function ActionBar({ openCreateForm }: ActionBarProps) {
+export function ActionBar({
+  openCreateForm,
+  openDecksDialog,
+  openTagsDialog,
+  openImportDialog,
+  openAnkiImportDialog,
+  exportDeckId,
+}: ActionBarProps) {
+  const exportHref = exportDeckId
+    ? `/api/flashcards/export?deck_id=${exportDeckId}`
+    : '/api/flashcards/export';
+
   return (
     <div className="flex items-center gap-2">
+      <Button variant="outline" className="gap-2" asChild>
+        <a href={exportHref} download>
+          <Download className="h-4 w-4" />
+          Eksportuj do Anki
+        </a>
+      </Button>
+      <Button variant="outline" onClick={openImportDialog} className="gap-2">
+        <Upload className="h-4 w-4" />
+        Importuj CSV
+      </Button>
+      <Button variant="outline" onClick={openAnkiImportDialog} className="gap-2">
+        <Upload className="h-4 w-4" />
+        Importuj z Anki
+      </Button>
+      <Button variant="outline" onClick={openTagsDialog} className="gap-2">
+        <Tags className="h-4 w-4" />
+        Tagi
+      </Button>
+      <Button variant="outline" onClick={openDecksDialog} className="gap-2">
+        <Layers className="h-4 w-4" />
+        Talie
+      </Button>
       <Button onClick={openCreateForm} className="gap-2">
         <PlusCircle className="h-4 w-4" />
         Utwórz fiszkę
@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { useAnkiImport } from '@/hooks/useAnkiImport';
+import type { AnkiFieldMappingDto, AnkiImportOptionsCommand, AnkiOverflowMode } from '@/types';
+
+const PREVIEW_NOTES = 10;
+const MAX_LISTED_ISSUES = 50;
+
+interface AnkiImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after flashcards were saved */
+  onImported: () => void;
+}
+
+export function AnkiImportDialog({ isOpen, onClose, onImported }: AnkiImportDialogProps) {
+  const { report, isLoading, error, previewImport, runImport, reset } = useAnkiImport();
+  const [file, setFile] = useState<File | null>(null);
+  const [overflow, setOverflow] = useState<AnkiOverflowMode>('truncate');
+  const [includeScheduling, setIncludeScheduling] = useState(true);
+  const [isImported, setIsImported] = useState(false);
+
+  const options = (
+    changes: Partial<AnkiImportOptionsCommand> = {}
+  ): Omit<AnkiImportOptionsCommand, 'dry_run'> => ({
+    mapping: report?.mapping,
+    overflow,
+    include_scheduling: includeScheduling,
+    ...changes,
+  });
+
+  const handleClose = () => {
+    setFile(null);
+    setIsImported(false);
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+
+    setFile(selected);
+    setIsImported(false);
+    await previewImport(selected, options({ mapping: undefined }));
+  };
+
+  const handleOverflowChange = async (value: AnkiOverflowMode) => {
+    setOverflow(value);
+    if (file) await previewImport(file, options({ overflow: value }));
+  };
+
+  const handleMappingChange = async (
+    noteTypeId: string,
+    field: keyof AnkiFieldMappingDto,
+    value: string
+  ) => {
+    if (!file || !report) return;
+    const mapping = {
+      ...report.mapping,
+      [noteTypeId]: { ...report.mapping[noteTypeId], [field]: Number(value) },
+    };
+    await previewImport(file, options({ mapping }));
+  };
+
+  const handleImport = async () => {
+    if (!file || !report) return;
+    if (await runImport(file, options())) {
+      setIsImported(true);
+      onImported();
+    }
+  };
+
+  const notesWithIssues =
+    report?.notes.filter((note) => note.errors.length > 0 || note.warnings.length > 0) ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open: boolean) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto bg-white">
+        <DialogHeader>
+          <DialogTitle>Import talii z Anki (.apkg)</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isImported && report ? (
+          <div className="space-y-4">
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>
+                Zaimportowano {report.imported_count} fiszek
+                {report.scheduled_count > 0 && ` (${report.scheduled_count} z historią powtórek)`}.
+                {report.invalid_count > 0 &&
+                  ` Pominięto ${report.invalid_count} notatek z błędami.`}
+              </AlertDescription>
+            </Alert>
+            <div className="flex justify-end">
+              <Button onClick={handleClose}>Zamknij</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="anki-import-file">Plik .apkg</Label>
+                <Input
+                  id="anki-import-file"
+                  type="file"
+                  accept=".apkg"
+                  onChange={handleFileChange}
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Zbyt długa treść</Label>
+                <Select
+                  value={overflow}
+                  onValueChange={(value: string) => handleOverflowChange(value as AnkiOverflowMode)}
+                  disabled={isLoading}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="truncate">Przytnij do limitu</SelectItem>
+                    <SelectItem value="skip">Pomiń notatkę</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <input
+                  id="anki-import-scheduling"
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={includeScheduling}
+                  onChange={(e) => setIncludeScheduling(e.target.checked)}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="anki-import-scheduling">Importuj historię powtórek</Label>
+              </div>
+            </div>
+
+            <p className="text-xs text-muted-foreground">
+              W nowszych wersjach Anki zaznacz przy eksporcie opcję „Support older Anki versions”.
+              Pliki multimedialne nie są importowane.
+            </p>
+
+            {report && (
+              <>
+                {report.note_types
+                  .filter((noteType) => noteType.note_count > 0)
+                  .map((noteType) => (
+                    <div key={noteType.id} className="grid items-end gap-4 sm:grid-cols-3">
+                      <p className="text-sm">
+                        <span className="font-medium">{noteType.name}</span>{' '}
+                        <span className="text-muted-foreground">
+                          ({noteType.note_count} notatek)
+                        </span>
+                      </p>
+                      {(['front', 'back'] as const).map((field) => (
+                        <div key={field} className="space-y-2">
+                          <Label>{field === 'front' ? 'Przód' : 'Tył'}</Label>
+                          <Select
+                            value={String(report.mapping[noteType.id]?.[field] ?? 0)}
+                            onValueChange={(value: string) =>
+                              handleMappingChange(noteType.id, field, value)
+                            }
+                            disabled={isLoading}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {noteType.fields.map((name, index) => (
+                                <SelectItem key={index} value={String(index)}>
+                                  {name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+
+                <p className="text-sm text-muted-foreground">
+                  Poprawne notatki: {report.valid_count}, z błędami: {report.invalid_count}
+                  {report.notes.length > PREVIEW_NOTES &&
+                    ` (podgląd pierwszych ${PREVIEW_NOTES} z ${report.notes.length})`}
+                </p>
+
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Przód</TableHead>
+                        <TableHead>Tył</TableHead>
+                        <TableHead>Tagi</TableHead>
+                        <TableHead>Talia</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.notes.slice(0, PREVIEW_NOTES).map((note) => (
+                        <TableRow
+                          key={note.note_id}
+                          className={note.errors.length > 0 ? 'bg-red-50' : undefined}
+                        >
+                          <TableCell className="max-w-[220px] truncate">{note.front}</TableCell>
+                          <TableCell className="max-w-[260px] truncate">{note.back}</TableCell>
+                          <TableCell>{note.tags.join(', ')}</TableCell>
+                          <TableCell>{note.deck ?? '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {notesWithIssues.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">
+                      Notatki z błędami zostaną pominięte, ostrzeżenia opisują zmiany treści:
+                    </p>
+                    <ul className="max-h-[160px] overflow-y-auto text-sm">
+                      {notesWithIssues.slice(0, MAX_LISTED_ISSUES).map((note) => (
+                        <li
+                          key={note.note_id}
+                          className={note.errors.length > 0 ? 'text-red-600' : 'text-amber-700'}
+                        >
+                          „{note.front.slice(0, 40) || '(pusty przód)'}”:{' '}
+                          {[...note.errors, ...note.warnings].join('; ')}
+                        </li>
+                      ))}
+                      {notesWithIssues.length > MAX_LISTED_ISSUES && (
+                        <li>… i {notesWithIssues.length - MAX_LISTED_ISSUES} więcej</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleClose}>
+                Anuluj
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={!report || report.valid_count === 0 || isLoading}
+              >
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Importuj {report ? report.valid_count : 0} fiszek
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
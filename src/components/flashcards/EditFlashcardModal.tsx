@@ -20,7 +20,8 @@ import {
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import type { FlashcardDto, CreateFlashcardInputDto } from '@/types';
+import { DeckSelect } from '@/components/decks/DeckSelect';
+import type { DeckDto, FlashcardWithTagsDto, CreateFlashcardInputDto } from '@/types';
 
 const formSchema = z.object({
   front: z
@@ -31,16 +32,35 @@ const formSchema = z.object({
     .string()
     .min(1, 'Zawartość tyłu jest wymagana')
     .max(600, 'Zawartość tyłu może mieć maksymalnie 600 znaków'),
+  deck_id: z.number().nullable(),
+  tags: z
+    .string()
+    .refine((value) => parseTags(value).length <= 10, 'Fiszka może mieć maksymalnie 10 tagów')
+    .refine(
+      (value) => parseTags(value).every((tag) => tag.length <= 50),
+      'Tag może mieć maksymalnie 50 znaków'
+    ),
 });
 
+// Tags are edited as a comma-separated list
+function parseTags(value: string): string[] {
+  return value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
 type FormData = z.infer<typeof formSchema>;
 
 interface EditFlashcardModalProps {
   isOpen: boolean;
   onClose: () => void;
-  flashcard?: FlashcardDto;
+  flashcard?: FlashcardWithTagsDto;
   onSubmit: (data: CreateFlashcardInputDto) => Promise<void>;
   isLoading: boolean;
+  decks: DeckDto[];
+  /** Deck preselected for new flashcards (e.g. the currently filtered deck) */
+  defaultDeckId?: number;
 }
 
 export function EditFlashcardModal({
@@ -49,12 +69,16 @@ export function EditFlashcardModal({
   flashcard,
   onSubmit,
   isLoading,
+  decks,
+  defaultDeckId,
 }: EditFlashcardModalProps) {
   const form = useForm<FormData>({
     resolver: zodResolver(formSchema),
     defaultValues: {
       front: '',
       back: '',
+      deck_id: null,
+      tags: '',
     },
   });
 
@@ -63,19 +87,24 @@ export function EditFlashcardModal({
       form.reset({
         front: flashcard.front,
         back: flashcard.back,
+        deck_id: flashcard.deck_id,
+        tags: (flashcard.tags ?? []).map((tag) => tag.name).join(', '),
       });
     } else {
       form.reset({
         front: '',
         back: '',
+        deck_id: defaultDeckId ?? null,
+        tags: '',
       });
     }
-  }, [flashcard, form]);
+  }, [flashcard, defaultDeckId, form]);
 
   const handleSubmit = async (data: FormData) => {
     try {
       await onSubmit({
         ...data,
+        tags: parseTags(data.tags),
         source: 'manual',
         generation_id: null,
       });
@@ -122,6 +151,40 @@ export function EditFlashcardModal({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="deck_id"
+              render={({ field }: { field: any }) => (
+                <FormItem>
+                  <FormLabel>Talia</FormLabel>
+                  <FormControl>
+                    <DeckSelect
+                      decks={decks}
+                      value={field.value}
+                      onChange={field.onChange}
+                      emptyLabel="Bez talii"
+                      className="w-full"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }: { field: any }) => (
+                <FormItem>
+                  <FormLabel>Tagi</FormLabel>
+                  <FormControl>
+                    <Input placeholder="np. biologia, komórka" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <DialogFooter>
               <Button type="button" variant="outline" onClick={onClose} disabled={isLoading}>
                 Anuluj
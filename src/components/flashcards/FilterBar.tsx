@@ -6,26 +6,41 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import type { FlashcardSource } from '@/types';
+import { DeckSelect } from '@/components/decks/DeckSelect';
+import type { DeckDto, FlashcardSource } from '@/types';
 
 interface FilterBarProps {
+  searchQuery: string;
+  onSearchChange: (query: string) => void;
   source?: FlashcardSource;
   onSourceChange: (source?: FlashcardSource) => void;
+  decks: DeckDto[];
+  deckId?: number;
+  onDeckChange: (deckId?: number) => void;
   onSortChange: (sort: string, order: 'asc' | 'desc') => void;
 }
 
-export function FilterBar({ source, onSourceChange, onSortChange }: FilterBarProps) {
+export function FilterBar({
+  searchQuery,
+  onSearchChange,
+  source,
+  onSourceChange,
+  decks,
+  deckId,
+  onDeckChange,
+  onSortChange,
+}: FilterBarProps) {
   return (
     <div className="flex items-center gap-4">
-      {/* <Input
-        placeholder="Search flashcards..."
+      <Input
+        placeholder="Szukaj w fiszkach..."
+        aria-label="Szukaj w fiszkach"
         className="max-w-sm"
         type="search"
-        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
-          // TODO: Implement search functionality
-          console.log('Search:', e.target.value);
-        }}
-      /> */}
+        maxLength={200}
+        value={searchQuery}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSearchChange(e.target.value)}
+      />
 
       <Select
         value={source || 'all'}
@@ -44,6 +59,13 @@ export function FilterBar({ source, onSourceChange, onSortChange }: FilterBarPro
         </SelectContent>
       </Select>
 
+      <DeckSelect
+        decks={decks}
+        value={deckId}
+        onChange={(selected) => onDeckChange(selected ?? undefined)}
+        emptyLabel="Wszystkie talie"
+      />
+
       <Select
         onValueChange={(value: string) => {
           const [sort, order] = value.split('-');
@@ -1,14 +1,27 @@
+import { useState } from 'react';
 import { useFlashcards } from '@/hooks/useFlashcards';
+import { useDecks } from '@/hooks/useDecks';
+import { useTags } from '@/hooks/useTags';
 import { DataTable } from '@/components/ui/data-table';
 import { getColumns } from './columns.tsx';
 import { FilterBar } from './FilterBar.tsx';
+import { TagFilter } from './TagFilter.tsx';
 import { ActionBar } from './ActionBar.tsx';
 import { PaginationControl } from '@/components/ui/pagination-control';
 import { EditFlashcardModal } from './EditFlashcardModal';
 import { DeleteConfirmDialog } from './DeleteConfirmDialog';
+import { DecksDialog } from '@/components/decks/DecksDialog';
+import { TagsDialog } from '@/components/tags/TagsDialog';
+import { ImportDialog } from './ImportDialog';
+import { AnkiImportDialog } from './AnkiImportDialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { AlertCircle, Loader2 } from 'lucide-react';
-import type { CreateFlashcardInputDto, UpdateFlashcardCommand } from '@/types';
+import type {
+  CreateFlashcardInputDto,
+  MergeTagsCommand,
+  RenameTagCommand,
+  UpdateFlashcardCommand,
+} from '@/types';
 
 export function FlashcardsList() {
   const {
@@ -17,6 +30,7 @@ export function FlashcardsList() {
     isLoading,
     error,
     filters,
+    searchQuery,
     selectedFlashcard,
     isEditModalOpen,
     isDeleteDialogOpen,
@@ -27,14 +41,26 @@ export function FlashcardsList() {
     handleLimitChange,
     handleSortChange,
     handleSourceFilterChange,
+    handleDeckFilterChange,
+    handleTagFilterChange,
+    handleSearchChange,
+    refreshFlashcards,
     openCreateForm,
     openEditForm,
     openDeleteDialog,
     setIsEditModalOpen,
     setIsDeleteDialogOpen,
   } = useFlashcards();
+  const decksState = useDecks();
+  const [isDecksDialogOpen, setIsDecksDialogOpen] = useState(false);
+  const tagsState = useTags();
+  const [isTagsDialogOpen, setIsTagsDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [isAnkiImportDialogOpen, setIsAnkiImportDialogOpen] = useState(false);
 
   const columns = getColumns({
+    decks: decksState.decks,
+    searchQuery: filters.q,
     onEdit: openEditForm,
     onDelete: openDeleteDialog,
   });
@@ -45,6 +71,12 @@ export function FlashcardsList() {
     } else {
       await createFlashcard({ ...data, source: 'manual', generation_id: null });
     }
+    // Refresh deck and tag counters after a card was added or changed
+    await Promise.all([decksState.fetchDecks(), tagsState.fetchTags()]);
+  };
+
+  const handleImported = async () => {
+    await Promise.all([refreshFlashcards(), decksState.fetchDecks(), tagsState.fetchTags()]);
   };
 
   const handleDelete = async () => {
@@ -53,6 +85,31 @@ export function FlashcardsList() {
     }
   };
 
+  const handleDeleteDeck = async (id: number) => {
+    const deleted = await decksState.deleteDeck(id);
+    if (deleted && filters.deck_id === id) {
+      handleDeckFilterChange(undefined);
+    }
+    return deleted;
+  };
+
+  // Drop removed tags from the active filter and reload cards with updated tag chips
+  const refreshAfterTagChange = (changed: boolean, removedTagIds: number[]) => {
+    if (!changed) return changed;
+    const selectedTagIds = filters.tag_ids ?? [];
+    handleTagFilterChange(selectedTagIds.filter((id) => !removedTagIds.includes(id)));
+    return changed;
+  };
+
+  const handleRenameTag = async (id: number, data: RenameTagCommand) =>
+    refreshAfterTagChange(await tagsState.renameTag(id, data), []);
+
+  const handleMergeTags = async (data: MergeTagsCommand) =>
+    refreshAfterTagChange(await tagsState.mergeTags(data), data.source_tag_ids);
+
+  const handleDeleteTag = async (id: number) =>
+    refreshAfterTagChange(await tagsState.deleteTag(id), [id]);
+
   if (error) {
     return (
       <Alert variant="destructive" className="mb-4">
@@ -66,13 +123,31 @@ export function FlashcardsList() {
     <div className="space-y-4">
       <div className="flex justify-between items-center">
         <FilterBar
+          searchQuery={searchQuery}
+          onSearchChange={handleSearchChange}
           source={filters.source}
           onSourceChange={handleSourceFilterChange}
+          decks={decksState.decks}
+          deckId={filters.deck_id}
+          onDeckChange={handleDeckFilterChange}
           onSortChange={handleSortChange}
         />
-        <ActionBar openCreateForm={openCreateForm} />
+        <ActionBar
+          openCreateForm={openCreateForm}
+          openDecksDialog={() => setIsDecksDialogOpen(true)}
+          openTagsDialog={() => setIsTagsDialogOpen(true)}
+          openImportDialog={() => setIsImportDialogOpen(true)}
+          openAnkiImportDialog={() => setIsAnkiImportDialogOpen(true)}
+          exportDeckId={filters.deck_id}
+        />
       </div>
 
+      <TagFilter
+        tags={tagsState.tags}
+        selectedTagIds={filters.tag_ids ?? []}
+        onChange={handleTagFilterChange}
+      />
+
       {isLoading && !flashcards.length ? (
         <div className="flex justify-center items-center py-8">
           <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
@@ -99,6 +174,8 @@ export function FlashcardsList() {
         flashcard={selectedFlashcard}
         onSubmit={handleCreateOrUpdate}
         isLoading={isLoading}
+        decks={decksState.decks}
+        defaultDeckId={filters.deck_id}
       />
 
       <DeleteConfirmDialog
@@ -108,6 +185,40 @@ export function FlashcardsList() {
         onConfirm={handleDelete}
         isLoading={isLoading}
       />
+
+      <DecksDialog
+        isOpen={isDecksDialogOpen}
+        onClose={() => setIsDecksDialogOpen(false)}
+        decks={decksState.decks}
+        onCreate={decksState.createDeck}
+        onUpdate={decksState.updateDeck}
+        onDelete={handleDeleteDeck}
+        isLoading={decksState.isLoading}
+        error={decksState.error}
+      />
+
+      <TagsDialog
+        isOpen={isTagsDialogOpen}
+        onClose={() => setIsTagsDialogOpen(false)}
+        tags={tagsState.tags}
+        onRename={handleRenameTag}
+        onMerge={handleMergeTags}
+        onDelete={handleDeleteTag}
+        isLoading={tagsState.isLoading}
+        error={tagsState.error}
+      />
+
+      <ImportDialog
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+        onImported={handleImported}
+      />
+
+      <AnkiImportDialog
+        isOpen={isAnkiImportDialogOpen}
+        onClose={() => setIsAnkiImportDialogOpen(false)}
+        onImported={handleImported}
+      />
     </div>
   );
 }
@@ -0,0 +1,24 @@
+import { splitByMatches } from '@/lib/search';
+
+interface HighlightedTextProps {
+  text: string;
+  query?: string;
+}
+
+export function HighlightedText({ text, query }: HighlightedTextProps) {
+  if (!query) return <>{text}</>;
+
+  return (
+    <>
+      {splitByMatches(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="rounded-sm bg-yellow-200 px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
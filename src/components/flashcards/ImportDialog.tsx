@@ -0,0 +1,284 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, CheckCircle2, Loader2 } from 'lucide-react';
+import { useFlashcardsImport } from '@/hooks/useFlashcardsImport';
+import type { ImportColumnMappingDto, ImportDelimiter } from '@/types';
+
+const PREVIEW_ROWS = 10;
+const MAX_LISTED_ERRORS = 50;
+
+const DELIMITER_LABELS: Record<ImportDelimiter, string> = {
+  ',': 'Przecinek (,)',
+  ';': 'Średnik (;)',
+  '\t': 'Tabulator (TSV)',
+};
+
+const MAPPING_FIELDS: { field: keyof ImportColumnMappingDto; label: string; optional: boolean }[] =
+  [
+    { field: 'front', label: 'Przód', optional: false },
+    { field: 'back', label: 'Tył', optional: false },
+    { field: 'tags', label: 'Tagi', optional: true },
+    { field: 'deck', label: 'Talia', optional: true },
+  ];
+
+interface ImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after flashcards were saved */
+  onImported: () => void;
+}
+
+function guessDelimiter(fileName: string, content: string): ImportDelimiter {
+  if (fileName.toLowerCase().endsWith('.tsv')) return '\t';
+
+  const firstLine = content.split('\n', 1)[0];
+  const count = (char: string) => firstLine.split(char).length - 1;
+  if (count('\t') > 0 && count('\t') >= count(',')) return '\t';
+  return count(';') > count(',') ? ';' : ',';
+}
+
+export function ImportDialog({ isOpen, onClose, onImported }: ImportDialogProps) {
+  const { report, isLoading, error, previewImport, runImport, reset } = useFlashcardsImport();
+  const [content, setContent] = useState('');
+  const [delimiter, setDelimiter] = useState<ImportDelimiter>(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [isImported, setIsImported] = useState(false);
+
+  const handleClose = () => {
+    setContent('');
+    setIsImported(false);
+    reset();
+    onClose();
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    const guessed = guessDelimiter(file.name, text);
+    setContent(text);
+    setDelimiter(guessed);
+    setIsImported(false);
+    await previewImport({ content: text, delimiter: guessed, has_header: hasHeader });
+  };
+
+  // Changing how the file is split invalidates the mapping, so let the server detect it again
+  const handleDelimiterChange = async (value: ImportDelimiter) => {
+    setDelimiter(value);
+    await previewImport({ content, delimiter: value, has_header: hasHeader });
+  };
+
+  const handleHeaderChange = async (checked: boolean) => {
+    setHasHeader(checked);
+    await previewImport({ content, delimiter, has_header: checked });
+  };
+
+  const handleMappingChange = async (field: keyof ImportColumnMappingDto, value: string) => {
+    if (!report) return;
+    const mapping = { ...report.mapping, [field]: value === 'none' ? null : Number(value) };
+    await previewImport({ content, delimiter, has_header: hasHeader, mapping });
+  };
+
+  const handleImport = async () => {
+    if (!report) return;
+    if (await runImport({ content, delimiter, has_header: hasHeader, mapping: report.mapping })) {
+      setIsImported(true);
+      onImported();
+    }
+  };
+
+  const invalidRows = report?.rows.filter((row) => row.errors.length > 0) ?? [];
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open: boolean) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-[900px] max-h-[90vh] overflow-y-auto bg-white">
+        <DialogHeader>
+          <DialogTitle>Import fiszek z CSV/TSV</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isImported && report ? (
+          <div className="space-y-4">
+            <Alert>
+              <CheckCircle2 className="h-4 w-4" />
+              <AlertDescription>
+                Zaimportowano {report.imported_count} fiszek.
+                {report.invalid_count > 0 &&
+                  ` Pominięto ${report.invalid_count} wierszy z błędami.`}
+              </AlertDescription>
+            </Alert>
+            <div className="flex justify-end">
+              <Button onClick={handleClose}>Zamknij</Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="import-file">Plik</Label>
+                <Input
+                  id="import-file"
+                  type="file"
+                  accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+                  onChange={handleFileChange}
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Separator</Label>
+                <Select
+                  value={delimiter}
+                  onValueChange={(value: string) => handleDelimiterChange(value as ImportDelimiter)}
+                  disabled={!content || isLoading}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <input
+                  id="import-has-header"
+                  type="checkbox"
+                  className="h-4 w-4"
+                  checked={hasHeader}
+                  onChange={(e) => handleHeaderChange(e.target.checked)}
+                  disabled={!content || isLoading}
+                />
+                <Label htmlFor="import-has-header">Pierwszy wiersz to nagłówek</Label>
+              </div>
+            </div>
+
+            {report && (
+              <>
+                <div className="grid gap-4 sm:grid-cols-4">
+                  {MAPPING_FIELDS.map(({ field, label, optional }) => {
+                    const value = report.mapping[field];
+                    return (
+                      <div key={field} className="space-y-2">
+                        <Label>{label}</Label>
+                        <Select
+                          value={value === null || value === undefined ? 'none' : String(value)}
+                          onValueChange={(selected: string) => handleMappingChange(field, selected)}
+                          disabled={isLoading}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {optional && <SelectItem value="none">Brak</SelectItem>}
+                            {report.columns.map((column, index) => (
+                              <SelectItem key={index} value={String(index)}>
+                                {index + 1}. {column || '(pusta)'}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  })}
+                </div>
+
+                <p className="text-sm text-muted-foreground">
+                  Poprawne wiersze: {report.valid_count}, z błędami: {report.invalid_count}
+                  {report.rows.length > PREVIEW_ROWS &&
+                    ` (podgląd pierwszych ${PREVIEW_ROWS} z ${report.rows.length})`}
+                </p>
+
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[60px]">Wiersz</TableHead>
+                        <TableHead>Przód</TableHead>
+                        <TableHead>Tył</TableHead>
+                        <TableHead>Tagi</TableHead>
+                        <TableHead>Talia</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                        <TableRow
+                          key={row.row}
+                          className={row.errors.length > 0 ? 'bg-red-50' : undefined}
+                        >
+                          <TableCell>{row.row}</TableCell>
+                          <TableCell className="max-w-[220px] truncate">{row.front}</TableCell>
+                          <TableCell className="max-w-[260px] truncate">{row.back}</TableCell>
+                          <TableCell>{row.tags.join(', ')}</TableCell>
+                          <TableCell>{row.deck ?? '—'}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                {invalidRows.length > 0 && (
+                  <div className="space-y-1">
+                    <p className="text-sm font-medium">Wiersze z błędami zostaną pominięte:</p>
+                    <ul className="max-h-[160px] overflow-y-auto text-sm text-red-600">
+                      {invalidRows.slice(0, MAX_LISTED_ERRORS).map((row) => (
+                        <li key={row.row}>
+                          Wiersz {row.row}: {row.errors.join('; ')}
+                        </li>
+                      ))}
+                      {invalidRows.length > MAX_LISTED_ERRORS && (
+                        <li>… i {invalidRows.length - MAX_LISTED_ERRORS} więcej</li>
+                      )}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={handleClose}>
+                Anuluj
+              </Button>
+              <Button
+                onClick={handleImport}
+                disabled={!report || report.valid_count === 0 || isLoading}
+              >
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Importuj {report ? report.valid_count : 0} fiszek
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
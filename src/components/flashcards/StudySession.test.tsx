@@ -0,0 +1,151 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { StudySession } from './StudySession';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+
+// Mock fetch API
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const review = {
+  ease_factor: 2.5,
+  interval: 0,
+  repetitions: 0,
+  lapses: 0,
+  due_at: '2025-05-20T12:00:00.000Z',
+  last_reviewed_at: null,
+};
+
+const dueCards = [
+  {
+    id: 1,
+    generation_id: null,
+    front: 'Question 1',
+    back: 'Answer 1',
+    source: 'manual',
+    created_at: '2025-05-20T12:00:00.000Z',
+    updated_at: '2025-05-20T12:00:00.000Z',
+    review: { ...review, flashcard_id: 1 },
+  },
+  {
+    id: 2,
+    generation_id: null,
+    front: 'Question 2',
+    back: 'Answer 2',
+    source: 'manual',
+    created_at: '2025-05-20T12:00:00.000Z',
+    updated_at: '2025-05-20T12:00:00.000Z',
+    review: { ...review, flashcard_id: 2 },
+  },
+];
+
+const mockDueCards = (cards = dueCards) => {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({ data: cards, total_due: cards.length }),
+  });
+};
+
+const mockReviewSaved = () => {
+  mockFetch.mockResolvedValueOnce({
+    ok: true,
+    json: async () => ({}),
+  });
+};
+
+describe('StudySession', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockFetch.mockReset();
+  });
+
+  it('should show the front of the first due card', async () => {
+    // Arrange
+    mockDueCards();
+
+    // Act
+    render(<StudySession />);
+
+    // Assert
+    expect(await screen.findByText('Question 1')).toBeInTheDocument();
+    expect(screen.queryByText('Answer 1')).not.toBeInTheDocument();
+    expect(mockFetch).toHaveBeenCalledWith('/api/reviews?limit=100');
+  });
+
+  it('should reveal the back when space is pressed', async () => {
+    // Arrange
+    mockDueCards();
+    render(<StudySession />);
+    await screen.findByText('Question 1');
+
+    // Act
+    fireEvent.keyDown(window, { code: 'Space', key: ' ' });
+
+    // Assert
+    expect(screen.getByText('Answer 1')).toBeInTheDocument();
+    expect(screen.getByText('Dobrze')).toBeInTheDocument();
+  });
+
+  it('should submit a grade with number keys and move to the next card', async () => {
+    // Arrange
+    mockDueCards();
+    mockReviewSaved();
+    render(<StudySession />);
+    await screen.findByText('Question 1');
+
+    // Act
+    fireEvent.keyDown(window, { code: 'Space', key: ' ' });
+    fireEvent.keyDown(window, { code: 'Digit3', key: '3' });
+
+    // Assert
+    expect(await screen.findByText('Question 2')).toBeInTheDocument();
+    expect(mockFetch).toHaveBeenLastCalledWith('/api/reviews', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ flashcard_id: 1, grade: 'good' }),
+    });
+  });
+
+  it('should ignore grades before the card is flipped', async () => {
+    // Arrange
+    mockDueCards();
+    render(<StudySession />);
+    await screen.findByText('Question 1');
+
+    // Act
+    fireEvent.keyDown(window, { code: 'Digit3', key: '3' });
+
+    // Assert
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show a summary after the last card is graded', async () => {
+    // Arrange
+    mockDueCards([dueCards[0]]);
+    mockReviewSaved();
+    render(<StudySession />);
+    await screen.findByText('Question 1');
+
+    // Act
+    fireEvent.click(screen.getByText('Pokaż odpowiedź'));
+    fireEvent.click(screen.getByText('Łatwe'));
+
+    // Assert
+    await waitFor(() => {
+      expect(screen.getByText('Sesja zakończona')).toBeInTheDocument();
+    });
+  });
+
+  it('should show an empty state when nothing is due', async () => {
+    // Arrange
+    mockDueCards([]);
+
+    // Act
+    render(<StudySession />);
+
+    // Assert
+    expect(
+      await screen.findByText('Brak fiszek do powtórki. Wróć później lub dodaj nowe fiszki.')
+    ).toBeInTheDocument();
+  });
+});
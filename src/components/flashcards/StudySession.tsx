@@ -0,0 +1,188 @@
+import { useEffect } from 'react';
+import { useStudySession } from '@/hooks/useStudySession';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardFooter } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2, RotateCcw } from 'lucide-react';
+import type { ReviewGrade } from '@/types';
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; shortcut: string; className: string }[] =
+  [
+    { grade: 'again', label: 'Nie pamiętam', shortcut: '1', className: 'text-red-600' },
+    { grade: 'hard', label: 'Trudne', shortcut: '2', className: 'text-amber-600' },
+    { grade: 'good', label: 'Dobrze', shortcut: '3', className: 'text-green-600' },
+    { grade: 'easy', label: 'Łatwe', shortcut: '4', className: 'text-blue-600' },
+  ];
+
+export function StudySession() {
+  const {
+    state,
+    currentCard,
+    isFlipped,
+    isSubmitting,
+    error,
+    totalCards,
+    completedCards,
+    remainingCards,
+    reviewCount,
+    gradeCounts,
+    flipCard,
+    gradeCard,
+    startSession,
+  } = useStudySession();
+
+  // Keyboard control: space flips the card, 1-4 submit a grade
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+
+      if (event.code === 'Space') {
+        event.preventDefault();
+        flipCard();
+        return;
+      }
+
+      const gradeButton = GRADE_BUTTONS.find((button) => button.shortcut === event.key);
+      if (gradeButton) {
+        event.preventDefault();
+        gradeCard(gradeButton.grade);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [flipCard, gradeCard]);
+
+  if (state === 'loading') {
+    return (
+      <div className="flex justify-center items-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (state === 'complete') {
+    return (
+      <div className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Błąd sesji nauki: {error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="p-6">
+          {reviewCount === 0 ? (
+            <p className="text-center text-muted-foreground">
+              Brak fiszek do powtórki. Wróć później lub dodaj nowe fiszki.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <h2 className="text-xl font-semibold">Sesja zakończona</h2>
+              <p className="text-muted-foreground">
+                Powtórzono {totalCards} fiszek w {reviewCount} odpowiedziach.
+              </p>
+              <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+                {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                  <div key={grade} className="bg-white p-3 rounded border">
+                    <div className="text-sm text-gray-500">{label}</div>
+                    <div className={`text-xl font-semibold ${className}`}>{gradeCounts[grade]}</div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <CardFooter className="px-0 pb-0 flex justify-end gap-3">
+            <Button variant="outline" asChild>
+              <a href="/flashcards">Moje fiszki</a>
+            </Button>
+            <Button onClick={startSession} className="gap-2">
+              <RotateCcw className="h-4 w-4" />
+              Sprawdź ponownie
+            </Button>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  const progress = totalCards > 0 ? Math.round((completedCards / totalCards) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>Błąd zapisu oceny: {error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-sm text-muted-foreground">
+          <span>
+            Ukończono {completedCards} z {totalCards}
+          </span>
+          <span>Pozostało: {remainingCards}</span>
+        </div>
+        <div
+          className="h-2 w-full rounded bg-gray-200"
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={progress}
+        >
+          <div
+            className="h-2 rounded bg-primary transition-all"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      </div>
+
+      {currentCard && (
+        <Card className="min-h-[300px]">
+          <CardContent className="space-y-6">
+            <div>
+              <p className="text-sm font-medium text-muted-foreground">Przód</p>
+              <p className="mt-2 text-lg whitespace-pre-wrap">{currentCard.front}</p>
+            </div>
+
+            {isFlipped && (
+              <div className="border-t pt-6">
+                <p className="text-sm font-medium text-muted-foreground">Tył</p>
+                <p className="mt-2 text-lg whitespace-pre-wrap">{currentCard.back}</p>
+              </div>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex flex-wrap justify-center gap-2">
+            {isFlipped ? (
+              GRADE_BUTTONS.map(({ grade, label, shortcut, className }) => (
+                <Button
+                  key={grade}
+                  variant="outline"
+                  onClick={() => gradeCard(grade)}
+                  disabled={isSubmitting}
+                  className={className}
+                >
+                  {label}
+                  <kbd className="ml-1 text-xs text-muted-foreground">{shortcut}</kbd>
+                </Button>
+              ))
+            ) : (
+              <Button onClick={flipCard}>
+                Pokaż odpowiedź
+                <kbd className="ml-1 text-xs opacity-70">Spacja</kbd>
+              </Button>
+            )}
+          </CardFooter>
+        </Card>
+      )}
+
+      <p className="text-center text-xs text-muted-foreground">
+        Skróty: Spacja – odwróć fiszkę, 1–4 – oceń odpowiedź
+      </p>
+    </div>
+  );
+}
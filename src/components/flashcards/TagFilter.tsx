@@ -0,0 +1,43 @@
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import type { TagDto } from '@/types';
+
+interface TagFilterProps {
+  tags: TagDto[];
+  selectedTagIds: number[];
+  onChange: (tagIds: number[]) => void;
+}
+
+export function TagFilter({ tags, selectedTagIds, onChange }: TagFilterProps) {
+  if (tags.length === 0) return null;
+
+  const toggleTag = (tagId: number) => {
+    onChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter((id) => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-sm text-muted-foreground">Tagi:</span>
+      {tags.map((tag) => {
+        const isSelected = selectedTagIds.includes(tag.id);
+        return (
+          <Badge key={tag.id} variant={isSelected ? 'default' : 'outline'} asChild>
+            <button type="button" aria-pressed={isSelected} onClick={() => toggleTag(tag.id)}>
+              {tag.name}
+              <span className="opacity-70">{tag.flashcard_count}</span>
+            </button>
+          </Badge>
+        );
+      })}
+      {selectedTagIds.length > 0 && (
+        <Button variant="ghost" size="sm" onClick={() => onChange([])}>
+          Wyczyść
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,24 @@
 import { type ColumnDef } from '@tanstack/react-table';
 import { Button } from '@/components/ui/button';
 import { Edit, Trash2 } from 'lucide-react';
-import { type FlashcardDto } from '@/types';
+import { type DeckDto, type FlashcardWithTagsDto } from '@/types';
 import { Badge } from '@/components/ui/badge';
+import { HighlightedText } from './HighlightedText';
 
 interface ColumnsProps {
+  decks: DeckDto[];
+  /** Active search query; matching words are highlighted */
+  searchQuery?: string;
   onEdit: (id: number) => void;
   onDelete: (id: number) => void;
 }
 
-export const getColumns = ({ onEdit, onDelete }: ColumnsProps): ColumnDef<FlashcardDto>[] => [
+export const getColumns = ({
+  decks,
+  searchQuery,
+  onEdit,
+  onDelete,
+}: ColumnsProps): ColumnDef<FlashcardWithTagsDto>[] => [
   {
     accessorKey: 'id',
     header: 'ID',
@@ -18,12 +27,20 @@ export const getColumns = ({ onEdit, onDelete }: ColumnsProps): ColumnDef<Flashc
   {
     accessorKey: 'front',
     header: 'Przód',
-    cell: ({ row }) => <div className="max-w-[300px] truncate">{row.getValue('front')}</div>,
+    cell: ({ row }) => (
+      <div className="max-w-[300px] truncate">
+        <HighlightedText text={row.original.front} query={searchQuery} />
+      </div>
+    ),
   },
   {
     accessorKey: 'back',
     header: 'Tył',
-    cell: ({ row }) => <div className="max-w-[300px] truncate">{row.getValue('back')}</div>,
+    cell: ({ row }) => (
+      <div className="max-w-[300px] truncate">
+        <HighlightedText text={row.original.back} query={searchQuery} />
+      </div>
+    ),
   },
   {
     accessorKey: 'source',
@@ -42,6 +59,34 @@ export const getColumns = ({ onEdit, onDelete }: ColumnsProps): ColumnDef<Flashc
       );
     },
   },
+  {
+    accessorKey: 'tags',
+    header: 'Tagi',
+    cell: ({ row }) => {
+      const tags = row.original.tags ?? [];
+      return (
+        <div className="flex max-w-[200px] flex-wrap gap-1">
+          {tags.map((tag) => (
+            <Badge key={tag.id} variant="outline">
+              {tag.name}
+            </Badge>
+          ))}
+        </div>
+      );
+    },
+  },
+  {
+    accessorKey: 'deck_id',
+    header: 'Talia',
+    cell: ({ row }) => {
+      const deck = decks.find((d) => d.id === row.getValue('deck_id'));
+      return deck ? (
+        <div className="max-w-[150px] truncate">{deck.name}</div>
+      ) : (
+        <span className="text-muted-foreground">—</span>
+      );
+    },
+  },
   {
     accessorKey: 'created_at',
     header: 'Utworzone',
@@ -0,0 +1,94 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import type { GenerationDetailDto } from '@/types';
+import { getAcceptanceRate } from './columns';
+
+interface GenerationDetailsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  generation: GenerationDetailDto | undefined;
+  isLoading: boolean;
+}
+
+export function GenerationDetailsDialog({
+  isOpen,
+  onClose,
+  generation,
+  isLoading,
+}: GenerationDetailsDialogProps) {
+  const rate = generation ? getAcceptanceRate(generation) : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[700px] bg-white max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Szczegóły generowania</DialogTitle>
+          {generation && (
+            <DialogDescription>
+              {new Date(generation.created_at).toLocaleString()} · {generation.model}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {isLoading || !generation ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
+              <div className="bg-gray-50 p-3 rounded border">
+                <div className="text-sm text-gray-500">Wygenerowane</div>
+                <div className="text-xl font-semibold">{generation.generated_count}</div>
+              </div>
+              <div className="bg-gray-50 p-3 rounded border">
+                <div className="text-sm text-gray-500">Zaakceptowane</div>
+                <div className="text-xl font-semibold text-green-600">
+                  {generation.accepted_count}
+                </div>
+              </div>
+              <div className="bg-gray-50 p-3 rounded border">
+                <div className="text-sm text-gray-500">Akceptacja</div>
+                <div className="text-xl font-semibold">{rate === null ? '—' : `${rate}%`}</div>
+              </div>
+              <div className="bg-gray-50 p-3 rounded border">
+                <div className="text-sm text-gray-500">Długość tekstu</div>
+                <div className="text-xl font-semibold">
+                  {generation.source_text_length.toLocaleString()}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="font-medium">Zapisane fiszki ({generation.flashcards.length})</h3>
+              {generation.flashcards.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Żadna fiszka z tego generowania nie została zapisana.
+                </p>
+              ) : (
+                generation.flashcards.map((flashcard) => (
+                  <div key={flashcard.id} className="rounded-md border p-4">
+                    <div className="flex items-start justify-between gap-4">
+                      <p className="font-medium">{flashcard.front}</p>
+                      <Badge variant={flashcard.source === 'ai-full' ? 'secondary' : 'outline'}>
+                        {flashcard.source === 'ai-full' ? 'AI' : 'AI - edytowane'}
+                      </Badge>
+                    </div>
+                    <p className="mt-2 text-sm text-muted-foreground">{flashcard.back}</p>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,135 @@
+import React from 'react';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GenerationsList } from './GenerationsList';
+import { getAcceptanceRate } from './columns';
+import type { GenerationDetailDto, GenerationDto } from '@/types';
+
+const createGeneration = (overrides: Partial<GenerationDto> = {}): GenerationDto => ({
+  id: 7,
+  user_id: 'user-1',
+  model: 'openai/gpt-4o-mini',
+  status: 'completed',
+  generated_count: 8,
+  accepted_count: 6,
+  card_count: null,
+  difficulty: null,
+  focus: null,
+  language: null,
+  duration: 1200,
+  source_text_hash: 'hash',
+  source_text_length: 1500,
+  request_hash: null,
+  reused: false,
+  prompt_tokens: 100,
+  completion_tokens: 200,
+  cost: 0.002,
+  created_at: '2025-05-01T10:00:00Z',
+  updated_at: '2025-05-01T10:00:00Z',
+  ...overrides,
+});
+
+describe('getAcceptanceRate', () => {
+  it('returns the accepted share in whole percent', () => {
+    expect(getAcceptanceRate(createGeneration({ generated_count: 8, accepted_count: 6 }))).toBe(75);
+    expect(getAcceptanceRate(createGeneration({ generated_count: 3, accepted_count: 1 }))).toBe(33);
+    expect(getAcceptanceRate(createGeneration({ generated_count: 5, accepted_count: 0 }))).toBe(0);
+  });
+
+  it('returns null instead of NaN or Infinity when nothing was generated', () => {
+    expect(
+      getAcceptanceRate(createGeneration({ generated_count: 0, accepted_count: 0 }))
+    ).toBeNull();
+    expect(
+      getAcceptanceRate(createGeneration({ generated_count: 0, accepted_count: 2 }))
+    ).toBeNull();
+  });
+});
+
+describe('GenerationsList', () => {
+  const fetchMock = vi.fn();
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    ({ ok: status < 400, status, json: async () => body }) as Response;
+
+  const listResponse = (data: GenerationDto[]) =>
+    jsonResponse({ data, pagination: { total: data.length, page: 1, limit: 20, pages: 1 } });
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('shows the acceptance rate and a dash for a generation without proposals', async () => {
+    // Arrange
+    fetchMock.mockResolvedValueOnce(
+      listResponse([
+        createGeneration({ id: 1, generated_count: 4, accepted_count: 3 }),
+        createGeneration({ id: 2, generated_count: 0, accepted_count: 0, status: 'failed' }),
+      ])
+    );
+
+    // Act
+    render(<GenerationsList />);
+
+    // Assert
+    const rows = await screen.findAllByRole('row');
+    expect(within(rows[1]).getByText('75%')).toBeInTheDocument();
+    expect(within(rows[2]).getByText('—')).toBeInTheDocument();
+    expect(screen.queryByText(/NaN|Infinity/)).not.toBeInTheDocument();
+  });
+
+  it('opens the details of a generation with its saved flashcards', async () => {
+    // Arrange
+    const generation = createGeneration({ generated_count: 0, accepted_count: 0 });
+    const details: GenerationDetailDto = {
+      ...generation,
+      flashcards: [
+        {
+          id: 31,
+          generation_id: generation.id,
+          deck_id: null,
+          front: 'Co to jest fotosynteza?',
+          back: 'Proces wytwarzania glukozy z udziałem światła.',
+          source: 'ai-edited',
+          created_at: generation.created_at,
+          updated_at: generation.updated_at,
+        },
+      ],
+      proposals: [],
+    };
+    fetchMock.mockResolvedValueOnce(listResponse([generation]));
+    fetchMock.mockResolvedValueOnce(jsonResponse(details));
+    render(<GenerationsList />);
+
+    // Act
+    fireEvent.click(await screen.findByRole('button', { name: 'Pokaż szczegóły' }));
+
+    // Assert
+    const dialog = await screen.findByRole('dialog');
+    expect(fetchMock).toHaveBeenLastCalledWith('/api/generations/7');
+    expect(await within(dialog).findByText('Co to jest fotosynteza?')).toBeInTheDocument();
+    expect(within(dialog).getByText('AI - edytowane')).toBeInTheDocument();
+    expect(within(dialog).getByText('Zapisane fiszki (1)')).toBeInTheDocument();
+    expect(within(dialog).getByText('—')).toBeInTheDocument();
+  });
+
+  it('closes the details and shows an error when they cannot be loaded', async () => {
+    // Arrange
+    fetchMock.mockResolvedValueOnce(listResponse([createGeneration()]));
+    fetchMock.mockResolvedValueOnce(jsonResponse({ error: 'Not found' }, 404));
+    render(<GenerationsList />);
+
+    // Act
+    fireEvent.click(await screen.findByRole('button', { name: 'Pokaż szczegóły' }));
+
+    // Assert
+    await waitFor(() =>
+      expect(screen.getByText(/Failed to fetch generation details/)).toBeInTheDocument()
+    );
+    expect(screen.queryByRole('dialog')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,89 @@
+import { useGenerations } from '@/hooks/useGenerations';
+import { DataTable } from '@/components/ui/data-table';
+import { PaginationControl } from '@/components/ui/pagination-control';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { getColumns } from './columns';
+import { GenerationDetailsDialog } from './GenerationDetailsDialog';
+
+export function GenerationsList() {
+  const {
+    generations,
+    pagination,
+    filters,
+    isLoading,
+    error,
+    selectedGeneration,
+    isDetailsOpen,
+    isDetailsLoading,
+    handlePageChange,
+    handleLimitChange,
+    handleOrderChange,
+    openDetails,
+    closeDetails,
+  } = useGenerations();
+
+  const columns = getColumns({ onShowDetails: openDetails });
+
+  if (error) {
+    return (
+      <Alert variant="destructive" className="mb-4">
+        <AlertCircle className="h-4 w-4" />
+        <AlertDescription>Błąd ładowania historii generowania: {error}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4">
+        <Select
+          value={filters.order ?? 'desc'}
+          onValueChange={(value: string) => handleOrderChange(value as 'asc' | 'desc')}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Sortuj według" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="desc">Od najnowszych</SelectItem>
+            <SelectItem value="asc">Od najstarszych</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading && !generations.length ? (
+        <div className="flex justify-center items-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      ) : (
+        <DataTable columns={columns} data={generations} />
+      )}
+
+      {generations.length > 0 && (
+        <div className="flex justify-end">
+          <PaginationControl
+            currentPage={pagination.page}
+            totalPages={pagination.pages}
+            onPageChange={handlePageChange}
+            pageSize={pagination.limit}
+            onPageSizeChange={handleLimitChange}
+          />
+        </div>
+      )}
+
+      <GenerationDetailsDialog
+        isOpen={isDetailsOpen}
+        onClose={closeDetails}
+        generation={selectedGeneration}
+        isLoading={isDetailsLoading}
+      />
+    </div>
+  );
+}
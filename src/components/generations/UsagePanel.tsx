@@ -0,0 +1,133 @@
+import { useUsage } from '@/hooks/useUsage';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import { formatCost } from './columns';
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01T00:00:00Z`).toLocaleDateString('pl-PL', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatTokens = (tokens: number) => tokens.toLocaleString('pl-PL');
+
+export function UsagePanel() {
+  const { month, usage, isLoading, error, isCurrentMonth, showPreviousMonth, showNextMonth } =
+    useUsage();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Zużycie AI</CardTitle>
+          <CardDescription>
+            Tokeny i koszt ukończonych generowań w wybranym miesiącu
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Poprzedni miesiąc"
+            onClick={showPreviousMonth}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="min-w-[120px] text-center text-sm font-medium" data-testid="usage-month">
+            {formatMonth(month)}
+          </span>
+          <Button
+            variant="outline"
+            size="icon"
+            aria-label="Następny miesiąc"
+            onClick={showNextMonth}
+            disabled={isCurrentMonth}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>Błąd ładowania zużycia: {error}</AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading && !usage ? (
+          <div className="flex justify-center items-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          usage && (
+            <>
+              <dl className="grid gap-4 sm:grid-cols-3">
+                <div>
+                  <dt className="text-sm text-muted-foreground">Generowania</dt>
+                  <dd className="text-2xl font-semibold">{usage.generations}</dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">Tokeny (wejście / wyjście)</dt>
+                  <dd className="text-2xl font-semibold">
+                    {formatTokens(usage.prompt_tokens)} / {formatTokens(usage.completion_tokens)}
+                  </dd>
+                </div>
+                <div>
+                  <dt className="text-sm text-muted-foreground">Koszt</dt>
+                  <dd className="text-2xl font-semibold" data-testid="usage-cost">
+                    {formatCost(usage.cost)}
+                  </dd>
+                </div>
+              </dl>
+
+              {usage.unpriced_generations > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Koszt nie obejmuje {usage.unpriced_generations} generowań, dla których nie udało
+                  się ustalić zużycia lub cen modelu.
+                </p>
+              )}
+
+              {usage.by_model.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Model</TableHead>
+                      <TableHead className="text-right">Generowania</TableHead>
+                      <TableHead className="text-right">Tokeny</TableHead>
+                      <TableHead className="text-right">Koszt</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.by_model.map((modelUsage) => (
+                      <TableRow key={modelUsage.model}>
+                        <TableCell className="max-w-[260px] truncate">{modelUsage.model}</TableCell>
+                        <TableCell className="text-right">{modelUsage.generations}</TableCell>
+                        <TableCell className="text-right">
+                          {formatTokens(modelUsage.prompt_tokens + modelUsage.completion_tokens)}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCost(modelUsage.cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
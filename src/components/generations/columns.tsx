@@ -0,0 +1,101 @@
+import { type ColumnDef } from '@tanstack/react-table';
+import { Button } from '@/components/ui/button';
+import { Eye } from 'lucide-react';
+import { type GenerationDto } from '@/types';
+import { Badge } from '@/components/ui/badge';
+
+interface ColumnsProps {
+  onShowDetails: (id: number) => void;
+}
+
+/**
+ * Share of generated proposals that the user accepted, in percent.
+ * Returns null when nothing was generated.
+ */
+export const getAcceptanceRate = (generation: GenerationDto): number | null => {
+  if (generation.generated_count === 0) return null;
+  return Math.round((generation.accepted_count / generation.generated_count) * 100);
+};
+
+/**
+ * Formats an AI cost in USD; small amounts keep enough decimals to be visible
+ */
+export const formatCost = (cost: number): string =>
+  `$${cost.toFixed(cost > 0 && cost < 0.01 ? 4 : 2)}`;
+
+export const getColumns = ({ onShowDetails }: ColumnsProps): ColumnDef<GenerationDto>[] => [
+  {
+    accessorKey: 'created_at',
+    header: 'Data',
+    cell: ({ row }) => {
+      const date = new Date(row.getValue('created_at'));
+      return <div>{date.toLocaleString()}</div>;
+    },
+  },
+  {
+    accessorKey: 'model',
+    header: 'Model',
+    cell: ({ row }) => <div className="max-w-[220px] truncate">{row.getValue('model')}</div>,
+  },
+  {
+    accessorKey: 'source_text_length',
+    header: 'Długość tekstu',
+    cell: ({ row }) => <div>{row.getValue<number>('source_text_length').toLocaleString()}</div>,
+  },
+  {
+    id: 'counts',
+    header: 'Zaakceptowane / wygenerowane',
+    cell: ({ row }) => (
+      <div>
+        {row.original.accepted_count} / {row.original.generated_count}
+      </div>
+    ),
+  },
+  {
+    id: 'acceptance_rate',
+    header: 'Akceptacja',
+    cell: ({ row }) => {
+      const rate = getAcceptanceRate(row.original);
+      if (rate === null) {
+        return <span className="text-muted-foreground">—</span>;
+      }
+
+      const variant = rate >= 75 ? 'default' : rate >= 50 ? 'secondary' : 'outline';
+      return <Badge variant={variant}>{rate}%</Badge>;
+    },
+  },
+  {
+    accessorKey: 'cost',
+    header: 'Koszt',
+    cell: ({ row }) => {
+      const { cost, prompt_tokens, completion_tokens } = row.original;
+      if (cost === null) {
+        return <span className="text-muted-foreground">—</span>;
+      }
+
+      return (
+        <div
+          title={`Tokeny: ${prompt_tokens ?? 0} wejściowe / ${completion_tokens ?? 0} wyjściowe`}
+        >
+          {formatCost(cost)}
+        </div>
+      );
+    },
+  },
+  {
+    id: 'actions',
+    cell: ({ row }) => (
+      <Button
+        variant="ghost"
+        size="icon"
+        aria-label="Pokaż szczegóły"
+        onClick={(e) => {
+          e.stopPropagation();
+          onShowDetails(row.original.id);
+        }}
+      >
+        <Eye className="h-4 w-4" />
+      </Button>
+    ),
+  },
+];
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Check, Edit, GitMerge, Trash2, X } from 'lucide-react';
+import type { MergeTagsCommand, RenameTagCommand, TagDto } from '@/types';
+
+interface TagAction {
+  type: 'rename' | 'merge' | 'delete';
+  tagId: number;
+}
+
+interface TagsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tags: TagDto[];
+  onRename: (id: number, data: RenameTagCommand) => Promise<boolean>;
+  onMerge: (data: MergeTagsCommand) => Promise<boolean>;
+  onDelete: (id: number) => Promise<boolean>;
+  isLoading: boolean;
+  error: string | null;
+}
+
+export function TagsDialog({
+  isOpen,
+  onClose,
+  tags,
+  onRename,
+  onMerge,
+  onDelete,
+  isLoading,
+  error,
+}: TagsDialogProps) {
+  const [action, setAction] = useState<TagAction | null>(null);
+  const [editedName, setEditedName] = useState('');
+  const [mergeTargetId, setMergeTargetId] = useState<number | null>(null);
+
+  const startAction = (type: TagAction['type'], tag: TagDto) => {
+    setAction({ type, tagId: tag.id });
+    setEditedName(tag.name);
+    setMergeTargetId(null);
+  };
+
+  const handleRename = async (id: number) => {
+    const name = editedName.trim();
+    if (!name) return;
+
+    if (await onRename(id, { name })) {
+      setAction(null);
+    }
+  };
+
+  const handleMerge = async (id: number) => {
+    if (mergeTargetId === null) return;
+
+    if (await onMerge({ source_tag_ids: [id], target_tag_id: mergeTargetId })) {
+      setAction(null);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    await onDelete(id);
+    setAction(null);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[550px] bg-white">
+        <DialogHeader>
+          <DialogTitle>Tagi</DialogTitle>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {tags.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nie masz jeszcze żadnych tagów. Dodaj je podczas edycji fiszki.
+          </p>
+        ) : (
+          <ul className="divide-y rounded-md border max-h-[400px] overflow-y-auto">
+            {tags.map((tag) => {
+              const current = action?.tagId === tag.id ? action.type : null;
+
+              return (
+                <li key={tag.id} className="flex items-center gap-2 p-2">
+                  {current === 'rename' ? (
+                    <>
+                      <Input
+                        value={editedName}
+                        maxLength={50}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                          setEditedName(e.target.value)
+                        }
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Zapisz nazwę"
+                        onClick={() => handleRename(tag.id)}
+                        disabled={isLoading || !editedName.trim()}
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Anuluj"
+                        onClick={() => setAction(null)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </>
+                  ) : current === 'merge' ? (
+                    <>
+                      <span className="truncate text-sm">„{tag.name}” →</span>
+                      <Select
+                        value={mergeTargetId ? String(mergeTargetId) : undefined}
+                        onValueChange={(value: string) => setMergeTargetId(Number(value))}
+                      >
+                        <SelectTrigger className="flex-1">
+                          <SelectValue placeholder="Scal z tagiem" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {tags
+                            .filter((other) => other.id !== tag.id)
+                            .map((other) => (
+                              <SelectItem key={other.id} value={String(other.id)}>
+                                {other.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        onClick={() => handleMerge(tag.id)}
+                        disabled={isLoading || mergeTargetId === null}
+                      >
+                        Scal
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setAction(null)}>
+                        Anuluj
+                      </Button>
+                    </>
+                  ) : current === 'delete' ? (
+                    <>
+                      <span className="flex-1 text-sm">
+                        Usunąć tag „{tag.name}” ze wszystkich fiszek?
+                      </span>
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        onClick={() => handleDelete(tag.id)}
+                        disabled={isLoading}
+                      >
+                        Usuń
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => setAction(null)}>
+                        Anuluj
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <span className="flex-1 truncate">{tag.name}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {tag.flashcard_count} fiszek
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Zmień nazwę"
+                        onClick={() => startAction('rename', tag)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Scal z innym tagiem"
+                        onClick={() => startAction('merge', tag)}
+                        disabled={tags.length < 2}
+                      >
+                        <GitMerge className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label="Usuń tag"
+                        onClick={() => startAction('delete', tag)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
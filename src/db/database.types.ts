@@ -20,13 +20,135 @@ export interface Database {
   };
   public: {
     Tables: {
+      account_deletions: {
+        Row: {
+          cancelled_at: string | null;
+          completed_at: string | null;
+          deleted_counts: Json | null;
+          id: number;
+          requested_at: string;
+          scheduled_for: string;
+          status: string;
+          user_id: string;
+        };
+        Insert: {
+          cancelled_at?: string | null;
+          completed_at?: string | null;
+          deleted_counts?: Json | null;
+          id?: number;
+          requested_at?: string;
+          scheduled_for: string;
+          status?: string;
+          user_id: string;
+        };
+        Update: {
+          cancelled_at?: string | null;
+          completed_at?: string | null;
+          deleted_counts?: Json | null;
+          id?: number;
+          requested_at?: string;
+          scheduled_for?: string;
+          status?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      ai_response_cache: {
+        Row: {
+          created_at: string;
+          expires_at: string;
+          key: string;
+          response: Json;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          expires_at: string;
+          key: string;
+          response: Json;
+          user_id?: string;
+        };
+        Update: {
+          created_at?: string;
+          expires_at?: string;
+          key?: string;
+          response?: Json;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      decks: {
+        Row: {
+          created_at: string;
+          description: string | null;
+          id: number;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          description?: string | null;
+          id?: number;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          description?: string | null;
+          id?: number;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      flashcard_tags: {
+        Row: {
+          created_at: string;
+          flashcard_id: number;
+          tag_id: number;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          flashcard_id: number;
+          tag_id: number;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          flashcard_id?: number;
+          tag_id?: number;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'flashcard_tags_flashcard_id_fkey';
+            columns: ['flashcard_id'];
+            isOneToOne: false;
+            referencedRelation: 'flashcards';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'flashcard_tags_tag_id_fkey';
+            columns: ['tag_id'];
+            isOneToOne: false;
+            referencedRelation: 'tags';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       flashcards: {
         Row: {
           back: string;
           created_at: string;
+          deck_id: number | null;
           front: string;
           generation_id: number | null;
           id: number;
+          search_vector: unknown;
           source: string;
           updated_at: string;
           user_id: string;
@@ -34,9 +156,11 @@ export interface Database {
         Insert: {
           back: string;
           created_at?: string;
+          deck_id?: number | null;
           front: string;
           generation_id?: number | null;
           id?: number;
+          search_vector?: never;
           source: string;
           updated_at?: string;
           user_id: string;
@@ -44,14 +168,23 @@ export interface Database {
         Update: {
           back?: string;
           created_at?: string;
+          deck_id?: number | null;
           front?: string;
           generation_id?: number | null;
           id?: number;
+          search_vector?: never;
           source?: string;
           updated_at?: string;
           user_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: 'flashcards_deck_id_fkey';
+            columns: ['deck_id'];
+            isOneToOne: false;
+            referencedRelation: 'decks';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'flashcards_generation_id_fkey';
             columns: ['generation_id'];
@@ -63,9 +196,11 @@ export interface Database {
       };
       generation_error_logs: {
         Row: {
+          attempt_count: number;
           error_code: string;
           error_message: string;
-          generation_id: number;
+          generation_id: number | null;
+          http_status: number | null;
           id: number;
           model: string;
           source_text_hash: string;
@@ -74,9 +209,11 @@ export interface Database {
           user_id: string;
         };
         Insert: {
+          attempt_count?: number;
           error_code: string;
           error_message: string;
-          generation_id: number;
+          generation_id?: number | null;
+          http_status?: number | null;
           id?: number;
           model: string;
           source_text_hash: string;
@@ -85,9 +222,11 @@ export interface Database {
           user_id: string;
         };
         Update: {
+          attempt_count?: number;
           error_code?: string;
           error_message?: string;
-          generation_id?: number;
+          generation_id?: number | null;
+          http_status?: number | null;
           id?: number;
           model?: string;
           source_text_hash?: string;
@@ -105,40 +244,207 @@ export interface Database {
           },
         ];
       };
+      generation_proposals: {
+        Row: {
+          created_at: string;
+          decided_at: string | null;
+          decision: string;
+          final_back: string | null;
+          final_front: string | null;
+          flashcard_id: number | null;
+          generation_id: number;
+          id: number;
+          original_back: string;
+          original_front: string;
+          position: number;
+          suggested_tags: string[];
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          decided_at?: string | null;
+          decision?: string;
+          final_back?: string | null;
+          final_front?: string | null;
+          flashcard_id?: number | null;
+          generation_id: number;
+          id?: number;
+          original_back: string;
+          original_front: string;
+          position: number;
+          suggested_tags?: string[];
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          decided_at?: string | null;
+          decision?: string;
+          final_back?: string | null;
+          final_front?: string | null;
+          flashcard_id?: number | null;
+          generation_id?: number;
+          id?: number;
+          original_back?: string;
+          original_front?: string;
+          position?: number;
+          suggested_tags?: string[];
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'generation_proposals_generation_id_fkey';
+            columns: ['generation_id'];
+            isOneToOne: false;
+            referencedRelation: 'generations';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'generation_proposals_flashcard_id_fkey';
+            columns: ['flashcard_id'];
+            isOneToOne: false;
+            referencedRelation: 'flashcards';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       generations: {
         Row: {
           accepted_count: number;
+          card_count: number | null;
+          completion_tokens: number | null;
+          cost: number | null;
           created_at: string;
+          difficulty: string | null;
           duration: number;
+          focus: string | null;
           generated_count: number;
           id: number;
+          language: string | null;
           model: string;
+          prompt_tokens: number | null;
+          request_hash: string | null;
+          reused: boolean;
           source_text_hash: string;
           source_text_length: number;
+          status: string;
           updated_at: string;
           user_id: string;
         };
         Insert: {
           accepted_count?: number;
+          card_count?: number | null;
+          completion_tokens?: number | null;
+          cost?: number | null;
           created_at?: string;
+          difficulty?: string | null;
           duration?: number;
+          focus?: string | null;
           generated_count?: number;
           id?: number;
+          language?: string | null;
           model: string;
+          prompt_tokens?: number | null;
+          request_hash?: string | null;
+          reused?: boolean;
           source_text_hash: string;
           source_text_length: number;
+          status?: string;
           updated_at?: string;
           user_id: string;
         };
         Update: {
           accepted_count?: number;
+          card_count?: number | null;
+          completion_tokens?: number | null;
+          cost?: number | null;
           created_at?: string;
+          difficulty?: string | null;
           duration?: number;
+          focus?: string | null;
           generated_count?: number;
           id?: number;
+          language?: string | null;
           model?: string;
+          prompt_tokens?: number | null;
+          request_hash?: string | null;
+          reused?: boolean;
           source_text_hash?: string;
           source_text_length?: number;
+          status?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [];
+      };
+      review_states: {
+        Row: {
+          created_at: string;
+          due_at: string;
+          ease_factor: number;
+          flashcard_id: number;
+          id: number;
+          interval: number;
+          lapses: number;
+          last_reviewed_at: string | null;
+          repetitions: number;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          due_at?: string;
+          ease_factor?: number;
+          flashcard_id: number;
+          id?: number;
+          interval?: number;
+          lapses?: number;
+          last_reviewed_at?: string | null;
+          repetitions?: number;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          due_at?: string;
+          ease_factor?: number;
+          flashcard_id?: number;
+          id?: number;
+          interval?: number;
+          lapses?: number;
+          last_reviewed_at?: string | null;
+          repetitions?: number;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'review_states_flashcard_id_fkey';
+            columns: ['flashcard_id'];
+            isOneToOne: true;
+            referencedRelation: 'flashcards';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      tags: {
+        Row: {
+          created_at: string;
+          id: number;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: number;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: number;
+          name?: string;
           updated_at?: string;
           user_id?: string;
         };
@@ -146,7 +452,71 @@ export interface Database {
       };
     };
     Views: Record<never, never>;
-    Functions: Record<never, never>;
+    Functions: {
+      complete_generation: {
+        Args: {
+          p_completion_tokens: number | null;
+          p_cost: number | null;
+          p_duration: number;
+          p_generated_count: number;
+          p_generation_id: number;
+          p_model: string;
+          p_prompt_tokens: number | null;
+        };
+        Returns: boolean;
+      };
+      create_generation: {
+        Args: {
+          p_card_count: number;
+          p_daily_limit: number | null;
+          p_difficulty: string | null;
+          p_focus: string | null;
+          p_language: string | null;
+          p_model: string;
+          p_request_hash: string;
+          p_source_text_hash: string;
+          p_source_text_length: number;
+          p_user_id: string;
+        };
+        Returns: number;
+      };
+      end_generation: {
+        Args: {
+          p_generation_id: number;
+          p_status: string;
+        };
+        Returns: boolean;
+      };
+      find_shared_generation_proposals: {
+        Args: {
+          p_request_hash: string;
+        };
+        Returns: {
+          generated_at: string;
+          original_back: string;
+          original_front: string;
+          position: number;
+          suggested_tags: string[];
+        }[];
+      };
+      flashcards_with_all_tags: {
+        Args: {
+          p_tag_ids: number[];
+        };
+        Returns: {
+          back: string;
+          created_at: string;
+          deck_id: number | null;
+          front: string;
+          generation_id: number | null;
+          id: number;
+          search_vector: unknown;
+          source: string;
+          updated_at: string;
+          user_id: string;
+        }[];
+      };
+    };
     Enums: Record<never, never>;
     CompositeTypes: Record<never, never>;
   };
@@ -15,6 +15,12 @@ interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
   readonly OPENROUTER_API_KEY: string;
+  readonly ACCOUNT_DELETION_GRACE_DAYS?: string;
+  readonly OPENROUTER_ALLOWED_MODELS?: string;
+  readonly OPENROUTER_FALLBACK_MODELS?: string;
+  readonly GENERATION_DAILY_LIMIT?: string;
+  readonly GENERATION_MONTHLY_TOKEN_LIMIT?: string;
+  readonly GENERATION_REUSE_SCOPE?: string;
   // more env variables...
 }
 
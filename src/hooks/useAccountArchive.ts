@@ -0,0 +1,48 @@
+import { useState, useCallback } from 'react';
+import type { AccountImportResponseDto } from '@/types';
+
+export function useAccountArchive() {
+  // State
+  const [summary, setSummary] = useState<AccountImportResponseDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Send the archive file as is; it is validated on the server
+  const importArchive = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    setSummary(null);
+    try {
+      const response = await fetch('/api/account/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: file,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(
+          (response.status === 400 || response.status === 409) && typeof data.error === 'string'
+            ? data.error
+            : 'Failed to import account archive'
+        );
+      }
+
+      const data: AccountImportResponseDto = await response.json();
+      setSummary(data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    summary,
+    isLoading,
+    error,
+    importArchive,
+  };
+}
@@ -0,0 +1,97 @@
+import { useState, useCallback, useEffect } from 'react';
+import type {
+  AccountDeletionDto,
+  AccountDeletionResponseDto,
+  RequestAccountDeletionCommand,
+} from '@/types';
+
+export function useAccountDeletion() {
+  // State
+  const [deletion, setDeletion] = useState<AccountDeletionDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch the latest deletion request
+  const fetchDeletion = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/account/deletion');
+      if (!response.ok) {
+        throw new Error('Failed to fetch account deletion');
+      }
+
+      const data: AccountDeletionResponseDto = await response.json();
+      setDeletion(data.deletion);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Request deletion; the server signs the user out afterwards
+  const requestDeletion = async (command: RequestAccountDeletionCommand) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/account/deletion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 400
+            ? 'Podany adres email nie zgadza się z adresem konta'
+            : response.status === 409
+              ? 'Usunięcie konta zostało już zlecone'
+              : 'Failed to request account deletion'
+        );
+      }
+
+      const data: AccountDeletionDto = await response.json();
+      setDeletion(data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Cancel the pending deletion
+  const cancelDeletion = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/account/deletion', { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error('Failed to cancel account deletion');
+      }
+
+      const data: AccountDeletionDto = await response.json();
+      setDeletion(data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchDeletion();
+  }, [fetchDeletion]);
+
+  return {
+    deletion,
+    isLoading,
+    error,
+    requestDeletion,
+    cancelDeletion,
+  };
+}
@@ -0,0 +1,69 @@
+import { useState, useCallback } from 'react';
+import type { AnkiImportOptionsCommand, AnkiImportResponseDto } from '@/types';
+
+export function useAnkiImport() {
+  // State
+  const [report, setReport] = useState<AnkiImportResponseDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Upload the package; a dry run only returns the preview
+  const sendImport = useCallback(async (file: File, options: AnkiImportOptionsCommand) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('options', JSON.stringify(options));
+
+      const response = await fetch('/api/flashcards/import/anki', {
+        method: 'POST',
+        body: formData,
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(
+          response.status === 400 && typeof data.error === 'string'
+            ? data.error
+            : 'Failed to import Anki package'
+        );
+      }
+
+      const data: AnkiImportResponseDto = await response.json();
+      setReport(data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const previewImport = useCallback(
+    (file: File, options: Omit<AnkiImportOptionsCommand, 'dry_run'>) =>
+      sendImport(file, { ...options, dry_run: true }),
+    [sendImport]
+  );
+
+  const runImport = useCallback(
+    (file: File, options: Omit<AnkiImportOptionsCommand, 'dry_run'>) =>
+      sendImport(file, { ...options, dry_run: false }),
+    [sendImport]
+  );
+
+  const reset = useCallback(() => {
+    setReport(null);
+    setError(null);
+  }, []);
+
+  return {
+    report,
+    isLoading,
+    error,
+    previewImport,
+    runImport,
+    reset,
+  };
+}
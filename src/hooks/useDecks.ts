@@ -0,0 +1,120 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { CreateDeckCommand, DeckDto, DecksResponseDto, UpdateDeckCommand } from '@/types';
+
+export function useDecks() {
+  // State
+  const [decks, setDecks] = useState<DeckDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch decks
+  const fetchDecks = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/decks');
+      if (!response.ok) {
+        throw new Error('Failed to fetch decks');
+      }
+
+      const data: DecksResponseDto = await response.json();
+      setDecks(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Create deck
+  const createDeck = async (data: CreateDeckCommand) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/decks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 409 ? 'Talia o tej nazwie już istnieje' : 'Failed to create deck'
+        );
+      }
+
+      await fetchDecks();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Update deck
+  const updateDeck = async (id: number, data: UpdateDeckCommand) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/decks/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 409 ? 'Talia o tej nazwie już istnieje' : 'Failed to update deck'
+        );
+      }
+
+      await fetchDecks();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Delete deck
+  const deleteDeck = async (id: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/decks/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete deck');
+      }
+
+      await fetchDecks();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Fetch decks on mount
+  useEffect(() => {
+    fetchDecks();
+  }, [fetchDecks]);
+
+  return {
+    decks,
+    isLoading,
+    error,
+    fetchDecks,
+    createDeck,
+    updateDeck,
+    deleteDeck,
+  };
+}
@@ -1,6 +1,6 @@
 import { useState, useCallback, useEffect } from 'react';
 import type {
-  FlashcardDto,
+  FlashcardWithTagsDto,
   FlashcardQueryParams,
   FlashcardsPaginatedResponseDto,
   CreateFlashcardInputDto,
@@ -9,9 +9,11 @@ import type {
   FlashcardSource,
 } from '@/types';
 
+const SEARCH_DEBOUNCE_MS = 300;
+
 export function useFlashcards() {
   // State
-  const [flashcards, setFlashcards] = useState<FlashcardDto[]>([]);
+  const [flashcards, setFlashcards] = useState<FlashcardWithTagsDto[]>([]);
   const [pagination, setPagination] = useState<PaginationMetaDto>({
     total: 0,
     page: 1,
@@ -22,9 +24,12 @@ export function useFlashcards() {
     page: 1,
     limit: 20,
   });
+  const [searchQuery, setSearchQuery] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedFlashcard, setSelectedFlashcard] = useState<FlashcardDto | undefined>(undefined);
+  const [selectedFlashcard, setSelectedFlashcard] = useState<FlashcardWithTagsDto | undefined>(
+    undefined
+  );
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 
@@ -34,7 +39,9 @@ export function useFlashcards() {
     setError(null);
     try {
       const queryString = new URLSearchParams(
-        Object.entries(params).filter(([_, v]) => v !== undefined) as [string, string][]
+        Object.entries(params)
+          .filter(([_, v]) => v !== undefined)
+          .map(([k, v]) => [k, Array.isArray(v) ? v.join(',') : String(v)])
       ).toString();
 
       const response = await fetch(`/api/flashcards?${queryString}`);
@@ -141,6 +148,20 @@ export function useFlashcards() {
     setFilters((prev) => ({ ...prev, source, page: 1 }));
   };
 
+  const handleDeckFilterChange = (deckId?: number) => {
+    setFilters((prev) => ({ ...prev, deck_id: deckId, page: 1 }));
+  };
+
+  const handleTagFilterChange = (tagIds: number[]) => {
+    setFilters((prev) => ({ ...prev, tag_ids: tagIds.length > 0 ? tagIds : undefined, page: 1 }));
+  };
+
+  const refreshFlashcards = () => fetchFlashcards(filters);
+
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+  };
+
   const openCreateForm = () => {
     setSelectedFlashcard(undefined);
     setIsEditModalOpen(true);
@@ -162,6 +183,16 @@ export function useFlashcards() {
     }
   };
 
+  // Apply the search query once the user stops typing
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const q = searchQuery.trim() || undefined;
+      setFilters((prev) => (prev.q === q ? prev : { ...prev, q, page: 1 }));
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
   // Fetch flashcards on mount and when filters change
   useEffect(() => {
     fetchFlashcards(filters);
@@ -171,6 +202,7 @@ export function useFlashcards() {
     flashcards,
     pagination,
     filters,
+    searchQuery,
     isLoading,
     error,
     selectedFlashcard,
@@ -183,6 +215,10 @@ export function useFlashcards() {
     handleLimitChange,
     handleSortChange,
     handleSourceFilterChange,
+    handleDeckFilterChange,
+    handleTagFilterChange,
+    handleSearchChange,
+    refreshFlashcards,
     openCreateForm,
     openEditForm,
     openDeleteDialog,
@@ -0,0 +1,66 @@
+import { useState, useCallback } from 'react';
+import type { ImportFlashcardsCommand, ImportFlashcardsResponseDto } from '@/types';
+
+export function useFlashcardsImport() {
+  // State
+  const [report, setReport] = useState<ImportFlashcardsResponseDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Send the file; a dry run only returns the preview
+  const sendImport = useCallback(async (command: ImportFlashcardsCommand) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/flashcards/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(command),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(
+          response.status === 400 && typeof data.error === 'string'
+            ? data.error
+            : 'Failed to import flashcards'
+        );
+      }
+
+      const data: ImportFlashcardsResponseDto = await response.json();
+      setReport(data);
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const previewImport = useCallback(
+    (command: Omit<ImportFlashcardsCommand, 'dry_run'>) =>
+      sendImport({ ...command, dry_run: true }),
+    [sendImport]
+  );
+
+  const runImport = useCallback(
+    (command: Omit<ImportFlashcardsCommand, 'dry_run'>) =>
+      sendImport({ ...command, dry_run: false }),
+    [sendImport]
+  );
+
+  const reset = useCallback(() => {
+    setReport(null);
+    setError(null);
+  }, []);
+
+  return {
+    report,
+    isLoading,
+    error,
+    previewImport,
+    runImport,
+    reset,
+  };
+}
@@ -0,0 +1,114 @@
+import { useState, useCallback, useEffect } from 'react';
+import type {
+  GenerationDetailDto,
+  GenerationDto,
+  GenerationsPaginatedResponseDto,
+  GenerationsQueryParams,
+  PaginationMetaDto,
+} from '@/types';
+
+export function useGenerations() {
+  // State
+  const [generations, setGenerations] = useState<GenerationDto[]>([]);
+  const [pagination, setPagination] = useState<PaginationMetaDto>({
+    total: 0,
+    page: 1,
+    limit: 20,
+    pages: 0,
+  });
+  const [filters, setFilters] = useState<GenerationsQueryParams>({
+    page: 1,
+    limit: 20,
+  });
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedGeneration, setSelectedGeneration] = useState<GenerationDetailDto | undefined>(
+    undefined
+  );
+  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  const [isDetailsLoading, setIsDetailsLoading] = useState(false);
+
+  // Fetch generations
+  const fetchGenerations = useCallback(async (params: GenerationsQueryParams) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const queryString = new URLSearchParams(
+        Object.entries(params).filter(([_, v]) => v !== undefined) as [string, string][]
+      ).toString();
+
+      const response = await fetch(`/api/generations?${queryString}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch generations');
+      }
+
+      const data: GenerationsPaginatedResponseDto = await response.json();
+      setGenerations(data.data);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Fetch a single generation with its saved flashcards
+  const openDetails = async (id: number) => {
+    setIsDetailsOpen(true);
+    setIsDetailsLoading(true);
+    setSelectedGeneration(undefined);
+    try {
+      const response = await fetch(`/api/generations/${id}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch generation details');
+      }
+
+      const data: GenerationDetailDto = await response.json();
+      setSelectedGeneration(data);
+    } catch (err) {
+      setIsDetailsOpen(false);
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsDetailsLoading(false);
+    }
+  };
+
+  // UI handlers
+  const handlePageChange = (page: number) => {
+    setFilters((prev) => ({ ...prev, page }));
+  };
+
+  const handleLimitChange = (limit: number) => {
+    setFilters((prev) => ({ ...prev, limit, page: 1 }));
+  };
+
+  const handleOrderChange = (order: 'asc' | 'desc') => {
+    setFilters((prev) => ({ ...prev, sort: 'created_at', order, page: 1 }));
+  };
+
+  const closeDetails = () => {
+    setIsDetailsOpen(false);
+    setSelectedGeneration(undefined);
+  };
+
+  // Fetch generations on mount and when filters change
+  useEffect(() => {
+    fetchGenerations(filters);
+  }, [filters, fetchGenerations]);
+
+  return {
+    generations,
+    pagination,
+    filters,
+    isLoading,
+    error,
+    selectedGeneration,
+    isDetailsOpen,
+    isDetailsLoading,
+    handlePageChange,
+    handleLimitChange,
+    handleOrderChange,
+    openDetails,
+    closeDetails,
+  };
+}
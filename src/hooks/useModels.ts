@@ -0,0 +1,43 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { GenerationModelDto, ModelsResponseDto } from '@/types';
+
+export function useModels() {
+  // State
+  const [models, setModels] = useState<GenerationModelDto[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch models
+  const fetchModels = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/models');
+      if (!response.ok) {
+        throw new Error('Failed to fetch models');
+      }
+
+      const data: ModelsResponseDto = await response.json();
+      setModels(data.data);
+      setDefaultModel(data.default_model);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Fetch models on mount
+  useEffect(() => {
+    fetchModels();
+  }, [fetchModels]);
+
+  return {
+    models,
+    defaultModel,
+    isLoading,
+    error,
+    fetchModels,
+  };
+}
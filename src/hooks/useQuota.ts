@@ -0,0 +1,40 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { GenerationQuotaDto } from '@/types';
+
+export function useQuota() {
+  // State
+  const [quota, setQuota] = useState<GenerationQuotaDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch quota
+  const fetchQuota = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/quota');
+      if (!response.ok) {
+        throw new Error('Failed to fetch quota');
+      }
+
+      const data: GenerationQuotaDto = await response.json();
+      setQuota(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Fetch quota on mount
+  useEffect(() => {
+    fetchQuota();
+  }, [fetchQuota]);
+
+  return {
+    quota,
+    isLoading,
+    error,
+    fetchQuota,
+  };
+}
@@ -0,0 +1,115 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { DueFlashcardDto, DueReviewsResponseDto, ReviewGrade } from '@/types';
+
+export type StudySessionState = 'loading' | 'reviewing' | 'complete';
+
+export type GradeCounts = Record<ReviewGrade, number>;
+
+const EMPTY_GRADE_COUNTS: GradeCounts = { again: 0, hard: 0, good: 0, easy: 0 };
+
+/** Maximum number of due cards loaded into a single session */
+const SESSION_SIZE = 100;
+
+export function useStudySession() {
+  // State
+  const [state, setState] = useState<StudySessionState>('loading');
+  const [queue, setQueue] = useState<DueFlashcardDto[]>([]);
+  const [totalCards, setTotalCards] = useState(0);
+  const [completedCards, setCompletedCards] = useState(0);
+  const [gradeCounts, setGradeCounts] = useState<GradeCounts>(EMPTY_GRADE_COUNTS);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const currentCard = queue[0];
+  const reviewCount = Object.values(gradeCounts).reduce((sum, count) => sum + count, 0);
+
+  // Load due flashcards and start a new session
+  const startSession = useCallback(async () => {
+    setState('loading');
+    setError(null);
+    setIsFlipped(false);
+    setCompletedCards(0);
+    setGradeCounts(EMPTY_GRADE_COUNTS);
+    try {
+      const response = await fetch(`/api/reviews?limit=${SESSION_SIZE}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch due flashcards');
+      }
+
+      const data: DueReviewsResponseDto = await response.json();
+      setQueue(data.data);
+      setTotalCards(data.data.length);
+      setState(data.data.length > 0 ? 'reviewing' : 'complete');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      setQueue([]);
+      setState('complete');
+    }
+  }, []);
+
+  // Reveal the back of the current card
+  const flipCard = () => {
+    if (state !== 'reviewing' || !currentCard) return;
+    setIsFlipped((prev) => !prev);
+  };
+
+  // Submit a grade for the current card
+  const gradeCard = async (grade: ReviewGrade) => {
+    if (state !== 'reviewing' || !currentCard || !isFlipped || isSubmitting) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/reviews', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ flashcard_id: currentCard.id, grade }),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to submit review');
+      }
+
+      setGradeCounts((prev) => ({ ...prev, [grade]: prev[grade] + 1 }));
+
+      // Failed cards go to the end of the queue and are shown again in this session
+      const [, ...rest] = queue;
+      const nextQueue = grade === 'again' ? [...rest, currentCard] : rest;
+      if (grade !== 'again') {
+        setCompletedCards((prev) => prev + 1);
+      }
+
+      setQueue(nextQueue);
+      setIsFlipped(false);
+      if (nextQueue.length === 0) {
+        setState('complete');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  // Start the session on mount
+  useEffect(() => {
+    startSession();
+  }, [startSession]);
+
+  return {
+    state,
+    currentCard,
+    isFlipped,
+    isSubmitting,
+    error,
+    totalCards,
+    completedCards,
+    remainingCards: queue.length,
+    reviewCount,
+    gradeCounts,
+    flipCard,
+    gradeCard,
+    startSession,
+  };
+}
@@ -0,0 +1,120 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { MergeTagsCommand, RenameTagCommand, TagDto, TagsResponseDto } from '@/types';
+
+export function useTags() {
+  // State
+  const [tags, setTags] = useState<TagDto[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch tags
+  const fetchTags = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/tags');
+      if (!response.ok) {
+        throw new Error('Failed to fetch tags');
+      }
+
+      const data: TagsResponseDto = await response.json();
+      setTags(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Rename tag
+  const renameTag = async (id: number, data: RenameTagCommand) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tags/${id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          response.status === 409
+            ? 'Tag o tej nazwie już istnieje – użyj scalania'
+            : 'Failed to rename tag'
+        );
+      }
+
+      await fetchTags();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Merge tags
+  const mergeTags = async (data: MergeTagsCommand) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/tags/merge', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to merge tags');
+      }
+
+      await fetchTags();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Delete tag
+  const deleteTag = async (id: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tags/${id}`, {
+        method: 'DELETE',
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to delete tag');
+      }
+
+      await fetchTags();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Fetch tags on mount
+  useEffect(() => {
+    fetchTags();
+  }, [fetchTags]);
+
+  return {
+    tags,
+    isLoading,
+    error,
+    fetchTags,
+    renameTag,
+    mergeTags,
+    deleteTag,
+  };
+}
@@ -0,0 +1,57 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { UsageSummaryDto } from '@/types';
+
+// Miesiąc w formacie YYYY-MM (UTC), tak jak w GET /api/usage
+const toMonth = (date: Date) => date.toISOString().slice(0, 7);
+
+/**
+ * Month `delta` months before (negative) or after the given `YYYY-MM` month
+ */
+export const shiftMonth = (month: string, delta: number): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return toMonth(new Date(Date.UTC(year, monthIndex - 1 + delta, 1)));
+};
+
+export function useUsage() {
+  // State
+  const [month, setMonth] = useState(() => toMonth(new Date()));
+  const [usage, setUsage] = useState<UsageSummaryDto | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch usage of the selected month
+  const fetchUsage = useCallback(async (selectedMonth: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/usage?month=${selectedMonth}`);
+      if (!response.ok) {
+        throw new Error('Failed to fetch usage');
+      }
+
+      const data: UsageSummaryDto = await response.json();
+      setUsage(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const showPreviousMonth = () => setMonth((current) => shiftMonth(current, -1));
+  const showNextMonth = () => setMonth((current) => shiftMonth(current, 1));
+
+  useEffect(() => {
+    fetchUsage(month);
+  }, [fetchUsage, month]);
+
+  return {
+    month,
+    usage,
+    isLoading,
+    error,
+    isCurrentMonth: month === toMonth(new Date()),
+    showPreviousMonth,
+    showNextMonth,
+  };
+}
@@ -0,0 +1,225 @@
+import initSqlJs, { type Database } from 'sql.js';
+import { unzipSync } from 'fflate';
+
+import type { SchedulingState } from '../services/review-scheduler';
+
+export interface AnkiNoteType {
+  id: string;
+  name: string;
+  /** Field names in field order */
+  fields: string[];
+}
+
+/** Scheduling of the first card of a note, as stored by Anki */
+export interface AnkiCardState {
+  type: number;
+  queue: number;
+  due: number;
+  ivl: number;
+  factor: number;
+  reps: number;
+  lapses: number;
+  /** Time of the last review in ms, taken from the review log */
+  lastReviewedAt: number | null;
+}
+
+export interface AnkiNote {
+  id: number;
+  noteTypeId: string;
+  /** Raw (HTML) field values in field order */
+  fields: string[];
+  tags: string[];
+  /** Full Anki deck name of the note's first card */
+  deck: string | null;
+  card: AnkiCardState | null;
+}
+
+export interface AnkiPackage {
+  /** Collection creation time in seconds; review due dates are days counted from it */
+  crt: number;
+  noteTypes: AnkiNoteType[];
+  notes: AnkiNote[];
+}
+
+const DAY_IN_SECONDS = 24 * 60 * 60;
+// The extracted collection is held in memory; a small upload could otherwise expand to gigabytes
+export const MAX_COLLECTION_SIZE = 200 * 1024 * 1024;
+const FIELD_SEPARATOR = '\x1f';
+
+// Anki card types
+const CARD_LEARNING = 1;
+const CARD_REVIEW = 2;
+const CARD_RELEARNING = 3;
+// Learning cards in this queue have a due timestamp instead of a day number
+const QUEUE_LEARNING = 1;
+
+/**
+ * Reads notes, note types and card scheduling from an Anki package (.apkg).
+ * Supports packages with the legacy collection (`collection.anki2`/`collection.anki21`),
+ * i.e. exported with "Support older Anki versions" in Anki 2.1.50+. Media files are ignored.
+ * @throws Error starting with 'Invalid Anki package' or 'Unsupported Anki package'
+ */
+export async function readApkg(bytes: Uint8Array): Promise<AnkiPackage> {
+  let files: Record<string, Uint8Array>;
+  let oversized = false;
+  try {
+    files = unzipSync(bytes, {
+      // The size declared in the archive also bounds the buffer the entry is extracted into
+      filter: (file) => {
+        if (!file.name.startsWith('collection.')) return false;
+        oversized ||= file.originalSize > MAX_COLLECTION_SIZE;
+        return !oversized;
+      },
+    });
+  } catch {
+    throw new Error('Invalid Anki package: not a zip archive');
+  }
+  if (oversized) {
+    throw new Error(
+      `Invalid Anki package: the collection exceeds ${MAX_COLLECTION_SIZE / 1024 / 1024} MB when extracted`
+    );
+  }
+
+  const collection = files['collection.anki21'] ?? files['collection.anki2'];
+  if (files['collection.anki21b'] && !files['collection.anki21']) {
+    // Newer packages keep the real collection zstd-compressed and ship a placeholder `anki2`
+    throw new Error(
+      'Unsupported Anki package: export it again with "Support older Anki versions" enabled'
+    );
+  }
+  if (!collection) {
+    throw new Error('Invalid Anki package: collection not found');
+  }
+
+  const SQL = await initSqlJs();
+  let db: Database | undefined;
+  try {
+    db = new SQL.Database(collection);
+    return readCollection(db);
+  } catch (error) {
+    throw new Error(
+      `Invalid Anki package: ${error instanceof Error ? error.message : String(error)}`
+    );
+  } finally {
+    db?.close();
+  }
+}
+
+/**
+ * Converts Anki card scheduling into the SM-2 state used by 10xCard
+ * @returns null for new cards, which keep the default state
+ */
+export function toSchedulingState(
+  card: AnkiCardState,
+  crt: number,
+  now: Date = new Date()
+): SchedulingState | null {
+  const dayToIso = (day: number) => new Date((crt + day * DAY_IN_SECONDS) * 1000).toISOString();
+  const easeFactor = Math.max(1.3, card.factor > 0 ? card.factor / 1000 : 2.5);
+
+  if (card.type === CARD_REVIEW) {
+    const dueAt = dayToIso(card.due);
+    const interval = Math.max(card.ivl, 1);
+    return {
+      ease_factor: Math.round(easeFactor * 100) / 100,
+      interval,
+      repetitions: Math.max(card.reps, 1),
+      lapses: card.lapses,
+      due_at: dueAt,
+      last_reviewed_at: new Date(
+        card.lastReviewedAt ?? Date.parse(dueAt) - interval * DAY_IN_SECONDS * 1000
+      ).toISOString(),
+    };
+  }
+
+  if (card.type === CARD_LEARNING || card.type === CARD_RELEARNING) {
+    return {
+      ease_factor: Math.round(easeFactor * 100) / 100,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.lapses,
+      due_at:
+        card.queue === QUEUE_LEARNING
+          ? new Date(card.due * 1000).toISOString()
+          : dayToIso(card.due),
+      last_reviewed_at: new Date(card.lastReviewedAt ?? now.getTime()).toISOString(),
+    };
+  }
+
+  return null;
+}
+
+function readCollection(db: Database): AnkiPackage {
+  const [col] = rows(db, 'select crt, models, decks from col');
+  if (!col) {
+    throw new Error('collection has no metadata');
+  }
+
+  const models = JSON.parse(String(col.models)) as Record<
+    string,
+    { name: string; flds: { name: string; ord: number }[] }
+  >;
+  const decks = JSON.parse(String(col.decks)) as Record<string, { name: string }>;
+
+  const noteTypes = Object.entries(models).map(([id, model]) => ({
+    id,
+    name: model.name,
+    fields: [...model.flds].sort((a, b) => a.ord - b.ord).map((field) => field.name),
+  }));
+
+  const lastReviews = new Map(
+    rows(db, 'select cid, max(id) as last_review from revlog group by cid').map((row) => [
+      Number(row.cid),
+      Number(row.last_review),
+    ])
+  );
+
+  // Only the first card of each note is kept (flashcards have no reverse cards)
+  const cardsByNote = new Map<number, AnkiCardState & { deckId: number }>();
+  for (const card of rows(
+    db,
+    'select id, nid, did, odid, type, queue, due, odue, ivl, factor, reps, lapses from cards order by nid, ord'
+  )) {
+    const noteId = Number(card.nid);
+    if (cardsByNote.has(noteId)) continue;
+
+    // Cards in a filtered deck remember their home deck and due date in odid/odue
+    const inFilteredDeck = Number(card.odid) !== 0;
+    cardsByNote.set(noteId, {
+      deckId: Number(inFilteredDeck ? card.odid : card.did),
+      type: Number(card.type),
+      queue: Number(card.queue),
+      due: Number(inFilteredDeck ? card.odue : card.due),
+      ivl: Number(card.ivl),
+      factor: Number(card.factor),
+      reps: Number(card.reps),
+      lapses: Number(card.lapses),
+      lastReviewedAt: lastReviews.get(Number(card.id)) ?? null,
+    });
+  }
+
+  const notes = rows(db, 'select id, mid, tags, flds from notes order by id').map((note) => {
+    const card = cardsByNote.get(Number(note.id));
+    const { deckId, ...cardState } = card ?? { deckId: 0 };
+
+    return {
+      id: Number(note.id),
+      noteTypeId: String(note.mid),
+      fields: String(note.flds).split(FIELD_SEPARATOR),
+      tags: String(note.tags).split(' ').filter(Boolean),
+      deck: decks[deckId]?.name ?? null,
+      card: card ? (cardState as AnkiCardState) : null,
+    };
+  });
+
+  return { crt: Number(col.crt), noteTypes, notes };
+}
+
+function rows(db: Database, sql: string): Record<string, unknown>[] {
+  const [result] = db.exec(sql);
+  if (!result) return [];
+
+  return result.values.map((row) =>
+    Object.fromEntries(result.columns.map((column, index) => [column, row[index]]))
+  );
+}
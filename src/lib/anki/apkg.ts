@@ -0,0 +1,327 @@
+import { createHash } from 'node:crypto';
+import initSqlJs from 'sql.js';
+import { strToU8, zipSync } from 'fflate';
+
+import type { SchedulingState } from '../services/review-scheduler';
+
+/** Flashcard with everything needed to write an Anki note and card */
+export interface AnkiExportCard {
+  id: number;
+  front: string;
+  back: string;
+  tags: string[];
+  /** Name of the 10xCard deck, or null for cards without a deck */
+  deck: string | null;
+  created_at: string;
+  review: SchedulingState | null;
+}
+
+/** All exported decks are nested under this Anki deck; cards without a deck land in it */
+export const ROOT_DECK_NAME = '10xCard';
+
+// Fixed ID, so repeated exports reuse one note type instead of creating copies in Anki
+const MODEL_ID = 1716400000000;
+const DEFAULT_DECK_CONFIG_ID = 1;
+const DAY_IN_SECONDS = 24 * 60 * 60;
+const FIELD_SEPARATOR = '\x1f';
+
+// Anki card type/queue values
+const CARD_NEW = 0;
+const CARD_REVIEW = 2;
+
+// Collection schema of Anki 2.1 (legacy `collection.anki2`, schema version 11)
+const SCHEMA_SQL = `
+create table col (
+    id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+    ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+    conf text not null, models text not null, decks text not null, dconf text not null,
+    tags text not null
+);
+create table notes (
+    id integer primary key, guid text not null, mid integer not null, mod integer not null,
+    usn integer not null, tags text not null, flds text not null, sfld integer not null,
+    csum integer not null, flags integer not null, data text not null
+);
+create table cards (
+    id integer primary key, nid integer not null, did integer not null, ord integer not null,
+    mod integer not null, usn integer not null, type integer not null, queue integer not null,
+    due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+    lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+    flags integer not null, data text not null
+);
+create table revlog (
+    id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+    ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+    type integer not null
+);
+create table graves (usn integer not null, oid integer not null, type integer not null);
+create index ix_notes_usn on notes (usn);
+create index ix_cards_usn on cards (usn);
+create index ix_revlog_usn on revlog (usn);
+create index ix_cards_nid on cards (nid);
+create index ix_cards_sched on cards (did, queue, due);
+create index ix_revlog_cid on revlog (cid);
+create index ix_notes_csum on notes (csum);
+`;
+
+/**
+ * Builds an Anki package (.apkg) with one "Basic" note per flashcard.
+ * Decks become sub-decks of ROOT_DECK_NAME, tags are kept (spaces replaced with `_`,
+ * as Anki tags cannot contain them) and reviewed cards keep their interval, ease,
+ * repetitions, lapses and due date. Cards never reviewed are exported as new.
+ * @param cards - Flashcards to export
+ * @param now - Export time (defaults to the current time)
+ * @returns Zip archive contents
+ */
+export async function buildApkg(
+  cards: AnkiExportCard[],
+  now: Date = new Date()
+): Promise<Uint8Array> {
+  const SQL = await initSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA_SQL);
+
+    const nowMs = now.getTime();
+    const nowSeconds = Math.floor(nowMs / 1000);
+
+    // Review due dates are stored as days since the collection was created
+    const earliestDue = cards.reduce(
+      (earliest, card) =>
+        card.review ? Math.min(earliest, Date.parse(card.review.due_at)) : earliest,
+      nowMs
+    );
+    const crt = Math.floor(earliestDue / 1000 / DAY_IN_SECONDS) * DAY_IN_SECONDS;
+
+    const deckIds = new Map<string, number>([[ROOT_DECK_NAME, nowMs]]);
+    for (const card of cards) {
+      const name = ankiDeckName(card.deck);
+      if (!deckIds.has(name)) {
+        deckIds.set(name, nowMs + deckIds.size);
+      }
+    }
+
+    const tags = new Set<string>();
+    const usedIds = new Set<number>();
+    const uniqueId = (preferred: number) => {
+      let id = preferred;
+      while (usedIds.has(id)) id++;
+      usedIds.add(id);
+      return id;
+    };
+
+    const insertNote = db.prepare('insert into notes values (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)');
+    const insertCard = db.prepare(
+      'insert into cards values (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, ?)'
+    );
+
+    cards.forEach((card, index) => {
+      const noteTags = card.tags.map((tag) => tag.trim().replace(/\s+/g, '_')).filter(Boolean);
+      noteTags.forEach((tag) => tags.add(tag));
+
+      const front = toAnkiField(card.front);
+      const back = toAnkiField(card.back);
+      const createdMs = Date.parse(card.created_at) || nowMs;
+      const noteId = uniqueId(createdMs);
+
+      insertNote.run([
+        noteId,
+        `10xcard-${card.id}`,
+        MODEL_ID,
+        nowSeconds,
+        noteTags.length > 0 ? ` ${noteTags.join(' ')} ` : '',
+        [front, back].join(FIELD_SEPARATOR),
+        card.front,
+        fieldChecksum(card.front),
+        '',
+      ]);
+
+      const review = card.review?.last_reviewed_at ? card.review : null;
+      const type = review ? CARD_REVIEW : CARD_NEW;
+      const due = review
+        ? Math.floor((Date.parse(review.due_at) / 1000 - crt) / DAY_IN_SECONDS)
+        : index + 1;
+
+      insertCard.run([
+        uniqueId(noteId + 1),
+        noteId,
+        deckIds.get(ankiDeckName(card.deck))!,
+        nowSeconds,
+        type,
+        type,
+        due,
+        review ? Math.max(review.interval, 1) : 0,
+        review ? Math.round(review.ease_factor * 1000) : 0,
+        review ? review.repetitions : 0,
+        review ? review.lapses : 0,
+        '',
+      ]);
+    });
+
+    insertNote.free();
+    insertCard.free();
+
+    db.run('insert into col values (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      crt,
+      nowMs,
+      nowMs,
+      JSON.stringify(collectionConfig(deckIds.get(ROOT_DECK_NAME)!)),
+      JSON.stringify({ [MODEL_ID]: basicModel(deckIds.get(ROOT_DECK_NAME)!, nowSeconds) }),
+      JSON.stringify(
+        Object.fromEntries(
+          [['Default', 1] as const, ...deckIds.entries()].map(([name, id]) => [
+            id,
+            deck(id, name, nowSeconds),
+          ])
+        )
+      ),
+      JSON.stringify({ [DEFAULT_DECK_CONFIG_ID]: deckConfig() }),
+      JSON.stringify(Object.fromEntries([...tags].map((tag) => [tag, 0]))),
+    ]);
+
+    return zipSync({
+      'collection.anki2': db.export(),
+      // No media files are exported
+      media: strToU8('{}'),
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function ankiDeckName(deck: string | null): string {
+  // `::` separates sub-decks in Anki
+  return deck ? `${ROOT_DECK_NAME}::${deck.replace(/::/g, ':')}` : ROOT_DECK_NAME;
+}
+
+/** Anki fields are HTML, flashcards are plain text */
+function toAnkiField(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/** First 8 hex digits of the SHA-1 of the sort field, used by Anki to find duplicates */
+function fieldChecksum(text: string): number {
+  return parseInt(createHash('sha1').update(text).digest('hex').slice(0, 8), 16);
+}
+
+function collectionConfig(currentDeckId: number) {
+  return {
+    nextPos: 1,
+    estTimes: true,
+    activeDecks: [currentDeckId],
+    sortType: 'noteFld',
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: currentDeckId,
+    newBury: true,
+    newSpread: 0,
+    dueCounts: true,
+    curModel: MODEL_ID,
+    collapseTime: 1200,
+  };
+}
+
+function basicModel(deckId: number, mod: number) {
+  const field = (name: string, ord: number) => ({
+    name,
+    ord,
+    sticky: false,
+    rtl: false,
+    font: 'Arial',
+    size: 20,
+    media: [],
+  });
+
+  return {
+    id: MODEL_ID,
+    name: '10xCard Basic',
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [
+      {
+        name: 'Card 1',
+        ord: 0,
+        qfmt: '{{Front}}',
+        afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}',
+        did: null,
+        bqfmt: '',
+        bafmt: '',
+      },
+    ],
+    flds: [field('Front', 0), field('Back', 1)],
+    css: '.card {\n  font-family: arial;\n  font-size: 20px;\n  text-align: center;\n  color: black;\n  background-color: white;\n}\n',
+    latexPre:
+      '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    req: [[0, 'any', [0]]],
+    tags: [],
+    vers: [],
+  };
+}
+
+function deck(id: number, name: string, mod: number) {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    lrnToday: [0, 0],
+    revToday: [0, 0],
+    newToday: [0, 0],
+    timeToday: [0, 0],
+    collapsed: false,
+    browserCollapsed: false,
+    desc: '',
+    dyn: 0,
+    conf: DEFAULT_DECK_CONFIG_ID,
+    extendNew: 0,
+    extendRev: 0,
+  };
+}
+
+function deckConfig() {
+  return {
+    id: DEFAULT_DECK_CONFIG_ID,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: {
+      delays: [1, 10],
+      ints: [1, 4, 0],
+      initialFactor: 2500,
+      order: 1,
+      perDay: 20,
+      bury: false,
+    },
+    rev: {
+      perDay: 200,
+      ease4: 1.3,
+      ivlFct: 1,
+      maxIvl: 36500,
+      bury: false,
+      hardFactor: 1.2,
+    },
+    lapse: {
+      delays: [10],
+      mult: 0,
+      minInt: 1,
+      leechFails: 8,
+      leechAction: 1,
+    },
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Parses delimiter-separated text (CSV/TSV) into rows of fields.
+ * Supports RFC 4180 quoting: fields wrapped in double quotes may contain the delimiter,
+ * line breaks and escaped quotes (""). Handles \n and \r\n line endings and a UTF-8 BOM.
+ * Blank lines are skipped.
+ */
+export function parseDelimited(content: string, delimiter: string): string[][] {
+  const text = content.startsWith('﻿') ? content.slice(1) : content;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim() !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
@@ -0,0 +1,99 @@
+import type { FlashcardCollectionContent } from './services/openrouter';
+
+export type StreamedFlashcard = FlashcardCollectionContent['flashcards'][number];
+
+/**
+ * Incremental parser for a flashcard collection (`{"flashcards": [{...}, ...]}`) that arrives
+ * in fragments of arbitrary size. Every flashcard object is returned as soon as its closing
+ * brace has been received. A bare top-level array and text around the JSON (e.g. a Markdown
+ * code fence) are accepted; items without a string front and back are skipped.
+ */
+export class FlashcardStreamParser {
+  private buffer = '';
+  private position = 0;
+  // Open brackets from the root of the JSON document down to the current position
+  private readonly stack: string[] = [];
+  private inString = false;
+  private escaped = false;
+  private itemStart = -1;
+  private finished = false;
+
+  /**
+   * Adds the next fragment of the response
+   * @returns Flashcards completed by this fragment, in order of appearance
+   */
+  push(fragment: string): StreamedFlashcard[] {
+    this.buffer += fragment;
+    const flashcards: StreamedFlashcard[] = [];
+
+    for (; this.position < this.buffer.length && !this.finished; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"' && this.stack.length > 0) {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (char === '{' && this.isItemDepth()) {
+          this.itemStart = this.position;
+        }
+        this.stack.push(char);
+      } else if ((char === '}' || char === ']') && this.stack.length > 0) {
+        this.stack.pop();
+        if (char === '}' && this.itemStart >= 0 && this.isItemDepth()) {
+          const flashcard = parseFlashcard(this.buffer.slice(this.itemStart, this.position + 1));
+          if (flashcard) {
+            flashcards.push(flashcard);
+          }
+          this.itemStart = -1;
+        }
+        // Anything after the root value is ignored
+        this.finished = this.stack.length === 0;
+      }
+    }
+
+    return flashcards;
+  }
+
+  /** Complete text received so far, used when the response is not the expected JSON */
+  get text(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Items are the objects directly inside the flashcards array (`{"flashcards": [...]}`)
+   * or inside a top-level array
+   */
+  private isItemDepth(): boolean {
+    const depth = this.stack.length;
+    return (
+      (depth === 1 && this.stack[0] === '[') ||
+      (depth === 2 && this.stack[0] === '{' && this.stack[1] === '[')
+    );
+  }
+}
+
+function parseFlashcard(json: string): StreamedFlashcard | null {
+  try {
+    const value = JSON.parse(json);
+    if (typeof value?.front !== 'string' || typeof value?.back !== 'string') {
+      return null;
+    }
+    return {
+      front: value.front,
+      back: value.back,
+      tags: Array.isArray(value.tags) ? value.tags.map(String) : [],
+    };
+  } catch {
+    return null;
+  }
+}
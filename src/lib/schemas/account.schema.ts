@@ -0,0 +1,122 @@
+import { z } from 'zod';
+
+const idSchema = z.number().int().positive();
+const timestampSchema = z.string().datetime({ offset: true });
+
+const archiveDeckSchema = z.object({
+  id: idSchema,
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).nullable(),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+const archiveTagSchema = z.object({
+  id: idSchema,
+  name: z.string().trim().min(1).max(50),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+const archiveGenerationSchema = z.object({
+  id: idSchema,
+  model: z.string().min(1),
+  source_text_hash: z.string().min(1),
+  source_text_length: z.number().int().nonnegative(),
+  generated_count: z.number().int().nonnegative(),
+  accepted_count: z.number().int().nonnegative(),
+  duration: z.number().int().nonnegative(),
+  // Archives exported before generation statuses existed only contain finished generations
+  status: z.enum(['pending', 'completed', 'failed', 'cancelled'] as const).default('completed'),
+  card_count: z.number().int().min(1).max(20).nullable().default(null),
+  difficulty: z
+    .enum(['easy', 'medium', 'hard'] as const)
+    .nullable()
+    .default(null),
+  language: z.string().max(8).nullable().default(null),
+  focus: z.string().max(500).nullable().default(null),
+  prompt_tokens: z.number().int().min(0).nullable().default(null),
+  completion_tokens: z.number().int().min(0).nullable().default(null),
+  cost: z.number().min(0).nullable().default(null),
+  request_hash: z.string().length(64).nullable().default(null),
+  reused: z.boolean().default(false),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+});
+
+const archiveFlashcardSchema = z.object({
+  id: idSchema,
+  generation_id: idSchema.nullable(),
+  deck_id: idSchema.nullable(),
+  front: z.string().min(1).max(200),
+  back: z.string().min(1).max(600),
+  source: z.enum(['ai-full', 'ai-edited', 'manual'] as const),
+  created_at: timestampSchema,
+  updated_at: timestampSchema,
+  tags: z.array(z.object({ id: idSchema, name: z.string() })).max(10),
+  review: z
+    .object({
+      ease_factor: z.number().min(1.3),
+      interval: z.number().int().nonnegative(),
+      repetitions: z.number().int().nonnegative(),
+      lapses: z.number().int().nonnegative(),
+      due_at: timestampSchema,
+      last_reviewed_at: timestampSchema.nullable(),
+    })
+    .nullable(),
+});
+
+const archiveProposalSchema = z.object({
+  id: idSchema,
+  generation_id: idSchema,
+  position: z.number().int().nonnegative(),
+  original_front: z.string(),
+  original_back: z.string(),
+  final_front: z.string().nullable(),
+  final_back: z.string().nullable(),
+  suggested_tags: z.array(z.string()),
+  decision: z.enum(['pending', 'accepted', 'edited', 'rejected'] as const),
+  flashcard_id: idSchema.nullable(),
+  created_at: timestampSchema,
+  decided_at: timestampSchema.nullable(),
+});
+
+const archiveErrorLogSchema = z.object({
+  id: idSchema,
+  generation_id: idSchema.nullable(),
+  model: z.string(),
+  error_code: z.string(),
+  error_message: z.string(),
+  http_status: z.number().int().nullable(),
+  attempt_count: z.number().int().positive(),
+  source_text_hash: z.string(),
+  source_text_length: z.number().int().nonnegative(),
+  timestamp: timestampSchema,
+});
+
+/**
+ * Validation schema for the account archive accepted by POST /api/account/import.
+ * Only structure is checked here; links between sections are verified by
+ * `findArchiveReferenceErrors` before anything is saved.
+ */
+export const accountArchiveSchema = z.object({
+  format: z.literal('10xcard-account'),
+  version: z.literal(1),
+  exported_at: timestampSchema,
+  decks: z.array(archiveDeckSchema),
+  tags: z.array(archiveTagSchema),
+  generations: z.array(archiveGenerationSchema),
+  flashcards: z.array(archiveFlashcardSchema),
+  generation_proposals: z.array(archiveProposalSchema),
+  generation_error_logs: z.array(archiveErrorLogSchema),
+});
+
+export type AccountArchiveSchemaType = z.infer<typeof accountArchiveSchema>;
+
+/**
+ * Validation schema for the POST /api/account/deletion endpoint.
+ * The typed email must match the account; this is checked by the route.
+ */
+export const requestAccountDeletionSchema = z.object({
+  confirm_email: z.string().trim().email('Enter the email address of the account'),
+});
@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+export const deckIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const createDeckSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Deck name is required')
+    .max(100, 'Deck name cannot exceed 100 characters'),
+  description: z
+    .string()
+    .trim()
+    .max(500, 'Deck description cannot exceed 500 characters')
+    .nullable()
+    .optional(),
+});
+
+export const updateDeckSchema = createDeckSchema
+  .partial()
+  .refine((data) => data.name !== undefined || data.description !== undefined, {
+    message: "At least one of 'name' or 'description' must be provided",
+  });
+
+export type CreateDeckSchemaType = z.infer<typeof createDeckSchema>;
+export type UpdateDeckSchemaType = z.infer<typeof updateDeckSchema>;
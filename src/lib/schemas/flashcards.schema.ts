@@ -1,12 +1,61 @@
 import { z } from 'zod';
 import type { FlashcardSource } from '../../types';
+import { flashcardTagsSchema } from './tags.schema';
 
 export const flashcardsQuerySchema = z.object({
   page: z.coerce.number().positive().default(1),
   limit: z.coerce.number().positive().max(100).default(20),
   source: z.enum(['ai-full', 'ai-edited', 'manual'] as const).optional(),
+  deck_id: z.coerce.number().int().positive().optional(),
+  // Comma-separated list of tag IDs, e.g. `tag_ids=1,4`
+  tag_ids: z.preprocess(
+    (value) => (typeof value === 'string' ? value.split(',').filter(Boolean) : value),
+    z.array(z.coerce.number().int().positive()).max(20).optional()
+  ),
+  // Full-text search over front and back
+  q: z.string().trim().max(200).optional(),
   sort: z.enum(['created_at', 'updated_at', 'id'] as const).default('created_at'),
   order: z.enum(['asc', 'desc'] as const).default('desc'),
 });
 
+// Front and back of a flashcard; AI proposals are checked against it before they are shown
+export const flashcardContentSchema = z.object({
+  front: z
+    .string()
+    .min(1, 'Front content is required')
+    .max(200, 'Front content cannot exceed 200 characters'),
+  back: z
+    .string()
+    .min(1, 'Back content is required')
+    .max(600, 'Back content cannot exceed 600 characters'),
+});
+
+// Validation schema for a single flashcard
+export const flashcardSchema = flashcardContentSchema
+  .extend({
+    source: z.enum(['ai-full', 'ai-edited', 'manual'] as const),
+    generation_id: z.number().nullable(),
+    deck_id: z.number().int().positive().nullable().optional(),
+    tags: flashcardTagsSchema.optional(),
+  })
+  .refine(
+    (data) => {
+      // Validate generation_id based on source type
+      if (['ai-full', 'ai-edited'].includes(data.source) && data.generation_id === null) {
+        return false;
+      }
+      if (data.source === 'manual' && data.generation_id !== null) {
+        return false;
+      }
+      return true;
+    },
+    {
+      message: 'generation_id is required for AI cards and must be null for manual cards',
+    }
+  );
+
 export type FlashcardsQuerySchemaType = z.infer<typeof flashcardsQuerySchema>;
+
+export const exportFlashcardsQuerySchema = z.object({
+  deck_id: z.coerce.number().int().positive().optional(),
+});
@@ -2,7 +2,8 @@ import { z } from 'zod';
 
 /**
  * Validation schema for the POST /api/generations endpoint.
- * Ensures that source_text meets length requirements (1000-10000 characters).
+ * Ensures that source_text meets length requirements (1000-10000 characters)
+ * and validates the optional generation parameters.
  */
 export const generateFlashcardsSchema = z.object({
   source_text: z
@@ -11,7 +12,79 @@ export const generateFlashcardsSchema = z.object({
     })
     .min(1000, 'Source text must be at least 1000 characters long')
     .max(10000, 'Source text must not exceed 10000 characters'),
+  card_count: z
+    .number()
+    .int()
+    .min(1, 'At least 1 flashcard must be requested')
+    .max(20, 'Maximum 20 flashcards per generation')
+    .optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard'] as const).optional(),
+  language: z.enum(['pl', 'en', 'de', 'es', 'fr', 'it'] as const).optional(),
+  focus: z.string().trim().max(500, 'Focus must not exceed 500 characters').optional(),
+  model: z.string().trim().min(1).max(100).optional(),
+  force_refresh: z.boolean().optional(),
 });
 
 // Type inference from the schema for TypeScript type safety
 export type GenerateFlashcardsInput = z.infer<typeof generateFlashcardsSchema>;
+
+/**
+ * Validation schema for the GET /api/generations query string.
+ */
+export const generationsQuerySchema = z.object({
+  page: z.coerce.number().positive().default(1),
+  limit: z.coerce.number().positive().max(100).default(20),
+  sort: z.enum(['created_at'] as const).default('created_at'),
+  order: z.enum(['asc', 'desc'] as const).default('desc'),
+});
+
+/**
+ * Validation schema for the :id route parameter of GET /api/generations/:id.
+ */
+export const generationIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+/**
+ * Validation schema for the GET /api/generation-errors query string.
+ */
+export const generationErrorsQuerySchema = z.object({
+  page: z.coerce.number().positive().default(1),
+  limit: z.coerce.number().positive().max(100).default(20),
+  order: z.enum(['asc', 'desc'] as const).default('desc'),
+});
+
+/**
+ * Validation schema for the GET /api/usage query string; the current month when omitted.
+ */
+export const usageQuerySchema = z.object({
+  month: z
+    .string()
+    .regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be in YYYY-MM format')
+    .optional(),
+});
+
+export type GenerationsQuerySchemaType = z.infer<typeof generationsQuerySchema>;
+export type GenerationErrorsQuerySchemaType = z.infer<typeof generationErrorsQuerySchema>;
+
+/**
+ * Validation schema for the POST /api/generations/:id/decisions endpoint.
+ * Each decision references a proposal by its position in `flashcards_proposal`.
+ */
+export const recordProposalDecisionsSchema = z.object({
+  decisions: z
+    .array(
+      z.object({
+        position: z.number().int().min(0),
+        decision: z.enum(['accepted', 'edited', 'rejected'] as const),
+        flashcard_id: z.number().int().positive().nullable().optional(),
+        final_front: z.string().max(200).optional(),
+        final_back: z.string().max(600).optional(),
+        decided_at: z.string().datetime().optional(),
+      })
+    )
+    .min(1, 'At least one decision is required')
+    .max(100, 'Maximum 100 decisions per request'),
+});
+
+export type RecordProposalDecisionsInput = z.infer<typeof recordProposalDecisionsSchema>;
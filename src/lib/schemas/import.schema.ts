@@ -0,0 +1,37 @@
+import { z } from 'zod';
+
+const columnIndexSchema = z.number().int().min(0).max(99);
+
+export const importColumnMappingSchema = z.object({
+  front: columnIndexSchema,
+  back: columnIndexSchema,
+  tags: columnIndexSchema.nullable().optional(),
+  deck: columnIndexSchema.nullable().optional(),
+});
+
+export const importFlashcardsSchema = z.object({
+  content: z
+    .string()
+    .min(1, 'File content is required')
+    .max(1_000_000, 'File content cannot exceed 1 000 000 characters'),
+  delimiter: z.enum([',', ';', '\t'] as const).default(','),
+  has_header: z.boolean().default(true),
+  mapping: importColumnMappingSchema.optional(),
+  dry_run: z.boolean().default(false),
+});
+
+export type ImportFlashcardsSchemaType = z.infer<typeof importFlashcardsSchema>;
+
+export const ankiImportOptionsSchema = z.object({
+  mapping: z
+    .record(
+      z.string().regex(/^\d+$/, 'Note type ID must be numeric'),
+      z.object({ front: columnIndexSchema, back: columnIndexSchema })
+    )
+    .optional(),
+  overflow: z.enum(['truncate', 'skip'] as const).default('truncate'),
+  include_scheduling: z.boolean().default(true),
+  dry_run: z.boolean().default(false),
+});
+
+export type AnkiImportOptionsSchemaType = z.infer<typeof ankiImportOptionsSchema>;
@@ -0,0 +1,15 @@
+import { z } from 'zod';
+
+export const reviewGradeSchema = z.enum(['again', 'hard', 'good', 'easy'] as const);
+
+export const dueReviewsQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const submitReviewSchema = z.object({
+  flashcard_id: z.number().int().positive(),
+  grade: reviewGradeSchema,
+});
+
+export type DueReviewsQuerySchemaType = z.infer<typeof dueReviewsQuerySchema>;
+export type SubmitReviewSchemaType = z.infer<typeof submitReviewSchema>;
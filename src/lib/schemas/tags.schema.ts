@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Normalized like `normalizeTagNames`, so that the same name entered anywhere matches one tag
+export const tagNameSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? value.replace(/\s+/g, ' ') : value),
+  z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1, 'Tag name is required')
+    .max(50, 'Tag name cannot exceed 50 characters')
+);
+
+/** Tags attached to a single flashcard on create or update */
+export const flashcardTagsSchema = z.array(tagNameSchema).max(10, 'Maximum 10 tags per flashcard');
+
+export const tagIdSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+export const renameTagSchema = z.object({
+  name: tagNameSchema,
+});
+
+export const mergeTagsSchema = z
+  .object({
+    source_tag_ids: z.array(z.number().int().positive()).min(1).max(50),
+    target_tag_id: z.number().int().positive(),
+  })
+  .refine((data) => !data.source_tag_ids.includes(data.target_tag_id), {
+    message: 'target_tag_id cannot be one of source_tag_ids',
+  });
+
+export type RenameTagSchemaType = z.infer<typeof renameTagSchema>;
+export type MergeTagsSchemaType = z.infer<typeof mergeTagsSchema>;
@@ -0,0 +1,85 @@
+const MAX_SEARCH_TERMS = 10;
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Splits a free-form search query into lowercase words.
+ * Anything that is not a letter or a digit separates words, so the result is safe
+ * to embed in a tsquery.
+ */
+export function tokenizeSearchQuery(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+
+  return [...new Set(terms)].slice(0, MAX_SEARCH_TERMS);
+}
+
+/**
+ * Builds a tsquery matching flashcards that contain every word of the query,
+ * each word treated as a prefix (so results show up while the user is typing)
+ * @returns The tsquery, or null if the query has no words
+ */
+export function buildPrefixTsQuery(query: string): string | null {
+  const terms = tokenizeSearchQuery(query);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+/**
+ * Splits text into segments marking words that start with any of the query words.
+ * Matching ignores case and Polish diacritics, mirroring the database search config.
+ */
+export function splitByMatches(text: string, query: string): HighlightSegment[] {
+  const terms = tokenizeSearchQuery(query).map(foldText);
+  if (terms.length === 0 || text.length === 0) {
+    return [{ text, match: false }];
+  }
+
+  // Fold the text character by character, remembering where each folded character came from
+  const chars = Array.from(text);
+  let folded = '';
+  const sourceIndex: number[] = [];
+  chars.forEach((char, index) => {
+    const foldedChar = foldText(char);
+    folded += foldedChar;
+    sourceIndex.push(...new Array<number>(foldedChar.length).fill(index));
+  });
+
+  const matched = new Array<boolean>(chars.length).fill(false);
+  for (const term of terms) {
+    let position = folded.indexOf(term);
+    while (position !== -1) {
+      // Only prefixes of words match, like in the tsquery
+      if (position === 0 || !/[\p{L}\p{N}]/u.test(folded[position - 1])) {
+        for (let i = position; i < position + term.length; i++) {
+          matched[sourceIndex[i]] = true;
+        }
+      }
+      position = folded.indexOf(term, position + 1);
+    }
+  }
+
+  const segments: HighlightSegment[] = [];
+  chars.forEach((char, index) => {
+    const last = segments[segments.length - 1];
+    if (last && last.match === matched[index]) {
+      last.text += char;
+    } else {
+      segments.push({ text: char, match: matched[index] });
+    }
+  });
+
+  return segments;
+}
+
+function foldText(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/\p{M}/gu, '').replace(/ł/g, 'l');
+}
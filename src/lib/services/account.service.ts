@@ -0,0 +1,577 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import type {
+  AccountArchiveDto,
+  AccountArchiveFlashcardDto,
+  AccountDeletionDto,
+  AccountImportResponseDto,
+} from '../../types';
+import type { AccountArchiveSchemaType } from '../schemas/account.schema';
+import { FlashcardsService } from './flashcards.service';
+
+// Supabase returns at most 1000 rows per request by default
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 500;
+
+export const DEFAULT_DELETION_GRACE_DAYS = 14;
+const MAX_DELETION_GRACE_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DELETION_COLUMNS = 'status, requested_at, scheduled_for, cancelled_at';
+
+export const ACCOUNT_ARCHIVE_FORMAT: AccountArchiveDto['format'] = '10xcard-account';
+export const ACCOUNT_ARCHIVE_VERSION: AccountArchiveDto['version'] = 1;
+
+type ArchiveSection = Exclude<keyof AccountArchiveDto, 'format' | 'version' | 'exported_at'>;
+
+/** Sections in the order they are written and restored (referenced rows come first) */
+const ARCHIVE_SECTIONS: ArchiveSection[] = [
+  'decks',
+  'tags',
+  'generations',
+  'flashcards',
+  'generation_proposals',
+  'generation_error_logs',
+];
+
+/** Columns exported from the tables read directly (everything except `user_id`) */
+const ARCHIVE_COLUMNS = {
+  decks: 'id, name, description, created_at, updated_at',
+  tags: 'id, name, created_at, updated_at',
+  generations:
+    'id, model, source_text_hash, source_text_length, generated_count, accepted_count, duration, status, card_count, difficulty, language, focus, prompt_tokens, completion_tokens, cost, request_hash, reused, created_at, updated_at',
+  generation_proposals:
+    'id, generation_id, position, original_front, original_back, final_front, final_back, suggested_tags, decision, flashcard_id, created_at, decided_at',
+  generation_error_logs:
+    'id, generation_id, model, error_code, error_message, http_status, attempt_count, source_text_hash, source_text_length, timestamp',
+} as const;
+
+type ArchiveTable = keyof typeof ARCHIVE_COLUMNS;
+
+/** Tables holding user data; deleting from them (with cascades) empties the account */
+const OWNED_TABLES = [
+  'generation_error_logs',
+  'generations',
+  'flashcards',
+  'tags',
+  'decks',
+] as const;
+
+/**
+ * Reads the grace period before a requested account deletion is carried out
+ * (ACCOUNT_DELETION_GRACE_DAYS); invalid values fall back to the default
+ */
+export function parseDeletionGraceDays(value: string | undefined): number {
+  const days = Number(value);
+  if (!value || !Number.isInteger(days) || days < 0 || days > MAX_DELETION_GRACE_DAYS) {
+    return DEFAULT_DELETION_GRACE_DAYS;
+  }
+  return days;
+}
+
+/**
+ * Checks that every link inside the archive points at a record of the archive,
+ * and that names unique per user are not repeated. Returns one message per problem.
+ */
+export function findArchiveReferenceErrors(archive: AccountArchiveSchemaType): string[] {
+  const errors: string[] = [];
+
+  const collectIds = (section: ArchiveSection, rows: { id: number }[]) => {
+    const ids = new Set(rows.map((row) => row.id));
+    if (ids.size !== rows.length) {
+      errors.push(`${section}: duplicate IDs`);
+    }
+    return ids;
+  };
+
+  // Names are compared the way the unique constraints do: deck names exactly, tag names
+  // after the lowercasing they are stored with
+  const checkNamesUnique = (
+    section: ArchiveSection,
+    rows: { name: string }[],
+    toKey: (name: string) => string = (name) => name
+  ) => {
+    const names = new Set(rows.map((row) => toKey(row.name)));
+    if (names.size !== rows.length) {
+      errors.push(`${section}: duplicate names`);
+    }
+  };
+
+  const deckIds = collectIds('decks', archive.decks);
+  const tagIds = collectIds('tags', archive.tags);
+  const generationIds = collectIds('generations', archive.generations);
+  const flashcardIds = collectIds('flashcards', archive.flashcards);
+  collectIds('generation_proposals', archive.generation_proposals);
+  collectIds('generation_error_logs', archive.generation_error_logs);
+  checkNamesUnique('decks', archive.decks);
+  checkNamesUnique('tags', archive.tags, (name) => name.toLowerCase());
+
+  archive.flashcards.forEach((flashcard, index) => {
+    if (flashcard.deck_id !== null && !deckIds.has(flashcard.deck_id)) {
+      errors.push(`flashcards[${index}]: unknown deck ${flashcard.deck_id}`);
+    }
+    if (flashcard.generation_id !== null && !generationIds.has(flashcard.generation_id)) {
+      errors.push(`flashcards[${index}]: unknown generation ${flashcard.generation_id}`);
+    }
+    for (const tag of flashcard.tags) {
+      if (!tagIds.has(tag.id)) {
+        errors.push(`flashcards[${index}]: unknown tag ${tag.id}`);
+      }
+    }
+  });
+
+  archive.generation_proposals.forEach((proposal, index) => {
+    if (!generationIds.has(proposal.generation_id)) {
+      errors.push(`generation_proposals[${index}]: unknown generation ${proposal.generation_id}`);
+    }
+    if (proposal.flashcard_id !== null && !flashcardIds.has(proposal.flashcard_id)) {
+      errors.push(`generation_proposals[${index}]: unknown flashcard ${proposal.flashcard_id}`);
+    }
+  });
+
+  archive.generation_error_logs.forEach((log, index) => {
+    if (log.generation_id !== null && !generationIds.has(log.generation_id)) {
+      errors.push(`generation_error_logs[${index}]: unknown generation ${log.generation_id}`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Service exporting and restoring everything a user owns as a JSON archive
+ */
+export class AccountService {
+  private flashcardsService: FlashcardsService;
+
+  constructor(private supabase: SupabaseClient<Database>) {
+    this.flashcardsService = new FlashcardsService(supabase);
+  }
+
+  /**
+   * Streams the account archive (AccountArchiveDto as JSON) section by section,
+   * so that large accounts are never held in memory at once
+   * @param userId - Current user ID
+   * @param now - Time recorded as `exported_at`
+   */
+  exportArchive(userId: string, now: Date = new Date()): ReadableStream<Uint8Array> {
+    const chunks = this.archiveChunks(userId, now);
+    const encoder = new TextEncoder();
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await chunks.next();
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(encoder.encode(value));
+          }
+        } catch (error) {
+          // Headers are already sent; the client receives a truncated (invalid) archive
+          console.error('Error streaming account archive:', error);
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        await chunks.return(undefined);
+      },
+    });
+  }
+
+  /**
+   * Restores an archive into an empty account. New IDs are assigned to every record and
+   * all links (decks, tags, `generation_id`, proposal flashcards) are remapped to them.
+   * When saving fails, everything restored so far is removed again.
+   * @param archive - Validated account archive
+   * @param userId - Current user ID
+   * @throws Error when the archive has broken links or the account already contains data
+   */
+  async importArchive(
+    archive: AccountArchiveSchemaType,
+    userId: string
+  ): Promise<AccountImportResponseDto> {
+    const referenceErrors = findArchiveReferenceErrors(archive);
+    if (referenceErrors.length > 0) {
+      throw new Error(`Invalid archive: ${referenceErrors.slice(0, 5).join('; ')}`);
+    }
+
+    if (!(await this.isAccountEmpty(userId))) {
+      throw new Error('Account already contains data');
+    }
+
+    try {
+      return await this.restoreArchive(archive, userId);
+    } catch (error) {
+      await this.clearAccount(userId).catch((cleanupError) => {
+        console.error('Failed to clean up after account import:', cleanupError);
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Returns the latest deletion request of the user
+   * @param userId - Current user ID
+   */
+  async getDeletion(userId: string): Promise<AccountDeletionDto | null> {
+    const { data, error } = await this.supabase
+      .from('account_deletions')
+      .select(DELETION_COLUMNS)
+      .eq('user_id', userId)
+      .order('requested_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to fetch account deletion: ${error.message}`);
+    }
+
+    return data as AccountDeletionDto | null;
+  }
+
+  /**
+   * Schedules the deletion of the account after the grace period. Logging in before
+   * it passes cancels the request; afterwards the account and all its data are removed
+   * by the `purge_expired_account_deletions` job, and the request stays as an audit record.
+   * @param userId - Current user ID
+   * @param graceDays - Days before the account is deleted
+   * @throws Error when a deletion is already pending
+   */
+  async requestDeletion(
+    userId: string,
+    graceDays: number = parseDeletionGraceDays(import.meta.env.ACCOUNT_DELETION_GRACE_DAYS)
+  ): Promise<AccountDeletionDto> {
+    const now = new Date();
+    const { data, error } = await this.supabase
+      .from('account_deletions')
+      .insert({
+        user_id: userId,
+        requested_at: now.toISOString(),
+        scheduled_for: new Date(now.getTime() + graceDays * DAY_MS).toISOString(),
+      })
+      .select(DELETION_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('Account deletion already requested');
+      }
+      throw new Error(`Failed to request account deletion: ${error.message}`);
+    }
+
+    console.info('Account deletion requested:', {
+      userId,
+      scheduledFor: data.scheduled_for,
+    });
+
+    return data as AccountDeletionDto;
+  }
+
+  /**
+   * Cancels the pending deletion request of the user
+   * @param userId - Current user ID
+   * @returns The cancelled request, or null when no deletion was pending
+   */
+  async cancelDeletion(userId: string): Promise<AccountDeletionDto | null> {
+    const { data, error } = await this.supabase
+      .from('account_deletions')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('status', 'pending')
+      .select(DELETION_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to cancel account deletion: ${error.message}`);
+    }
+
+    if (data) {
+      console.info('Account deletion cancelled:', { userId });
+    }
+
+    return data as AccountDeletionDto | null;
+  }
+
+  private async *archiveChunks(userId: string, now: Date): AsyncGenerator<string> {
+    yield `{"format":"${ACCOUNT_ARCHIVE_FORMAT}","version":${ACCOUNT_ARCHIVE_VERSION},"exported_at":"${now.toISOString()}"`;
+
+    for (const section of ARCHIVE_SECTIONS) {
+      yield `,"${section}":[`;
+      let separator = '';
+
+      for (let afterId = 0; ; ) {
+        const rows =
+          section === 'flashcards'
+            ? await this.fetchFlashcards(userId, afterId)
+            : await this.fetchRows(section, userId, afterId);
+
+        if (rows.length > 0) {
+          yield separator + rows.map((row) => JSON.stringify(row)).join(',');
+          separator = ',';
+          afterId = rows[rows.length - 1].id;
+        }
+
+        if (rows.length < PAGE_SIZE) {
+          break;
+        }
+      }
+
+      yield ']';
+    }
+
+    yield '}\n';
+  }
+
+  private async fetchRows(
+    table: ArchiveTable,
+    userId: string,
+    afterId: number
+  ): Promise<{ id: number }[]> {
+    const { data, error } = await this.supabase
+      .from(table)
+      .select(ARCHIVE_COLUMNS[table])
+      .eq('user_id', userId)
+      .gt('id', afterId)
+      .order('id')
+      .limit(PAGE_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`);
+    }
+
+    return data as unknown as { id: number }[];
+  }
+
+  private async fetchFlashcards(
+    userId: string,
+    afterId: number
+  ): Promise<AccountArchiveFlashcardDto[]> {
+    const flashcards = await this.flashcardsService.getFlashcardsAfter(userId, afterId, PAGE_SIZE);
+    if (flashcards.length === 0) {
+      return [];
+    }
+
+    // Flashcards are ordered by ID, so their review states fit in the same ID range
+    const { data: reviews, error } = await this.supabase
+      .from('review_states')
+      .select('flashcard_id, ease_factor, interval, repetitions, lapses, due_at, last_reviewed_at')
+      .eq('user_id', userId)
+      .gte('flashcard_id', flashcards[0].id)
+      .lte('flashcard_id', flashcards[flashcards.length - 1].id);
+
+    if (error) {
+      throw new Error(`Failed to export review states: ${error.message}`);
+    }
+
+    const reviewsByFlashcard = new Map(reviews.map((review) => [review.flashcard_id, review]));
+
+    return flashcards.map((flashcard) => {
+      const review = reviewsByFlashcard.get(flashcard.id);
+      return {
+        ...flashcard,
+        review: review
+          ? {
+              ease_factor: Number(review.ease_factor),
+              interval: review.interval,
+              repetitions: review.repetitions,
+              lapses: review.lapses,
+              due_at: review.due_at,
+              last_reviewed_at: review.last_reviewed_at,
+            }
+          : null,
+      };
+    });
+  }
+
+  private async isAccountEmpty(userId: string): Promise<boolean> {
+    for (const table of OWNED_TABLES) {
+      const { count, error } = await this.supabase
+        .from(table)
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to check account data: ${error.message}`);
+      }
+      if (count) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /** Deletes all data of the user; dependent rows are removed by cascades */
+  private async clearAccount(userId: string): Promise<void> {
+    for (const table of OWNED_TABLES) {
+      const { error } = await this.supabase.from(table).delete().eq('user_id', userId);
+
+      if (error) {
+        throw new Error(`Failed to delete ${table}: ${error.message}`);
+      }
+    }
+  }
+
+  private async restoreArchive(
+    archive: AccountArchiveSchemaType,
+    userId: string
+  ): Promise<AccountImportResponseDto> {
+    const deckIds = toIdMap(
+      archive.decks,
+      await this.insertBatches(archive.decks, (batch) =>
+        this.supabase
+          .from('decks')
+          .insert(batch.map((row) => toInsertRow(row, userId)))
+          .select('id')
+      )
+    );
+
+    const tagIds = toIdMap(
+      archive.tags,
+      await this.insertBatches(archive.tags, (batch) =>
+        this.supabase
+          .from('tags')
+          .insert(batch.map((row) => toInsertRow(row, userId)))
+          .select('id')
+      )
+    );
+
+    const generationIds = toIdMap(
+      archive.generations,
+      await this.insertBatches(archive.generations, (batch) =>
+        this.supabase
+          .from('generations')
+          .insert(batch.map((row) => toInsertRow(row, userId)))
+          .select('id')
+      )
+    );
+
+    const flashcardIds = toIdMap(
+      archive.flashcards,
+      await this.insertBatches(archive.flashcards, (batch) =>
+        this.supabase
+          .from('flashcards')
+          .insert(
+            batch.map((flashcard) => ({
+              front: flashcard.front,
+              back: flashcard.back,
+              source: flashcard.source,
+              deck_id: remapId(deckIds, flashcard.deck_id),
+              generation_id: remapId(generationIds, flashcard.generation_id),
+              created_at: flashcard.created_at,
+              updated_at: flashcard.updated_at,
+              user_id: userId,
+            }))
+          )
+          .select('id')
+      )
+    );
+
+    // Review states are created with defaults when a flashcard is inserted; overwrite them
+    const reviewStates = archive.flashcards.flatMap((flashcard) =>
+      flashcard.review
+        ? [
+            {
+              ...flashcard.review,
+              flashcard_id: remapId(flashcardIds, flashcard.id),
+              user_id: userId,
+            },
+          ]
+        : []
+    );
+    await this.insertBatches(reviewStates, (batch) =>
+      this.supabase.from('review_states').upsert(batch, { onConflict: 'flashcard_id' })
+    );
+
+    const flashcardTags = archive.flashcards.flatMap((flashcard) =>
+      flashcard.tags.map((tag) => ({
+        flashcard_id: remapId(flashcardIds, flashcard.id),
+        tag_id: remapId(tagIds, tag.id),
+        user_id: userId,
+      }))
+    );
+    await this.insertBatches(flashcardTags, (batch) =>
+      this.supabase.from('flashcard_tags').insert(batch)
+    );
+
+    await this.insertBatches(archive.generation_proposals, (batch) =>
+      this.supabase.from('generation_proposals').insert(
+        batch.map((proposal) => ({
+          ...toInsertRow(proposal, userId),
+          generation_id: remapId(generationIds, proposal.generation_id),
+          flashcard_id: remapId(flashcardIds, proposal.flashcard_id),
+        }))
+      )
+    );
+
+    await this.insertBatches(archive.generation_error_logs, (batch) =>
+      this.supabase.from('generation_error_logs').insert(
+        batch.map((log) => ({
+          ...toInsertRow(log, userId),
+          generation_id: remapId(generationIds, log.generation_id),
+        }))
+      )
+    );
+
+    return {
+      decks: archive.decks.length,
+      tags: archive.tags.length,
+      generations: archive.generations.length,
+      flashcards: archive.flashcards.length,
+      generation_proposals: archive.generation_proposals.length,
+      generation_error_logs: archive.generation_error_logs.length,
+    };
+  }
+
+  /**
+   * Saves rows in batches and returns the IDs of the inserted rows in input order
+   * (empty when the insert does not select them)
+   */
+  private async insertBatches<T>(
+    rows: T[],
+    insert: (
+      batch: T[]
+    ) => PromiseLike<{ data: { id: number }[] | null; error: { message: string } | null }>
+  ): Promise<number[]> {
+    const ids: number[] = [];
+
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const { data, error } = await insert(rows.slice(start, start + INSERT_BATCH_SIZE));
+
+      if (error) {
+        throw new Error(`Failed to import account archive: ${error.message}`);
+      }
+      ids.push(...(data ?? []).map((row) => row.id));
+    }
+
+    return ids;
+  }
+}
+
+/** Drops the archive ID (a new one is assigned on insert) and assigns the row to the user */
+function toInsertRow<T extends { id: number }>(
+  row: T,
+  userId: string
+): Omit<T, 'id'> & { user_id: string } {
+  const copy: Partial<T> = { ...row };
+  delete copy.id;
+  return { ...(copy as Omit<T, 'id'>), user_id: userId };
+}
+
+/** Maps archive IDs onto the IDs of the restored rows (both in the same order) */
+function toIdMap(rows: { id: number }[], newIds: number[]): Map<number, number> {
+  return new Map(rows.map((row, index) => [row.id, newIds[index]]));
+}
+
+function remapId<T extends number | null>(ids: Map<number, number>, id: T): T {
+  if (id === null) {
+    return id;
+  }
+
+  const newId = ids.get(id);
+  if (newId === undefined) {
+    throw new Error(`Invalid archive: unknown reference ${id}`);
+  }
+  return newId as T;
+}
@@ -0,0 +1,73 @@
+import { createHash } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database, Json } from '../../db/database.types';
+import type { ChatResponse, ResponseCache } from './openrouter';
+
+/**
+ * Cache keys describe the whole request, including the prompt; only their hash is stored
+ */
+export function toCacheKeyHash(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * OpenRouter response cache kept in Postgres, so that it is shared by all server instances
+ * and survives restarts. Entries belong to the signed-in user; row level security keeps
+ * the responses of other users out of reach.
+ */
+export class AiResponseCacheService implements ResponseCache {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Cached response for a request, unless it has expired
+   * @param key - Cache key created by OpenRouterService
+   */
+  async get(key: string): Promise<ChatResponse | undefined> {
+    const { data, error } = await this.supabase
+      .from('ai_response_cache')
+      .select('response')
+      .eq('key', toCacheKeyHash(key))
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read cached response: ${error.message}`);
+    }
+
+    return data ? (data.response as unknown as ChatResponse) : undefined;
+  }
+
+  /**
+   * Store a response, replacing an earlier one for the same request.
+   * Expired entries of the user are removed at the same time.
+   * @param key - Cache key created by OpenRouterService
+   * @param ttl - Time to live in milliseconds
+   */
+  async set(key: string, value: ChatResponse, ttl: number): Promise<void> {
+    const now = Date.now();
+
+    const { error: deleteError } = await this.supabase
+      .from('ai_response_cache')
+      .delete()
+      .lte('expires_at', new Date(now).toISOString());
+
+    if (deleteError) {
+      throw new Error(`Failed to remove expired responses: ${deleteError.message}`);
+    }
+
+    // user_id defaults to the signed-in user
+    const { error } = await this.supabase.from('ai_response_cache').upsert(
+      {
+        key: toCacheKeyHash(key),
+        response: value as unknown as Json,
+        expires_at: new Date(now + ttl).toISOString(),
+      },
+      { onConflict: 'user_id,key' }
+    );
+
+    if (error) {
+      throw new Error(`Failed to cache response: ${error.message}`);
+    }
+  }
+}
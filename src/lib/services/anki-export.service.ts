@@ -0,0 +1,132 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import { buildApkg, type AnkiExportCard } from '../anki/apkg';
+
+// Supabase returns at most 1000 rows per request by default
+const PAGE_SIZE = 1000;
+
+type ExportFlashcardRow = Pick<
+  Database['public']['Tables']['flashcards']['Row'],
+  'id' | 'front' | 'back' | 'deck_id' | 'created_at'
+> & { tags: { name: string }[] };
+
+type ExportReviewRow = Pick<
+  Database['public']['Tables']['review_states']['Row'],
+  | 'flashcard_id'
+  | 'ease_factor'
+  | 'interval'
+  | 'repetitions'
+  | 'lapses'
+  | 'due_at'
+  | 'last_reviewed_at'
+>;
+
+/**
+ * Service exporting user flashcards to Anki packages (.apkg)
+ */
+export class AnkiExportService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Builds an .apkg with the user's flashcards, their tags, decks and review state
+   * @param userId - Current user ID
+   * @param deckId - Export only this deck (must belong to the user)
+   */
+  async exportApkg(userId: string, deckId?: number): Promise<Uint8Array> {
+    const cards = await this.getExportCards(userId, deckId);
+    return buildApkg(cards);
+  }
+
+  /**
+   * Collects flashcards with deck names, tags and review state
+   * @param userId - Current user ID
+   * @param deckId - Only flashcards of this deck
+   */
+  async getExportCards(userId: string, deckId?: number): Promise<AnkiExportCard[]> {
+    const [flashcards, reviews, decks] = await Promise.all([
+      this.fetchFlashcards(userId, deckId),
+      this.fetchReviewStates(userId),
+      this.supabase.from('decks').select('id, name').eq('user_id', userId),
+    ]);
+
+    if (decks.error) {
+      throw new Error(`Failed to fetch decks: ${decks.error.message}`);
+    }
+
+    const deckNames = new Map(decks.data.map((deck) => [deck.id, deck.name]));
+    const reviewsByFlashcard = new Map(reviews.map((review) => [review.flashcard_id, review]));
+
+    return flashcards.map((flashcard) => {
+      const review = reviewsByFlashcard.get(flashcard.id);
+      return {
+        id: flashcard.id,
+        front: flashcard.front,
+        back: flashcard.back,
+        tags: flashcard.tags.map((tag) => tag.name),
+        deck: flashcard.deck_id ? (deckNames.get(flashcard.deck_id) ?? null) : null,
+        created_at: flashcard.created_at,
+        review: review
+          ? {
+              ease_factor: Number(review.ease_factor),
+              interval: review.interval,
+              repetitions: review.repetitions,
+              lapses: review.lapses,
+              due_at: review.due_at,
+              last_reviewed_at: review.last_reviewed_at,
+            }
+          : null,
+      };
+    });
+  }
+
+  private async fetchFlashcards(userId: string, deckId?: number): Promise<ExportFlashcardRow[]> {
+    const rows: ExportFlashcardRow[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      let query = this.supabase
+        .from('flashcards')
+        .select('id, front, back, deck_id, created_at, tags(name)')
+        .eq('user_id', userId);
+
+      if (deckId) {
+        query = query.eq('deck_id', deckId);
+      }
+
+      const { data, error } = await query.order('id').range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch flashcards for export: ${error.message}`);
+      }
+
+      rows.push(...(data as unknown as ExportFlashcardRow[]));
+      if (data.length < PAGE_SIZE) {
+        return rows;
+      }
+    }
+  }
+
+  private async fetchReviewStates(userId: string): Promise<ExportReviewRow[]> {
+    const rows: ExportReviewRow[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('review_states')
+        .select(
+          'flashcard_id, ease_factor, interval, repetitions, lapses, due_at, last_reviewed_at'
+        )
+        .eq('user_id', userId)
+        .order('flashcard_id')
+        .range(from, from + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch review states for export: ${error.message}`);
+      }
+
+      rows.push(...data);
+      if (data.length < PAGE_SIZE) {
+        return rows;
+      }
+    }
+  }
+}
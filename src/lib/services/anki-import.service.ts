@@ -0,0 +1,195 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import type {
+  AnkiFieldMappingDto,
+  AnkiImportNoteDto,
+  AnkiImportOptionsCommand,
+  AnkiImportResponseDto,
+} from '../../types';
+import { readApkg, toSchedulingState, type AnkiPackage } from '../anki/apkg-reader';
+import { ROOT_DECK_NAME } from '../anki/apkg';
+import { ankiHtmlToText } from '../anki/html';
+import { flashcardSchema } from '../schemas/flashcards.schema';
+import type { SchedulingState } from './review-scheduler';
+import { ImportService } from './import.service';
+import { normalizeTagNames } from './tags.service';
+
+export const MAX_ANKI_IMPORT_NOTES = 5000;
+const FIELD_LIMITS = { front: 200, back: 600 } as const;
+const MAX_TAGS = 10;
+const MAX_DECK_NAME_LENGTH = 100;
+
+interface PreparedAnkiImport {
+  report: Omit<
+    AnkiImportResponseDto,
+    'valid_count' | 'invalid_count' | 'imported_count' | 'scheduled_count'
+  >;
+  /** Scheduling state for each note, in the order of `report.notes` */
+  schedules: (SchedulingState | null)[];
+}
+
+/**
+ * Converts the notes of an Anki package into flashcards: maps note-type fields onto
+ * front/back, strips HTML, fits the content into the flashcard limits and validates it
+ * with the same rules as POST /api/flashcards. Nothing is saved.
+ * @throws Error when the package has more than MAX_ANKI_IMPORT_NOTES notes
+ */
+export function prepareAnkiImport(
+  pkg: AnkiPackage,
+  options: Pick<AnkiImportOptionsCommand, 'mapping' | 'overflow' | 'include_scheduling'>,
+  now: Date = new Date()
+): PreparedAnkiImport {
+  if (pkg.notes.length > MAX_ANKI_IMPORT_NOTES) {
+    throw new Error(`Import cannot exceed ${MAX_ANKI_IMPORT_NOTES} notes`);
+  }
+
+  const mapping: Record<string, AnkiFieldMappingDto> = {};
+  for (const noteType of pkg.noteTypes) {
+    mapping[noteType.id] = options.mapping?.[noteType.id] ?? {
+      front: 0,
+      back: Math.min(1, noteType.fields.length - 1),
+    };
+  }
+
+  const noteTypes = pkg.noteTypes.map((noteType) => ({
+    ...noteType,
+    note_count: pkg.notes.filter((note) => note.noteTypeId === noteType.id).length,
+  }));
+
+  const notes: AnkiImportNoteDto[] = [];
+  const schedules: (SchedulingState | null)[] = [];
+
+  for (const note of pkg.notes) {
+    const fieldMapping = mapping[note.noteTypeId] ?? { front: 0, back: 1 };
+    const row: AnkiImportNoteDto = {
+      note_id: note.id,
+      note_type_id: note.noteTypeId,
+      front: ankiHtmlToText(note.fields[fieldMapping.front] ?? ''),
+      back: ankiHtmlToText(note.fields[fieldMapping.back] ?? ''),
+      tags: [],
+      deck: toDeckName(note.deck),
+      errors: [],
+      warnings: [],
+    };
+
+    if (fieldMapping.front === fieldMapping.back) {
+      row.errors.push('Front and back must use different fields');
+    }
+
+    if (options.overflow === 'truncate') {
+      for (const field of ['front', 'back'] as const) {
+        if (row[field].length > FIELD_LIMITS[field]) {
+          row[field] = `${row[field].slice(0, FIELD_LIMITS[field] - 1).trimEnd()}…`;
+          row.warnings.push(`${capitalize(field)} truncated to ${FIELD_LIMITS[field]} characters`);
+        }
+      }
+    }
+
+    const tags = normalizeTagNames(note.tags);
+    row.tags = tags.slice(0, MAX_TAGS);
+    if (tags.length > MAX_TAGS) {
+      row.warnings.push(`Only the first ${MAX_TAGS} tags were kept`);
+    }
+
+    const result = flashcardSchema.safeParse({
+      front: row.front,
+      back: row.back,
+      source: 'manual',
+      generation_id: null,
+      tags: row.tags,
+    });
+    if (!result.success) {
+      row.errors.push(...result.error.issues.map((issue) => issue.message));
+    }
+
+    notes.push(row);
+    schedules.push(
+      options.include_scheduling && note.card ? toSchedulingState(note.card, pkg.crt, now) : null
+    );
+  }
+
+  return { report: { note_types: noteTypes, mapping, notes }, schedules };
+}
+
+/**
+ * Service importing flashcards from Anki packages
+ */
+export class AnkiImportService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Reads the package and, unless it is a dry run, saves the valid notes as manual flashcards
+   * together with their review state
+   * @param bytes - Contents of the .apkg file
+   * @param options - Field mapping and import options
+   * @param userId - Current user ID
+   */
+  async importPackage(
+    bytes: Uint8Array,
+    options: AnkiImportOptionsCommand,
+    userId: string
+  ): Promise<AnkiImportResponseDto> {
+    const pkg = await readApkg(bytes);
+    const { report: prepared, schedules } = prepareAnkiImport(pkg, options);
+
+    const validIndexes = prepared.notes
+      .map((note, index) => (note.errors.length === 0 ? index : -1))
+      .filter((index) => index !== -1);
+
+    const report: AnkiImportResponseDto = {
+      ...prepared,
+      valid_count: validIndexes.length,
+      invalid_count: prepared.notes.length - validIndexes.length,
+      imported_count: 0,
+      scheduled_count: 0,
+    };
+
+    if (options.dry_run || validIndexes.length === 0) {
+      return report;
+    }
+
+    const importService = new ImportService(this.supabase);
+    const ids = await importService.saveFlashcards(
+      validIndexes.map((index) => prepared.notes[index]),
+      userId
+    );
+    report.imported_count = ids.length;
+
+    // Review states are created with defaults when a flashcard is inserted; overwrite them
+    const reviewStates = ids.flatMap((flashcardId, position) => {
+      const schedule = schedules[validIndexes[position]];
+      return schedule ? [{ ...schedule, flashcard_id: flashcardId, user_id: userId }] : [];
+    });
+
+    if (reviewStates.length > 0) {
+      const { error } = await this.supabase
+        .from('review_states')
+        .upsert(reviewStates, { onConflict: 'flashcard_id' });
+
+      if (error) {
+        throw new Error(`Failed to import review history: ${error.message}`);
+      }
+      report.scheduled_count = reviewStates.length;
+    }
+
+    return report;
+  }
+}
+
+/** Maps an Anki deck name onto a 10xCard deck; packages exported from 10xCard round-trip */
+function toDeckName(ankiDeck: string | null): string | null {
+  if (!ankiDeck || ankiDeck === 'Default' || ankiDeck === ROOT_DECK_NAME) {
+    return null;
+  }
+
+  const name = ankiDeck.startsWith(`${ROOT_DECK_NAME}::`)
+    ? ankiDeck.slice(ROOT_DECK_NAME.length + 2)
+    : ankiDeck;
+
+  return name.split('::').join(' / ').slice(0, MAX_DECK_NAME_LENGTH);
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
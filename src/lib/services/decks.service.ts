@@ -0,0 +1,192 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import type { CreateDeckCommand, DeckDto, UpdateDeckCommand } from '../../types';
+
+const DECK_COLUMNS = 'id, name, description, created_at, updated_at, flashcards(count)';
+
+type DeckWithCountRow = Omit<DeckDto, 'flashcard_count'> & {
+  flashcards: { count: number }[];
+};
+
+/**
+ * Service responsible for managing user decks.
+ * A deck is a named collection of flashcards; every flashcard belongs to at most one deck.
+ */
+export class DecksService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Returns all decks of the user ordered by name
+   * @param userId - Current user ID
+   */
+  async getDecks(userId: string): Promise<DeckDto[]> {
+    const { data, error } = await this.supabase
+      .from('decks')
+      .select(DECK_COLUMNS)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch decks: ${error.message}`);
+    }
+
+    return (data as unknown as DeckWithCountRow[]).map(toDeckDto);
+  }
+
+  /**
+   * Returns a single deck of the user
+   * @returns The deck or null when it does not exist
+   */
+  async getDeckById(id: number, userId: string): Promise<DeckDto | null> {
+    const { data, error } = await this.supabase
+      .from('decks')
+      .select(DECK_COLUMNS)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // Record not found
+        return null;
+      }
+      throw new Error(`Failed to fetch deck: ${error.message}`);
+    }
+
+    return toDeckDto(data as unknown as DeckWithCountRow);
+  }
+
+  /**
+   * Creates a new, empty deck
+   * @throws Error with 'Deck name already exists' when the user already has a deck with this name
+   */
+  async createDeck(userId: string, command: CreateDeckCommand): Promise<DeckDto> {
+    const { data, error } = await this.supabase
+      .from('decks')
+      .insert({ ...command, user_id: userId })
+      .select(DECK_COLUMNS)
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('Deck name already exists');
+      }
+      throw new Error(`Failed to create deck: ${error.message}`);
+    }
+
+    return toDeckDto(data as unknown as DeckWithCountRow);
+  }
+
+  /**
+   * Renames a deck or changes its description
+   * @returns Updated deck, or null if the deck does not exist
+   * @throws Error with 'Deck name already exists' when the new name is taken
+   */
+  async updateDeck(
+    id: number,
+    userId: string,
+    command: UpdateDeckCommand
+  ): Promise<DeckDto | null> {
+    const { data, error } = await this.supabase
+      .from('decks')
+      .update(command)
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(DECK_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('Deck name already exists');
+      }
+      throw new Error(`Failed to update deck: ${error.message}`);
+    }
+
+    return data ? toDeckDto(data as unknown as DeckWithCountRow) : null;
+  }
+
+  /**
+   * Deletes a deck. Its flashcards are kept and become unassigned.
+   * @returns false if the deck does not exist
+   */
+  async deleteDeck(id: number, userId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('decks')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete deck: ${error.message}`);
+    }
+
+    return data.length > 0;
+  }
+
+  /**
+   * Returns the IDs from the list that do not reference a deck of the user
+   * @param ids - Deck IDs referenced by a request
+   * @param userId - Current user ID
+   */
+  async findMissingDeckIds(ids: number[], userId: string): Promise<number[]> {
+    const uniqueIds = [...new Set(ids)];
+    if (uniqueIds.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('decks')
+      .select('id')
+      .in('id', uniqueIds)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to validate deck references: ${error.message}`);
+    }
+
+    const foundIds = new Set(data.map((deck) => deck.id));
+    return uniqueIds.filter((id) => !foundIds.has(id));
+  }
+
+  /**
+   * Returns decks with the given names, creating the missing ones (used by imports)
+   * @param names - Deck names (trimmed, compared exactly)
+   * @param userId - Current user ID
+   */
+  async ensureDecks(names: string[], userId: string): Promise<Pick<DeckDto, 'id' | 'name'>[]> {
+    const uniqueNames = [...new Set(names.map((name) => name.trim()).filter(Boolean))];
+    if (uniqueNames.length === 0) {
+      return [];
+    }
+
+    const { error: upsertError } = await this.supabase.from('decks').upsert(
+      uniqueNames.map((name) => ({ name, user_id: userId })),
+      { onConflict: 'user_id,name', ignoreDuplicates: true }
+    );
+
+    if (upsertError) {
+      throw new Error(`Failed to create decks: ${upsertError.message}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('decks')
+      .select('id, name')
+      .in('name', uniqueNames)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch decks: ${error.message}`);
+    }
+
+    return data;
+  }
+}
+
+function toDeckDto({ flashcards, ...deck }: DeckWithCountRow): DeckDto {
+  return {
+    ...deck,
+    flashcard_count: flashcards[0]?.count ?? 0,
+  };
+}
@@ -1,10 +1,19 @@
 import type { SupabaseClient } from '@supabase/supabase-js';
 import type {
   FlashcardDto,
+  FlashcardWithTagsDto,
   FlashcardsPaginatedResponseDto,
   UpdateFlashcardCommand,
 } from '../../types';
 import type { FlashcardsQuerySchemaType } from '../schemas/flashcards.schema';
+import { buildPrefixTsQuery } from '../search';
+
+const FLASHCARD_COLUMNS =
+  'id, generation_id, deck_id, front, back, source, created_at, updated_at, tags(id, name)';
+
+function selectFlashcards(supabase: SupabaseClient) {
+  return supabase.from('flashcards').select(FLASHCARD_COLUMNS, { count: 'exact' });
+}
 
 export class FlashcardsService {
   constructor(private supabase: SupabaseClient) {}
@@ -55,11 +64,11 @@ export class FlashcardsService {
     }
   }
 
-  async getFlashcardById(id: number, userId: string): Promise<FlashcardDto | null> {
+  async getFlashcardById(id: number, userId: string): Promise<FlashcardWithTagsDto | null> {
     try {
       const { data, error } = await this.supabase
         .from('flashcards')
-        .select('id, generation_id, front, back, source, created_at, updated_at')
+        .select(FLASHCARD_COLUMNS)
         .eq('id', id)
         .eq('user_id', userId)
         .single();
@@ -72,7 +81,7 @@ export class FlashcardsService {
         throw new Error(`Failed to fetch flashcard: ${error.message}`);
       }
 
-      return data as FlashcardDto;
+      return data as FlashcardWithTagsDto;
     } catch (error) {
       throw new Error(
         `Unexpected error fetching flashcard: ${error instanceof Error ? error.message : String(error)}`
@@ -84,20 +93,36 @@ export class FlashcardsService {
     params: FlashcardsQuerySchemaType,
     userId: string
   ): Promise<FlashcardsPaginatedResponseDto> {
-    const { page, limit, source, sort, order } = params;
+    const { page, limit, source, deck_id, tag_ids, q, sort, order } = params;
     const offset = (page - 1) * limit;
 
-    // Build query
-    let query = this.supabase
-      .from('flashcards')
-      .select('id, generation_id, front, back, source, created_at, updated_at', { count: 'exact' })
-      .eq('user_id', userId); // Filter by provided user_id
+    // Build query; with a tag filter the database matches the flashcards having all the tags
+    let query =
+      tag_ids && tag_ids.length > 0
+        ? // select() on the function result only picks the columns, it still takes filters
+          (this.supabase
+            .rpc('flashcards_with_all_tags', { p_tag_ids: tag_ids }, { count: 'exact' })
+            .select(FLASHCARD_COLUMNS) as ReturnType<typeof selectFlashcards>)
+        : selectFlashcards(this.supabase);
+
+    query = query.eq('user_id', userId); // Filter by provided user_id
 
     // Apply source filter if provided
     if (source) {
       query = query.eq('source', source);
     }
 
+    // Apply deck filter if provided
+    if (deck_id) {
+      query = query.eq('deck_id', deck_id);
+    }
+
+    // Apply full-text search if provided (see the flashcards_search config in migrations)
+    const tsQuery = q ? buildPrefixTsQuery(q) : null;
+    if (tsQuery) {
+      query = query.textSearch('search_vector', tsQuery, { config: 'flashcards_search' });
+    }
+
     // Apply sorting
     query = query.order(sort, { ascending: order === 'asc' });
 
@@ -117,7 +142,7 @@ export class FlashcardsService {
     const pages = Math.ceil(total / limit);
 
     return {
-      data: data as FlashcardDto[],
+      data: data as FlashcardWithTagsDto[],
       pagination: {
         total,
         page,
@@ -127,11 +152,37 @@ export class FlashcardsService {
     };
   }
 
+  /**
+   * Fetches the next batch of flashcards ordered by ID (keyset pagination for bulk reads)
+   * @param userId - Current user ID
+   * @param afterId - Return flashcards with an ID greater than this one
+   * @param limit - Maximum number of flashcards to return
+   */
+  async getFlashcardsAfter(
+    userId: string,
+    afterId: number,
+    limit: number
+  ): Promise<FlashcardWithTagsDto[]> {
+    const { data, error } = await this.supabase
+      .from('flashcards')
+      .select(FLASHCARD_COLUMNS)
+      .eq('user_id', userId)
+      .gt('id', afterId)
+      .order('id')
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch flashcards: ${error.message}`);
+    }
+
+    return data as FlashcardWithTagsDto[];
+  }
+
   async updateFlashcard(
     id: number,
     userId: string,
-    command: UpdateFlashcardCommand
-  ): Promise<FlashcardDto | null> {
+    command: Omit<UpdateFlashcardCommand, 'tags'>
+  ): Promise<FlashcardWithTagsDto | null> {
     try {
       // First get the current flashcard to check if it exists and belongs to the user
       const currentFlashcard = await this.getFlashcardById(id, userId);
@@ -142,8 +193,11 @@ export class FlashcardsService {
       // Prepare update data
       const updateData: Partial<FlashcardDto> = {
         ...command,
-        // If source was 'ai-full', change it to 'ai-edited'
-        ...(currentFlashcard.source === 'ai-full' && { source: 'ai-edited' as const }),
+        // If source was 'ai-full' and its content changed, change it to 'ai-edited'
+        ...(currentFlashcard.source === 'ai-full' &&
+          (command.front !== undefined || command.back !== undefined) && {
+            source: 'ai-edited' as const,
+          }),
       };
 
       // Update the flashcard
@@ -152,7 +206,7 @@ export class FlashcardsService {
         .update(updateData)
         .eq('id', id)
         .eq('user_id', userId)
-        .select('id, generation_id, front, back, source, created_at, updated_at')
+        .select(FLASHCARD_COLUMNS)
         .single();
 
       if (error) {
@@ -187,7 +241,7 @@ export class FlashcardsService {
         timestamp: new Date().toISOString(),
       });
 
-      return data as FlashcardDto;
+      return data as FlashcardWithTagsDto;
     } catch (error) {
       // Log unexpected errors
       console.error('Unexpected error in updateFlashcard:', {
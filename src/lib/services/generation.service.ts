@@ -3,9 +3,224 @@ import type { SupabaseClient } from '@supabase/supabase-js';
 import { z } from 'zod';
 
 import type { Database } from '../../db/database.types';
-import type { FlashcardProposalDto, GenerateFlashcardsCommand } from '../../types';
-import { createOpenRouterService, SCHEMAS } from '../services/openrouter';
-import type { ChatOptions, FlashcardCollectionContent } from '../services/openrouter';
+import type {
+  FlashcardDto,
+  FlashcardProposalDto,
+  GenerateFlashcardsCommand,
+  GenerationDetailDto,
+  GenerationDifficulty,
+  GenerationDto,
+  GenerationErrorLogsPaginatedResponseDto,
+  GenerationLanguage,
+  GenerationProposalDto,
+  GenerationsPaginatedResponseDto,
+  GenerationStatus,
+  GenerationStreamEventDto,
+  RecordProposalDecisionsCommand,
+} from '../../types';
+import type {
+  GenerationErrorsQuerySchemaType,
+  GenerationsQuerySchemaType,
+} from '../schemas/generation.schema';
+import {
+  createOpenRouterService,
+  OpenRouterError,
+  RequestCancelledError,
+  SCHEMAS,
+  TimeoutError,
+} from '../services/openrouter';
+import type {
+  ChatOptions,
+  ChatResponse,
+  FlashcardCollectionContent,
+  TokenUsage,
+} from '../services/openrouter';
+import { FlashcardStreamParser } from '../flashcard-stream-parser';
+import { flashcardContentSchema } from '../schemas/flashcards.schema';
+import {
+  calculateCost,
+  DEFAULT_GENERATION_MODEL,
+  getAllowedModels,
+  getFallbackModels,
+  ModelsService,
+} from './models.service';
+import { normalizeTagNames } from './tags.service';
+import { AiResponseCacheService } from './ai-response-cache.service';
+import { GenerationQuotaExceededError, getQuotaLimits } from './quota.service';
+
+const MAX_SUGGESTED_TAGS = 5; // Upper bound of AI tags kept per proposal
+const MIN_MAX_TOKENS = 2000;
+const TOKENS_PER_CARD = 150; // Room for a question, an answer and tags
+const RESPONSE_CACHE_TTL = 24 * 60 * 60 * 1000; // Cached AI responses are kept for a day
+const PRICING_TIMEOUT = 2000; // Longest wait for the model prices before storing results
+
+const DIFFICULTY_INSTRUCTIONS: Record<GenerationDifficulty, string> = {
+  easy: 'Keep the flashcards easy: ask about basic definitions and key facts stated directly in the text.',
+  medium:
+    'Aim for medium difficulty: combine recall of facts with questions about relationships between concepts.',
+  hard: 'Make the flashcards challenging: ask about details, causes, consequences and applications that require understanding the text.',
+};
+
+const LANGUAGE_NAMES: Record<GenerationLanguage, string> = {
+  pl: 'Polish',
+  en: 'English',
+  de: 'German',
+  es: 'Spanish',
+  fr: 'French',
+  it: 'Italian',
+};
+
+/**
+ * Generation parameters with the defaults applied, as stored on the generation record
+ */
+export interface GenerationParameters {
+  model: string;
+  card_count: number;
+  difficulty: GenerationDifficulty | null;
+  language: GenerationLanguage | null;
+  focus: string | null;
+}
+
+/**
+ * Proposals returned by the AI together with the model that actually generated them,
+ * which can differ from the requested one (e.g. when OpenRouter routes to a fallback),
+ * and the tokens it reported
+ */
+interface AiGenerationResult {
+  proposals: FlashcardProposalDto[];
+  model: string;
+  usage: TokenUsage | null;
+}
+
+/**
+ * Whose earlier generations may be reused: only the user's own or those of any user
+ */
+export type GenerationReuseScope = 'user' | 'all';
+
+/**
+ * Proposals of an earlier generation of the same request
+ */
+interface ReusableGeneration {
+  proposals: FlashcardProposalDto[];
+  generatedAt: string;
+}
+
+/**
+ * Reads GENERATION_REUSE_SCOPE; only `all` extends reuse beyond the user's own generations
+ */
+export function parseReuseScope(value: string | undefined): GenerationReuseScope {
+  return value?.trim() === 'all' ? 'all' : 'user';
+}
+
+/**
+ * Hash identifying a generation request: the source text together with the model and
+ * all parameters. Generations with the same request hash can be answered by each other.
+ */
+export function calculateRequestHash(sourceTextHash: string, params: GenerationParameters): string {
+  const { model, card_count, difficulty, language, focus } = params;
+
+  return createHash('sha256')
+    .update(JSON.stringify([sourceTextHash, model, card_count, difficulty, language, focus]))
+    .digest('hex');
+}
+
+/**
+ * Apply defaults to the optional parameters of a generation command.
+ * Without an explicit count, 5-10 flashcards are generated depending on the text length.
+ */
+export function resolveGenerationParameters(
+  command: GenerateFlashcardsCommand,
+  defaultModel: string = DEFAULT_GENERATION_MODEL
+): GenerationParameters {
+  const defaultCount = Math.min(Math.max(Math.floor(command.source_text.length / 1000), 5), 10);
+
+  return {
+    model: command.model ?? defaultModel,
+    card_count: command.card_count ?? defaultCount,
+    difficulty: command.difficulty ?? null,
+    language: command.language ?? null,
+    focus: command.focus?.trim() || null,
+  };
+}
+
+/**
+ * Create the prompt for generating flashcards with explicit JSON instructions
+ */
+export function buildGenerationPrompt(sourceText: string, params: GenerationParameters): string {
+  const language = params.language ? LANGUAGE_NAMES[params.language] : 'the language of the text';
+  const instructions = [
+    params.difficulty && DIFFICULTY_INSTRUCTIONS[params.difficulty],
+    params.focus && `Concentrate on the following aspect of the text: ${params.focus}`,
+  ].filter(Boolean);
+
+  return `Generate ${params.card_count} educational flashcards from the following text. 
+Each flashcard should focus on a key concept or fact from the text.
+Focus on creating effective learning materials with clear questions and concise answers.
+${instructions.map((line) => `${line}\n`).join('')}Write the questions, answers and tags in ${language}.
+For each flashcard suggest 1-3 short topic tags (single words or short phrases).
+
+IMPORTANT: You MUST respond with a valid JSON object following this exact structure:
+{
+  "flashcards": [
+    {
+      "front": "Question 1",
+      "back": "Answer 1",
+      "tags": ["topic"]
+    },
+    {
+      "front": "Question 2",
+      "back": "Answer 2",
+      "tags": ["topic", "subtopic"]
+    }
+    ...
+  ]
+}
+
+Do not include any explanations, introductions, or any text outside the JSON structure.
+
+SOURCE TEXT:
+${sourceText}`;
+}
+
+/**
+ * Model parameters; the token limit grows with the number of requested flashcards
+ */
+function getModelParameters(params: GenerationParameters) {
+  return {
+    temperature: 0.4,
+    top_p: 0.95,
+    max_tokens: Math.max(MIN_MAX_TOKENS, params.card_count * TOKENS_PER_CARD),
+  };
+}
+
+/**
+ * OpenRouter fills in zeros when a response carries no usage; those are not recorded
+ */
+function toReportedUsage(usage: TokenUsage | undefined): TokenUsage | null {
+  return usage && usage.total_tokens > 0 ? usage : null;
+}
+
+/**
+ * Whether a proposal fits the limits of a saved flashcard. The AI does not always respect
+ * them, and such a proposal would only be rejected when the user saves it, so it is dropped.
+ */
+function isValidProposal(proposal: FlashcardProposalDto): boolean {
+  const result = flashcardContentSchema.safeParse(proposal);
+  if (!result.success) {
+    console.warn(
+      'Dropping an invalid flashcard proposal:',
+      result.error.issues.map((issue) => issue.message).join(', ')
+    );
+  }
+  return result.success;
+}
+
+/**
+ * Tokens used by a chat response; a response served from the cache used none
+ */
+function toResponseUsage(response: ChatResponse): TokenUsage | null {
+  return response.cached ? null : toReportedUsage(response.usage);
+}
 
 /**
  * Service responsible for flashcard generation logic
@@ -19,13 +234,26 @@ import type { ChatOptions, FlashcardCollectionContent } from '../services/openro
 export class GenerationService {
   private readonly supabase: SupabaseClient<Database>;
   private readonly openRouter;
-  private readonly model = 'openai/gpt-4.1-nano'; // Default OpenRouter model
+  private readonly modelsService = new ModelsService();
+  private readonly model = getAllowedModels()[0]; // Default OpenRouter model
+  private readonly reuseScope = parseReuseScope(import.meta.env.GENERATION_REUSE_SCOPE);
+  private readonly dailyGenerationLimit = getQuotaLimits().dailyGenerations;
   private readonly aiRequestTimeout = 40000; // 40s timeout as specified in plan
 
   constructor(supabase: SupabaseClient<Database>) {
     this.supabase = supabase;
     this.openRouter = createOpenRouterService({
       defaultModel: this.model,
+      // Another allowed model is tried when the requested one fails; the generation
+      // records the model that actually answered
+      fallbackModels: getFallbackModels(),
+      // Shared by all server instances; a new service is created for every request
+      cacheOptions: {
+        enabled: true,
+        ttl: RESPONSE_CACHE_TTL,
+        maxSize: 100,
+        store: new AiResponseCacheService(supabase),
+      },
       timeout: this.aiRequestTimeout,
       defaultSystemMessage:
         'You are a specialized AI that creates educational flashcards. Your task is to create clear, concise, and educational flashcards based on the text provided.',
@@ -33,13 +261,18 @@ export class GenerationService {
   }
 
   /**
-   * Generate flashcards from source text
+   * Generate flashcards from source text. Unless `force_refresh` is set, the proposals of
+   * an earlier generation with the same text, model and parameters are reused without
+   * calling the AI.
    * @param userId - Current user ID
    * @param data - Generation command data
+   * @param signal - Aborts the AI request; the generation is then recorded as cancelled
    * @returns Generation results with proposals
    * @throws Error on validation or processing failures
+   * @throws RequestCancelledError when `signal` is aborted
+   * @throws GenerationQuotaExceededError when concurrent requests used up the daily quota
    */
-  async generateFlashcards(userId: string, data: GenerateFlashcardsCommand) {
+  async generateFlashcards(userId: string, data: GenerateFlashcardsCommand, signal?: AbortSignal) {
     // Validate input length
     if (data.source_text.length < 1000 || data.source_text.length > 10000) {
       throw new Error('Source text must be between 1000 and 10000 characters');
@@ -48,60 +281,375 @@ export class GenerationService {
     // Calculate hash and length
     const sourceTextHash = this.calculateTextHash(data.source_text);
     const sourceTextLength = data.source_text.length;
+    const params = resolveGenerationParameters(data, this.model);
+    const requestHash = calculateRequestHash(sourceTextHash, params);
+    let generationId: number | undefined;
+
+    const reusable = data.force_refresh
+      ? null
+      : await this.findReusableGeneration(userId, requestHash);
+    if (reusable) {
+      return {
+        generation_id: await this.storeReusedGeneration(
+          userId,
+          sourceTextHash,
+          sourceTextLength,
+          params,
+          requestHash,
+          reusable
+        ),
+        flashcards_proposal: reusable.proposals,
+        reused_at: reusable.generatedAt,
+      };
+    }
 
     try {
-      // Create generation record in database
-      const { data: generation, error: genError } = await this.supabase
-        .from('generations')
-        .insert({
-          user_id: userId,
-          model: this.model,
-          source_text_hash: sourceTextHash,
-          source_text_length: sourceTextLength,
-          generated_count: 0, // Will be updated after successful generation
-          accepted_count: 0,
-        })
-        .select('id')
-        .single();
+      generationId = await this.createGenerationRecord(
+        userId,
+        sourceTextHash,
+        sourceTextLength,
+        params,
+        requestHash
+      );
 
-      if (genError) {
-        throw new Error(`Failed to create generation: ${genError.message}`);
-      }
+      // Generate flashcards using OpenRouter AI service, measuring wall-clock duration
+      const aiStartedAt = Date.now();
+      const result = await this.callAiService(
+        data.source_text,
+        params,
+        !data.force_refresh,
+        signal
+      );
+      const duration = Date.now() - aiStartedAt;
 
-      if (!generation) {
-        throw new Error('Failed to create generation: No record returned');
+      await this.storeGenerationResults(generationId, userId, result, params.model, duration);
+
+      return {
+        generation_id: generationId,
+        flashcards_proposal: result.proposals,
+        reused_at: null,
+      };
+    } catch (error) {
+      // Record the failure (or cancellation) and rethrow
+      await this.handleGenerationFailure(
+        userId,
+        error instanceof Error ? error : new Error('Unknown error'),
+        sourceTextHash,
+        sourceTextLength,
+        params.model,
+        generationId
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Generate flashcards from source text, yielding each proposal as soon as the model
+   * has finished writing it. Proposals are stored once the whole response has arrived.
+   * Reused proposals of an earlier generation (see `generateFlashcards`) are all yielded at once.
+   * @param userId - Current user ID
+   * @param data - Generation command data
+   * @param signal - Aborts the AI request; the generation is then recorded as cancelled
+   * @returns Stream events: the generation ID, every proposal and the final count
+   * @throws Error on validation or processing failures
+   * @throws RequestCancelledError when `signal` is aborted
+   * @throws GenerationQuotaExceededError when concurrent requests used up the daily quota
+   */
+  async *streamFlashcards(
+    userId: string,
+    data: GenerateFlashcardsCommand,
+    signal?: AbortSignal
+  ): AsyncGenerator<GenerationStreamEventDto> {
+    if (data.source_text.length < 1000 || data.source_text.length > 10000) {
+      throw new Error('Source text must be between 1000 and 10000 characters');
+    }
+
+    const sourceTextHash = this.calculateTextHash(data.source_text);
+    const sourceTextLength = data.source_text.length;
+    const params = resolveGenerationParameters(data, this.model);
+    const requestHash = calculateRequestHash(sourceTextHash, params);
+    let generationId: number | undefined;
+    let settled = false;
+
+    const reusable = data.force_refresh
+      ? null
+      : await this.findReusableGeneration(userId, requestHash);
+    if (reusable) {
+      const reusedId = await this.storeReusedGeneration(
+        userId,
+        sourceTextHash,
+        sourceTextLength,
+        params,
+        requestHash,
+        reusable
+      );
+
+      yield { type: 'generation', generation_id: reusedId, reused_at: reusable.generatedAt };
+      for (const [position, proposal] of reusable.proposals.entries()) {
+        yield { type: 'proposal', position, proposal };
       }
+      yield { type: 'done', generation_id: reusedId, generated_count: reusable.proposals.length };
+      return;
+    }
 
-      // Generate flashcards using OpenRouter AI service
-      const flashcardProposals = await this.callAiService(data.source_text);
+    try {
+      generationId = await this.createGenerationRecord(
+        userId,
+        sourceTextHash,
+        sourceTextLength,
+        params,
+        requestHash
+      );
+      yield { type: 'generation', generation_id: generationId, reused_at: null };
 
-      // Update generation record with results
-      const { error: updateError } = await this.supabase
-        .from('generations')
-        .update({
-          generated_count: flashcardProposals.length,
-        })
-        .eq('id', generation.id);
-
-      if (updateError) {
-        console.error('Failed to update generation count:', updateError);
-        // Continue despite the error to return flashcards to user
+      const aiStartedAt = Date.now();
+      const result: AiGenerationResult = { proposals: [], model: params.model, usage: null };
+      for await (const proposal of this.streamAiService(data.source_text, params, result, signal)) {
+        yield { type: 'proposal', position: result.proposals.length - 1, proposal };
       }
+      const duration = Date.now() - aiStartedAt;
 
-      return {
-        generation_id: generation.id,
-        flashcards_proposal: flashcardProposals,
+      await this.storeGenerationResults(generationId, userId, result, params.model, duration);
+      settled = true;
+
+      yield {
+        type: 'done',
+        generation_id: generationId,
+        generated_count: result.proposals.length,
       };
     } catch (error) {
-      // Log error and rethrow
-      await this.logGenerationError(
+      settled = true;
+      await this.handleGenerationFailure(
         userId,
         error instanceof Error ? error : new Error('Unknown error'),
         sourceTextHash,
-        sourceTextLength
+        sourceTextLength,
+        params.model,
+        generationId
       );
       throw error;
+    } finally {
+      // The consumer stopped reading (e.g. the client disconnected) before the end
+      if (!settled && generationId !== undefined) {
+        await this.updateGenerationStatus(generationId, 'cancelled');
+      }
+    }
+  }
+
+  /**
+   * List generation sessions of a user
+   * @param params - Validated pagination and sorting parameters
+   * @param userId - Current user ID
+   * @returns Paginated list of generations
+   */
+  async getGenerations(
+    params: GenerationsQuerySchemaType,
+    userId: string
+  ): Promise<GenerationsPaginatedResponseDto> {
+    const { page, limit, sort, order } = params;
+    const offset = (page - 1) * limit;
+
+    const { data, count, error } = await this.supabase
+      .from('generations')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order(sort, { ascending: order === 'asc' })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch generations: ${error.message}`);
     }
+
+    const total = count ?? 0;
+
+    return {
+      data: data as GenerationDto[],
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a single generation with the flashcards that were saved from it
+   * @param id - Generation ID
+   * @param userId - Current user ID
+   * @returns Generation details or null if it does not exist
+   */
+  async getGenerationById(id: number, userId: string): Promise<GenerationDetailDto | null> {
+    const { data, error } = await this.supabase
+      .from('generations')
+      .select(
+        `*,
+        flashcards(id, generation_id, deck_id, front, back, source, created_at, updated_at),
+        generation_proposals(id, position, original_front, original_back, final_front, final_back, suggested_tags, decision, flashcard_id, created_at, decided_at)`
+      )
+      .eq('id', id)
+      .eq('user_id', userId)
+      .order('id', { referencedTable: 'flashcards', ascending: true })
+      .order('position', { referencedTable: 'generation_proposals', ascending: true })
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // Record not found
+        return null;
+      }
+      throw new Error(`Failed to fetch generation: ${error.message}`);
+    }
+
+    const { flashcards, generation_proposals: proposals, ...generation } = data;
+
+    return {
+      ...generation,
+      status: generation.status as GenerationStatus,
+      difficulty: generation.difficulty as GenerationDifficulty | null,
+      language: generation.language as GenerationLanguage | null,
+      flashcards: (flashcards ?? []) as FlashcardDto[],
+      proposals: (proposals ?? []) as GenerationProposalDto[],
+    };
+  }
+
+  /**
+   * Record the user's final decision on each proposal of a generation
+   * and update the generation's accepted count
+   * @param generationId - Generation ID
+   * @param userId - Current user ID
+   * @param command - Decisions keyed by proposal position
+   * @returns Updated generation or null if it does not exist
+   * @throws Error when a referenced flashcard does not belong to the generation
+   */
+  async recordProposalDecisions(
+    generationId: number,
+    userId: string,
+    command: RecordProposalDecisionsCommand
+  ): Promise<GenerationDto | null> {
+    const { data: generation, error: genError } = await this.supabase
+      .from('generations')
+      .select('id')
+      .eq('id', generationId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (genError) {
+      throw new Error(`Failed to fetch generation: ${genError.message}`);
+    }
+
+    if (!generation) {
+      return null;
+    }
+
+    // Flashcards linked to decisions must come from this generation
+    const flashcardIds = command.decisions
+      .map((decision) => decision.flashcard_id)
+      .filter((id): id is number => id !== null && id !== undefined);
+
+    if (flashcardIds.length > 0) {
+      const { data: flashcards, error: flashcardsError } = await this.supabase
+        .from('flashcards')
+        .select('id')
+        .in('id', flashcardIds)
+        .eq('user_id', userId)
+        .eq('generation_id', generationId);
+
+      if (flashcardsError) {
+        throw new Error(`Failed to validate flashcards: ${flashcardsError.message}`);
+      }
+
+      const foundIds = new Set(flashcards?.map((f) => f.id) ?? []);
+      const invalidIds = flashcardIds.filter((id) => !foundIds.has(id));
+      if (invalidIds.length > 0) {
+        throw new Error(`Invalid flashcard references: ${invalidIds.join(', ')}`);
+      }
+    }
+
+    const now = new Date().toISOString();
+    const results = await Promise.all(
+      command.decisions.map((decision) =>
+        this.supabase
+          .from('generation_proposals')
+          .update({
+            decision: decision.decision,
+            flashcard_id: decision.decision === 'rejected' ? null : (decision.flashcard_id ?? null),
+            final_front: decision.decision === 'edited' ? (decision.final_front ?? null) : null,
+            final_back: decision.decision === 'edited' ? (decision.final_back ?? null) : null,
+            decided_at: decision.decided_at ?? now,
+          })
+          .eq('generation_id', generationId)
+          .eq('user_id', userId)
+          .eq('position', decision.position)
+      )
+    );
+
+    const failed = results.find((result) => result.error);
+    if (failed?.error) {
+      throw new Error(`Failed to record proposal decisions: ${failed.error.message}`);
+    }
+
+    // Accepted count covers proposals saved as-is and after editing
+    const { count, error: countError } = await this.supabase
+      .from('generation_proposals')
+      .select('id', { count: 'exact', head: true })
+      .eq('generation_id', generationId)
+      .in('decision', ['accepted', 'edited']);
+
+    if (countError) {
+      throw new Error(`Failed to count accepted proposals: ${countError.message}`);
+    }
+
+    const { data: updated, error: updateError } = await this.supabase
+      .from('generations')
+      .update({ accepted_count: count ?? 0 })
+      .eq('id', generationId)
+      .eq('user_id', userId)
+      .select('*')
+      .single();
+
+    if (updateError) {
+      throw new Error(`Failed to update accepted count: ${updateError.message}`);
+    }
+
+    return updated as GenerationDto;
+  }
+
+  /**
+   * List failed generation attempts of a user
+   * @param params - Validated pagination and sorting parameters
+   * @param userId - Current user ID
+   * @returns Paginated list of error logs, newest first by default
+   */
+  async getGenerationErrors(
+    params: GenerationErrorsQuerySchemaType,
+    userId: string
+  ): Promise<GenerationErrorLogsPaginatedResponseDto> {
+    const { page, limit, order } = params;
+    const offset = (page - 1) * limit;
+
+    const { data, count, error } = await this.supabase
+      .from('generation_error_logs')
+      .select('*', { count: 'exact' })
+      .eq('user_id', userId)
+      .order('timestamp', { ascending: order === 'asc' })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to fetch generation errors: ${error.message}`);
+    }
+
+    const total = count ?? 0;
+
+    return {
+      data: data ?? [],
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit),
+      },
+    };
   }
 
   /**
@@ -112,131 +660,494 @@ export class GenerationService {
   }
 
   /**
-   * Call AI service to generate flashcards from source text
-   * @param sourceText - Text to generate flashcards from
-   * @returns Array of flashcard proposals
-   * @throws Error if AI service fails or times out
+   * Create the generation record, including the requested parameters, before the AI is called.
+   * The daily generation quota is checked in the same transaction, so concurrent requests
+   * of the user cannot exceed it together.
+   * @returns ID of the new generation
+   * @throws GenerationQuotaExceededError when the daily generation quota is used up
    */
-  private async callAiService(sourceText: string): Promise<FlashcardProposalDto[]> {
+  private async createGenerationRecord(
+    userId: string,
+    sourceTextHash: string,
+    sourceTextLength: number,
+    params: GenerationParameters,
+    requestHash: string
+  ): Promise<number> {
+    const { data: generationId, error: genError } = await this.supabase.rpc('create_generation', {
+      p_user_id: userId,
+      p_model: params.model,
+      p_source_text_hash: sourceTextHash,
+      p_source_text_length: sourceTextLength,
+      p_request_hash: requestHash,
+      p_card_count: params.card_count,
+      p_difficulty: params.difficulty,
+      p_language: params.language,
+      p_focus: params.focus,
+      p_daily_limit: this.dailyGenerationLimit,
+    });
+
+    if (genError) {
+      if (genError.code === 'PT429') {
+        throw new GenerationQuotaExceededError();
+      }
+      throw new Error(`Failed to create generation: ${genError.message}`);
+    }
+
+    if (!generationId) {
+      throw new Error('Failed to create generation: No record returned');
+    }
+
+    return generationId;
+  }
+
+  /**
+   * Proposals of the latest completed generation of the same request: the user's own,
+   * or with GENERATION_REUSE_SCOPE=all those of any user. Reuse only saves an AI call,
+   * so a failed lookup is logged and the AI is called as usual.
+   * @returns Proposals and when they were generated, or null when there is nothing to reuse
+   */
+  private async findReusableGeneration(
+    userId: string,
+    requestHash: string
+  ): Promise<ReusableGeneration | null> {
     try {
-      // Create a timeout promise that rejects after specified milliseconds
-      const timeoutPromise = new Promise<never>((_, reject) => {
-        setTimeout(() => reject(new Error('AI service request timed out')), this.aiRequestTimeout);
-      });
+      const { data, error } = await this.supabase
+        .from('generations')
+        .select(
+          'created_at, generation_proposals(position, original_front, original_back, suggested_tags)'
+        )
+        .eq('user_id', userId)
+        .eq('request_hash', requestHash)
+        .eq('status', 'completed')
+        .eq('reused', false)
+        .gt('generated_count', 0)
+        .order('created_at', { ascending: false })
+        .order('position', { referencedTable: 'generation_proposals', ascending: true })
+        .limit(1)
+        .maybeSingle();
 
-      // The actual AI service call using OpenRouter
-      const aiServicePromise = this.makeAiServiceRequest(sourceText);
+      if (error) {
+        throw new Error(`Failed to find a reusable generation: ${error.message}`);
+      }
 
-      // Race the AI call against the timeout
-      const flashcards = await Promise.race([aiServicePromise, timeoutPromise]);
+      if (data && data.generation_proposals.length > 0) {
+        return {
+          proposals: data.generation_proposals.map((proposal) => this.toReusedProposal(proposal)),
+          generatedAt: data.created_at,
+        };
+      }
 
-      return flashcards;
+      if (this.reuseScope !== 'all') {
+        return null;
+      }
+
+      // Generations of other users are only readable through this function
+      const { data: shared, error: sharedError } = await this.supabase.rpc(
+        'find_shared_generation_proposals',
+        { p_request_hash: requestHash }
+      );
+
+      if (sharedError) {
+        throw new Error(`Failed to find a shared generation: ${sharedError.message}`);
+      }
+
+      return shared.length > 0
+        ? {
+            proposals: shared.map((proposal) => this.toReusedProposal(proposal)),
+            generatedAt: shared[0].generated_at,
+          }
+        : null;
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message === 'AI service request timed out') {
-          throw new Error('AI generation timed out after 40 seconds');
-        }
-        throw error;
+      console.warn('Reusable generation lookup failed, calling the AI:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a generation answered with the proposals of an earlier one. It is completed
+   * straight away, without tokens or cost, so that the user's decisions can be recorded.
+   * @returns ID of the new generation
+   */
+  private async storeReusedGeneration(
+    userId: string,
+    sourceTextHash: string,
+    sourceTextLength: number,
+    params: GenerationParameters,
+    requestHash: string,
+    { proposals }: ReusableGeneration
+  ): Promise<number> {
+    // Not counted towards the daily quota, so it is inserted without the quota check
+    const { data: generation, error: genError } = await this.supabase
+      .from('generations')
+      .insert({
+        user_id: userId,
+        source_text_hash: sourceTextHash,
+        source_text_length: sourceTextLength,
+        generated_count: 0, // Will be updated with the reused proposals
+        accepted_count: 0,
+        status: 'pending',
+        request_hash: requestHash,
+        reused: true,
+        ...params,
+      })
+      .select('id')
+      .single();
+
+    if (genError) {
+      throw new Error(`Failed to create generation: ${genError.message}`);
+    }
+
+    const generationId = generation.id;
+
+    await this.storeGenerationResults(
+      generationId,
+      userId,
+      { proposals, model: params.model, usage: null },
+      params.model,
+      0
+    );
+
+    return generationId;
+  }
+
+  /**
+   * Update the generation with its results, the model that generated them and the cost,
+   * and persist the proposals so that the user's decisions can be recorded later.
+   * Failures are only logged, the proposals are returned to the user anyway.
+   */
+  private async storeGenerationResults(
+    generationId: number,
+    userId: string,
+    { proposals: flashcardProposals, model, usage }: AiGenerationResult,
+    requestedModel: string,
+    duration: number
+  ): Promise<void> {
+    // Users cannot update the usage themselves, it counts towards their quota
+    const { data: completed, error: updateError } = await this.supabase.rpc('complete_generation', {
+      p_generation_id: generationId,
+      p_generated_count: flashcardProposals.length,
+      p_model: model,
+      p_duration: duration,
+      p_prompt_tokens: usage?.prompt_tokens ?? null,
+      p_completion_tokens: usage?.completion_tokens ?? null,
+      p_cost: usage ? await this.calculateGenerationCost(usage, [model, requestedModel]) : null,
+    });
+
+    if (updateError) {
+      console.error('Failed to update generation count:', updateError);
+    } else if (!completed) {
+      console.error(
+        `Generation ${generationId} was no longer pending, its results were not stored`
+      );
+    }
+
+    const { error: proposalsError } = await this.supabase.from('generation_proposals').insert(
+      flashcardProposals.map((proposal, position) => ({
+        generation_id: generationId,
+        user_id: userId,
+        position,
+        original_front: proposal.front,
+        original_back: proposal.back,
+        suggested_tags: proposal.tags,
+      }))
+    );
+
+    if (proposalsError) {
+      console.error('Failed to store generation proposals:', proposalsError);
+    }
+  }
+
+  /**
+   * Cost of the generation from the prices of the model that generated it,
+   * or of the requested model when OpenRouter reported a more specific one
+   * The results are not held back by a slow model list: when the prices are not known
+   * within PRICING_TIMEOUT, the cost is left out and the lookup only fills the cache.
+   * @returns Cost in USD, or null when the prices are not known
+   */
+  private async calculateGenerationCost(
+    usage: TokenUsage,
+    modelIds: string[]
+  ): Promise<number | null> {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<'timeout'>((resolve) => {
+      timeoutId = setTimeout(() => resolve('timeout'), PRICING_TIMEOUT);
+    });
+
+    try {
+      const pricing = await Promise.race([this.modelsService.getPricing(modelIds), timeout]);
+      if (pricing === 'timeout') {
+        console.warn('Model pricing took too long, the cost is not recorded');
+        return null;
       }
-      throw new Error('Unknown error during AI flashcard generation');
+      return pricing ? calculateCost(usage, pricing) : null;
+    } catch (error) {
+      console.warn('Failed to fetch model pricing, the cost is not recorded:', error);
+      return null;
+    } finally {
+      clearTimeout(timeoutId);
     }
   }
 
   /**
-   * Makes the actual API request to the OpenRouter AI service
+   * Call AI service to generate flashcards from source text
+   * @param sourceText - Text to generate flashcards from
+   * @param params - Resolved generation parameters
+   * @param useCache - Whether a cached response of the same request may be used
+   * @param signal - Aborts the request to the AI service
+   * @returns Flashcard proposals and the model that generated them
+   * @throws Error if AI service fails, times out or is cancelled
    */
-  private async makeAiServiceRequest(sourceText: string): Promise<FlashcardProposalDto[]> {
+  private async callAiService(
+    sourceText: string,
+    params: GenerationParameters,
+    useCache: boolean,
+    signal?: AbortSignal
+  ): Promise<AiGenerationResult> {
+    const deadline = this.createAiDeadline(signal);
+
     try {
-      // Determine number of flashcards to generate based on content length
-      const cardCount = Math.min(Math.max(Math.floor(sourceText.length / 1000), 5), 10);
+      return await this.makeAiServiceRequest(sourceText, params, useCache, deadline.signal);
+    } catch (error) {
+      throw deadline.toError(error);
+    } finally {
+      deadline.dispose();
+    }
+  }
 
-      // Create the prompt for generating flashcards with explicit JSON instructions
-      const prompt = `Generate ${cardCount} educational flashcards from the following text. 
-Each flashcard should focus on a key concept or fact from the text.
-Focus on creating effective learning materials with clear questions and concise answers.
+  /**
+   * Abort signal for a single AI call. It fires when the caller aborts `signal`
+   * or when the AI timeout passes, so that the fetch does not keep running.
+   */
+  private createAiDeadline(signal?: AbortSignal) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.aiRequestTimeout);
+    const abort = () => controller.abort();
 
-IMPORTANT: You MUST respond with a valid JSON object following this exact structure:
-{
-  "flashcards": [
-    {
-      "front": "Question 1",
-      "back": "Answer 1"
-    },
-    {
-      "front": "Question 2",
-      "back": "Answer 2"
+    signal?.addEventListener('abort', abort, { once: true });
+    if (signal?.aborted) {
+      controller.abort();
     }
-    ...
-  ]
-}
 
-Do not include any explanations, introductions, or any text outside the JSON structure.
+    return {
+      signal: controller.signal,
+      /** Translates errors caused by the abort into a cancellation or a timeout */
+      toError: (error: unknown): unknown => {
+        if (signal?.aborted) {
+          return error instanceof RequestCancelledError
+            ? error
+            : new RequestCancelledError('Generation was cancelled');
+        }
+        if (controller.signal.aborted) {
+          return new TimeoutError(
+            `AI generation timed out after ${this.aiRequestTimeout / 1000} seconds`
+          );
+        }
+        return error;
+      },
+      dispose: () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', abort);
+      },
+    };
+  }
 
-SOURCE TEXT:
-${sourceText}`;
+  /**
+   * Makes the actual API request to the OpenRouter AI service
+   */
+  private async makeAiServiceRequest(
+    sourceText: string,
+    params: GenerationParameters,
+    useCache: boolean,
+    signal: AbortSignal
+  ): Promise<AiGenerationResult> {
+    try {
+      const prompt = buildGenerationPrompt(sourceText, params);
+      const modelParameters = getModelParameters(params);
 
       try {
         // Call OpenRouter API with flashcard schema
         const response = await this.openRouter.chat({
           userMessage: prompt,
+          model: params.model,
           responseFormat: SCHEMAS.FLASHCARD_COLLECTION,
-          parameters: {
-            temperature: 0.4,
-            top_p: 0.95,
-            max_tokens: 2000,
-          },
+          parameters: modelParameters,
+          cache: useCache,
+          abortSignal: signal,
         });
 
         // Convert the response to our FlashcardProposalDto format
         const flashcardCollection = response.content as FlashcardCollectionContent;
 
-        return flashcardCollection.flashcards.map((card) => ({
-          front: card.front,
-          back: card.back,
-          source: 'ai-full' as const,
-        }));
+        return {
+          proposals: flashcardCollection.flashcards
+            .map((card) => this.toProposal(card))
+            .filter(isValidProposal),
+          model: response.model || params.model,
+          usage: toResponseUsage(response),
+        };
       } catch (schemaError) {
+        // A cancelled or timed out request is not retried
+        if (signal.aborted) {
+          throw schemaError;
+        }
+
         // Fallback: Try using a text response and manual JSON parsing
         console.warn('Schema validation failed, attempting fallback method:', schemaError);
 
         const textResponse = await this.openRouter.chat({
           userMessage: prompt,
+          model: params.model,
           // No responseFormat specified - get raw text
-          parameters: {
-            temperature: 0.4,
-            top_p: 0.95,
-            max_tokens: 2000,
-          },
+          parameters: modelParameters,
+          cache: useCache,
+          abortSignal: signal,
         });
 
-        // Extract JSON from text response
-        const content = textResponse.content as string;
-        const jsonMatch = content.match(/\{[\s\S]*\}/);
-
-        if (jsonMatch) {
-          try {
-            const parsedJson = JSON.parse(jsonMatch[0]);
-            if (parsedJson.flashcards && Array.isArray(parsedJson.flashcards)) {
-              return parsedJson.flashcards.map((card: any) => ({
-                front: card.front || '',
-                back: card.back || '',
-                source: 'ai-full' as const,
-              }));
-            }
-          } catch (parseError) {
-            console.error('Failed to parse extracted JSON:', parseError);
+        return {
+          proposals: this.parseTextResponse(
+            textResponse.content as string,
+            params.card_count
+          ).filter(isValidProposal),
+          model: textResponse.model || params.model,
+          usage: toResponseUsage(textResponse),
+        };
+      }
+    } catch (error) {
+      console.error('Error calling OpenRouter service:', error);
+      // Keep OpenRouter errors intact so their code, status and attempts can be logged
+      if (error instanceof OpenRouterError) {
+        throw error;
+      }
+      throw new Error('Failed to generate flashcards from text');
+    }
+  }
+
+  /**
+   * Streams the response of the OpenRouter AI service and yields every flashcard
+   * as soon as it has been parsed; flashcards over the length limits are dropped, as in
+   * a blocking request. The flashcards, the model writing the response
+   * and the reported usage are collected in `result`. When the response turns out not
+   * to be the expected JSON, the complete text goes through the same fallback as
+   * a blocking request.
+   * @throws TimeoutError if the whole response does not arrive within the AI timeout
+   * @throws RequestCancelledError when `signal` is aborted
+   */
+  private async *streamAiService(
+    sourceText: string,
+    params: GenerationParameters,
+    result: AiGenerationResult,
+    signal?: AbortSignal
+  ): AsyncGenerator<FlashcardProposalDto> {
+    const parser = new FlashcardStreamParser();
+    // The deadline also covers reading the body, not only the response headers
+    const deadline = this.createAiDeadline(signal);
+
+    try {
+      const stream = await this.openRouter.stream({
+        userMessage: buildGenerationPrompt(sourceText, params),
+        model: params.model,
+        responseFormat: SCHEMAS.FLASHCARD_COLLECTION,
+        parameters: getModelParameters(params),
+        abortSignal: deadline.signal,
+      });
+
+      const reader = stream.getReader();
+      try {
+        while (true) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          result.model = value.model || result.model;
+          result.usage = value.usage ? toReportedUsage(value.usage) : result.usage;
+          for (const card of parser.push(value.content)) {
+            const proposal = this.toProposal(card);
+            if (!isValidProposal(proposal)) continue;
+            result.proposals.push(proposal);
+            yield proposal;
           }
         }
-
-        // If all else fails, try to extract flashcards from text using patterns
-        return this.extractFlashcardsFromText(content, cardCount);
+      } finally {
+        // Closes the OpenRouter connection when the consumer stops early
+        await reader.cancel().catch(() => undefined);
       }
     } catch (error) {
-      console.error('Error calling OpenRouter service:', error);
+      const aiError = deadline.toError(error);
+      console.error('Error streaming from OpenRouter service:', aiError);
+      if (aiError instanceof OpenRouterError) {
+        throw aiError;
+      }
       throw new Error('Failed to generate flashcards from text');
+    } finally {
+      deadline.dispose();
+    }
+
+    if (result.proposals.length === 0) {
+      console.warn('No flashcards parsed from the stream, attempting fallback method');
+      const proposals = this.parseTextResponse(parser.text, params.card_count);
+      for (const proposal of proposals.filter(isValidProposal)) {
+        result.proposals.push(proposal);
+        yield proposal;
+      }
     }
   }
 
+  /**
+   * Convert a flashcard returned by the AI to a proposal
+   */
+  private toProposal(card: FlashcardCollectionContent['flashcards'][number]): FlashcardProposalDto {
+    return {
+      front: card.front,
+      back: card.back,
+      source: 'ai-full' as const,
+      tags: normalizeTagNames(card.tags ?? []).slice(0, MAX_SUGGESTED_TAGS),
+    };
+  }
+
+  /**
+   * Convert a stored proposal of an earlier generation back to its original form
+   */
+  private toReusedProposal(
+    proposal: Pick<
+      Database['public']['Tables']['generation_proposals']['Row'],
+      'original_front' | 'original_back' | 'suggested_tags'
+    >
+  ): FlashcardProposalDto {
+    return {
+      front: proposal.original_front,
+      back: proposal.original_back,
+      source: 'ai-full' as const,
+      tags: proposal.suggested_tags,
+    };
+  }
+
+  /**
+   * Extract flashcards from a response that did not match the schema:
+   * first the embedded JSON object, then the text patterns
+   */
+  private parseTextResponse(content: string, cardCount: number): FlashcardProposalDto[] {
+    const jsonMatch = content.match(/\{[\s\S]*\}/);
+
+    if (jsonMatch) {
+      try {
+        const parsedJson = JSON.parse(jsonMatch[0]);
+        if (parsedJson.flashcards && Array.isArray(parsedJson.flashcards)) {
+          return parsedJson.flashcards.map((card: any) =>
+            this.toProposal({
+              front: card.front || '',
+              back: card.back || '',
+              tags: Array.isArray(card.tags) ? card.tags.map(String) : [],
+            })
+          );
+        }
+      } catch (parseError) {
+        console.error('Failed to parse extracted JSON:', parseError);
+      }
+    }
+
+    // If all else fails, try to extract flashcards from text using patterns
+    return this.extractFlashcardsFromText(content, cardCount);
+  }
+
   /**
    * Fallback method to extract flashcards from unstructured text response
    * when JSON parsing fails
@@ -260,6 +1171,7 @@ ${sourceText}`;
           front,
           back,
           source: 'ai-full' as const,
+          tags: [],
         });
       }
     }
@@ -276,6 +1188,7 @@ ${sourceText}`;
             front,
             back,
             source: 'ai-full' as const,
+            tags: [],
           });
         }
       }
@@ -293,6 +1206,7 @@ ${sourceText}`;
             front,
             back,
             source: 'ai-full' as const,
+            tags: [],
           });
         }
       }
@@ -315,12 +1229,14 @@ ${sourceText}`;
               front,
               back,
               source: 'ai-full' as const,
+              tags: [],
             });
           } else {
             flashcards.push({
               front: `What is important about this content?`,
               back: paragraph,
               source: 'ai-full' as const,
+              tags: [],
             });
           }
         }
@@ -331,28 +1247,88 @@ ${sourceText}`;
   }
 
   /**
-   * Log generation errors to the database for monitoring and debugging
+   * Record a generation that did not finish: a cancelled one only gets its status,
+   * any other failure is also written to the error log. A generation refused by the quota
+   * was never created and is not an error.
+   */
+  private async handleGenerationFailure(
+    userId: string,
+    error: Error,
+    sourceTextHash: string,
+    sourceTextLength: number,
+    model: string,
+    generationId?: number
+  ): Promise<void> {
+    if (error instanceof RequestCancelledError) {
+      if (generationId !== undefined) {
+        await this.updateGenerationStatus(generationId, 'cancelled');
+      }
+      return;
+    }
+
+    if (error instanceof GenerationQuotaExceededError) {
+      return;
+    }
+
+    await this.logGenerationError(
+      userId,
+      error,
+      sourceTextHash,
+      sourceTextLength,
+      model,
+      generationId
+    );
+    if (generationId !== undefined) {
+      await this.updateGenerationStatus(generationId, 'failed');
+    }
+  }
+
+  /**
+   * Set the final status of a generation that did not complete
+   */
+  private async updateGenerationStatus(
+    generationId: number,
+    status: Extract<GenerationStatus, 'failed' | 'cancelled'>
+  ): Promise<void> {
+    const { error } = await this.supabase.rpc('end_generation', {
+      p_generation_id: generationId,
+      p_status: status,
+    });
+
+    if (error) {
+      console.error(`Failed to mark generation as ${status}:`, error);
+    }
+  }
+
+  /**
+   * Log generation errors to the database for monitoring and debugging.
+   * Failures that happen before the generation row exists are stored without a link.
    */
   private async logGenerationError(
     userId: string,
     error: Error,
     sourceTextHash: string,
     sourceTextLength: number,
+    model: string,
     generationId?: number
   ): Promise<void> {
-    try {
-      await this.supabase.from('generation_error_logs').insert({
-        user_id: userId,
-        error_code: error.name || 'Error',
-        error_message: error.message,
-        generation_id: generationId || 0, // Use 0 for errors before generation creation
-        model: this.model,
-        source_text_hash: sourceTextHash,
-        source_text_length: sourceTextLength,
-      });
-    } catch (logError) {
+    const isOpenRouterError = error instanceof OpenRouterError;
+
+    const { error: insertError } = await this.supabase.from('generation_error_logs').insert({
+      user_id: userId,
+      error_code: isOpenRouterError ? error.code : 'unknown_error',
+      error_message: error.message,
+      generation_id: generationId ?? null,
+      http_status: isOpenRouterError ? (error.status ?? null) : null,
+      attempt_count: isOpenRouterError ? error.attempts : 1,
+      model,
+      source_text_hash: sourceTextHash,
+      source_text_length: sourceTextLength,
+    });
+
+    if (insertError) {
       // Just log to console if we can't write to error log table
-      console.error('Failed to log generation error:', logError);
+      console.error('Failed to log generation error:', insertError);
       console.error('Original error:', error);
     }
   }
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import type {
+  ImportColumnMappingDto,
+  ImportFlashcardsCommand,
+  ImportFlashcardsResponseDto,
+  ImportRowDto,
+} from '../../types';
+import { parseDelimited } from '../csv';
+import { flashcardSchema } from '../schemas/flashcards.schema';
+import { DecksService } from './decks.service';
+import { TagsService } from './tags.service';
+
+export const MAX_IMPORT_ROWS = 2000;
+const IMPORT_BATCH_SIZE = 100;
+const MAX_DECK_NAME_LENGTH = 100;
+
+// Header names recognized when no mapping is given (compared lowercase)
+const HEADER_ALIASES: Record<keyof ImportColumnMappingDto, string[]> = {
+  front: ['front', 'question', 'przód', 'przod', 'pytanie'],
+  back: ['back', 'answer', 'tył', 'tyl', 'odpowiedź', 'odpowiedz'],
+  tags: ['tags', 'tagi'],
+  deck: ['deck', 'talia'],
+};
+
+/** Validated flashcard ready to be saved */
+export type ImportedFlashcard = Pick<ImportRowDto, 'front' | 'back' | 'tags' | 'deck'>;
+
+type ParsedImport = Omit<
+  ImportFlashcardsResponseDto,
+  'valid_count' | 'invalid_count' | 'imported_count'
+>;
+
+/**
+ * Parses an imported CSV/TSV file and validates every data row with the same rules
+ * as POST /api/flashcards. Nothing is saved.
+ * @throws Error when the file has more than MAX_IMPORT_ROWS data rows
+ */
+export function parseImportFile(
+  command: Pick<ImportFlashcardsCommand, 'content' | 'delimiter' | 'has_header' | 'mapping'>
+): ParsedImport {
+  const records = parseDelimited(command.content, command.delimiter);
+  const header = command.has_header ? records[0] : undefined;
+  const dataRecords = command.has_header ? records.slice(1) : records;
+  const firstLine = command.has_header ? 2 : 1;
+
+  if (dataRecords.length > MAX_IMPORT_ROWS) {
+    throw new Error(`Import cannot exceed ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const columns = (header ?? dataRecords[0] ?? []).map((cell) => cell.trim());
+  const mapping = command.mapping ?? detectMapping(header);
+
+  const rows = dataRecords.map((record, index) => validateRow(record, mapping, firstLine + index));
+
+  return { columns, mapping, rows };
+}
+
+/**
+ * Service importing flashcards from delimiter-separated files.
+ * Valid rows are saved as manual flashcards; invalid rows are reported and skipped.
+ */
+export class ImportService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Parses and validates the file and, unless it is a dry run, saves the valid rows
+   * in batches. Missing decks and tags are created.
+   * @param command - File content and parsing options
+   * @param userId - Current user ID
+   */
+  async importFlashcards(
+    command: ImportFlashcardsCommand,
+    userId: string
+  ): Promise<ImportFlashcardsResponseDto> {
+    const parsed = parseImportFile(command);
+    const validRows = parsed.rows.filter((row) => row.errors.length === 0);
+
+    const report: ImportFlashcardsResponseDto = {
+      ...parsed,
+      valid_count: validRows.length,
+      invalid_count: parsed.rows.length - validRows.length,
+      imported_count: 0,
+    };
+
+    if (command.dry_run || validRows.length === 0) {
+      return report;
+    }
+
+    const ids = await this.saveFlashcards(validRows, userId);
+    report.imported_count = ids.length;
+
+    return report;
+  }
+
+  /**
+   * Saves validated rows as manual flashcards in batches, creating missing decks and tags
+   * @param rows - Rows that passed validation
+   * @param userId - Current user ID
+   * @returns IDs of the created flashcards, in the order of the rows
+   */
+  async saveFlashcards(rows: ImportedFlashcard[], userId: string): Promise<number[]> {
+    const decksService = new DecksService(this.supabase);
+    const decks = await decksService.ensureDecks(
+      rows.map((row) => row.deck).filter((deck): deck is string => deck !== null),
+      userId
+    );
+    const deckIdsByName = new Map(decks.map((deck) => [deck.name, deck.id]));
+
+    const tagsService = new TagsService(this.supabase);
+    const ids: number[] = [];
+
+    for (let start = 0; start < rows.length; start += IMPORT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + IMPORT_BATCH_SIZE);
+
+      const { data, error } = await this.supabase
+        .from('flashcards')
+        .insert(
+          batch.map((row) => ({
+            front: row.front,
+            back: row.back,
+            source: 'manual',
+            generation_id: null,
+            deck_id: row.deck ? (deckIdsByName.get(row.deck) ?? null) : null,
+            user_id: userId,
+          }))
+        )
+        .select('id');
+
+      if (error) {
+        throw new Error(
+          `Failed to import flashcards (${ids.length} already saved): ${error.message}`
+        );
+      }
+
+      // Rows are returned in insertion order
+      await tagsService.addFlashcardTags(
+        new Map(data.map((flashcard, index) => [flashcard.id, batch[index].tags])),
+        userId
+      );
+
+      ids.push(...data.map((flashcard) => flashcard.id));
+    }
+
+    return ids;
+  }
+}
+
+function detectMapping(header?: string[]): ImportColumnMappingDto {
+  if (!header) {
+    return { front: 0, back: 1, tags: null, deck: null };
+  }
+
+  const names = header.map((cell) => cell.trim().toLowerCase());
+  const find = (field: keyof ImportColumnMappingDto) => {
+    const index = names.findIndex((name) => HEADER_ALIASES[field].includes(name));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    front: find('front') ?? 0,
+    back: find('back') ?? 1,
+    tags: find('tags'),
+    deck: find('deck'),
+  };
+}
+
+function validateRow(
+  record: string[],
+  mapping: ImportColumnMappingDto,
+  line: number
+): ImportRowDto {
+  const cell = (index?: number | null) =>
+    index === null || index === undefined ? '' : (record[index] ?? '').trim();
+
+  const tags = cell(mapping.tags)
+    .split(/[,;|]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  const deck = cell(mapping.deck) || null;
+
+  const row: ImportRowDto = {
+    row: line,
+    front: cell(mapping.front),
+    back: cell(mapping.back),
+    tags,
+    deck,
+    errors: [],
+  };
+
+  const result = flashcardSchema.safeParse({
+    front: row.front,
+    back: row.back,
+    source: 'manual',
+    generation_id: null,
+    tags,
+  });
+
+  if (result.success) {
+    row.tags = [...new Set(result.data.tags ?? [])];
+  } else {
+    row.errors.push(...result.error.issues.map((issue) => issue.message));
+  }
+
+  if (deck && deck.length > MAX_DECK_NAME_LENGTH) {
+    row.errors.push(`Deck name cannot exceed ${MAX_DECK_NAME_LENGTH} characters`);
+  }
+
+  return row;
+}
@@ -0,0 +1,168 @@
+import type { GenerationModelDto, ModelsResponseDto } from '../../types';
+import { createOpenRouterService } from './openrouter';
+import type { ModelInfo, TokenUsage } from './openrouter';
+
+export type ModelPricing = NonNullable<GenerationModelDto['pricing']>;
+
+export const DEFAULT_GENERATION_MODEL = 'openai/gpt-4.1-nano';
+const MODELS_CACHE_TTL = 60 * 60 * 1000; // The OpenRouter model list changes rarely
+
+// Shared by all requests handled by this server instance
+let modelsCache: { models: ModelInfo[]; expiresAt: number } | null = null;
+
+/**
+ * Reads the models users may generate with (OPENROUTER_ALLOWED_MODELS, comma-separated IDs).
+ * The first one is the default; without the variable only the default model is allowed.
+ */
+export function parseAllowedModels(value: string | undefined): string[] {
+  const models = (value ?? '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter(Boolean);
+
+  return models.length > 0 ? [...new Set(models)] : [DEFAULT_GENERATION_MODEL];
+}
+
+/**
+ * Models allowed by the administrator, the default one first
+ */
+export function getAllowedModels(): string[] {
+  return parseAllowedModels(import.meta.env.OPENROUTER_ALLOWED_MODELS);
+}
+
+/**
+ * Reads the models tried in order when the requested one fails (OPENROUTER_FALLBACK_MODELS,
+ * comma-separated IDs). Only allowed models are used, so that users are never charged
+ * for a model they could not choose; without the variable there is no fallback.
+ */
+export function parseFallbackModels(value: string | undefined, allowedModels: string[]): string[] {
+  const models = (value ?? '')
+    .split(',')
+    .map((model) => model.trim())
+    .filter((model) => allowedModels.includes(model));
+
+  return [...new Set(models)];
+}
+
+/**
+ * Fallback chain configured by the administrator
+ */
+export function getFallbackModels(): string[] {
+  return parseFallbackModels(import.meta.env.OPENROUTER_FALLBACK_MODELS, getAllowedModels());
+}
+
+/**
+ * Checks whether a model requested by the user is on the allow-list
+ */
+export function isModelAllowed(model: string): boolean {
+  return getAllowedModels().includes(model);
+}
+
+/**
+ * Reads the per-token prices of a model; OpenRouter reports them as decimal strings
+ * and uses negative prices for routers whose price depends on the chosen model
+ */
+export function toModelPricing(model: ModelInfo): ModelPricing | null {
+  const prompt = Number(model.pricing?.prompt);
+  const completion = Number(model.pricing?.completion);
+  const isPrice = (price: number) => Number.isFinite(price) && price >= 0;
+
+  return isPrice(prompt) && isPrice(completion) ? { prompt, completion } : null;
+}
+
+/**
+ * Cost of a request in USD, rounded to the precision stored in the database
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+  const cost = usage.prompt_tokens * pricing.prompt + usage.completion_tokens * pricing.completion;
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+/**
+ * Picks the allowed models from the OpenRouter list, in the order of the allow-list.
+ * Allowed models that OpenRouter does not offer (anymore) are left out.
+ */
+export function toGenerationModels(
+  models: ModelInfo[],
+  allowedModels: string[]
+): GenerationModelDto[] {
+  const modelsById = new Map(models.map((model) => [model.id, model]));
+
+  return allowedModels.flatMap((id) => {
+    const model = modelsById.get(id);
+    if (!model) return [];
+
+    return [
+      {
+        id: model.id,
+        name: model.name || model.id,
+        context_length: model.context_length,
+        pricing: toModelPricing(model),
+      },
+    ];
+  });
+}
+
+/**
+ * Service providing the models that can be chosen in the generator
+ */
+export class ModelsService {
+  private readonly openRouter;
+  private readonly allowedModels: string[];
+
+  constructor(allowedModels: string[] = getAllowedModels()) {
+    this.openRouter = createOpenRouterService();
+    this.allowedModels = allowedModels;
+  }
+
+  /**
+   * List the allowed models with their context length and pricing
+   * @returns Models and the default model
+   * @throws OpenRouterError when the model list cannot be fetched and nothing is cached
+   */
+  async getModels(): Promise<ModelsResponseDto> {
+    return {
+      data: toGenerationModels(await this.getAvailableModels(), this.allowedModels),
+      default_model: this.allowedModels[0],
+    };
+  }
+
+  /**
+   * Per-token prices of the first of the given models that OpenRouter lists.
+   * Any model is looked up, not only the allowed ones, because OpenRouter may report
+   * a more specific model than the requested one.
+   * @returns Prices, or null when none of the models is listed with pricing
+   */
+  async getPricing(modelIds: string[]): Promise<ModelPricing | null> {
+    const models = await this.getAvailableModels();
+
+    for (const id of modelIds) {
+      const model = models.find((candidate) => candidate.id === id);
+      const pricing = model && toModelPricing(model);
+      if (pricing) return pricing;
+    }
+    return null;
+  }
+
+  /**
+   * OpenRouter model list, cached for an hour. When the refresh fails,
+   * the expired list is used rather than failing the request.
+   */
+  private async getAvailableModels(): Promise<ModelInfo[]> {
+    if (modelsCache && modelsCache.expiresAt > Date.now()) {
+      return modelsCache.models;
+    }
+
+    try {
+      const models = await this.openRouter.getAvailableModels();
+      modelsCache = { models, expiresAt: Date.now() + MODELS_CACHE_TTL };
+      return models;
+    } catch (error) {
+      if (modelsCache) {
+        console.warn('Failed to refresh OpenRouter models, using the cached list:', error);
+        return modelsCache.models;
+      }
+      throw error;
+    }
+  }
+}
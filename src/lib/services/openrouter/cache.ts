@@ -0,0 +1,77 @@
+import type { CacheMetrics, ChatResponse, ResponseCache } from './types';
+
+// Shared by all service instances of this server process
+let sharedMemoryCache: ResponseCache | null = null;
+const metrics = { hits: 0, misses: 0, errors: 0 };
+
+/**
+ * Creates an in-memory response cache. Every entry expires after its own ttl;
+ * when the cache is full, the oldest entry is evicted.
+ *
+ * @param maxSize - Maximum number of responses to keep
+ */
+export function createMemoryResponseCache(maxSize: number): ResponseCache {
+  const entries = new Map<string, { value: ChatResponse; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.value;
+    },
+
+    async set(key, value, ttl) {
+      entries.delete(key);
+      if (entries.size >= maxSize) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey !== undefined) {
+          entries.delete(oldestKey);
+        }
+      }
+      entries.set(key, { value, expiresAt: Date.now() + ttl });
+    },
+  };
+}
+
+/**
+ * Returns the in-memory cache shared by the whole process. A service creates a new instance
+ * for every request, so a cache of its own would always be empty.
+ *
+ * @param maxSize - Size of the cache; only the first call creates it
+ */
+export function getSharedMemoryCache(maxSize: number): ResponseCache {
+  sharedMemoryCache ??= createMemoryResponseCache(maxSize);
+  return sharedMemoryCache;
+}
+
+/**
+ * Records the outcome of a cache lookup or write
+ */
+export function recordCacheEvent(event: 'hit' | 'miss' | 'error'): void {
+  if (event === 'hit') metrics.hits++;
+  else if (event === 'miss') metrics.misses++;
+  else metrics.errors++;
+}
+
+/**
+ * Hits and misses of all response caches since the process started (or the last reset)
+ */
+export function getCacheMetrics(): CacheMetrics {
+  const lookups = metrics.hits + metrics.misses;
+
+  return {
+    ...metrics,
+    hitRate: lookups > 0 ? metrics.hits / lookups : 0,
+  };
+}
+
+export function resetCacheMetrics(): void {
+  metrics.hits = 0;
+  metrics.misses = 0;
+  metrics.errors = 0;
+}
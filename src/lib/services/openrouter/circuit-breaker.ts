@@ -0,0 +1,47 @@
+import type { CircuitBreakerOptions } from './types';
+
+// Shared by all service instances of this server process
+const circuits = new Map<string, { failures: number; openedAt: number | null }>();
+
+/**
+ * Whether a model failed too often recently and should be skipped. After the cool-down
+ * the model gets another chance; a single failure then opens the circuit again.
+ */
+export function isCircuitOpen(
+  model: string,
+  options: CircuitBreakerOptions,
+  now: number = Date.now()
+): boolean {
+  const circuit = circuits.get(model);
+  if (!circuit || circuit.openedAt === null) return false;
+
+  return now - circuit.openedAt < options.coolDown;
+}
+
+/**
+ * Records a failure of a model; reaching the threshold opens its circuit
+ */
+export function recordModelFailure(
+  model: string,
+  options: CircuitBreakerOptions,
+  now: number = Date.now()
+): void {
+  const circuit = circuits.get(model) ?? { failures: 0, openedAt: null };
+
+  circuit.failures++;
+  if (circuit.failures >= options.failureThreshold) {
+    circuit.openedAt = now;
+  }
+  circuits.set(model, circuit);
+}
+
+/**
+ * Records a successful request of a model, which closes its circuit
+ */
+export function recordModelSuccess(model: string): void {
+  circuits.delete(model);
+}
+
+export function resetCircuitBreakers(): void {
+  circuits.clear();
+}
@@ -1,4 +1,11 @@
 export class OpenRouterError extends Error {
+  /** HTTP status returned by OpenRouter, if the error came from an API response */
+  public status?: number;
+  /** Number of attempts made before the request finally failed */
+  public attempts = 1;
+  /** Delay requested by OpenRouter in the Retry-After header, in milliseconds */
+  public retryAfter?: number;
+
   constructor(
     message: string,
     public code: string,
@@ -78,3 +85,10 @@ export class SchemaValidationError extends OpenRouterError {
     this.name = 'SchemaValidationError';
   }
 }
+
+export class RequestCancelledError extends OpenRouterError {
+  constructor(message: string, cause?: Error) {
+    super(message, 'request_cancelled', cause);
+    this.name = 'RequestCancelledError';
+  }
+}
@@ -5,6 +5,17 @@ import type { OpenRouterConfig } from './types';
 // Re-export error types
 export * from './errors';
 
+// Response caches and their metrics
+export {
+  createMemoryResponseCache,
+  getCacheMetrics,
+  getSharedMemoryCache,
+  resetCacheMetrics,
+} from './cache';
+
+// Per-model circuit breaker of the fallback chain
+export { isCircuitOpen, resetCircuitBreakers } from './circuit-breaker';
+
 // Re-export types
 export type * from './types';
 
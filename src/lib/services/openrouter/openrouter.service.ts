@@ -9,8 +9,11 @@ import type {
   ChatResponseChunk,
   RetryOptions,
   CacheOptions,
+  CircuitBreakerOptions,
+  ResponseCache,
 } from './types';
 import {
+  OpenRouterError,
   AuthenticationError,
   NetworkError,
   ValidationError,
@@ -21,16 +24,19 @@ import {
   InternalServiceError,
   SchemaValidationError,
   QuotaExceededError,
+  RequestCancelledError,
 } from './errors';
 import {
   validateModelParameters,
   getParameterPreset,
   normalizeMessages,
   withRetry,
+  parseRetryAfter,
   safeJsonParse,
   mergeObjects,
-  createSimpleCache,
 } from './utils';
+import { getSharedMemoryCache, recordCacheEvent } from './cache';
+import { isCircuitOpen, recordModelFailure, recordModelSuccess } from './circuit-breaker';
 import { createJsonSchema, SCHEMAS } from './schemas';
 
 /**
@@ -62,12 +68,18 @@ export class OpenRouterService {
     initialDelay: 1000,
     maxDelay: 10000,
     backoffFactor: 2,
+    jitter: 0.2,
+    deadline: 60000, // 1 minute
   };
   private static readonly DEFAULT_CACHE_OPTIONS: CacheOptions = {
     enabled: true,
     ttl: 5 * 60 * 1000, // 5 minutes
     maxSize: 100,
   };
+  private static readonly DEFAULT_CIRCUIT_BREAKER: CircuitBreakerOptions = {
+    failureThreshold: 3,
+    coolDown: 60 * 1000, // 1 minute
+  };
   private static readonly DEFAULT_MODEL = 'openai/gpt-4.1-nano';
   private static readonly DEFAULT_SYSTEM_MESSAGE =
     'You are a helpful assistant that creates educational content.';
@@ -86,9 +98,11 @@ export class OpenRouterService {
   private readonly timeout: number;
   private readonly retryOptions: RetryOptions;
   private readonly cacheOptions: CacheOptions;
+  private readonly fallbackModels: string[];
+  private readonly circuitBreaker: CircuitBreakerOptions;
 
   // Cache implementation
-  private cache: ReturnType<typeof createSimpleCache<string, ChatResponse>> | null = null;
+  private cache: ResponseCache | null = null;
 
   /**
    * Creates a new instance of OpenRouterService with the provided configuration.
@@ -138,13 +152,15 @@ export class OpenRouterService {
       ...OpenRouterService.DEFAULT_CACHE_OPTIONS,
       ...config.cacheOptions,
     };
+    this.fallbackModels = config.fallbackModels ?? [];
+    this.circuitBreaker = {
+      ...OpenRouterService.DEFAULT_CIRCUIT_BREAKER,
+      ...config.circuitBreaker,
+    };
 
-    // Initialize cache if enabled
+    // Initialize cache if enabled; without a store the process-wide memory cache is used
     if (this.cacheOptions.enabled) {
-      this.cache = createSimpleCache<string, ChatResponse>(
-        this.cacheOptions.maxSize,
-        this.cacheOptions.ttl
-      );
+      this.cache = this.cacheOptions.store ?? getSharedMemoryCache(this.cacheOptions.maxSize);
     }
   }
 
@@ -167,18 +183,14 @@ export class OpenRouterService {
    */
   async getAvailableModels(): Promise<ModelInfo[]> {
     try {
-      const response = await withRetry(
-        () =>
-          this.makeRequest(`${this.baseUrl}/models`, {
-            method: 'GET',
-            headers: this.getHeaders(),
-          }),
-        this.retryOptions
-      );
-
-      if (!response.ok) {
-        await this.handleErrorResponse(response);
-      }
+      // The status is checked inside the retry, so that only temporary failures are retried
+      const response = await withRetry(async () => {
+        const response = await this.makeRequest(`${this.baseUrl}/models`, {
+          method: 'GET',
+          headers: this.getHeaders(),
+        });
+        return response.ok ? response : this.handleErrorResponse(response);
+      }, this.retryOptions);
 
       const data = await response.json();
       return data.data || [];
@@ -220,44 +232,31 @@ export class OpenRouterService {
    * ```
    */
   async chat(options: ChatOptions): Promise<ChatResponse> {
-    // Try to get from cache if enabled
-    if (this.cache && options.cache !== false) {
-      const cacheKey = this.createCacheKey(options);
-      const cachedResponse = this.cache.get(cacheKey);
+    // Try to get from cache unless disabled for the service or for this request
+    const useCache = this.cache !== null && options.cache !== false;
+    if (useCache) {
+      const cachedResponse = await this.readCache(this.createCacheKey(options));
       if (cachedResponse) {
-        return cachedResponse;
+        return { ...cachedResponse, cached: true };
       }
     }
 
     try {
       const requestBody = this.buildRequestBody(options);
 
-      const response = await withRetry(
-        () =>
-          this.makeRequest(`${this.baseUrl}/chat/completions`, {
-            method: 'POST',
-            headers: this.getHeaders(),
-            body: JSON.stringify(requestBody),
-          }),
-        this.retryOptions
-      );
-
-      if (!response.ok) {
-        await this.handleErrorResponse(response);
-      }
+      const { response, model } = await this.requestWithFallback(requestBody, options.abortSignal);
 
       const rawResponse = await response.json();
-      const processedResponse = this.processResponse(rawResponse, options.responseFormat);
+      const processedResponse = this.processResponse(rawResponse, model, options.responseFormat);
 
       // Cache the response if caching is enabled
-      if (this.cache && options.cache !== false) {
-        const cacheKey = this.createCacheKey(options);
-        this.cache.set(cacheKey, processedResponse);
+      if (useCache) {
+        await this.writeCache(this.createCacheKey(options), processedResponse);
       }
 
       return processedResponse;
     } catch (error) {
-      throw this.handleFetchError(error);
+      throw this.handleFetchError(error, options.abortSignal);
     }
   }
 
@@ -307,28 +306,18 @@ export class OpenRouterService {
 
       // Set stream to true for streaming responses
       requestBody.stream = true;
+      // Ask for the token usage, which is sent in the last event
+      requestBody.stream_options = { include_usage: true };
 
-      const response = await withRetry(
-        () =>
-          this.makeRequest(`${this.baseUrl}/chat/completions`, {
-            method: 'POST',
-            headers: this.getHeaders(),
-            body: JSON.stringify(requestBody),
-          }),
-        this.retryOptions
-      );
-
-      if (!response.ok) {
-        await this.handleErrorResponse(response);
-      }
+      const { response, model } = await this.requestWithFallback(requestBody, options.abortSignal);
 
       if (!response.body) {
         throw new NetworkError('Response body is null');
       }
 
-      return this.processStreamResponse(response.body);
+      return this.processStreamResponse(response.body, model);
     } catch (error) {
-      throw this.handleFetchError(error);
+      throw this.handleFetchError(error, options.abortSignal);
     }
   }
 
@@ -415,6 +404,35 @@ export class OpenRouterService {
     return JSON.stringify(stableOptions);
   }
 
+  /**
+   * Look up a cached response. The cache only saves requests, so a failing store
+   * is logged and treated as a miss.
+   */
+  private async readCache(key: string): Promise<ChatResponse | undefined> {
+    try {
+      const cachedResponse = await this.cache?.get(key);
+      recordCacheEvent(cachedResponse ? 'hit' : 'miss');
+      return cachedResponse;
+    } catch (error) {
+      console.warn('Failed to read the OpenRouter response cache:', error);
+      recordCacheEvent('error');
+      recordCacheEvent('miss');
+      return undefined;
+    }
+  }
+
+  /**
+   * Store a response in the cache; a failing store does not fail the request
+   */
+  private async writeCache(key: string, response: ChatResponse): Promise<void> {
+    try {
+      await this.cache?.set(key, response, this.cacheOptions.ttl);
+    } catch (error) {
+      console.warn('Failed to write the OpenRouter response cache:', error);
+      recordCacheEvent('error');
+    }
+  }
+
   /**
    * Build the request body for OpenRouter API
    */
@@ -456,6 +474,66 @@ export class OpenRouterService {
     return requestBody;
   }
 
+  /**
+   * Send a chat completion request with the requested model, then with the fallback models
+   * in order. Temporary failures are first retried with the same model. Only errors of
+   * the model or of the provider move on to the next model; models failing repeatedly
+   * are skipped until their circuit breaker cools down.
+   * @returns The successful response and the model it was requested with
+   * @throws The error of the last model tried, or ModelError when every model is skipped
+   */
+  private async requestWithFallback(
+    requestBody: any,
+    signal?: AbortSignal
+  ): Promise<{ response: Response; model: string }> {
+    const models = [...new Set([requestBody.model as string, ...this.fallbackModels])];
+    const availableModels = models.filter((model) => !isCircuitOpen(model, this.circuitBreaker));
+
+    if (availableModels.length === 0) {
+      throw new ModelError(`All models are temporarily unavailable: ${models.join(', ')}`);
+    }
+
+    let lastError: OpenRouterError | undefined;
+    for (const model of availableModels) {
+      try {
+        const response = await withRetry(
+          async () => {
+            const response = await this.makeRequest(
+              `${this.baseUrl}/chat/completions`,
+              {
+                method: 'POST',
+                headers: this.getHeaders(),
+                body: JSON.stringify({ ...requestBody, model }),
+              },
+              signal
+            );
+            return response.ok ? response : this.handleErrorResponse(response);
+          },
+          this.retryOptions,
+          signal
+        );
+
+        recordModelSuccess(model);
+        return { response, model };
+      } catch (error) {
+        const classifiedError = this.handleFetchError(error, signal);
+        if (
+          !(
+            classifiedError instanceof ModelError || classifiedError instanceof InternalServiceError
+          )
+        ) {
+          throw classifiedError;
+        }
+
+        recordModelFailure(model, this.circuitBreaker);
+        console.warn(`OpenRouter model ${model} failed:`, classifiedError.message);
+        lastError = classifiedError;
+      }
+    }
+
+    throw lastError;
+  }
+
   /**
    * Generate headers for API requests
    */
@@ -469,11 +547,22 @@ export class OpenRouterService {
   }
 
   /**
-   * Make a fetch request with timeout
+   * Make a fetch request with timeout.
+   * Aborting `signal` cancels the request, including reading a streamed body.
    */
-  private async makeRequest(url: string, options: RequestInit): Promise<Response> {
+  private async makeRequest(
+    url: string,
+    options: RequestInit,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    if (signal?.aborted) {
+      throw new RequestCancelledError('Request was cancelled');
+    }
+
     const abortController = new AbortController();
     const timeoutId = setTimeout(() => abortController.abort(), this.timeout);
+    // Kept after the response arrives so that cancelling also stops the body
+    signal?.addEventListener('abort', () => abortController.abort(), { once: true });
 
     try {
       return await fetch(url, {
@@ -482,8 +571,14 @@ export class OpenRouterService {
       });
     } catch (error) {
       if (error instanceof Error && error.name === 'AbortError') {
+        if (signal?.aborted) {
+          throw new RequestCancelledError('Request was cancelled');
+        }
         throw new TimeoutError(`Request timed out after ${this.timeout}ms`);
       }
+      if (error instanceof Error) {
+        throw new NetworkError(`Network error: ${error.message}`, error);
+      }
       throw error;
     } finally {
       clearTimeout(timeoutId);
@@ -610,7 +705,11 @@ export class OpenRouterService {
   /**
    * Process the API response
    */
-  private processResponse(rawResponse: any, responseFormat?: ResponseFormat): ChatResponse {
+  private processResponse(
+    rawResponse: any,
+    requestedModel: string,
+    responseFormat?: ResponseFormat
+  ): ChatResponse {
     if (!rawResponse.choices || !rawResponse.choices[0]) {
       throw new ValidationError('Invalid response format from OpenRouter API');
     }
@@ -661,7 +760,7 @@ export class OpenRouterService {
 
     return {
       content,
-      model: rawResponse.model,
+      model: rawResponse.model || requestedModel,
       usage: rawResponse.usage || {
         prompt_tokens: 0,
         completion_tokens: 0,
@@ -676,7 +775,8 @@ export class OpenRouterService {
    * Process a streaming response
    */
   private processStreamResponse(
-    body: ReadableStream<Uint8Array>
+    body: ReadableStream<Uint8Array>,
+    requestedModel: string
   ): ReadableStream<ChatResponseChunk> {
     const decoder = new TextDecoder();
     const reader = body.getReader();
@@ -733,9 +833,20 @@ export class OpenRouterService {
                       controller.enqueue({
                         content,
                         done: false,
+                        model: data.model || requestedModel,
                       });
                     }
                   }
+
+                  // The usage arrives in a separate event after the last fragment
+                  if (data.usage) {
+                    controller.enqueue({
+                      content: '',
+                      done: false,
+                      model: data.model || requestedModel,
+                      usage: data.usage,
+                    });
+                  }
                 } catch (error) {
                   console.error('Error parsing SSE data:', error);
                 }
@@ -768,49 +879,58 @@ export class OpenRouterService {
 
     const errorMessage = errorData?.error?.message || 'Unknown error occurred';
 
+    let error: OpenRouterError;
     switch (response.status) {
       case 401:
-        throw new AuthenticationError(`Authentication failed: ${errorMessage}`);
+        error = new AuthenticationError(`Authentication failed: ${errorMessage}`);
+        break;
       case 400:
-        throw new ValidationError(`Invalid request: ${errorMessage}`);
+        error = new ValidationError(`Invalid request: ${errorMessage}`);
+        break;
       case 404:
-        throw new ModelError(`Model not found: ${errorMessage}`);
+        error = new ModelError(`Model not found: ${errorMessage}`);
+        break;
       case 429:
-        throw new RateLimitError(`Rate limit exceeded: ${errorMessage}`);
+        error = new RateLimitError(`Rate limit exceeded: ${errorMessage}`);
+        break;
       case 402:
-        throw new QuotaExceededError(`Quota exceeded: ${errorMessage}`);
+        error = new QuotaExceededError(`Quota exceeded: ${errorMessage}`);
+        break;
       case 403:
-        throw new ContentFilterError(`Content filtered: ${errorMessage}`);
+        error = new ContentFilterError(`Content filtered: ${errorMessage}`);
+        break;
       case 500:
       case 502:
       case 503:
       case 504:
-        throw new InternalServiceError(`Server error: ${errorMessage}`);
+        error = new InternalServiceError(`Server error: ${errorMessage}`);
+        break;
       default:
-        throw new NetworkError(`HTTP error ${response.status}: ${errorMessage}`);
+        // Any other client error fails the same way when the request is sent again
+        error =
+          response.status >= 400 && response.status < 500
+            ? new ValidationError(`Request rejected (HTTP ${response.status}): ${errorMessage}`)
+            : new NetworkError(`HTTP error ${response.status}: ${errorMessage}`);
     }
+
+    error.status = response.status;
+    error.retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    throw error;
   }
 
   /**
    * Handle fetch errors
    */
-  private handleFetchError(error: unknown): Error {
+  private handleFetchError(error: unknown, signal?: AbortSignal): Error {
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
-        return new TimeoutError('Request timed out');
+        return signal?.aborted
+          ? new RequestCancelledError('Request was cancelled')
+          : new TimeoutError('Request timed out');
       }
 
-      if (
-        error instanceof AuthenticationError ||
-        error instanceof ValidationError ||
-        error instanceof ModelError ||
-        error instanceof RateLimitError ||
-        error instanceof TimeoutError ||
-        error instanceof ContentFilterError ||
-        error instanceof InternalServiceError ||
-        error instanceof SchemaValidationError ||
-        error instanceof QuotaExceededError
-      ) {
+      // Errors already classified by the service keep their type, status and attempt count
+      if (error instanceof OpenRouterError) {
         return error;
       }
 
@@ -278,6 +278,7 @@ export const SCHEMAS = {
    * - flashcards: Array of flashcard objects, each containing:
    *   - front: The question or prompt side of the flashcard
    *   - back: The answer or explanation side
+   *   - tags: Optional array of topic tags
    *
    * @example
    * ```typescript
@@ -305,6 +306,7 @@ export const SCHEMAS = {
             properties: {
               front: { type: 'string' },
               back: { type: 'string' },
+              tags: { type: 'array', items: { type: 'string' } },
             },
             required: ['front', 'back'],
           },
@@ -7,6 +7,8 @@ export interface OpenRouterConfig {
   timeout?: number; // Request timeout in ms
   retryOptions?: RetryOptions; // Retry configuration
   cacheOptions?: CacheOptions; // Caching configuration
+  fallbackModels?: string[]; // Models tried in order when the requested one fails
+  circuitBreaker?: CircuitBreakerOptions; // When to stop calling a failing model
 }
 
 export interface ModelParameters {
@@ -24,12 +26,35 @@ export interface RetryOptions {
   initialDelay: number;
   maxDelay: number;
   backoffFactor: number;
+  jitter?: number; // Fraction of each delay that is randomized (0-1)
+  deadline?: number; // Time after which no more retries are started, in milliseconds
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures after which a model is skipped
+  coolDown: number; // How long a model is skipped, in milliseconds
 }
 
 export interface CacheOptions {
   enabled: boolean;
   ttl: number; // Time to live in milliseconds
-  maxSize: number; // Maximum number of cached items
+  maxSize: number; // Maximum number of cached items (in-memory cache)
+  store?: ResponseCache; // Where responses are kept; the process-wide in-memory cache by default
+}
+
+/**
+ * Storage of cached chat responses, e.g. in memory or in a database
+ */
+export interface ResponseCache {
+  get(key: string): Promise<ChatResponse | undefined>;
+  set(key: string, value: ChatResponse, ttl: number): Promise<void>;
+}
+
+export interface CacheMetrics {
+  hits: number;
+  misses: number;
+  errors: number; // Failed reads and writes; a failed read counts as a miss too
+  hitRate: number; // Hits of all lookups, 0 before the first lookup
 }
 
 export interface ChatMessage {
@@ -73,11 +98,14 @@ export interface ChatResponse {
   usage: TokenUsage; // Token usage information
   id: string; // Response ID
   metadata: Record<string, any>; // Additional metadata
+  cached?: boolean; // Served from the cache; no tokens were used
 }
 
 export interface ChatResponseChunk {
   content: string; // Content fragment
   done: boolean; // Whether this is the last chunk
+  model?: string; // Model that generated the fragment
+  usage?: TokenUsage; // Token usage, sent with the last fragment
 }
 
 export interface ModelInfo {
@@ -106,5 +134,6 @@ export interface FlashcardCollectionContent {
   flashcards: {
     front: string;
     back: string;
+    tags?: string[];
   }[];
 }
@@ -1,5 +1,13 @@
 import type { ModelParameters, RetryOptions, ChatMessage } from './types';
-import { ValidationError } from './errors';
+import {
+  InternalServiceError,
+  NetworkError,
+  OpenRouterError,
+  RateLimitError,
+  RequestCancelledError,
+  TimeoutError,
+  ValidationError,
+} from './errors';
 
 /**
  * Validates and normalizes model parameters according to OpenRouter API requirements.
@@ -169,70 +177,137 @@ export function normalizeMessages(
   return result;
 }
 
+/**
+ * Reads the Retry-After header, which holds either a number of seconds or an HTTP date.
+ *
+ * @param value - Value of the header
+ * @param now - Current time in milliseconds
+ * @returns The requested delay in milliseconds, or undefined if the header is missing or invalid
+ *
+ * @example
+ * ```typescript
+ * parseRetryAfter('5'); // 5000
+ * parseRetryAfter('Wed, 21 Oct 2026 07:28:00 GMT'); // Milliseconds until that date
+ * ```
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now: number = Date.now()
+): number | undefined {
+  if (!value?.trim()) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return seconds >= 0 ? seconds * 1000 : undefined;
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(date - now, 0);
+}
+
+/**
+ * Whether a failed request may succeed when sent again: rate limits, server errors,
+ * network problems and timeouts are temporary. Authentication, validation, quota
+ * and all other errors are returned to the caller at once.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return (
+    error instanceof RateLimitError ||
+    error instanceof InternalServiceError ||
+    error instanceof NetworkError ||
+    error instanceof TimeoutError
+  );
+}
+
+/**
+ * Wait for the given time; aborting `signal` ends the wait early
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+  });
+}
+
 /**
  * Implements exponential backoff retry logic for async operations.
- * Automatically retries failed operations with increasing delays between attempts.
- * Some error types (authentication, validation, content filter) will not be retried.
+ * Only temporary failures (see `isRetryableError`) are retried. A delay requested
+ * by the server in the Retry-After header is honored; otherwise the delay grows
+ * exponentially and part of it is randomized, so that clients do not retry in step.
+ * No retry is started when its delay would end after the deadline.
  *
- * @param fn - The async function to retry
+ * @param fn - The async function to retry; it should throw OpenRouterError subclasses
  * @param options - Retry configuration options
+ * @param signal - Aborting it stops waiting for the next attempt
  * @returns A promise that resolves with the result of the function
- * @throws The last error encountered if all retries fail
+ * @throws The last error encountered if all retries fail, with the number of attempts made
+ * @throws {RequestCancelledError} If `signal` is aborted while waiting for the next attempt
  *
  * @example
  * ```typescript
  * // Basic usage
- * const result = await withRetry(
- *   () => fetch('https://api.example.com/data'),
+ * const response = await withRetry(
+ *   async () => {
+ *     const response = await fetch('https://openrouter.ai/api/v1/models');
+ *     if (response.status === 429) throw new RateLimitError('Rate limit exceeded');
+ *     return response;
+ *   },
  *   { maxRetries: 3, initialDelay: 1000, maxDelay: 10000, backoffFactor: 2 }
  * );
  *
- * // With error handling
- * try {
- *   const data = await withRetry(
- *     async () => {
- *       const response = await fetch('https://api.example.com/data');
- *       if (!response.ok) throw new Error(`HTTP error ${response.status}`);
- *       return response.json();
- *     },
- *     { maxRetries: 3, initialDelay: 1000, maxDelay: 10000, backoffFactor: 2 }
- *   );
- * } catch (error) {
- *   console.error('All retries failed:', error);
- * }
+ * // With jitter and an overall deadline
+ * const data = await withRetry(fetchModels, {
+ *   maxRetries: 5,
+ *   initialDelay: 500,
+ *   maxDelay: 8000,
+ *   backoffFactor: 2,
+ *   jitter: 0.2,
+ *   deadline: 30000,
+ * });
  * ```
  */
-export async function withRetry<T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> {
-  let lastError: Error | undefined;
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+  signal?: AbortSignal
+): Promise<T> {
+  const startedAt = Date.now();
+  const deadline = options.deadline ?? Infinity;
+  const jitter = Math.min(Math.max(options.jitter ?? 0, 0), 1);
   let delay = options.initialDelay;
 
-  for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
+  for (let attempt = 1; ; attempt++) {
     try {
       return await fn();
     } catch (error) {
-      lastError = error as Error;
-
-      // Don't retry on certain errors
-      if (
-        error instanceof Error &&
-        ['authentication_error', 'validation_error', 'content_filter_error'].includes(
-          (error as any).code
-        )
-      ) {
+      if (error instanceof OpenRouterError) {
+        error.attempts = attempt;
+      }
+
+      if (!isRetryableError(error) || attempt > options.maxRetries) {
         throw error;
       }
 
-      if (attempt >= options.maxRetries) {
-        break;
+      // The server knows best when it can take the request again
+      const backoff = delay * (1 - jitter * Math.random());
+      const wait = Math.max((error as OpenRouterError).retryAfter ?? 0, backoff);
+      if (Date.now() - startedAt + wait > deadline) {
+        throw error;
       }
 
-      // Wait before next retry with exponential backoff
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      await sleep(wait, signal);
+      if (signal?.aborted) {
+        throw new RequestCancelledError('Request was cancelled');
+      }
       delay = Math.min(delay * options.backoffFactor, options.maxDelay);
     }
   }
-
-  throw lastError;
 }
 
 /**
@@ -0,0 +1,167 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import type { GenerationQuotaDto, QuotaLimitDto } from '../../types';
+import { getMonthRange, toUsageMonth, UsageService } from './usage.service';
+
+export const DEFAULT_DAILY_GENERATION_LIMIT = 20;
+export const DEFAULT_MONTHLY_TOKEN_LIMIT = 1_000_000;
+
+/** Limits per user; null disables a limit */
+export interface QuotaLimits {
+  dailyGenerations: number | null;
+  monthlyTokens: number | null;
+}
+
+/**
+ * The daily generation quota was used up by concurrent requests after it had been checked,
+ * so the generation was refused when it was created
+ */
+export class GenerationQuotaExceededError extends Error {
+  constructor(message = 'Daily generation quota exceeded') {
+    super(message);
+    this.name = 'GenerationQuotaExceededError';
+  }
+}
+
+/**
+ * Reads a quota limit from the environment. 0 disables the limit;
+ * a missing or invalid value falls back to the default.
+ */
+export function parseQuotaLimit(value: string | undefined, defaultLimit: number): number | null {
+  const limit = Number(value);
+  if (!value || !Number.isInteger(limit) || limit < 0) {
+    return defaultLimit;
+  }
+  return limit === 0 ? null : limit;
+}
+
+/**
+ * Limits configured with GENERATION_DAILY_LIMIT and GENERATION_MONTHLY_TOKEN_LIMIT
+ */
+export function getQuotaLimits(): QuotaLimits {
+  return {
+    dailyGenerations: parseQuotaLimit(
+      import.meta.env.GENERATION_DAILY_LIMIT,
+      DEFAULT_DAILY_GENERATION_LIMIT
+    ),
+    monthlyTokens: parseQuotaLimit(
+      import.meta.env.GENERATION_MONTHLY_TOKEN_LIMIT,
+      DEFAULT_MONTHLY_TOKEN_LIMIT
+    ),
+  };
+}
+
+/**
+ * State of a single limit
+ */
+export function toQuotaLimit(used: number, limit: number | null, resetsAt: string): QuotaLimitDto {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(limit - used, 0),
+    resets_at: resetsAt,
+  };
+}
+
+/**
+ * Limits that leave nothing for another generation
+ */
+function getExhaustedLimits(quota: GenerationQuotaDto): QuotaLimitDto[] {
+  return [quota.daily_generations, quota.monthly_tokens].filter((limit) => limit.remaining === 0);
+}
+
+export function isQuotaExceeded(quota: GenerationQuotaDto): boolean {
+  return getExhaustedLimits(quota).length > 0;
+}
+
+/**
+ * Seconds until every exhausted limit has been reset, for the `Retry-After` header
+ */
+export function getRetryAfterSeconds(quota: GenerationQuotaDto, now: Date = new Date()): number {
+  const resetsAt = Math.max(
+    ...getExhaustedLimits(quota).map((limit) => new Date(limit.resets_at).getTime())
+  );
+  return Math.max(Math.ceil((resetsAt - now.getTime()) / 1000), 1);
+}
+
+/**
+ * Remaining-quota headers; disabled limits are left out
+ */
+export function getQuotaHeaders(quota: GenerationQuotaDto): Record<string, string> {
+  const headers: Record<string, string> = {};
+
+  if (quota.daily_generations.remaining !== null) {
+    headers['X-Quota-Generations-Remaining'] = String(quota.daily_generations.remaining);
+  }
+  if (quota.monthly_tokens.remaining !== null) {
+    headers['X-Quota-Tokens-Remaining'] = String(quota.monthly_tokens.remaining);
+  }
+  return headers;
+}
+
+/**
+ * Quota after one more generation has been started; its tokens are not known yet
+ */
+export function withStartedGeneration(quota: GenerationQuotaDto): GenerationQuotaDto {
+  const { daily_generations: daily } = quota;
+
+  return {
+    ...quota,
+    daily_generations: toQuotaLimit(daily.used + 1, daily.limit, daily.resets_at),
+  };
+}
+
+/**
+ * Service checking the AI generation quotas of a user. Days and months start at midnight UTC.
+ * Every started generation counts towards the daily limit, including failed and cancelled ones;
+ * reused generations do not call the AI and are not counted.
+ */
+export class QuotaService {
+  private readonly supabase: SupabaseClient<Database>;
+  private readonly limits: QuotaLimits;
+
+  constructor(supabase: SupabaseClient<Database>, limits: QuotaLimits = getQuotaLimits()) {
+    this.supabase = supabase;
+    this.limits = limits;
+  }
+
+  /**
+   * Current usage of the user's quotas
+   * @param userId - Current user ID
+   * @param now - Point in time the quotas are evaluated at
+   */
+  async getQuota(userId: string, now: Date = new Date()): Promise<GenerationQuotaDto> {
+    const startOfDay = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    );
+    const endOfDay = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
+    const month = toUsageMonth(now);
+
+    const { count, error } = await this.supabase
+      .from('generations')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('reused', false)
+      .gte('created_at', startOfDay.toISOString());
+
+    if (error) {
+      throw new Error(`Failed to count generations: ${error.message}`);
+    }
+
+    const usage = await new UsageService(this.supabase).getMonthlyUsage(userId, month);
+
+    return {
+      daily_generations: toQuotaLimit(
+        count ?? 0,
+        this.limits.dailyGenerations,
+        endOfDay.toISOString()
+      ),
+      monthly_tokens: toQuotaLimit(
+        usage.prompt_tokens + usage.completion_tokens,
+        this.limits.monthlyTokens,
+        getMonthRange(month).to
+      ),
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import type { ReviewGrade, ReviewStateDto } from '../../types';
+
+/** Scheduling fields the SM-2 algorithm reads and writes */
+export type SchedulingState = Pick<
+  ReviewStateDto,
+  'ease_factor' | 'interval' | 'repetitions' | 'lapses' | 'due_at' | 'last_reviewed_at'
+>;
+
+const MIN_EASE_FACTOR = 1.3;
+const INITIAL_EASE_FACTOR = 2.5;
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+/** A failed card is shown again after a short relearning delay */
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+/** Extra interval multiplier applied when the answer was easy */
+const EASY_BONUS = 1.3;
+/** Interval multiplier applied when the answer was hard */
+const HARD_INTERVAL_FACTOR = 1.2;
+
+/**
+ * Maps a four-button grade onto the SM-2 quality scale (0-5).
+ * Anything below 3 is treated as a failed recall.
+ */
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+/**
+ * Returns the scheduling state of a card that has never been reviewed.
+ */
+export function createInitialSchedulingState(now: Date = new Date()): SchedulingState {
+  return {
+    ease_factor: INITIAL_EASE_FACTOR,
+    interval: 0,
+    repetitions: 0,
+    lapses: 0,
+    due_at: now.toISOString(),
+    last_reviewed_at: null,
+  };
+}
+
+/**
+ * Computes the next scheduling state of a card using the SM-2 algorithm.
+ *
+ * @param state - Current scheduling state of the card
+ * @param grade - Grade submitted by the user
+ * @param now - Review time (defaults to the current time)
+ * @returns New scheduling state with the next due date
+ *
+ * @example
+ * ```typescript
+ * const next = scheduleReview(createInitialSchedulingState(), 'good');
+ * // next.interval === 1, next.repetitions === 1
+ * ```
+ */
+export function scheduleReview(
+  state: SchedulingState,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): SchedulingState {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    Number(state.ease_factor) + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+  );
+  const roundedEaseFactor = Math.round(easeFactor * 100) / 100;
+
+  // Failed recall - start the card over and show it again shortly
+  if (quality < 3) {
+    return {
+      ease_factor: roundedEaseFactor,
+      interval: 0,
+      repetitions: 0,
+      lapses: state.lapses + 1,
+      due_at: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      last_reviewed_at: now.toISOString(),
+    };
+  }
+
+  let interval: number;
+  if (state.repetitions === 0) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (state.repetitions === 1) {
+    interval = grade === 'hard' ? 3 : 6;
+  } else if (grade === 'hard') {
+    interval = Math.round(state.interval * HARD_INTERVAL_FACTOR);
+  } else {
+    interval = Math.round(state.interval * roundedEaseFactor);
+    if (grade === 'easy') {
+      interval = Math.round(interval * EASY_BONUS);
+    }
+  }
+
+  // Always move the card forward by at least one day
+  interval = Math.max(interval, state.interval + 1, 1);
+
+  return {
+    ease_factor: roundedEaseFactor,
+    interval,
+    repetitions: state.repetitions + 1,
+    lapses: state.lapses,
+    due_at: new Date(now.getTime() + interval * DAY_IN_MS).toISOString(),
+    last_reviewed_at: now.toISOString(),
+  };
+}
@@ -0,0 +1,148 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import type {
+  DueFlashcardDto,
+  DueReviewsResponseDto,
+  FlashcardDto,
+  ReviewStateDto,
+  SubmitReviewCommand,
+} from '../../types';
+import type { DueReviewsQuerySchemaType } from '../schemas/reviews.schema';
+import { createInitialSchedulingState, scheduleReview } from './review-scheduler';
+
+const REVIEW_STATE_COLUMNS =
+  'flashcard_id, ease_factor, interval, repetitions, lapses, due_at, last_reviewed_at';
+
+/**
+ * Service responsible for spaced repetition scheduling.
+ * Reads cards that are due for review and records the user's grades,
+ * computing the next due date with the SM-2 algorithm.
+ */
+export class ReviewsService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Returns flashcards whose review is due, oldest due date first
+   * @param params - Validated query parameters
+   * @param userId - Current user ID
+   */
+  async getDueFlashcards(
+    params: DueReviewsQuerySchemaType,
+    userId: string
+  ): Promise<DueReviewsResponseDto> {
+    const now = new Date().toISOString();
+
+    const { data, count, error } = await this.supabase
+      .from('review_states')
+      .select(
+        `${REVIEW_STATE_COLUMNS}, flashcards!inner(id, generation_id, deck_id, front, back, source, created_at, updated_at)`,
+        { count: 'exact' }
+      )
+      .eq('user_id', userId)
+      .lte('due_at', now)
+      .order('due_at', { ascending: true })
+      .limit(params.limit);
+
+    if (error) {
+      throw new Error(`Failed to fetch due flashcards: ${error.message}`);
+    }
+
+    const dueFlashcards: DueFlashcardDto[] = (data ?? []).map((row) => {
+      const { flashcards, ...review } = row as unknown as ReviewStateDto & {
+        flashcards: FlashcardDto;
+      };
+      return {
+        ...flashcards,
+        review: { ...review, ease_factor: Number(review.ease_factor) },
+      };
+    });
+
+    return {
+      data: dueFlashcards,
+      total_due: count ?? 0,
+    };
+  }
+
+  /**
+   * Returns the scheduling state of a single flashcard
+   * @returns The review state or null when the card has none yet
+   */
+  async getReviewState(flashcardId: number, userId: string): Promise<ReviewStateDto | null> {
+    const { data, error } = await this.supabase
+      .from('review_states')
+      .select(REVIEW_STATE_COLUMNS)
+      .eq('flashcard_id', flashcardId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        // Record not found
+        return null;
+      }
+      throw new Error(`Failed to fetch review state: ${error.message}`);
+    }
+
+    return { ...data, ease_factor: Number(data.ease_factor) };
+  }
+
+  /**
+   * Records a grade for a flashcard and schedules its next review
+   * @param userId - Current user ID
+   * @param command - Flashcard ID and the submitted grade
+   * @returns Updated review state, or null if the flashcard does not exist
+   */
+  async submitReview(userId: string, command: SubmitReviewCommand): Promise<ReviewStateDto | null> {
+    let currentState = await this.getReviewState(command.flashcard_id, userId);
+
+    if (!currentState) {
+      // Cards created outside the insert trigger start as new cards
+      const { data: flashcard, error: flashcardError } = await this.supabase
+        .from('flashcards')
+        .select('id')
+        .eq('id', command.flashcard_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (flashcardError) {
+        throw new Error(`Failed to fetch flashcard: ${flashcardError.message}`);
+      }
+
+      if (!flashcard) {
+        return null;
+      }
+
+      currentState = {
+        flashcard_id: command.flashcard_id,
+        ...createInitialSchedulingState(),
+      };
+    }
+
+    const nextState = scheduleReview(currentState, command.grade);
+
+    const { data, error } = await this.supabase
+      .from('review_states')
+      .upsert(
+        {
+          user_id: userId,
+          flashcard_id: command.flashcard_id,
+          ...nextState,
+        },
+        { onConflict: 'flashcard_id' }
+      )
+      .select(REVIEW_STATE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Database error while saving review state:', {
+        error,
+        flashcardId: command.flashcard_id,
+        userId,
+      });
+      throw new Error(`Failed to save review: ${error.message}`);
+    }
+
+    return { ...data, ease_factor: Number(data.ease_factor) };
+  }
+}
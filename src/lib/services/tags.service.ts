@@ -0,0 +1,255 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import type { MergeTagsCommand, RenameTagCommand, TagDto, TagSummaryDto } from '../../types';
+
+const TAG_COLUMNS = 'id, name, created_at, updated_at, flashcard_tags(count)';
+const MAX_TAG_LENGTH = 50;
+
+type TagWithCountRow = Omit<TagDto, 'flashcard_count'> & {
+  flashcard_tags: { count: number }[];
+};
+
+/**
+ * Normalizes free-form tag names (e.g. suggested by the AI):
+ * trims, collapses whitespace, lowercases, drops empty entries and duplicates.
+ */
+export function normalizeTagNames(names: string[]): string[] {
+  const normalized = names
+    .map((name) => name.trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH))
+    .filter((name) => name.length > 0);
+
+  return [...new Set(normalized)];
+}
+
+/**
+ * Service responsible for user tags and their links with flashcards.
+ * Tags are identified by name within a user; missing tags are created on first use.
+ */
+export class TagsService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Returns all tags of the user ordered by name
+   * @param userId - Current user ID
+   */
+  async getTags(userId: string): Promise<TagDto[]> {
+    const { data, error } = await this.supabase
+      .from('tags')
+      .select(TAG_COLUMNS)
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch tags: ${error.message}`);
+    }
+
+    return (data as unknown as TagWithCountRow[]).map(toTagDto);
+  }
+
+  /**
+   * Renames a tag
+   * @returns Updated tag, or null if the tag does not exist
+   * @throws Error with 'Tag name already exists' when the name is taken (merge instead)
+   */
+  async renameTag(id: number, userId: string, command: RenameTagCommand): Promise<TagDto | null> {
+    const { data, error } = await this.supabase
+      .from('tags')
+      .update({ name: command.name })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(TAG_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new Error('Tag name already exists');
+      }
+      throw new Error(`Failed to rename tag: ${error.message}`);
+    }
+
+    return data ? toTagDto(data as unknown as TagWithCountRow) : null;
+  }
+
+  /**
+   * Deletes a tag and removes it from all flashcards
+   * @returns false if the tag does not exist
+   */
+  async deleteTag(id: number, userId: string): Promise<boolean> {
+    const { data, error } = await this.supabase
+      .from('tags')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete tag: ${error.message}`);
+    }
+
+    return data.length > 0;
+  }
+
+  /**
+   * Moves all flashcards of the source tags to the target tag and deletes the source tags
+   * @returns The target tag after the merge, or null if any of the tags does not exist
+   */
+  async mergeTags(userId: string, command: MergeTagsCommand): Promise<TagDto | null> {
+    const sourceIds = [...new Set(command.source_tag_ids)];
+    const allIds = [command.target_tag_id, ...sourceIds];
+
+    const { data: tags, error: tagsError } = await this.supabase
+      .from('tags')
+      .select('id')
+      .in('id', allIds)
+      .eq('user_id', userId);
+
+    if (tagsError) {
+      throw new Error(`Failed to fetch tags: ${tagsError.message}`);
+    }
+
+    if (tags.length !== allIds.length) {
+      return null;
+    }
+
+    const { data: links, error: linksError } = await this.supabase
+      .from('flashcard_tags')
+      .select('flashcard_id')
+      .in('tag_id', sourceIds)
+      .eq('user_id', userId);
+
+    if (linksError) {
+      throw new Error(`Failed to fetch tagged flashcards: ${linksError.message}`);
+    }
+
+    const flashcardIds = [...new Set(links.map((link) => link.flashcard_id))];
+    if (flashcardIds.length > 0) {
+      const { error: upsertError } = await this.supabase.from('flashcard_tags').upsert(
+        flashcardIds.map((flashcardId) => ({
+          flashcard_id: flashcardId,
+          tag_id: command.target_tag_id,
+          user_id: userId,
+        })),
+        { onConflict: 'flashcard_id,tag_id', ignoreDuplicates: true }
+      );
+
+      if (upsertError) {
+        throw new Error(`Failed to move flashcards to the target tag: ${upsertError.message}`);
+      }
+    }
+
+    // Deleting the source tags removes their remaining links
+    const { error: deleteError } = await this.supabase
+      .from('tags')
+      .delete()
+      .in('id', sourceIds)
+      .eq('user_id', userId);
+
+    if (deleteError) {
+      throw new Error(`Failed to delete merged tags: ${deleteError.message}`);
+    }
+
+    const { data: target, error: targetError } = await this.supabase
+      .from('tags')
+      .select(TAG_COLUMNS)
+      .eq('id', command.target_tag_id)
+      .eq('user_id', userId)
+      .single();
+
+    if (targetError) {
+      throw new Error(`Failed to fetch merged tag: ${targetError.message}`);
+    }
+
+    return toTagDto(target as unknown as TagWithCountRow);
+  }
+
+  /**
+   * Returns tags with the given names, creating the missing ones
+   * @param names - Tag names (normalized before lookup)
+   * @param userId - Current user ID
+   */
+  async ensureTags(names: string[], userId: string): Promise<TagSummaryDto[]> {
+    const normalized = normalizeTagNames(names);
+    if (normalized.length === 0) {
+      return [];
+    }
+
+    const { error: upsertError } = await this.supabase.from('tags').upsert(
+      normalized.map((name) => ({ name, user_id: userId })),
+      { onConflict: 'user_id,name', ignoreDuplicates: true }
+    );
+
+    if (upsertError) {
+      throw new Error(`Failed to create tags: ${upsertError.message}`);
+    }
+
+    const { data, error } = await this.supabase
+      .from('tags')
+      .select('id, name')
+      .in('name', normalized)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to fetch tags: ${error.message}`);
+    }
+
+    return data;
+  }
+
+  /**
+   * Attaches tags to freshly created flashcards
+   * @param tagsByFlashcard - Tag names keyed by flashcard ID
+   * @param userId - Current user ID
+   */
+  async addFlashcardTags(tagsByFlashcard: Map<number, string[]>, userId: string): Promise<void> {
+    const allNames = [...tagsByFlashcard.values()].flat();
+    const tags = await this.ensureTags(allNames, userId);
+    const tagIdsByName = new Map(tags.map((tag) => [tag.name, tag.id]));
+
+    const links = [...tagsByFlashcard.entries()].flatMap(([flashcardId, names]) =>
+      normalizeTagNames(names)
+        .map((name) => tagIdsByName.get(name))
+        .filter((tagId): tagId is number => tagId !== undefined)
+        .map((tagId) => ({ flashcard_id: flashcardId, tag_id: tagId, user_id: userId }))
+    );
+
+    if (links.length === 0) {
+      return;
+    }
+
+    const { error } = await this.supabase
+      .from('flashcard_tags')
+      .upsert(links, { onConflict: 'flashcard_id,tag_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to tag flashcards: ${error.message}`);
+    }
+  }
+
+  /**
+   * Replaces all tags of a flashcard
+   * @param flashcardId - Flashcard owned by the user
+   * @param userId - Current user ID
+   * @param names - New tag names; an empty list removes all tags
+   */
+  async setFlashcardTags(flashcardId: number, userId: string, names: string[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('flashcard_tags')
+      .delete()
+      .eq('flashcard_id', flashcardId)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to clear flashcard tags: ${error.message}`);
+    }
+
+    await this.addFlashcardTags(new Map([[flashcardId, names]]), userId);
+  }
+}
+
+function toTagDto({ flashcard_tags, ...tag }: TagWithCountRow): TagDto {
+  return {
+    ...tag,
+    flashcard_count: flashcard_tags[0]?.count ?? 0,
+  };
+}
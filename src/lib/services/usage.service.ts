@@ -0,0 +1,119 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../../db/database.types';
+import type { ModelUsageDto, UsageSummaryDto } from '../../types';
+
+// Supabase returns at most 1000 rows per request by default
+const PAGE_SIZE = 1000;
+
+export type UsageRow = Pick<
+  Database['public']['Tables']['generations']['Row'],
+  'model' | 'prompt_tokens' | 'completion_tokens' | 'cost'
+>;
+
+/**
+ * Month of the given date in `YYYY-MM` format (UTC)
+ */
+export function toUsageMonth(date: Date): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Start (inclusive) and end (exclusive) of a `YYYY-MM` month as ISO timestamps
+ */
+export function getMonthRange(month: string): { from: string; to: string } {
+  const [year, monthIndex] = month.split('-').map(Number);
+
+  return {
+    from: new Date(Date.UTC(year, monthIndex - 1, 1)).toISOString(),
+    to: new Date(Date.UTC(year, monthIndex, 1)).toISOString(),
+  };
+}
+
+/**
+ * Adds up the tokens and cost of completed generations, in total and per model
+ * (the most expensive model first)
+ */
+export function summarizeUsage(month: string, rows: UsageRow[]): UsageSummaryDto {
+  const byModel = new Map<string, ModelUsageDto>();
+  let unpricedGenerations = 0;
+
+  for (const row of rows) {
+    const usage = byModel.get(row.model) ?? {
+      model: row.model,
+      generations: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+      cost: 0,
+    };
+
+    usage.generations++;
+    usage.prompt_tokens += row.prompt_tokens ?? 0;
+    usage.completion_tokens += row.completion_tokens ?? 0;
+    usage.cost += row.cost ?? 0;
+    if (row.cost === null) {
+      unpricedGenerations++;
+    }
+
+    byModel.set(row.model, usage);
+  }
+
+  const models = [...byModel.values()]
+    .map((usage) => ({ ...usage, cost: roundCost(usage.cost) }))
+    .sort((a, b) => b.cost - a.cost || b.generations - a.generations);
+
+  return {
+    month,
+    generations: rows.length,
+    prompt_tokens: models.reduce((sum, usage) => sum + usage.prompt_tokens, 0),
+    completion_tokens: models.reduce((sum, usage) => sum + usage.completion_tokens, 0),
+    cost: roundCost(models.reduce((sum, usage) => sum + usage.cost, 0)),
+    unpriced_generations: unpricedGenerations,
+    by_model: models,
+  };
+}
+
+// Sums of floating point costs are rounded to the precision stored in the database
+function roundCost(cost: number): number {
+  return Math.round(cost * 1e8) / 1e8;
+}
+
+/**
+ * Service summarising the tokens and cost of AI generation
+ */
+export class UsageService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Usage of the completed generations of a user within a month; reused generations
+   * did not call the AI and are left out
+   * @param userId - Current user ID
+   * @param month - Month in `YYYY-MM` format
+   */
+  async getMonthlyUsage(userId: string, month: string): Promise<UsageSummaryDto> {
+    const { from, to } = getMonthRange(month);
+    const rows: UsageRow[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await this.supabase
+        .from('generations')
+        .select('model, prompt_tokens, completion_tokens, cost')
+        .eq('user_id', userId)
+        .eq('status', 'completed')
+        .eq('reused', false)
+        .gte('created_at', from)
+        .lt('created_at', to)
+        .order('id')
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to fetch generation usage: ${error.message}`);
+      }
+
+      rows.push(...data);
+      if (data.length < PAGE_SIZE) {
+        return summarizeUsage(month, rows);
+      }
+    }
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * Server-sent events (`text/event-stream`) helpers shared by API routes and hooks.
+ * Every event carries a JSON object with a `type` field, also sent as the event name.
+ */
+
+export const EVENT_STREAM_CONTENT_TYPE = 'text/event-stream';
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Formats a single event; multi-line data is not needed because data is compact JSON
+ */
+export function formatServerSentEvent(event: { type: string }): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+/**
+ * Creates a response body that sends every event produced by the generator.
+ * A failure is sent as a final event built by `toErrorEvent`, because the status code
+ * has already been sent by then.
+ */
+export function createEventStream<T extends { type: string }>(
+  events: AsyncGenerator<T>,
+  toErrorEvent: (error: unknown) => T
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await events.next();
+        if (done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(formatServerSentEvent(value)));
+        }
+      } catch (error) {
+        controller.enqueue(encoder.encode(formatServerSentEvent(toErrorEvent(error))));
+        controller.close();
+      }
+    },
+    async cancel() {
+      await events.return(undefined);
+    },
+  });
+}
+
+/**
+ * Checks whether a fetch response is an event stream rather than a regular JSON body
+ */
+export function isEventStream(response: Response): boolean {
+  return response.headers.get('Content-Type')?.startsWith(EVENT_STREAM_CONTENT_TYPE) ?? false;
+}
+
+/**
+ * Reads events from an event stream body as they arrive. Comments and events without
+ * data are skipped; the event name defaults to `message`.
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n');
+      buffer = done ? '' : (blocks.pop() ?? '');
+
+      for (const block of blocks) {
+        const event = parseEventBlock(block);
+        if (event) {
+          yield event;
+        }
+      }
+
+      if (done) {
+        return;
+      }
+    }
+  } finally {
+    // Closes the connection when the consumer stops reading early
+    await reader.cancel();
+  }
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  let event = 'message';
+  const data: string[] = [];
+
+  for (const line of block.split('\n')) {
+    if (line === '' || line.startsWith(':')) continue;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      data.push(value);
+    }
+  }
+
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+}
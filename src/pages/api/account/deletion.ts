@@ -0,0 +1,186 @@
+import type { APIRoute } from 'astro';
+import { requestAccountDeletionSchema } from '../../../lib/schemas/account.schema';
+import { AccountService } from '../../../lib/services/account.service';
+
+export const prerender = false;
+
+/**
+ * GET /api/account/deletion
+ * Returns the latest account deletion request of the user
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const accountService = new AccountService(locals.supabase);
+    const deletion = await accountService.getDeletion(locals.user.id);
+
+    return new Response(JSON.stringify({ deletion }), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching account deletion:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * POST /api/account/deletion
+ * Schedules the deletion of the account after the grace period and signs the user out.
+ * The email of the account must be repeated as confirmation.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = requestAccountDeletionSchema.safeParse(body);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (result.data.confirm_email.toLowerCase() !== locals.user.email?.toLowerCase()) {
+      return new Response(
+        JSON.stringify({
+          error: 'Email does not match the account',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const accountService = new AccountService(locals.supabase);
+    try {
+      const deletion = await accountService.requestDeletion(locals.user.id);
+
+      // Logging in again during the grace period cancels the deletion
+      await locals.supabase.auth.signOut();
+
+      return new Response(JSON.stringify(deletion), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!errorMessage.includes('Account deletion already requested')) {
+        throw error;
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: errorMessage,
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  } catch (error) {
+    console.error('Error requesting account deletion:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * DELETE /api/account/deletion
+ * Cancels the pending account deletion
+ */
+export const DELETE: APIRoute = async ({ locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const accountService = new AccountService(locals.supabase);
+    const deletion = await accountService.cancelDeletion(locals.user.id);
+
+    // Return 404 if nothing was pending
+    if (!deletion) {
+      return new Response(
+        JSON.stringify({
+          error: 'No pending account deletion',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify(deletion), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error cancelling account deletion:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,45 @@
+import type { APIRoute } from 'astro';
+import { AccountService } from '../../../lib/services/account.service';
+
+export const prerender = false;
+
+/**
+ * GET /api/account/export
+ * Streams a versioned JSON archive of everything the user owns: decks, tags, flashcards
+ * with review state, generations with their proposals and generation error logs
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const now = new Date();
+    const accountService = new AccountService(locals.supabase);
+    const archive = accountService.exportArchive(locals.user.id, now);
+
+    return new Response(archive, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': `attachment; filename="10xcard-account-${now.toISOString().slice(0, 10)}.json"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting account:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,98 @@
+import type { APIRoute } from 'astro';
+import { accountArchiveSchema } from '../../../lib/schemas/account.schema';
+import { AccountService } from '../../../lib/services/account.service';
+
+export const prerender = false;
+
+/**
+ * POST /api/account/import
+ * Restores an archive produced by GET /api/account/export into the current account,
+ * which must not contain any data yet. All records get new IDs and links are remapped.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = accountArchiveSchema.safeParse(body);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const accountService = new AccountService(locals.supabase);
+    try {
+      const summary = await accountService.importArchive(result.data, locals.user.id);
+
+      return new Response(JSON.stringify(summary), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (errorMessage.includes('Invalid archive')) {
+        return new Response(
+          JSON.stringify({
+            error: errorMessage,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      if (errorMessage.includes('Account already contains data')) {
+        return new Response(
+          JSON.stringify({
+            error: errorMessage,
+          }),
+          {
+            status: 409,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Error importing account archive:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -1,5 +1,6 @@
 import type { APIRoute } from 'astro';
 import { createSupabaseServerInstance } from '@/db/supabase.client';
+import { AccountService } from '@/lib/services/account.service';
 
 export const POST: APIRoute = async ({ request, cookies }) => {
   try {
@@ -15,10 +16,21 @@ export const POST: APIRoute = async ({ request, cookies }) => {
       return new Response(JSON.stringify({ error: 'Błąd logowania' }), { status: 400 });
     }
 
+    // Logowanie w okresie karencji anuluje zaplanowane usunięcie konta.
+    // Sesja jest już ustawiona, więc błąd anulowania nie może zakończyć logowania.
+    let deletionCancelled = false;
+    try {
+      const accountService = new AccountService(supabase);
+      deletionCancelled = (await accountService.cancelDeletion(data.user.id)) !== null;
+    } catch (cancelError) {
+      console.error('Failed to cancel account deletion on login:', cancelError);
+    }
+
     return new Response(
       JSON.stringify({
         user: data.user,
         session: data.session,
+        deletion_cancelled: deletionCancelled,
       }),
       { status: 200 }
     );
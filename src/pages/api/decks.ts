@@ -0,0 +1,126 @@
+import type { APIRoute } from 'astro';
+
+import { createDeckSchema } from '../../lib/schemas/decks.schema';
+import { DecksService } from '../../lib/services/decks.service';
+import type { DecksResponseDto } from '../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/decks
+ * Returns all decks of the current user with their flashcard counts
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const decksService = new DecksService(locals.supabase);
+    const response: DecksResponseDto = {
+      data: await decksService.getDecks(locals.user.id),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching decks:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * POST /api/decks
+ * Creates a new deck
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = createDeckSchema.safeParse(body);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const decksService = new DecksService(locals.supabase);
+    try {
+      const deck = await decksService.createDeck(locals.user.id, result.data);
+
+      return new Response(JSON.stringify(deck), {
+        status: 201,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!errorMessage.includes('Deck name already exists')) {
+        throw error;
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: errorMessage,
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  } catch (error) {
+    console.error('Error creating deck:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
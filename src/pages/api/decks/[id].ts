@@ -0,0 +1,247 @@
+import type { APIRoute } from 'astro';
+
+import { deckIdSchema, updateDeckSchema } from '../../../lib/schemas/decks.schema';
+import { DecksService } from '../../../lib/services/decks.service';
+
+// Disable static pre-rendering for dynamic API route
+export const prerender = false;
+
+/**
+ * GET /api/decks/:id
+ * Returns a single deck with its flashcard count
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate ID parameter
+    const result = deckIdSchema.safeParse({ id: params.id });
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid deck ID',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const decksService = new DecksService(locals.supabase);
+    const deck = await decksService.getDeckById(result.data.id, locals.user.id);
+
+    // Return 404 if deck not found
+    if (!deck) {
+      return new Response(
+        JSON.stringify({
+          error: 'Deck not found',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify(deck), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching deck:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * PUT /api/decks/:id
+ * Renames a deck or changes its description
+ */
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate ID parameter
+    const idResult = deckIdSchema.safeParse({ id: params.id });
+    if (!idResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid deck ID',
+          details: idResult.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const updateResult = updateDeckSchema.safeParse(body);
+    if (!updateResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: updateResult.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const decksService = new DecksService(locals.supabase);
+    try {
+      const deck = await decksService.updateDeck(
+        idResult.data.id,
+        locals.user.id,
+        updateResult.data
+      );
+
+      // Return 404 if deck not found
+      if (!deck) {
+        return new Response(
+          JSON.stringify({
+            error: 'Deck not found',
+          }),
+          {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return new Response(JSON.stringify(deck), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!errorMessage.includes('Deck name already exists')) {
+        throw error;
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: errorMessage,
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  } catch (error) {
+    console.error('Error updating deck:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * DELETE /api/decks/:id
+ * Deletes a deck; its flashcards are kept without a deck
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate ID parameter
+    const result = deckIdSchema.safeParse({ id: params.id });
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid deck ID',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const decksService = new DecksService(locals.supabase);
+    const deleted = await decksService.deleteDeck(result.data.id, locals.user.id);
+
+    // Return 404 if deck not found
+    if (!deleted) {
+      return new Response(
+        JSON.stringify({
+          error: 'Deck not found',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Return successful response with no content
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (error) {
+    console.error('Error deleting deck:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
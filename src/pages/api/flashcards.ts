@@ -6,38 +6,10 @@ import type {
   FlashcardSource,
 } from '../../types';
 
+import { DecksService } from '../../lib/services/decks.service';
 import { FlashcardsService } from '../../lib/services/flashcards.service';
-import { flashcardsQuerySchema } from '../../lib/schemas/flashcards.schema';
-
-// Validation schema for a single flashcard
-const flashcardSchema = z
-  .object({
-    front: z
-      .string()
-      .min(1, 'Front content is required')
-      .max(200, 'Front content cannot exceed 200 characters'),
-    back: z
-      .string()
-      .min(1, 'Back content is required')
-      .max(600, 'Back content cannot exceed 600 characters'),
-    source: z.enum(['ai-full', 'ai-edited', 'manual'] as const),
-    generation_id: z.number().nullable(),
-  })
-  .refine(
-    (data) => {
-      // Validate generation_id based on source type
-      if (['ai-full', 'ai-edited'].includes(data.source) && data.generation_id === null) {
-        return false;
-      }
-      if (data.source === 'manual' && data.generation_id !== null) {
-        return false;
-      }
-      return true;
-    },
-    {
-      message: 'generation_id is required for AI cards and must be null for manual cards',
-    }
-  );
+import { TagsService } from '../../lib/services/tags.service';
+import { flashcardSchema, flashcardsQuerySchema } from '../../lib/schemas/flashcards.schema';
 
 // Validation schema for the entire request
 const createFlashcardsSchema = z.object({
@@ -119,8 +91,29 @@ export const POST: APIRoute = async ({ request, locals }) => {
       }
     }
 
-    // 3. Insert flashcards
-    const flashcardsToInsert = command.flashcards.map((flashcard) => ({
+    // 3. Validate deck_id references if present
+    const deckIds = command.flashcards
+      .map((f) => f.deck_id)
+      .filter((id): id is number => id !== null && id !== undefined);
+
+    const decksService = new DecksService(supabase);
+    const missingDeckIds = await decksService.findMissingDeckIds(deckIds, user.id);
+
+    if (missingDeckIds.length > 0) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid deck references',
+          details: `Deck IDs not found: ${missingDeckIds.join(', ')}`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // 4. Insert flashcards
+    const flashcardsToInsert = command.flashcards.map(({ tags: _tags, ...flashcard }) => ({
       ...flashcard,
       user_id: user.id,
     }));
@@ -128,7 +121,7 @@ export const POST: APIRoute = async ({ request, locals }) => {
     const { data: createdFlashcards, error: dbError } = await supabase
       .from('flashcards')
       .insert(flashcardsToInsert)
-      .select();
+      .select('id, generation_id, deck_id, front, back, source, created_at, updated_at');
 
     if (dbError) {
       console.error('Error creating flashcards:', dbError);
@@ -143,11 +136,39 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
-    // 4. Prepare response
+    // 5. Attach tags (rows are returned in insertion order)
+    const tagsByFlashcard = new Map(
+      createdFlashcards.map((flashcard, index) => [
+        flashcard.id,
+        command.flashcards[index].tags ?? [],
+      ])
+    );
+
+    const tagsService = new TagsService(supabase);
+    await tagsService.addFlashcardTags(tagsByFlashcard, user.id);
+
+    const { data: taggedFlashcards, error: tagsError } = await supabase
+      .from('flashcards')
+      .select('id, tags(id, name)')
+      .in(
+        'id',
+        createdFlashcards.map((flashcard) => flashcard.id)
+      );
+
+    if (tagsError) {
+      console.error('Error fetching flashcard tags:', tagsError);
+    }
+
+    const tagsById = new Map(
+      (taggedFlashcards ?? []).map((flashcard) => [flashcard.id, flashcard.tags])
+    );
+
+    // 6. Prepare response
     const response: CreateFlashcardsResponseDto = {
       flashcards: createdFlashcards.map((flashcard) => ({
         ...flashcard,
         source: flashcard.source as FlashcardSource,
+        tags: tagsById.get(flashcard.id) ?? [],
       })),
     };
 
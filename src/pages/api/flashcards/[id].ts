@@ -1,6 +1,9 @@
 import { z } from 'zod';
 import type { APIRoute } from 'astro';
+import { DecksService } from '../../../lib/services/decks.service';
 import { FlashcardsService } from '../../../lib/services/flashcards.service';
+import { TagsService } from '../../../lib/services/tags.service';
+import { flashcardTagsSchema } from '../../../lib/schemas/tags.schema';
 
 import type { UpdateFlashcardCommand } from '../../../types';
 
@@ -17,9 +20,11 @@ const updateFlashcardSchema = z
   .object({
     front: z.string().max(200).optional(),
     back: z.string().max(600).optional(),
+    deck_id: z.number().int().positive().nullable().optional(),
+    tags: flashcardTagsSchema.optional(),
   })
-  .refine((data) => data.front !== undefined || data.back !== undefined, {
-    message: "At least one of 'front' or 'back' must be provided",
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: "At least one of 'front', 'back', 'deck_id' or 'tags' must be provided",
   });
 
 export const GET: APIRoute = async ({ params, locals }) => {
@@ -220,14 +225,37 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
       );
     }
 
+    // Validate deck reference if the card is moved to a deck
+    if (updateResult.data.deck_id) {
+      const decksService = new DecksService(locals.supabase);
+      const missingDeckIds = await decksService.findMissingDeckIds(
+        [updateResult.data.deck_id],
+        locals.user.id
+      );
+
+      if (missingDeckIds.length > 0) {
+        return new Response(
+          JSON.stringify({
+            error: 'Invalid deck reference',
+            details: `Deck ID not found: ${updateResult.data.deck_id}`,
+          }),
+          {
+            status: 400,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+    }
+
     // Initialize service and update flashcard
     const flashcardsService = new FlashcardsService(locals.supabase);
     try {
-      const updatedFlashcard = await flashcardsService.updateFlashcard(
-        idResult.data.id,
-        locals.user.id,
-        updateResult.data
-      );
+      const { tags, ...command } = updateResult.data;
+      const hasFieldChanges = Object.values(command).some((value) => value !== undefined);
+
+      let updatedFlashcard = hasFieldChanges
+        ? await flashcardsService.updateFlashcard(idResult.data.id, locals.user.id, command)
+        : await flashcardsService.getFlashcardById(idResult.data.id, locals.user.id);
 
       // Return 404 if flashcard not found
       if (!updatedFlashcard) {
@@ -246,6 +274,16 @@ export const PUT: APIRoute = async ({ params, request, locals }) => {
         );
       }
 
+      // Replace tags if provided
+      if (tags) {
+        const tagsService = new TagsService(locals.supabase);
+        await tagsService.setFlashcardTags(idResult.data.id, locals.user.id, tags);
+        updatedFlashcard = await flashcardsService.getFlashcardById(
+          idResult.data.id,
+          locals.user.id
+        );
+      }
+
       // Return successful response
       return new Response(JSON.stringify(updatedFlashcard), {
         status: 200,
@@ -0,0 +1,80 @@
+import type { APIRoute } from 'astro';
+import { exportFlashcardsQuerySchema } from '../../../lib/schemas/flashcards.schema';
+import { AnkiExportService } from '../../../lib/services/anki-export.service';
+import { DecksService } from '../../../lib/services/decks.service';
+
+export const prerender = false;
+
+/**
+ * GET /api/flashcards/export
+ * Downloads the user's flashcards (optionally a single deck) as an Anki package (.apkg)
+ */
+export const GET: APIRoute = async ({ url, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate query parameters
+    const result = exportFlashcardsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid query parameters',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    let fileName = '10xcard';
+    if (result.data.deck_id) {
+      const decksService = new DecksService(locals.supabase);
+      const deck = await decksService.getDeckById(result.data.deck_id, locals.user.id);
+
+      // Return 404 if deck not found
+      if (!deck) {
+        return new Response(
+          JSON.stringify({
+            error: 'Deck not found',
+          }),
+          {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      fileName = `10xcard-${deck.id}`;
+    }
+
+    const ankiExportService = new AnkiExportService(locals.supabase);
+    const apkg = await ankiExportService.exportApkg(locals.user.id, result.data.deck_id);
+
+    return new Response(apkg, {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Disposition': `attachment; filename="${fileName}.apkg"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting flashcards:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,88 @@
+import type { APIRoute } from 'astro';
+import { importFlashcardsSchema } from '../../../lib/schemas/import.schema';
+import { ImportService } from '../../../lib/services/import.service';
+
+export const prerender = false;
+
+/**
+ * POST /api/flashcards/import
+ * Parses a CSV/TSV file and reports per-row validation errors.
+ * Unless `dry_run` is set, valid rows are saved as manual flashcards.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = importFlashcardsSchema.safeParse(body);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const importService = new ImportService(locals.supabase);
+    try {
+      const report = await importService.importFlashcards(result.data, locals.user.id);
+
+      return new Response(JSON.stringify(report), {
+        status: result.data.dry_run ? 200 : 201,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!errorMessage.includes('Import cannot exceed')) {
+        throw error;
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: errorMessage,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  } catch (error) {
+    console.error('Error importing flashcards:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,114 @@
+import type { APIRoute } from 'astro';
+import { ankiImportOptionsSchema } from '../../../../lib/schemas/import.schema';
+import { AnkiImportService } from '../../../../lib/services/anki-import.service';
+
+export const prerender = false;
+
+const MAX_FILE_SIZE = 50 * 1024 * 1024;
+
+/**
+ * POST /api/flashcards/import/anki
+ * Imports notes from an Anki package (.apkg) sent as multipart/form-data:
+ * `file` with the package and `options` with AnkiImportOptionsCommand as JSON.
+ * With `dry_run` only the preview with note types and converted notes is returned.
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse multipart body
+    let file: FormDataEntryValue | null;
+    let options: unknown;
+    try {
+      const formData = await request.formData();
+      file = formData.get('file');
+      options = JSON.parse(String(formData.get('options') ?? '{}'));
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid multipart body or options JSON',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    if (!(file instanceof File) || file.size === 0 || file.size > MAX_FILE_SIZE) {
+      return new Response(
+        JSON.stringify({
+          error: `An .apkg file of at most ${MAX_FILE_SIZE / 1024 / 1024} MB is required`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = ankiImportOptionsSchema.safeParse(options);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const ankiImportService = new AnkiImportService(locals.supabase);
+    try {
+      const report = await ankiImportService.importPackage(
+        new Uint8Array(await file.arrayBuffer()),
+        result.data,
+        locals.user.id
+      );
+
+      return new Response(JSON.stringify(report), {
+        status: result.data.dry_run ? 200 : 201,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (
+        !errorMessage.includes('Invalid Anki package') &&
+        !errorMessage.includes('Unsupported Anki package') &&
+        !errorMessage.includes('Import cannot exceed')
+      ) {
+        throw error;
+      }
+
+      return new Response(
+        JSON.stringify({
+          error: errorMessage,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  } catch (error) {
+    console.error('Error importing Anki package:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,66 @@
+import type { APIRoute } from 'astro';
+
+import { generationErrorsQuerySchema } from '../../lib/schemas/generation.schema';
+import { GenerationService } from '../../lib/services/generation.service';
+
+export const prerender = false;
+
+/**
+ * GET /api/generation-errors
+ * Returns a paginated list of the user's failed generation attempts
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate query parameters
+    const url = new URL(request.url);
+    const validationResult = generationErrorsQuerySchema.safeParse(
+      Object.fromEntries(url.searchParams)
+    );
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Bad Request',
+          message: 'Invalid query parameters',
+          details: validationResult.error.format(),
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const generationService = new GenerationService(locals.supabase);
+    const result = await generationService.getGenerationErrors(
+      validationResult.data,
+      locals.user.id
+    );
+
+    return new Response(JSON.stringify(result), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error in generation-errors GET endpoint:', error);
+
+    return new Response(
+      JSON.stringify({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -1,13 +1,76 @@
 import type { APIRoute } from 'astro';
 
-import { generateFlashcardsSchema } from '../../lib/schemas/generation.schema';
+import {
+  generateFlashcardsSchema,
+  generationsQuerySchema,
+} from '../../lib/schemas/generation.schema';
 import { GenerationService } from '../../lib/services/generation.service';
+import { isModelAllowed } from '../../lib/services/models.service';
+import { RequestCancelledError } from '../../lib/services/openrouter';
+import {
+  GenerationQuotaExceededError,
+  getQuotaHeaders,
+  getRetryAfterSeconds,
+  isQuotaExceeded,
+  QuotaService,
+  withStartedGeneration,
+} from '../../lib/services/quota.service';
+import { createEventStream, EVENT_STREAM_CONTENT_TYPE } from '../../lib/sse';
+import type { GenerationQuotaDto, GenerationStreamEventDto } from '../../types';
 
 export const prerender = false;
 
+/**
+ * 429 response for a user who has used up a quota
+ */
+function createQuotaExceededResponse(quota: GenerationQuotaDto): Response {
+  return new Response(
+    JSON.stringify({
+      error: 'Too Many Requests',
+      message: 'Generation quota exceeded',
+      quota,
+    }),
+    {
+      status: 429,
+      headers: {
+        'Content-Type': 'application/json',
+        'Retry-After': String(getRetryAfterSeconds(quota)),
+        ...getQuotaHeaders(quota),
+      },
+    }
+  );
+}
+
+/**
+ * Quota left after the request: a reused generation (with `reusedAt`) did not use any
+ */
+function getRemainingQuotaHeaders(
+  quota: GenerationQuotaDto,
+  reusedAt: string | null
+): Record<string, string> {
+  return getQuotaHeaders(reusedAt === null ? withStartedGeneration(quota) : quota);
+}
+
+/**
+ * Sends an event that has already been read before the rest of the generator
+ */
+async function* prependEvent<T>(
+  first: IteratorResult<T>,
+  rest: AsyncGenerator<T>
+): AsyncGenerator<T> {
+  if (first.done) return;
+  yield first.value;
+  yield* rest;
+}
+
 /**
  * POST /api/generations
- * Creates a new flashcard generation based on provided source text
+ * Creates a new flashcard generation based on provided source text.
+ * With `Accept: text/event-stream` the proposals are sent as server-sent events
+ * while the AI is still writing them. When the client aborts the request, the AI call
+ * is aborted too and the generation is recorded as cancelled.
+ * Users over their daily generation or monthly token quota get 429 with `Retry-After`;
+ * every response carries the quota remaining after the request in `X-Quota-*` headers.
  */
 export const POST: APIRoute = async ({ request, locals }) => {
   const { supabase } = locals;
@@ -38,19 +101,149 @@ export const POST: APIRoute = async ({ request, locals }) => {
       );
     }
 
+    const { model } = validationResult.data;
+    if (model && !isModelAllowed(model)) {
+      return new Response(
+        JSON.stringify({
+          error: 'Bad Request',
+          message: `Model ${model} is not available`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Check the quota before any tokens are spent; the daily limit is enforced again
+    // when the generation is created, in case concurrent requests used it up meanwhile
+    const quotaService = new QuotaService(supabase);
+    const quota = await quotaService.getQuota(user.id);
+    if (isQuotaExceeded(quota)) {
+      return createQuotaExceededResponse(quota);
+    }
+
     // Process generation request using service
     const generationService = new GenerationService(supabase);
-    const result = await generationService.generateFlashcards(user.id, validationResult.data);
 
-    // Return successful response
+    try {
+      if (request.headers.get('Accept')?.includes(EVENT_STREAM_CONTENT_TYPE)) {
+        const events = generationService.streamFlashcards(
+          user.id,
+          validationResult.data,
+          request.signal
+        );
+        // The generation is created, or refused, before the first event is sent
+        const first = await events.next();
+        const reusedAt =
+          !first.done && first.value.type === 'generation' ? first.value.reused_at : null;
+        const body = createEventStream<GenerationStreamEventDto>(
+          prependEvent(first, events),
+          (error) => {
+            if (!(error instanceof RequestCancelledError)) {
+              console.error('Error in generations POST stream:', error);
+            }
+            return {
+              type: 'error',
+              message: error instanceof Error ? error.message : 'An unexpected error occurred',
+            };
+          }
+        );
+
+        return new Response(body, {
+          status: 200,
+          headers: {
+            'Content-Type': EVENT_STREAM_CONTENT_TYPE,
+            'Cache-Control': 'no-cache',
+            ...getRemainingQuotaHeaders(quota, reusedAt),
+          },
+        });
+      }
+
+      const result = await generationService.generateFlashcards(
+        user.id,
+        validationResult.data,
+        request.signal
+      );
+
+      // Return successful response
+      return new Response(JSON.stringify(result), {
+        status: 201,
+        headers: {
+          'Content-Type': 'application/json',
+          ...getRemainingQuotaHeaders(quota, result.reused_at),
+        },
+      });
+    } catch (error) {
+      if (error instanceof GenerationQuotaExceededError) {
+        return createQuotaExceededResponse(await quotaService.getQuota(user.id));
+      }
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof RequestCancelledError) {
+      // The client is gone, the response is never read
+      return new Response(null, { status: 499 });
+    }
+
+    console.error('Error in generations POST endpoint:', error);
+
+    // Return appropriate error response
+    return new Response(
+      JSON.stringify({
+        error: 'Internal Server Error',
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * GET /api/generations
+ * Returns a paginated list of the user's generation sessions
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  const { supabase } = locals;
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+
+  // Middleware gwarantuje, że session istnieje dla endpointów API
+  const user = session!.user;
+
+  try {
+    // Validate query parameters
+    const url = new URL(request.url);
+    const validationResult = generationsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Bad Request',
+          message: 'Invalid query parameters',
+          details: validationResult.error.format(),
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const generationService = new GenerationService(supabase);
+    const result = await generationService.getGenerations(validationResult.data, user.id);
+
     return new Response(JSON.stringify(result), {
-      status: 201,
+      status: 200,
       headers: { 'Content-Type': 'application/json' },
     });
   } catch (error) {
-    console.error('Error in generations POST endpoint:', error);
+    console.error('Error in generations GET endpoint:', error);
 
-    // Return appropriate error response
     return new Response(
       JSON.stringify({
         error: 'Internal Server Error',
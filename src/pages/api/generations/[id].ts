@@ -0,0 +1,70 @@
+import type { APIRoute } from 'astro';
+
+import { generationIdSchema } from '../../../lib/schemas/generation.schema';
+import { GenerationService } from '../../../lib/services/generation.service';
+
+// Disable static pre-rendering for dynamic API route
+export const prerender = false;
+
+/**
+ * GET /api/generations/:id
+ * Returns a single generation together with the flashcards saved from it
+ */
+export const GET: APIRoute = async ({ params, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate ID parameter
+    const result = generationIdSchema.safeParse({ id: params.id });
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid generation ID',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const generationService = new GenerationService(locals.supabase);
+    const generation = await generationService.getGenerationById(result.data.id, locals.user.id);
+
+    // Return 404 if generation not found
+    if (!generation) {
+      return new Response(
+        JSON.stringify({
+          error: 'Generation not found',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify(generation), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching generation:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,129 @@
+import type { APIRoute } from 'astro';
+
+import {
+  generationIdSchema,
+  recordProposalDecisionsSchema,
+} from '../../../../lib/schemas/generation.schema';
+import { GenerationService } from '../../../../lib/services/generation.service';
+
+// Disable static pre-rendering for dynamic API route
+export const prerender = false;
+
+/**
+ * POST /api/generations/:id/decisions
+ * Records the accept / edit / reject decision for each proposal of a generation
+ */
+export const POST: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate ID parameter
+    const idResult = generationIdSchema.safeParse({ id: params.id });
+    if (!idResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid generation ID',
+          details: idResult.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = recordProposalDecisionsSchema.safeParse(body);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const generationService = new GenerationService(locals.supabase);
+    try {
+      const generation = await generationService.recordProposalDecisions(
+        idResult.data.id,
+        locals.user.id,
+        result.data
+      );
+
+      // Return 404 if generation not found
+      if (!generation) {
+        return new Response(
+          JSON.stringify({
+            error: 'Generation not found',
+          }),
+          {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return new Response(JSON.stringify(generation), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const status = errorMessage.includes('Invalid flashcard references') ? 400 : 500;
+
+      console.error('Error in POST /api/generations/:id/decisions:', {
+        error,
+        generationId: idResult.data.id,
+        userId: locals.user.id,
+        status,
+      });
+
+      return new Response(
+        JSON.stringify({
+          error: status === 400 ? errorMessage : 'Internal server error',
+        }),
+        {
+          status,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  } catch (error) {
+    console.error('Unexpected error in POST /api/generations/:id/decisions:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
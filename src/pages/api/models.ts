@@ -0,0 +1,46 @@
+import type { APIRoute } from 'astro';
+
+import { ModelsService } from '../../lib/services/models.service';
+import type { ModelsResponseDto } from '../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/models
+ * Returns the models that can be used for generation (the administrator's allow-list),
+ * with their context length and pricing reported by OpenRouter
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const modelsService = new ModelsService();
+    const response: ModelsResponseDto = await modelsService.getModels();
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/json',
+        // The list only changes when OpenRouter or the allow-list changes
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error fetching models:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,41 @@
+import type { APIRoute } from 'astro';
+
+import { QuotaService } from '../../lib/services/quota.service';
+import type { GenerationQuotaDto } from '../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/quota
+ * Returns how much of the daily generation and monthly token quota the user has left
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const quotaService = new QuotaService(locals.supabase);
+    const response: GenerationQuotaDto = await quotaService.getQuota(locals.user.id);
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching quota:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,135 @@
+import type { APIRoute } from 'astro';
+
+import { dueReviewsQuerySchema, submitReviewSchema } from '../../lib/schemas/reviews.schema';
+import { ReviewsService } from '../../lib/services/reviews.service';
+
+export const prerender = false;
+
+/**
+ * GET /api/reviews
+ * Returns flashcards that are due for review
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate query parameters
+    const url = new URL(request.url);
+    const result = dueReviewsQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid query parameters',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const reviewsService = new ReviewsService(locals.supabase);
+    const response = await reviewsService.getDueFlashcards(result.data, locals.user.id);
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching due flashcards:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * POST /api/reviews
+ * Records a grade for a flashcard and schedules its next review
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = submitReviewSchema.safeParse(body);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const reviewsService = new ReviewsService(locals.supabase);
+    const reviewState = await reviewsService.submitReview(locals.user.id, result.data);
+
+    // Return 404 if flashcard not found
+    if (!reviewState) {
+      return new Response(
+        JSON.stringify({
+          error: 'Flashcard not found',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify(reviewState), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error submitting review:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,43 @@
+import type { APIRoute } from 'astro';
+
+import { TagsService } from '../../lib/services/tags.service';
+import type { TagsResponseDto } from '../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/tags
+ * Returns all tags of the current user with their flashcard counts
+ */
+export const GET: APIRoute = async ({ locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const tagsService = new TagsService(locals.supabase);
+    const response: TagsResponseDto = {
+      data: await tagsService.getTags(locals.user.id),
+    };
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
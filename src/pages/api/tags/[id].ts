@@ -0,0 +1,182 @@
+import type { APIRoute } from 'astro';
+
+import { renameTagSchema, tagIdSchema } from '../../../lib/schemas/tags.schema';
+import { TagsService } from '../../../lib/services/tags.service';
+
+// Disable static pre-rendering for dynamic API route
+export const prerender = false;
+
+/**
+ * PUT /api/tags/:id
+ * Renames a tag
+ */
+export const PUT: APIRoute = async ({ params, request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate ID parameter
+    const idResult = tagIdSchema.safeParse({ id: params.id });
+    if (!idResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid tag ID',
+          details: idResult.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const renameResult = renameTagSchema.safeParse(body);
+    if (!renameResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: renameResult.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const tagsService = new TagsService(locals.supabase);
+    try {
+      const tag = await tagsService.renameTag(idResult.data.id, locals.user.id, renameResult.data);
+
+      // Return 404 if tag not found
+      if (!tag) {
+        return new Response(
+          JSON.stringify({
+            error: 'Tag not found',
+          }),
+          {
+            status: 404,
+            headers: { 'Content-Type': 'application/json' },
+          }
+        );
+      }
+
+      return new Response(JSON.stringify(tag), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      if (!errorMessage.includes('Tag name already exists')) {
+        throw error;
+      }
+
+      // Renaming onto an existing name is a merge, which has its own endpoint
+      return new Response(
+        JSON.stringify({
+          error: errorMessage,
+          message: 'Use POST /api/tags/merge to combine tags',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+  } catch (error) {
+    console.error('Error renaming tag:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
+
+/**
+ * DELETE /api/tags/:id
+ * Deletes a tag and removes it from all flashcards
+ */
+export const DELETE: APIRoute = async ({ params, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Validate ID parameter
+    const result = tagIdSchema.safeParse({ id: params.id });
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid tag ID',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const tagsService = new TagsService(locals.supabase);
+    const deleted = await tagsService.deleteTag(result.data.id, locals.user.id);
+
+    // Return 404 if tag not found
+    if (!deleted) {
+      return new Response(
+        JSON.stringify({
+          error: 'Tag not found',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    // Return successful response with no content
+    return new Response(null, {
+      status: 204,
+    });
+  } catch (error) {
+    console.error('Error deleting tag:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -0,0 +1,84 @@
+import type { APIRoute } from 'astro';
+
+import { mergeTagsSchema } from '../../../lib/schemas/tags.schema';
+import { TagsService } from '../../../lib/services/tags.service';
+
+export const prerender = false;
+
+/**
+ * POST /api/tags/merge
+ * Moves flashcards of the source tags to the target tag and deletes the source tags
+ */
+export const POST: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    // Parse and validate request body
+    let body;
+    try {
+      body = await request.json();
+    } catch {
+      return new Response(
+        JSON.stringify({
+          error: 'Invalid JSON in request body',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const result = mergeTagsSchema.safeParse(body);
+    if (!result.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Validation error',
+          details: result.error.issues,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const tagsService = new TagsService(locals.supabase);
+    const tag = await tagsService.mergeTags(locals.user.id, result.data);
+
+    // Return 404 if any of the tags does not exist
+    if (!tag) {
+      return new Response(
+        JSON.stringify({
+          error: 'Tag not found',
+        }),
+        {
+          status: 404,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify(tag), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error merging tags:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
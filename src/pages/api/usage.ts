@@ -0,0 +1,63 @@
+import type { APIRoute } from 'astro';
+
+import { usageQuerySchema } from '../../lib/schemas/generation.schema';
+import { toUsageMonth, UsageService } from '../../lib/services/usage.service';
+import type { UsageSummaryDto } from '../../types';
+
+export const prerender = false;
+
+/**
+ * GET /api/usage
+ * Returns the tokens and cost of the user's AI generations in a month (`?month=YYYY-MM`,
+ * the current month by default), in total and per model
+ */
+export const GET: APIRoute = async ({ request, locals }) => {
+  try {
+    // Early return if no Supabase client or user
+    if (!locals.supabase || !locals.user) {
+      return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+        status: 401,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }
+
+    const url = new URL(request.url);
+    const validationResult = usageQuerySchema.safeParse(Object.fromEntries(url.searchParams));
+
+    if (!validationResult.success) {
+      return new Response(
+        JSON.stringify({
+          error: 'Bad Request',
+          message: 'Invalid query parameters',
+          details: validationResult.error.format(),
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    const usageService = new UsageService(locals.supabase);
+    const response: UsageSummaryDto = await usageService.getMonthlyUsage(
+      locals.user.id,
+      validationResult.data.month ?? toUsageMonth(new Date())
+    );
+
+    return new Response(JSON.stringify(response), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return new Response(
+      JSON.stringify({
+        error: 'Internal server error',
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+};
@@ -30,17 +30,27 @@ type FlashcardRow = Database['public']['Tables']['flashcards']['Row'];
 /** Single flashcard returned by the API */
 export type FlashcardDto = Pick<
   FlashcardRow,
-  'id' | 'generation_id' | 'front' | 'back' | 'created_at' | 'updated_at'
+  'id' | 'generation_id' | 'deck_id' | 'front' | 'back' | 'created_at' | 'updated_at'
 > & {
   /** Narrow the raw `string` → discriminated literal union */
   source: FlashcardSource;
 };
 
+/** Flashcard together with its tags (returned by the flashcards endpoints) */
+export type FlashcardWithTagsDto = FlashcardDto & {
+  tags: TagSummaryDto[];
+};
+
 /** Query-string schema for GET /api/flashcards */
 export interface FlashcardQueryParams {
   page?: number;
   limit?: number;
   source?: FlashcardSource;
+  deck_id?: number;
+  /** Only flashcards that have all of these tags */
+  tag_ids?: number[];
+  /** Full-text search over front and back; every word is matched as a prefix */
+  q?: string;
   sort?: 'created_at' | 'updated_at' | 'id';
   order?: 'asc' | 'desc';
 }
@@ -49,7 +59,11 @@ export interface FlashcardQueryParams {
 export type CreateFlashcardInputDto = Pick<
   FlashcardDto,
   'front' | 'back' | 'source' | 'generation_id'
->;
+> &
+  Partial<Pick<FlashcardDto, 'deck_id'>> & {
+    /** Tag names; missing tags are created on the fly */
+    tags?: string[];
+  };
 
 /** Command model for POST /api/flashcards */
 export interface CreateFlashcardsCommand {
@@ -58,21 +72,192 @@ export interface CreateFlashcardsCommand {
 
 /** Response DTO for POST /api/flashcards */
 export interface CreateFlashcardsResponseDto {
-  flashcards: FlashcardDto[];
+  flashcards: FlashcardWithTagsDto[];
 }
 
 /** Command model for PUT /api/flashcards/:id */
-export type UpdateFlashcardCommand = Partial<Pick<FlashcardDto, 'front' | 'back'>>;
+export type UpdateFlashcardCommand = Partial<Pick<FlashcardDto, 'front' | 'back' | 'deck_id'>> & {
+  /** Replaces all tags of the flashcard */
+  tags?: string[];
+};
 
 /** Paginated response for GET /api/flashcards */
-export type FlashcardsPaginatedResponseDto = PaginatedResponse<FlashcardDto>;
+export type FlashcardsPaginatedResponseDto = PaginatedResponse<FlashcardWithTagsDto>;
+
+/* ───────────────────────── Decks ──────────────────────────────────── */
+
+type DeckRow = Database['public']['Tables']['decks']['Row'];
+
+/** Named collection of flashcards */
+export type DeckDto = Pick<DeckRow, 'id' | 'name' | 'description' | 'created_at' | 'updated_at'> & {
+  /** Number of flashcards currently assigned to the deck */
+  flashcard_count: number;
+};
+
+/** Command model for POST /api/decks */
+export type CreateDeckCommand = Pick<DeckRow, 'name'> & Partial<Pick<DeckRow, 'description'>>;
+
+/** Command model for PUT /api/decks/:id */
+export type UpdateDeckCommand = Partial<CreateDeckCommand>;
+
+/** Response DTO for GET /api/decks (decks are few, so the list is not paginated) */
+export interface DecksResponseDto {
+  data: DeckDto[];
+}
+
+/* ───────────────────────── Tags ───────────────────────────────────── */
+
+type TagRow = Database['public']['Tables']['tags']['Row'];
+
+/** Minimal tag shape embedded in flashcards */
+export type TagSummaryDto = Pick<TagRow, 'id' | 'name'>;
+
+/** Tag with usage statistics, returned by GET /api/tags */
+export type TagDto = Pick<TagRow, 'id' | 'name' | 'created_at' | 'updated_at'> & {
+  /** Number of flashcards labelled with the tag */
+  flashcard_count: number;
+};
+
+/** Response DTO for GET /api/tags */
+export interface TagsResponseDto {
+  data: TagDto[];
+}
+
+/** Command model for PUT /api/tags/:id */
+export type RenameTagCommand = Pick<TagRow, 'name'>;
+
+/** Command model for POST /api/tags/merge */
+export interface MergeTagsCommand {
+  /** Tags that are folded into the target and then deleted */
+  source_tag_ids: TagRow['id'][];
+  target_tag_id: TagRow['id'];
+}
+
+/* ───────────────────────── Import ─────────────────────────────────── */
+
+/** Field delimiters accepted by POST /api/flashcards/import */
+export type ImportDelimiter = ',' | ';' | '\t';
+
+/** Zero-based column indexes of flashcard fields in the imported file */
+export interface ImportColumnMappingDto {
+  front: number;
+  back: number;
+  /** Column with tags separated by `,`, `;` or `|` */
+  tags?: number | null;
+  /** Column with deck names; missing decks are created */
+  deck?: number | null;
+}
+
+/** Command model for POST /api/flashcards/import */
+export interface ImportFlashcardsCommand {
+  content: string;
+  delimiter: ImportDelimiter;
+  has_header: boolean;
+  /** Detected from the header row when omitted */
+  mapping?: ImportColumnMappingDto;
+  /** Only parse and validate, without saving anything */
+  dry_run: boolean;
+}
+
+/** One parsed data row of the imported file */
+export interface ImportRowDto {
+  /** Line number in the file (1-based, header included) */
+  row: number;
+  front: string;
+  back: string;
+  tags: string[];
+  deck: string | null;
+  /** Validation errors; rows with errors are skipped */
+  errors: string[];
+}
+
+/** Response DTO for POST /api/flashcards/import (preview and import) */
+export interface ImportFlashcardsResponseDto {
+  /** Header names, or generic names when the file has no header */
+  columns: string[];
+  mapping: ImportColumnMappingDto;
+  rows: ImportRowDto[];
+  valid_count: number;
+  invalid_count: number;
+  /** Number of created flashcards (always 0 for a dry run) */
+  imported_count: number;
+}
+
+/** What to do with Anki fields longer than the flashcard limits */
+export type AnkiOverflowMode = 'truncate' | 'skip';
+
+/** Indexes of the note-type fields used as front and back */
+export interface AnkiFieldMappingDto {
+  front: number;
+  back: number;
+}
+
+/** Options of POST /api/flashcards/import/anki (sent with the file as JSON) */
+export interface AnkiImportOptionsCommand {
+  /** Field mapping keyed by note type ID; defaults to the first two fields */
+  mapping?: Record<string, AnkiFieldMappingDto>;
+  overflow: AnkiOverflowMode;
+  /** Carry over intervals, ease and due dates of reviewed cards */
+  include_scheduling: boolean;
+  dry_run: boolean;
+}
+
+/** Note type found in the package */
+export interface AnkiNoteTypeDto {
+  id: string;
+  name: string;
+  fields: string[];
+  note_count: number;
+}
+
+/** One Anki note converted to a flashcard */
+export interface AnkiImportNoteDto {
+  note_id: number;
+  note_type_id: string;
+  front: string;
+  back: string;
+  tags: string[];
+  deck: string | null;
+  /** Validation errors; notes with errors are skipped */
+  errors: string[];
+  /** Changes made to fit the note into a flashcard (e.g. truncation) */
+  warnings: string[];
+}
+
+/** Response DTO for POST /api/flashcards/import/anki (preview and import) */
+export interface AnkiImportResponseDto {
+  note_types: AnkiNoteTypeDto[];
+  mapping: Record<string, AnkiFieldMappingDto>;
+  notes: AnkiImportNoteDto[];
+  valid_count: number;
+  invalid_count: number;
+  /** Number of created flashcards (always 0 for a dry run) */
+  imported_count: number;
+  /** Number of created flashcards with review history carried over */
+  scheduled_count: number;
+}
 
 /* ───────────────────────── Generations ────────────────────────────── */
 
 type GenerationRow = Database['public']['Tables']['generations']['Row'];
 
+/** Lifecycle of a generation; `pending` until the AI response has been stored */
+export type GenerationStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+/** Target level of the generated flashcards */
+export type GenerationDifficulty = 'easy' | 'medium' | 'hard';
+
+/** Languages the flashcards can be generated in (ISO 639-1) */
+export type GenerationLanguage = 'pl' | 'en' | 'de' | 'es' | 'fr' | 'it';
+
 /** Single generation session DTO */
-export type GenerationDto = GenerationRow;
+export type GenerationDto = Omit<GenerationRow, 'status' | 'difficulty' | 'language'> & {
+  /** Narrow the raw `string` → discriminated literal union */
+  status: GenerationStatus;
+  difficulty: GenerationDifficulty | null;
+  /** Null when the flashcards were written in the language of the source text */
+  language: GenerationLanguage | null;
+};
 
 /** Query-string schema for GET /api/generations */
 export interface GenerationsQueryParams {
@@ -86,26 +271,284 @@ export interface GenerationsQueryParams {
 export interface GenerateFlashcardsCommand {
   /** Plain source text (1000-10000 chars) to be sent to the AI */
   source_text: string;
+  /** Number of flashcards (1-20); derived from the text length when omitted */
+  card_count?: number;
+  difficulty?: GenerationDifficulty;
+  /** Language of the flashcards; the language of the source text when omitted */
+  language?: GenerationLanguage;
+  /** What the flashcards should concentrate on (max 500 chars) */
+  focus?: string;
+  /** One of the models listed by GET /api/models; the default model when omitted */
+  model?: string;
+  /** Call the AI even when an earlier generation of the same request can be reused */
+  force_refresh?: boolean;
+}
+
+/** Model that can be chosen in the generator (GET /api/models) */
+export interface GenerationModelDto {
+  id: string;
+  name: string;
+  /** Maximum number of tokens of the prompt and the response together */
+  context_length: number;
+  /** USD per token; null when OpenRouter does not report the pricing */
+  pricing: { prompt: number; completion: number } | null;
+}
+
+/** Response DTO for GET /api/models */
+export interface ModelsResponseDto {
+  data: GenerationModelDto[];
+  /** Model used when the generation command does not name one */
+  default_model: string;
 }
 
 /** Proposal item returned immediately after generation */
 export type FlashcardProposalDto = Pick<FlashcardDto, 'front' | 'back'> & {
   /** All proposals are born as ‘ai-full’ */
   source: Extract<FlashcardSource, 'ai-full'>;
+  /** Topic tags suggested by the AI */
+  tags: string[];
 };
 
 /** Response DTO for POST /api/generations */
 export interface GenerateFlashcardsResponseDto {
   generation_id: GenerationDto['id'];
   flashcards_proposal: FlashcardProposalDto[];
+  /** When the reused proposals were generated; null when the AI was called */
+  reused_at: string | null;
 }
 
+/**
+ * Server-sent event of POST /api/generations requested with `Accept: text/event-stream`.
+ * Proposals arrive one by one; `done` means they were stored and decisions can be recorded.
+ */
+export type GenerationStreamEventDto =
+  | { type: 'generation'; generation_id: GenerationDto['id']; reused_at: string | null }
+  | { type: 'proposal'; position: number; proposal: FlashcardProposalDto }
+  | { type: 'done'; generation_id: GenerationDto['id']; generated_count: number }
+  | { type: 'error'; message: string };
+
 /** Paginated response for GET /api/generations */
 export type GenerationsPaginatedResponseDto = PaginatedResponse<GenerationDto>;
 
+/** Tokens and cost of the completed generations of one model */
+export interface ModelUsageDto {
+  model: GenerationDto['model'];
+  generations: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  /** USD */
+  cost: number;
+}
+
+/** Response DTO for GET /api/usage: AI usage of the current user in one month */
+export interface UsageSummaryDto extends Omit<ModelUsageDto, 'model'> {
+  /** `YYYY-MM`, months start at midnight UTC */
+  month: string;
+  /** Completed generations without a usage report or model prices; they add no cost */
+  unpriced_generations: number;
+  by_model: ModelUsageDto[];
+}
+
+/** State of one generation quota; `limit` and `remaining` are null when it is disabled */
+export interface QuotaLimitDto {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+  /** When the quota starts over (midnight UTC) */
+  resets_at: string;
+}
+
+/** Response DTO for GET /api/quota */
+export interface GenerationQuotaDto {
+  /** Generations started today, including failed and cancelled ones but not reused ones */
+  daily_generations: QuotaLimitDto;
+  /** Prompt and completion tokens used this month */
+  monthly_tokens: QuotaLimitDto;
+}
+
+/* ───────────────────── Generation Proposals ──────────────────────── */
+
+type GenerationProposalRow = Database['public']['Tables']['generation_proposals']['Row'];
+
+/** Final decision taken by the user on a single AI proposal */
+export type ProposalDecision = 'pending' | 'accepted' | 'edited' | 'rejected';
+
+/** Single AI proposal with the user's decision */
+export type GenerationProposalDto = Pick<
+  GenerationProposalRow,
+  | 'id'
+  | 'position'
+  | 'original_front'
+  | 'original_back'
+  | 'final_front'
+  | 'final_back'
+  | 'suggested_tags'
+  | 'flashcard_id'
+  | 'created_at'
+  | 'decided_at'
+> & {
+  /** Narrow the raw `string` → discriminated literal union */
+  decision: ProposalDecision;
+};
+
+/** Decision on one proposal, identified by its position in `flashcards_proposal` */
+export interface ProposalDecisionInputDto {
+  position: GenerationProposalDto['position'];
+  decision: Exclude<ProposalDecision, 'pending'>;
+  /** Flashcard created from an accepted or edited proposal */
+  flashcard_id?: number | null;
+  /** Final content of an edited proposal */
+  final_front?: string;
+  final_back?: string;
+  /** When the decision was taken on the client (defaults to the time of the request) */
+  decided_at?: string;
+}
+
+/** Command model for POST /api/generations/:id/decisions */
+export interface RecordProposalDecisionsCommand {
+  decisions: ProposalDecisionInputDto[];
+}
+
+/** Response DTO for GET /api/generations/:id */
+export type GenerationDetailDto = GenerationDto & {
+  /** Flashcards saved from this generation (linked via `generation_id`) */
+  flashcards: FlashcardDto[];
+  /** Every proposal returned by the AI, in original order */
+  proposals: GenerationProposalDto[];
+};
+
+/* ───────────────────────── Reviews ────────────────────────────────── */
+
+type ReviewStateRow = Database['public']['Tables']['review_states']['Row'];
+
+/** Answer quality reported by the user after revealing the back of a card */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/** SM-2 scheduling state of a single flashcard */
+export type ReviewStateDto = Pick<
+  ReviewStateRow,
+  | 'flashcard_id'
+  | 'ease_factor'
+  | 'interval'
+  | 'repetitions'
+  | 'lapses'
+  | 'due_at'
+  | 'last_reviewed_at'
+>;
+
+/** Flashcard due for review together with its scheduling state */
+export type DueFlashcardDto = FlashcardDto & {
+  review: ReviewStateDto;
+};
+
+/** Query-string schema for GET /api/reviews */
+export interface DueReviewsQueryParams {
+  limit?: number;
+}
+
+/** Response DTO for GET /api/reviews */
+export interface DueReviewsResponseDto {
+  data: DueFlashcardDto[];
+  /** Number of all cards due right now (may exceed `data.length`) */
+  total_due: number;
+}
+
+/** Command model for POST /api/reviews */
+export interface SubmitReviewCommand {
+  flashcard_id: FlashcardDto['id'];
+  grade: ReviewGrade;
+}
+
+/** Response DTO for POST /api/reviews */
+export type SubmitReviewResponseDto = ReviewStateDto;
+
 /* ─────────────────── Generation Error Logs (internal) ────────────── */
 
 type GenerationErrorLogRow = Database['public']['Tables']['generation_error_logs']['Row'];
 
 /** DTO representing a single error log emitted by the AI service */
 export type GenerationErrorLogDto = GenerationErrorLogRow;
+
+/** Query-string schema for GET /api/generation-errors */
+export interface GenerationErrorLogsQueryParams {
+  page?: number;
+  limit?: number;
+  order?: 'asc' | 'desc';
+}
+
+/** Paginated response for GET /api/generation-errors */
+export type GenerationErrorLogsPaginatedResponseDto = PaginatedResponse<GenerationErrorLogDto>;
+
+/* ───────────────────────── Account ────────────────────────────────── */
+
+/** Current version of the account archive format */
+export type AccountArchiveVersion = 1;
+
+/** Deck as stored in the account archive */
+export type AccountArchiveDeckDto = Omit<DeckRow, 'user_id'>;
+
+/** Tag as stored in the account archive */
+export type AccountArchiveTagDto = Omit<TagRow, 'user_id'>;
+
+/** Generation as stored in the account archive */
+export type AccountArchiveGenerationDto = Omit<GenerationRow, 'user_id'>;
+
+/** Flashcard as stored in the account archive, with its tags and scheduling state */
+export type AccountArchiveFlashcardDto = FlashcardWithTagsDto & {
+  /** `null` when the flashcard has no review state */
+  review: Omit<ReviewStateDto, 'flashcard_id'> | null;
+};
+
+/** AI proposal as stored in the account archive */
+export type AccountArchiveProposalDto = Omit<GenerationProposalRow, 'user_id'>;
+
+/** Generation error log as stored in the account archive */
+export type AccountArchiveErrorLogDto = Omit<GenerationErrorLogRow, 'user_id'>;
+
+/**
+ * Response DTO for GET /api/account/export and command model for POST /api/account/import.
+ * IDs are the ones of the exporting account; links between sections refer to them.
+ */
+export interface AccountArchiveDto {
+  format: '10xcard-account';
+  version: AccountArchiveVersion;
+  exported_at: string;
+  decks: AccountArchiveDeckDto[];
+  tags: AccountArchiveTagDto[];
+  generations: AccountArchiveGenerationDto[];
+  flashcards: AccountArchiveFlashcardDto[];
+  generation_proposals: AccountArchiveProposalDto[];
+  generation_error_logs: AccountArchiveErrorLogDto[];
+}
+
+/** Response DTO for POST /api/account/import: number of restored records per section */
+export type AccountImportResponseDto = Record<
+  Exclude<keyof AccountArchiveDto, 'format' | 'version' | 'exported_at'>,
+  number
+>;
+
+type AccountDeletionRow = Database['public']['Tables']['account_deletions']['Row'];
+
+/** Lifecycle of an account deletion request */
+export type AccountDeletionStatus = 'pending' | 'cancelled' | 'completed';
+
+/** Account deletion request returned by the /api/account/deletion endpoints */
+export type AccountDeletionDto = Pick<
+  AccountDeletionRow,
+  'requested_at' | 'scheduled_for' | 'cancelled_at'
+> & {
+  /** Narrow the raw `string` → discriminated literal union */
+  status: AccountDeletionStatus;
+};
+
+/** Command model for POST /api/account/deletion */
+export interface RequestAccountDeletionCommand {
+  /** Email of the account, typed by the user as confirmation */
+  confirm_email: string;
+}
+
+/** Response DTO for GET /api/account/deletion */
+export interface AccountDeletionResponseDto {
+  /** Latest deletion request, `null` if the user never requested one */
+  deletion: AccountDeletionDto | null;
+}
@@ -0,0 +1,57 @@
+-- Migration: Spaced repetition review state
+-- Description: Adds per-flashcard SM-2 scheduling state and keeps it in sync with flashcards
+-- Tables: review_states
+-- Author: 10xCard
+-- Date: 2025-05-20
+
+-- review states table (one row per flashcard)
+create table review_states (
+    id serial primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    flashcard_id integer not null unique references flashcards(id) on delete cascade,
+    ease_factor numeric(4, 2) not null default 2.50,
+    interval integer not null default 0,
+    repetitions integer not null default 0,
+    lapses integer not null default 0,
+    due_at timestamptz not null default now(),
+    last_reviewed_at timestamptz,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    -- constraints
+    constraint review_states_ease_factor_check
+        check (ease_factor >= 1.30),
+    constraint review_states_interval_check
+        check (interval >= 0),
+    constraint review_states_repetitions_check
+        check (repetitions >= 0)
+);
+
+-- indexes
+create index idx_review_states_user_id_due_at on review_states(user_id, due_at);
+
+-- trigger for updated_at timestamp
+create trigger set_timestamp_review_states
+    before update on review_states
+    for each row
+    execute function update_updated_at_column();
+
+-- every new flashcard starts as a new card that is due immediately
+create or replace function create_review_state_for_flashcard()
+returns trigger as $$
+begin
+    insert into review_states (user_id, flashcard_id)
+    values (new.user_id, new.id)
+    on conflict (flashcard_id) do nothing;
+    return new;
+end;
+$$ language plpgsql;
+
+create trigger create_review_state_after_flashcard_insert
+    after insert on flashcards
+    for each row
+    execute function create_review_state_for_flashcard();
+
+-- backfill review state for flashcards created before this migration
+insert into review_states (user_id, flashcard_id)
+select user_id, id from flashcards
+on conflict (flashcard_id) do nothing;
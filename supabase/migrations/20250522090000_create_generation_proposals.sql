@@ -0,0 +1,30 @@
+-- Migration: Generation proposals
+-- Description: Stores every AI flashcard proposal together with the user's final decision
+-- Tables: generation_proposals
+-- Author: 10xCard
+-- Date: 2025-05-22
+
+-- generation proposals table
+create table generation_proposals (
+    id serial primary key,
+    generation_id integer not null references generations(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    position integer not null,
+    original_front text not null,
+    original_back text not null,
+    final_front text,
+    final_back text,
+    decision varchar(16) not null default 'pending',
+    flashcard_id integer references flashcards(id) on delete set null,
+    created_at timestamptz not null default now(),
+    decided_at timestamptz,
+    -- constraints
+    constraint generation_proposals_position_unique
+        unique (generation_id, position),
+    constraint generation_proposals_decision_check
+        check (decision in ('pending', 'accepted', 'edited', 'rejected'))
+);
+
+-- indexes
+create index idx_generation_proposals_generation_id on generation_proposals(generation_id);
+create index idx_generation_proposals_user_id on generation_proposals(user_id);
@@ -0,0 +1,30 @@
+-- Migration: Redesign generation error logs
+-- Description: Allows logging failures that happen before a generation row exists
+--              and records HTTP status and attempt count of the failed AI request
+-- Tables: generation_error_logs
+-- Author: 10xCard
+-- Date: 2025-05-23
+
+-- failures may happen before the generation row is created, so the link is optional
+alter table generation_error_logs
+    alter column generation_id drop not null;
+
+-- keep error logs when the generation they refer to is deleted
+alter table generation_error_logs
+    drop constraint generation_error_logs_generation_id_fkey;
+
+alter table generation_error_logs
+    add constraint generation_error_logs_generation_id_fkey
+        foreign key (generation_id) references generations(id) on delete set null;
+
+-- details of the failed request
+alter table generation_error_logs
+    add column http_status integer,
+    add column attempt_count integer not null default 1;
+
+alter table generation_error_logs
+    add constraint error_logs_attempt_count_check
+        check (attempt_count >= 1);
+
+-- indexes
+create index idx_error_logs_generation_id on generation_error_logs(generation_id);
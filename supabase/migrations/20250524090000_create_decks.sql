@@ -0,0 +1,35 @@
+-- Migration: Decks
+-- Description: Adds named flashcard collections and an optional deck reference on flashcards
+-- Tables: decks, flashcards
+-- Author: 10xCard
+-- Date: 2025-05-24
+
+-- decks table
+create table decks (
+    id serial primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    name varchar(100) not null,
+    description varchar(500),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    -- constraints
+    constraint decks_name_unique
+        unique (user_id, name),
+    constraint decks_name_length_check
+        check (char_length(trim(name)) > 0)
+);
+
+-- indexes
+create index idx_decks_user_id on decks(user_id);
+
+-- trigger for updated_at timestamp
+create trigger set_timestamp_decks
+    before update on decks
+    for each row
+    execute function update_updated_at_column();
+
+-- flashcards keep living without a deck when their deck is deleted
+alter table flashcards
+    add column deck_id integer references decks(id) on delete set null;
+
+create index idx_flashcards_deck_id on flashcards(deck_id);
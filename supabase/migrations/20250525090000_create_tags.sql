@@ -0,0 +1,44 @@
+-- Migration: Tags
+-- Description: Adds user tags, the flashcard-tag link table and AI-suggested tags on proposals
+-- Tables: tags, flashcard_tags, generation_proposals
+-- Author: 10xCard
+-- Date: 2025-05-25
+
+-- tags table (names are stored normalized: trimmed and lowercase)
+create table tags (
+    id serial primary key,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    name varchar(50) not null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    -- constraints
+    constraint tags_name_unique
+        unique (user_id, name),
+    constraint tags_name_length_check
+        check (char_length(trim(name)) > 0)
+);
+
+-- flashcard tags table (many-to-many between flashcards and tags)
+create table flashcard_tags (
+    flashcard_id integer not null references flashcards(id) on delete cascade,
+    tag_id integer not null references tags(id) on delete cascade,
+    user_id uuid not null references auth.users(id) on delete cascade,
+    created_at timestamptz not null default now(),
+    -- constraints
+    primary key (flashcard_id, tag_id)
+);
+
+-- indexes
+create index idx_tags_user_id on tags(user_id);
+create index idx_flashcard_tags_tag_id on flashcard_tags(tag_id);
+create index idx_flashcard_tags_user_id on flashcard_tags(user_id);
+
+-- trigger for updated_at timestamp
+create trigger set_timestamp_tags
+    before update on tags
+    for each row
+    execute function update_updated_at_column();
+
+-- tags suggested by the AI for each proposal
+alter table generation_proposals
+    add column suggested_tags text[] not null default '{}';
@@ -0,0 +1,28 @@
+-- Migration: Flashcards full-text search
+-- Description: Adds a weighted search vector over flashcard front and back with a GIN index
+-- Tables: flashcards
+-- Author: 10xCard
+-- Date: 2025-05-26
+
+-- unaccent lets "zolw" match "żółw" (users often type without Polish diacritics)
+create extension if not exists "unaccent" with schema extensions;
+
+-- postgres ships no polish stemmer, so the search config is 'simple' (no stemming,
+-- no stop words) with accents stripped; partial words are handled by prefix queries
+create text search configuration public.flashcards_search (copy = pg_catalog.simple);
+
+alter text search configuration public.flashcards_search
+    alter mapping for hword, hword_part, word
+    with extensions.unaccent, simple;
+
+-- search vector (front weighted above back); the two-argument to_tsvector with an
+-- explicit regconfig is immutable, which generated columns require
+alter table flashcards
+    add column search_vector tsvector
+        generated always as (
+            setweight(to_tsvector('public.flashcards_search'::regconfig, coalesce(front, '')), 'A') ||
+            setweight(to_tsvector('public.flashcards_search'::regconfig, coalesce(back, '')), 'B')
+        ) stored;
+
+-- indexes
+create index flashcards_search_vector_idx on flashcards using gin (search_vector);
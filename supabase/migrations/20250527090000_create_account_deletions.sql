@@ -0,0 +1,76 @@
+-- Migration: Account deletions
+-- Description: Self-service account deletion with a grace period. Each request is kept as an
+--              audit record after the account is gone; an hourly job removes expired accounts.
+-- Tables: account_deletions
+-- Author: 10xCard
+-- Date: 2025-05-27
+
+-- pg_cron runs the purge job
+create extension if not exists pg_cron;
+
+-- account deletions table (no foreign key: the audit record outlives the user)
+create table account_deletions (
+    id serial primary key,
+    user_id uuid not null,
+    status varchar(16) not null default 'pending',
+    requested_at timestamptz not null default now(),
+    scheduled_for timestamptz not null,
+    cancelled_at timestamptz,
+    completed_at timestamptz,
+    -- number of records removed together with the account
+    deleted_counts jsonb,
+    -- constraints
+    constraint account_deletions_status_check
+        check (status in ('pending', 'cancelled', 'completed')),
+    constraint account_deletions_scheduled_for_check
+        check (scheduled_for >= requested_at)
+);
+
+-- indexes
+create index idx_account_deletions_user_id on account_deletions(user_id);
+
+-- a user has at most one pending request
+create unique index account_deletions_pending_unique
+    on account_deletions(user_id)
+    where status = 'pending';
+
+-- deletes accounts whose grace period has passed; user data is removed by the
+-- `on delete cascade` foreign keys to auth.users
+create or replace function purge_expired_account_deletions()
+returns integer as $$
+declare
+    deletion record;
+    purged integer := 0;
+begin
+    for deletion in
+        select id, user_id from account_deletions
+        where status = 'pending' and scheduled_for <= now()
+        for update skip locked
+    loop
+        update account_deletions
+        set status = 'completed',
+            completed_at = now(),
+            deleted_counts = jsonb_build_object(
+                'flashcards', (select count(*) from flashcards where user_id = deletion.user_id),
+                'generations', (select count(*) from generations where user_id = deletion.user_id),
+                'generation_error_logs',
+                    (select count(*) from generation_error_logs where user_id = deletion.user_id)
+            )
+        where id = deletion.id;
+
+        delete from auth.users where id = deletion.user_id;
+        purged := purged + 1;
+    end loop;
+
+    return purged;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- only the scheduler may purge accounts
+revoke execute on function purge_expired_account_deletions() from public, anon, authenticated;
+
+select cron.schedule(
+    'purge-expired-account-deletions',
+    '0 * * * *',
+    'select public.purge_expired_account_deletions()'
+);
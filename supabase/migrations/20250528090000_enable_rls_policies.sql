@@ -0,0 +1,283 @@
+-- Migration: Row level security policies
+-- Description: Restores the policies dropped by 20250508204904_disable_policies.sql and enables
+--              row level security on every user table, so that a user's client can only read
+--              and change their own rows even when a query forgets to filter by user_id.
+--              References to other records (deck, generation, flashcard, tag) must point at
+--              rows of the same user.
+-- Tables: generations, flashcards, generation_error_logs, review_states, generation_proposals,
+--         decks, tags, flashcard_tags, account_deletions
+-- Author: 10xCard
+-- Date: 2025-05-28
+
+-- enable row level security
+alter table generations enable row level security;
+alter table flashcards enable row level security;
+alter table generation_error_logs enable row level security;
+alter table review_states enable row level security;
+alter table generation_proposals enable row level security;
+alter table decks enable row level security;
+alter table tags enable row level security;
+alter table flashcard_tags enable row level security;
+alter table account_deletions enable row level security;
+
+-- rls policies for generations table
+create policy "Users can view their own generations"
+    on generations for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own generations"
+    on generations for insert
+    to authenticated
+    with check (user_id = auth.uid());
+
+create policy "Users can update their own generations"
+    on generations for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can delete their own generations"
+    on generations for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- rls policies for decks table
+create policy "Users can view their own decks"
+    on decks for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own decks"
+    on decks for insert
+    to authenticated
+    with check (user_id = auth.uid());
+
+create policy "Users can update their own decks"
+    on decks for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can delete their own decks"
+    on decks for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- rls policies for tags table
+create policy "Users can view their own tags"
+    on tags for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own tags"
+    on tags for insert
+    to authenticated
+    with check (user_id = auth.uid());
+
+create policy "Users can update their own tags"
+    on tags for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can delete their own tags"
+    on tags for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- rls policies for flashcards table
+-- the deck and generation of a flashcard must belong to the same user
+create policy "Users can view their own flashcards"
+    on flashcards for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own flashcards"
+    on flashcards for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and (deck_id is null
+            or exists (select 1 from decks where decks.id = deck_id and decks.user_id = auth.uid()))
+        and (generation_id is null
+            or exists (select 1 from generations
+                where generations.id = generation_id and generations.user_id = auth.uid()))
+    );
+
+create policy "Users can update their own flashcards"
+    on flashcards for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (
+        user_id = auth.uid()
+        and (deck_id is null
+            or exists (select 1 from decks where decks.id = deck_id and decks.user_id = auth.uid()))
+        and (generation_id is null
+            or exists (select 1 from generations
+                where generations.id = generation_id and generations.user_id = auth.uid()))
+    );
+
+create policy "Users can delete their own flashcards"
+    on flashcards for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- rls policies for generation_error_logs table
+create policy "Users can view their own error logs"
+    on generation_error_logs for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own error logs"
+    on generation_error_logs for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and (generation_id is null
+            or exists (select 1 from generations
+                where generations.id = generation_id and generations.user_id = auth.uid()))
+    );
+
+create policy "Users can update their own error logs"
+    on generation_error_logs for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (
+        user_id = auth.uid()
+        and (generation_id is null
+            or exists (select 1 from generations
+                where generations.id = generation_id and generations.user_id = auth.uid()))
+    );
+
+create policy "Users can delete their own error logs"
+    on generation_error_logs for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- rls policies for review_states table
+create policy "Users can view their own review states"
+    on review_states for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own review states"
+    on review_states for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from flashcards
+            where flashcards.id = flashcard_id and flashcards.user_id = auth.uid())
+    );
+
+create policy "Users can update their own review states"
+    on review_states for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from flashcards
+            where flashcards.id = flashcard_id and flashcards.user_id = auth.uid())
+    );
+
+create policy "Users can delete their own review states"
+    on review_states for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- rls policies for generation_proposals table
+create policy "Users can view their own generation proposals"
+    on generation_proposals for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own generation proposals"
+    on generation_proposals for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from generations
+            where generations.id = generation_id and generations.user_id = auth.uid())
+        and (flashcard_id is null
+            or exists (select 1 from flashcards
+                where flashcards.id = flashcard_id and flashcards.user_id = auth.uid()))
+    );
+
+create policy "Users can update their own generation proposals"
+    on generation_proposals for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from generations
+            where generations.id = generation_id and generations.user_id = auth.uid())
+        and (flashcard_id is null
+            or exists (select 1 from flashcards
+                where flashcards.id = flashcard_id and flashcards.user_id = auth.uid()))
+    );
+
+create policy "Users can delete their own generation proposals"
+    on generation_proposals for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- rls policies for flashcard_tags table
+-- both the flashcard and the tag must belong to the user
+create policy "Users can view their own flashcard tags"
+    on flashcard_tags for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own flashcard tags"
+    on flashcard_tags for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from flashcards
+            where flashcards.id = flashcard_id and flashcards.user_id = auth.uid())
+        and exists (select 1 from tags where tags.id = tag_id and tags.user_id = auth.uid())
+    );
+
+create policy "Users can update their own flashcard tags"
+    on flashcard_tags for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (
+        user_id = auth.uid()
+        and exists (select 1 from flashcards
+            where flashcards.id = flashcard_id and flashcards.user_id = auth.uid())
+        and exists (select 1 from tags where tags.id = tag_id and tags.user_id = auth.uid())
+    );
+
+create policy "Users can delete their own flashcard tags"
+    on flashcard_tags for delete
+    to authenticated
+    using (user_id = auth.uid());
+
+-- rls policies for account_deletions table
+-- requests are audit records: users can create and cancel their own pending request,
+-- completing and deleting them is left to purge_expired_account_deletions
+create policy "Users can view their own account deletions"
+    on account_deletions for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can request deletion of their own account"
+    on account_deletions for insert
+    to authenticated
+    with check (
+        user_id = auth.uid()
+        and status = 'pending'
+        and completed_at is null
+        and deleted_counts is null
+    );
+
+create policy "Users can cancel their own pending account deletion"
+    on account_deletions for update
+    to authenticated
+    using (user_id = auth.uid() and status = 'pending')
+    with check (user_id = auth.uid() and status = 'cancelled');
+
+-- cancelling may only touch the status and the cancellation time
+revoke update on account_deletions from authenticated;
+grant update (status, cancelled_at) on account_deletions to authenticated;
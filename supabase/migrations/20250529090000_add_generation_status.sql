@@ -0,0 +1,14 @@
+-- Migration: Generation status
+-- Description: Records whether a generation finished, failed or was cancelled by the user.
+--              Generations created before this migration are considered completed.
+-- Tables: generations
+-- Author: 10xCard
+-- Date: 2025-05-29
+
+alter table generations
+    add column status varchar(16) not null default 'completed',
+    add constraint generations_status_check
+        check (status in ('pending', 'completed', 'failed', 'cancelled'));
+
+-- new generations start as pending until the ai response has been stored
+alter table generations alter column status set default 'pending';
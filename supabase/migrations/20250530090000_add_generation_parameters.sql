@@ -0,0 +1,22 @@
+-- Migration: Generation parameters
+-- Description: Stores the parameters a generation was requested with (card count, difficulty,
+--              output language and focus instruction), so that its results can be reproduced.
+--              Generations created before this migration keep null values.
+-- Tables: generations
+-- Author: 10xCard
+-- Date: 2025-05-30
+
+alter table generations
+    -- number of flashcards requested from the ai (chosen by the user or derived from the text length)
+    add column card_count integer,
+    -- null means no difficulty was requested
+    add column difficulty varchar(16),
+    -- iso 639-1 code; null means the language of the source text
+    add column language varchar(8),
+    add column focus text,
+    add constraint generations_card_count_check
+        check (card_count between 1 and 20),
+    add constraint generations_difficulty_check
+        check (difficulty in ('easy', 'medium', 'hard')),
+    add constraint generations_focus_check
+        check (char_length(focus) <= 500);
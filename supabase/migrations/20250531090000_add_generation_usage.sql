@@ -0,0 +1,23 @@
+-- Migration: Generation token usage and cost
+-- Description: Stores the tokens reported by openrouter for every completed generation and the
+--              cost computed from the per-token prices of the model, so that monthly usage can
+--              be summarised per user. Generations without a usage report keep null values.
+-- Tables: generations
+-- Author: 10xCard
+-- Date: 2025-05-31
+
+alter table generations
+    add column prompt_tokens integer,
+    add column completion_tokens integer,
+    -- usd; null when the prices of the model were not known
+    add column cost numeric(12, 8),
+    add constraint generations_prompt_tokens_check
+        check (prompt_tokens >= 0),
+    add constraint generations_completion_tokens_check
+        check (completion_tokens >= 0),
+    add constraint generations_cost_check
+        check (cost >= 0);
+
+-- monthly summaries read the generations of a user by creation date
+drop index if exists idx_generations_user_id;
+create index idx_generations_user_id_created_at on generations(user_id, created_at);
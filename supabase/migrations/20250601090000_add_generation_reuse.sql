@@ -0,0 +1,45 @@
+-- Migration: Reuse of generation results
+-- Description: Stores a hash of the source text together with the model and parameters of every
+--              generation, so that a repeated request can be answered with the proposals of an
+--              earlier one instead of calling the ai again. Generations answered that way are
+--              marked as reused; they use no tokens and do not count towards the quota.
+-- Tables: generations
+-- Author: 10xCard
+-- Date: 2025-06-01
+
+alter table generations
+    -- sha-256 of the source text hash, model and parameters; null for older generations
+    add column request_hash char(64),
+    add column reused boolean not null default false;
+
+-- reusable generations are looked up by request
+create index idx_generations_request_hash on generations(request_hash);
+
+-- proposals of the latest completed generation of any user for the same request.
+-- rls only lets users read their own generations; the request hash can only be known
+-- to a caller who has the same source text, so nothing is revealed beyond the proposals.
+create or replace function find_shared_generation_proposals(p_request_hash char(64))
+returns table (
+    "position" integer,
+    original_front text,
+    original_back text,
+    suggested_tags text[],
+    generated_at timestamptz
+) as $$
+    with source as (
+        select id, created_at from generations
+        where request_hash = p_request_hash
+            and status = 'completed'
+            and not reused
+            and generated_count > 0
+        order by created_at desc
+        limit 1
+    )
+    select p.position, p.original_front, p.original_back, p.suggested_tags, source.created_at
+    from generation_proposals p
+    join source on source.id = p.generation_id
+    order by p.position;
+$$ language sql stable security definer set search_path = public;
+
+revoke execute on function find_shared_generation_proposals(char) from public, anon;
+grant execute on function find_shared_generation_proposals(char) to authenticated;
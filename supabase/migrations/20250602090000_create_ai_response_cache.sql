@@ -0,0 +1,44 @@
+-- Migration: AI response cache
+-- Description: Persistent cache of openrouter chat responses, so that a repeated request is
+--              answered without calling the ai even when it reaches another server instance.
+--              Entries belong to the user whose request filled them and expire after a ttl.
+-- Tables: ai_response_cache
+-- Author: 10xCard
+-- Date: 2025-06-02
+
+create table ai_response_cache (
+    user_id uuid not null default auth.uid() references auth.users(id) on delete cascade,
+    -- sha-256 of the request (messages, model, response format and parameters)
+    key char(64) not null,
+    response jsonb not null,
+    expires_at timestamptz not null,
+    created_at timestamptz not null default now(),
+    primary key (user_id, key)
+);
+
+-- expired entries are removed by expiry date
+create index idx_ai_response_cache_expires_at on ai_response_cache(expires_at);
+
+alter table ai_response_cache enable row level security;
+
+-- rls policies for ai_response_cache table
+create policy "Users can view their own cached responses"
+    on ai_response_cache for select
+    to authenticated
+    using (user_id = auth.uid());
+
+create policy "Users can insert their own cached responses"
+    on ai_response_cache for insert
+    to authenticated
+    with check (user_id = auth.uid());
+
+create policy "Users can update their own cached responses"
+    on ai_response_cache for update
+    to authenticated
+    using (user_id = auth.uid())
+    with check (user_id = auth.uid());
+
+create policy "Users can delete their own cached responses"
+    on ai_response_cache for delete
+    to authenticated
+    using (user_id = auth.uid());
@@ -0,0 +1,26 @@
+-- Migration: Flashcards tag filter
+-- Description: Finds the flashcards labelled with all of the given tags in the database.
+--              The list endpoint queries this function instead of loading the link rows
+--              and sending the matching flashcard IDs back in the request.
+-- Tables: flashcards, flashcard_tags
+-- Author: 10xCard
+-- Date: 2025-06-03
+
+-- flashcards having every one of the given tags (duplicates in p_tag_ids are ignored).
+-- runs with the caller's rights, so rls limits the result to the caller's flashcards;
+-- postgrest can still filter, sort, paginate and embed tags on the returned rows.
+create or replace function flashcards_with_all_tags(p_tag_ids integer[])
+returns setof flashcards as $$
+    select f.*
+    from flashcards f
+    where f.id in (
+        select ft.flashcard_id
+        from flashcard_tags ft
+        where ft.tag_id = any(p_tag_ids)
+        group by ft.flashcard_id
+        having count(distinct ft.tag_id) = (select count(distinct t) from unnest(p_tag_ids) t)
+    );
+$$ language sql stable set search_path = public;
+
+revoke execute on function flashcards_with_all_tags(integer[]) from public, anon;
+grant execute on function flashcards_with_all_tags(integer[]) to authenticated;
@@ -0,0 +1,59 @@
+-- Migration: Atomic daily generation quota
+-- Description: Creates generations through a function that checks the daily quota of the user
+--              in the same transaction as the insert. Concurrent requests of one user are
+--              serialized, so they cannot all pass the check and exceed the limit together.
+-- Tables: generations
+-- Author: 10xCard
+-- Date: 2025-06-04
+
+-- creates a pending generation unless the user has already started p_daily_limit generations
+-- today (midnight utc). reused generations do not call the ai, are inserted directly and are
+-- not counted. a null limit disables the check. runs with the caller's rights, so rls only
+-- lets users create their own generations.
+-- raises sqlstate pt429, which postgrest answers with http 429, when the quota is used up.
+create or replace function create_generation(
+    p_user_id uuid,
+    p_model text,
+    p_source_text_hash char(64),
+    p_source_text_length integer,
+    p_request_hash char(64),
+    p_card_count integer,
+    p_difficulty varchar(16),
+    p_language varchar(8),
+    p_focus text,
+    p_daily_limit integer
+) returns integer as $$
+declare
+    v_started integer;
+    v_id integer;
+begin
+    if p_daily_limit is not null then
+        -- held until the end of the transaction, i.e. until the new generation is committed
+        perform pg_advisory_xact_lock(hashtext('create_generation:' || p_user_id::text));
+
+        select count(*) into v_started
+        from generations
+        where user_id = p_user_id
+            and not reused
+            and created_at >= date_trunc('day', now() at time zone 'utc') at time zone 'utc';
+
+        if v_started >= p_daily_limit then
+            raise exception 'Daily generation quota exceeded' using errcode = 'PT429';
+        end if;
+    end if;
+
+    insert into generations (
+        user_id, model, source_text_hash, source_text_length, generated_count, accepted_count,
+        status, request_hash, reused, card_count, difficulty, language, focus
+    ) values (
+        p_user_id, p_model, p_source_text_hash, p_source_text_length, 0, 0,
+        'pending', p_request_hash, false, p_card_count, p_difficulty, p_language, p_focus
+    )
+    returning id into v_id;
+
+    return v_id;
+end;
+$$ language plpgsql set search_path = public;
+
+revoke execute on function create_generation(uuid, text, char, integer, char, integer, varchar, varchar, text, integer) from public, anon;
+grant execute on function create_generation(uuid, text, char, integer, char, integer, varchar, varchar, text, integer) to authenticated;
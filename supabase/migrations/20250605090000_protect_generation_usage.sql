@@ -0,0 +1,69 @@
+-- Migration: Protect generation usage
+-- Description: The quotas are computed from the generations of a user (reused, created_at, status
+--              and the token columns). Users could rewrite or delete those rows through the api
+--              and so reset their quotas. They may now only update the accepted count directly;
+--              a generation is completed or ended once, through functions, and is never deleted
+--              by the user (the account deletion purge still removes it).
+-- Tables: generations
+-- Author: 10xCard
+-- Date: 2025-06-05
+
+-- recording decisions only updates the accepted count
+revoke update on generations from authenticated;
+grant update (accepted_count) on generations to authenticated;
+
+drop policy "Users can delete their own generations" on generations;
+revoke delete on generations from authenticated;
+
+-- stores the results of a pending generation of the caller: the proposal count, the model that
+-- generated them, the duration and the reported usage. returns false when the generation does
+-- not exist, belongs to another user or has already ended, so usage cannot be rewritten later.
+create or replace function complete_generation(
+    p_generation_id integer,
+    p_generated_count integer,
+    p_model text,
+    p_duration integer,
+    p_prompt_tokens integer,
+    p_completion_tokens integer,
+    p_cost numeric
+) returns boolean as $$
+begin
+    update generations
+    set status = 'completed',
+        generated_count = p_generated_count,
+        model = p_model,
+        duration = p_duration,
+        prompt_tokens = p_prompt_tokens,
+        completion_tokens = p_completion_tokens,
+        cost = p_cost
+    where id = p_generation_id
+        and user_id = auth.uid()
+        and status = 'pending';
+
+    return found;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+-- marks a pending generation of the caller as failed or cancelled.
+-- returns false when there is no such generation or it has already ended.
+create or replace function end_generation(p_generation_id integer, p_status varchar(16))
+returns boolean as $$
+begin
+    if p_status not in ('failed', 'cancelled') then
+        raise exception 'Invalid final status: %', p_status using errcode = '22023';
+    end if;
+
+    update generations
+    set status = p_status
+    where id = p_generation_id
+        and user_id = auth.uid()
+        and status = 'pending';
+
+    return found;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+revoke execute on function complete_generation(integer, integer, text, integer, integer, integer, numeric) from public, anon;
+grant execute on function complete_generation(integer, integer, text, integer, integer, integer, numeric) to authenticated;
+revoke execute on function end_generation(integer, varchar) from public, anon;
+grant execute on function end_generation(integer, varchar) to authenticated;
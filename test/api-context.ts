@@ -0,0 +1,48 @@
+import type { APIContext } from 'astro';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../src/db/database.types';
+
+export const TEST_USER_ID = 'user-1';
+
+interface ApiContextOptions {
+  supabase?: SupabaseClient<Database>;
+  /** Signed-in user; `null` for an anonymous request */
+  userId?: string | null;
+  url?: string;
+  method?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+  params?: Record<string, string>;
+}
+
+/**
+ * Minimal context for calling an API route handler directly, as the middleware would
+ * prepare it: `locals.supabase` and `locals.user`
+ */
+export function createApiContext({
+  supabase,
+  userId = TEST_USER_ID,
+  url = 'http://localhost/api',
+  method = 'GET',
+  body,
+  headers = {},
+  params = {},
+}: ApiContextOptions = {}): APIContext {
+  const request = new Request(url, {
+    method,
+    headers: body === undefined ? headers : { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  return {
+    request,
+    url: new URL(url),
+    params,
+    locals: {
+      supabase,
+      user: userId ? { id: userId, email: `${userId}@example.com` } : undefined,
+    },
+    cookies: { set: () => undefined, get: () => undefined, delete: () => undefined },
+  } as unknown as APIContext;
+}
@@ -0,0 +1,90 @@
+import { vi } from 'vitest';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+import type { Database } from '../src/db/database.types';
+
+export interface MockQueryResult {
+  data?: unknown;
+  error?: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+/**
+ * A query sent through the mocked client: the table (or function for `rpc`)
+ * and every builder method called on it, in order
+ */
+export interface RecordedQuery {
+  table: string;
+  calls: { method: string; args: unknown[] }[];
+  /** Arguments of the first call of `method`, e.g. `query.args('insert')?.[0]` */
+  args(method: string): unknown[] | undefined;
+  /** Whether `method` was called, optionally with the given arguments */
+  has(method: string, ...args: unknown[]): boolean;
+}
+
+/**
+ * Creates a Supabase client double. Every query builder records its calls and, when awaited,
+ * resolves to what `respond` returns for it (`{ data: null, error: null }` by default).
+ *
+ * @example
+ * ```typescript
+ * const supabase = createSupabaseMock((query) =>
+ *   query.table === 'tags' && query.has('delete') ? { data: [{ id: 1 }] } : undefined
+ * );
+ * await new TagsService(supabase.client).deleteTag(1, 'user-1');
+ * expect(supabase.queries[0].has('eq', 'user_id', 'user-1')).toBe(true);
+ * ```
+ */
+export function createSupabaseMock(
+  respond: (query: RecordedQuery) => MockQueryResult | undefined = () => undefined
+) {
+  const queries: RecordedQuery[] = [];
+
+  const createBuilder = (table: string, initialCall?: { method: string; args: unknown[] }) => {
+    const query: RecordedQuery = {
+      table,
+      calls: initialCall ? [initialCall] : [],
+      args: (method) => query.calls.find((call) => call.method === method)?.args,
+      has: (method, ...args) =>
+        query.calls.some(
+          (call) =>
+            call.method === method &&
+            args.every((arg, index) => JSON.stringify(call.args[index]) === JSON.stringify(arg))
+        ),
+    };
+    queries.push(query);
+
+    const builder: object = new Proxy(
+      {},
+      {
+        get(_, method: string) {
+          if (method === 'then') {
+            const result = { data: null, error: null, count: null, ...respond(query) };
+            return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+              Promise.resolve(result).then(resolve, reject);
+          }
+          return (...args: unknown[]) => {
+            query.calls.push({ method, args });
+            return builder;
+          };
+        },
+      }
+    );
+    return builder;
+  };
+
+  const auth = {
+    getUser: vi.fn(),
+    getSession: vi.fn(),
+    signInWithPassword: vi.fn(),
+    signOut: vi.fn(),
+  };
+
+  const client = {
+    from: (table: string) => createBuilder(table),
+    rpc: (fn: string, ...args: unknown[]) => createBuilder(fn, { method: 'rpc', args }),
+    auth,
+  } as unknown as SupabaseClient<Database>;
+
+  return { client, queries, auth };
+}